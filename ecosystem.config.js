@@ -13,6 +13,7 @@ module.exports = {
         NODE_ENV: 'production',
         PORT: 3000,
       },
+      // More instances need SOCKET_ADAPTER=postgres and a separate PORT per instance behind the proxy
       instances: 1,
       exec_mode: 'fork',
       autorestart: true,
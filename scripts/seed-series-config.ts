@@ -35,6 +35,11 @@ const CONFIG_VALUES = [
     value: '3',
     description: 'Maximum episode notifications to send per hour',
   },
+  {
+    key: 'series.maxEpisodesBehind',
+    value: '2',
+    description: 'Unwatched episodes a user may have and still get new episode alerts (the rest get a weekly digest)',
+  },
 ];
 
 async function main() {
@@ -1,4 +1,4 @@
-import { Bot, Context, InlineKeyboard, webhookCallback } from 'grammy';
+import { Bot, Context, InlineKeyboard, InputFile, webhookCallback } from 'grammy';
 import { db } from '../../src/lib/db';
 import {
   users,
@@ -9,9 +9,15 @@ import {
   notificationSettings,
   MOVIE_STATUS,
   MOVIE_SOURCE,
+  NOTIFICATION_TYPE,
+  TITLE_SUBSCRIPTION_STATE,
 } from '../../src/lib/db/schema';
 import { eq, and } from 'drizzle-orm';
 import { tmdb } from '../../src/lib/api/tmdb';
+import { getUserExport, formatUserExport } from '../../src/lib/export/userExport';
+import { markPairWatched } from '../../src/lib/pairs/pairs';
+import { setTitleSubscription } from '../../src/lib/notifications/titleSubscriptions';
+import type { ExportFormat } from '../../src/types/export';
 
 // Types
 export type BotContext = Context;
@@ -66,6 +72,7 @@ function createBot(token: string): Bot<BotContext> {
 /start - Открыть приложение для подбора фильмов
 /help - Показать эту справку
 /bug - Сообщить об ошибке
+/export - Выгрузить свои списки и историю
 
 *Как это работает:*
 1. Открой Mini App через кнопку
@@ -79,6 +86,7 @@ function createBot(token: string): Bot<BotContext> {
 /start - Open the movie matching app
 /help - Show this help message
 /bug - Report an issue
+/export - Download your lists and history
 
 *How it works:*
 1. Open the Mini App via the button
@@ -137,6 +145,23 @@ For the full experience, use the Mini App!`;
     );
   });
 
+  // /export command - pick a format, the file arrives in the chat
+  bot.command('export', async (ctx) => {
+    const isRussian = ctx.from?.language_code === 'ru';
+
+    const keyboard = new InlineKeyboard()
+      .text('JSON', 'export:json')
+      .text('CSV', 'export:csv')
+      .text('Letterboxd', 'export:letterboxd');
+
+    await ctx.reply(
+      isRussian
+        ? '📦 В каком формате выгрузить списки, оценки и историю свайпов?'
+        : '📦 Which format should your lists, ratings and swipe history be exported in?',
+      { reply_markup: keyboard }
+    );
+  });
+
   // Handle text messages (for bug reports)
   bot.on('message:text', async (ctx) => {
     const telegramId = ctx.from?.id;
@@ -294,6 +319,8 @@ For the full experience, use the Mini App!`;
           )
         );
 
+      await markPairWatched(user.id, tmdbId);
+
       // Get movie title for confirmation (already have movie from above)
       const movieTitle =
         isRussian && movie.titleRu
@@ -508,6 +535,35 @@ For the full experience, use the Mini App!`;
     }
   });
 
+  // Callback query: Export format picked
+  bot.callbackQuery(/^export:(json|csv|letterboxd)$/, async (ctx) => {
+    const format = ctx.match[1] as ExportFormat;
+    const telegramId = ctx.from.id;
+    const isRussian = ctx.from.language_code === 'ru';
+
+    try {
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.telegramId, telegramId));
+
+      if (!user) {
+        await ctx.answerCallbackQuery({
+          text: isRussian ? 'Пользователь не найден' : 'User not found',
+        });
+        return;
+      }
+
+      await ctx.answerCallbackQuery();
+      await sendUserExport(telegramId, user.id, format, isRussian);
+    } catch (error) {
+      console.error('Error handling export callback:', error);
+      await ctx.answerCallbackQuery({
+        text: isRussian ? 'Произошла ошибка' : 'An error occurred',
+      });
+    }
+  });
+
   // Callback query: Toggle notification settings - show confirmation dialog
   bot.callbackQuery(/^toggle:(announcements|releases|digital|updates)$/, async (ctx) => {
     const settingType = ctx.match[1];
@@ -613,6 +669,48 @@ For the full experience, use the Mini App!`;
     }
   });
 
+  // Callback query: Mute one show - keeps the notifications for everything else
+  bot.callbackQuery(/^mute:(episodes|seasons):(\d+)$/, async (ctx) => {
+    const kind = ctx.match[1];
+    const tmdbId = parseInt(ctx.match[2], 10);
+    const telegramId = ctx.from.id;
+    const isRussian = ctx.from.language_code === 'ru';
+
+    try {
+      const [user] = await db
+        .select()
+        .from(users)
+        .where(eq(users.telegramId, telegramId));
+
+      if (!user) {
+        await ctx.answerCallbackQuery({
+          text: isRussian ? 'Пользователь не найден' : 'User not found',
+        });
+        return;
+      }
+
+      const notificationType =
+        kind === 'episodes' ? NOTIFICATION_TYPE.EPISODE_RELEASE : NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT;
+      await setTitleSubscription(user.id, tmdbId, notificationType, TITLE_SUBSCRIPTION_STATE.MUTE);
+
+      const mutedText = {
+        episodes: isRussian ? 'новых сериях' : 'new episodes',
+        seasons: isRussian ? 'новых сезонах' : 'new seasons',
+      }[kind];
+
+      await ctx.answerCallbackQuery({
+        text: isRussian
+          ? `🔇 Уведомления о ${mutedText} этого сериала отключены`
+          : `🔇 You won't get ${mutedText} alerts for this show`,
+      });
+    } catch (error) {
+      console.error('Error handling mute callback:', error);
+      await ctx.answerCallbackQuery({
+        text: isRussian ? 'Произошла ошибка' : 'An error occurred',
+      });
+    }
+  });
+
   // Callback query: Cancel toggle - just delete the confirmation message
   bot.callbackQuery('cancel_toggle', async (ctx) => {
     try {
@@ -632,6 +730,24 @@ For the full experience, use the Mini App!`;
   return bot;
 }
 
+/**
+ * Send a user's data export to their Telegram chat as a file
+ */
+export async function sendUserExport(
+  telegramId: number,
+  userId: string,
+  format: ExportFormat,
+  isRussian: boolean
+): Promise<void> {
+  const file = formatUserExport(await getUserExport(userId), format);
+
+  await getBot().api.sendDocument(
+    telegramId,
+    new InputFile(Buffer.from(file.content), file.fileName),
+    { caption: isRussian ? '📦 Ваши данные Filmber' : '📦 Your Filmber data' }
+  );
+}
+
 // Webhook handler for production (used by API route)
 export function createWebhookHandler() {
   const bot = getBot();
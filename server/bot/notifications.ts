@@ -1,5 +1,5 @@
 import { InlineKeyboard } from 'grammy';
-import type { UpcomingMovie } from '@/lib/db/schema';
+import { NOTIFICATION_TYPE, type UpcomingMovie } from '@/lib/db/schema';
 import { formatReleaseDate } from '@/lib/api/release-dates';
 
 export interface NotificationMessage {
@@ -23,14 +23,21 @@ export interface MovieNotificationData {
 
 const POSTER_BASE_URL = 'https://image.tmdb.org/t/p/w500';
 
+/**
+ * Get Mini App URL that opens the app's start screen
+ */
+function getAppUrl(): string {
+  const botUsername = process.env.NEXT_PUBLIC_TELEGRAM_BOT_USERNAME || 'filmberonline_bot';
+  const miniAppName = process.env.NEXT_PUBLIC_TELEGRAM_MINI_APP_NAME || 'app';
+  return `https://t.me/${botUsername}/${miniAppName}`;
+}
+
 /**
  * Get Mini App URL for movie details with locale
  * Format: startapp=ru_movie_123 or startapp=en_movie_123
  */
 function getMovieAppUrl(tmdbId: number, locale: 'ru' | 'en' = 'ru'): string {
-  const botUsername = process.env.NEXT_PUBLIC_TELEGRAM_BOT_USERNAME || 'filmberonline_bot';
-  const miniAppName = process.env.NEXT_PUBLIC_TELEGRAM_MINI_APP_NAME || 'app';
-  return `https://t.me/${botUsername}/${miniAppName}?startapp=${locale}_movie_${tmdbId}`;
+  return `${getAppUrl()}?startapp=${locale}_movie_${tmdbId}`;
 }
 
 /**
@@ -38,9 +45,7 @@ function getMovieAppUrl(tmdbId: number, locale: 'ru' | 'en' = 'ru'): string {
  * Format: startapp=ru_tv_123 or startapp=en_tv_123
  */
 function getSeriesAppUrl(tmdbId: number, locale: 'ru' | 'en' = 'ru'): string {
-  const botUsername = process.env.NEXT_PUBLIC_TELEGRAM_BOT_USERNAME || 'filmberonline_bot';
-  const miniAppName = process.env.NEXT_PUBLIC_TELEGRAM_MINI_APP_NAME || 'app';
-  return `https://t.me/${botUsername}/${miniAppName}?startapp=${locale}_tv_${tmdbId}`;
+  return `${getAppUrl()}?startapp=${locale}_tv_${tmdbId}`;
 }
 
 /**
@@ -191,6 +196,7 @@ export function formatSeasonAnnouncementMessage(
   const keyboard = new InlineKeyboard()
     .url(isRussian ? '🎬 Подробнее' : '🎬 Details', getSeriesAppUrl(series.tmdbId, locale))
     .row()
+    .text(isRussian ? '🔇 Заглушить сериал' : '🔇 Mute this show', `mute:seasons:${series.tmdbId}`)
     .text(isRussian ? '🔕 Отписаться' : '🔕 Unsubscribe', 'toggle:series_seasons');
 
   return {
@@ -218,6 +224,7 @@ export function formatEpisodeReleaseMessage(
   const keyboard = new InlineKeyboard()
     .url(isRussian ? '🎬 Подробнее' : '🎬 Details', getSeriesAppUrl(series.tmdbId, locale))
     .row()
+    .text(isRussian ? '🔇 Заглушить сериал' : '🔇 Mute this show', `mute:episodes:${series.tmdbId}`)
     .text(isRussian ? '🔕 Отписаться' : '🔕 Unsubscribe', 'toggle:series_episodes');
 
   return {
@@ -227,6 +234,158 @@ export function formatEpisodeReleaseMessage(
   };
 }
 
+export interface SeriesDigestEntry {
+  title: string;
+  titleRu?: string | null;
+  tmdbId: number;
+  episodesBehind: number;
+}
+
+/**
+ * Format the weekly digest of series the user has fallen behind on
+ */
+export function formatEpisodeDigestMessage(
+  entries: SeriesDigestEntry[],
+  isRussian: boolean
+): NotificationMessage {
+  const locale = isRussian ? 'ru' : 'en';
+  const lines = entries.map((entry) => {
+    const title = escapeHtml(isRussian && entry.titleRu ? entry.titleRu : entry.title);
+    return isRussian
+      ? `• <b>${title}</b> — непросмотренных серий: ${entry.episodesBehind}`
+      : `• <b>${title}</b> — ${entry.episodesBehind} episode${entry.episodesBehind === 1 ? '' : 's'} behind`;
+  });
+
+  const text = isRussian
+    ? `📺 <b>Серии ждут вас</b>\n\n${lines.join('\n')}\n\nОтметьте просмотренное, чтобы снова получать уведомления о новых сериях.`
+    : `📺 <b>Episodes waiting for you</b>\n\n${lines.join('\n')}\n\nMark what you've watched to get new episode alerts again.`;
+
+  const keyboard = new InlineKeyboard();
+  for (const entry of entries.slice(0, 3)) {
+    const title = isRussian && entry.titleRu ? entry.titleRu : entry.title;
+    keyboard.url(`🎬 ${truncateText(title, 30)}`, getSeriesAppUrl(entry.tmdbId, locale)).row();
+  }
+  keyboard.text(isRussian ? '🔕 Отписаться' : '🔕 Unsubscribe', 'toggle:series_episodes');
+
+  return { text, keyboard };
+}
+
+// ============================================
+// NOTIFICATION DIGEST FORMATTERS
+// ============================================
+
+// Telegram limits: text length of one message, photos in one album
+const MESSAGE_MAX_LENGTH = 4096;
+const MEDIA_GROUP_MAX_SIZE = 10;
+
+export interface DigestNotificationItem {
+  type: string; // NOTIFICATION_TYPE value
+  content: MovieNotificationData | SeriesNotificationData;
+}
+
+export interface NotificationDigestMessage {
+  // Posters sent as one album before the text - empty with fewer than two
+  photoUrls: string[];
+  // Text parts within the message limit; the keyboard goes on the last one
+  texts: string[];
+  keyboard: InlineKeyboard;
+}
+
+const DIGEST_SECTIONS = [
+  { type: NOTIFICATION_TYPE.THEATRICAL_RELEASE, en: '🎥 Now in theaters', ru: '🎥 Сегодня в кино' },
+  { type: NOTIFICATION_TYPE.DIGITAL_RELEASE, en: '📺 Now available digitally', ru: '📺 Доступны в цифре' },
+  { type: NOTIFICATION_TYPE.EPISODE_RELEASE, en: '🎬 New episodes', ru: '🎬 Новые серии' },
+  { type: NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT, en: '📺 New seasons', ru: '📺 Новые сезоны' },
+  { type: NOTIFICATION_TYPE.ANNOUNCEMENT, en: '🎬 New announcements', ru: '🎬 Новые анонсы' },
+];
+
+/**
+ * Format a daily or weekly digest of release notifications, grouped by type
+ */
+export function formatNotificationDigest(
+  items: DigestNotificationItem[],
+  period: 'daily' | 'weekly',
+  isRussian: boolean
+): NotificationDigestMessage {
+  const header = isRussian
+    ? `📬 <b>${period === 'daily' ? 'Дайджест за день' : 'Дайджест за неделю'}</b>`
+    : `📬 <b>Your ${period} digest</b>`;
+
+  // A section heading travels with its first line so it never ends a message
+  const blocks = [header];
+  for (const section of DIGEST_SECTIONS) {
+    const lines = items
+      .filter((item) => item.type === section.type)
+      .map((item) => formatDigestLine(item, isRussian));
+    if (lines.length === 0) continue;
+
+    blocks.push(`\n<b>${isRussian ? section.ru : section.en}</b>\n${lines[0]}`, ...lines.slice(1));
+  }
+
+  const photoUrls = items
+    .filter((item) => item.content.posterPath)
+    .slice(0, MEDIA_GROUP_MAX_SIZE)
+    .map((item) => `${POSTER_BASE_URL}${item.content.posterPath}`);
+
+  const keyboard = new InlineKeyboard().url(
+    isRussian ? '🎬 Открыть Filmber' : '🎬 Open Filmber',
+    getAppUrl()
+  );
+
+  return {
+    photoUrls: photoUrls.length >= 2 ? photoUrls : [],
+    texts: packMessageBlocks(blocks),
+    keyboard,
+  };
+}
+
+/**
+ * One line of the digest linking to the title in the Mini App
+ */
+function formatDigestLine(item: DigestNotificationItem, isRussian: boolean): string {
+  const { content } = item;
+  const locale = isRussian ? 'ru' : 'en';
+  const title = escapeHtml(truncateText(isRussian && content.titleRu ? content.titleRu : content.title, 100));
+
+  if ('seasonNumber' in content) {
+    const link = `<a href="${getSeriesAppUrl(content.tmdbId, locale)}">${title}</a>`;
+    if (item.type === NOTIFICATION_TYPE.EPISODE_RELEASE && content.episodeNumber) {
+      return `• ${link} — S${content.seasonNumber}E${content.episodeNumber}`;
+    }
+    return `• ${link} — ${isRussian ? 'сезон' : 'season'} ${content.seasonNumber}`;
+  }
+
+  const link = `<a href="${getMovieAppUrl(content.tmdbId, locale)}">${title}</a>`;
+  if (item.type === NOTIFICATION_TYPE.ANNOUNCEMENT) {
+    const releaseDate = isRussian
+      ? content.theatricalReleaseRu || content.theatricalReleaseUs
+      : content.theatricalReleaseUs || content.theatricalReleaseRu;
+    if (releaseDate) return `• ${link} — 📅 ${formatReleaseDate(releaseDate, locale)}`;
+  }
+  return `• ${link}`;
+}
+
+/**
+ * Join text blocks line by line into as few messages as fit Telegram's limit
+ */
+function packMessageBlocks(blocks: string[]): string[] {
+  const messages: string[] = [];
+  let current = '';
+
+  for (const block of blocks) {
+    const next = current ? `${current}\n${block}` : block.trimStart();
+    if (next.length <= MESSAGE_MAX_LENGTH) {
+      current = next;
+    } else {
+      messages.push(current);
+      current = block.trimStart();
+    }
+  }
+
+  if (current) messages.push(current);
+  return messages;
+}
+
 /**
  * Escape HTML special characters for Telegram
  */
@@ -7,7 +7,8 @@ import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
 import { Server as SocketIOServer } from 'socket.io';
-import type { ClientToServerEvents, ServerToClientEvents } from '../src/types/socket';
+import type { DefaultEventsMap } from 'socket.io';
+import type { ClientToServerEvents, ServerToClientEvents, SocketData } from '../src/types/socket';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = process.env.HOSTNAME || '0.0.0.0';
@@ -19,13 +20,14 @@ const handle = app.getRequestHandler();
 app.prepare().then(async () => {
   // Dynamic import to ensure DATABASE_URL is available
   const { setupSocketHandlers } = await import('../src/lib/socket/handlers');
+  const { createSocketAdapter } = await import('../src/lib/socket/adapters');
 
   const httpServer = createServer((req, res) => {
     const parsedUrl = parse(req.url!, true);
     handle(req, res, parsedUrl);
   });
 
-  const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(
+  const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>(
     httpServer,
     {
       path: '/api/socket',
@@ -33,6 +35,8 @@ app.prepare().then(async () => {
         origin: process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000',
         methods: ['GET', 'POST'],
       },
+      // SOCKET_ADAPTER=postgres shares rooms across several server processes
+      adapter: createSocketAdapter(),
     }
   );
 
@@ -0,0 +1,240 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuthStore } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader } from '@/components/ui/Loader';
+
+interface Collection {
+  id: string;
+  name: string;
+  itemCount: number;
+  updatedAt: string;
+}
+
+interface CollectionItem {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+}
+
+// One title per line: "603" for a movie, "tv:1399" for a series
+function formatItems(items: CollectionItem[]): string {
+  return items
+    .map((item) => (item.mediaType === 'tv' ? `tv:${item.tmdbId}` : String(item.tmdbId)))
+    .join('\n');
+}
+
+function parseItems(text: string): CollectionItem[] | null {
+  const items: CollectionItem[] = [];
+  for (const line of text.split('\n').map((l) => l.trim()).filter(Boolean)) {
+    const match = line.match(/^(?:(movie|tv):)?(\d+)$/);
+    if (!match) return null;
+    items.push({ mediaType: match[1] === 'tv' ? 'tv' : 'movie', tmdbId: Number(match[2]) });
+  }
+  return items;
+}
+
+export default function CollectionsPage() {
+  const token = useAuthStore((state) => state.token);
+
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newName, setNewName] = useState('');
+
+  // Editor state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [itemsText, setItemsText] = useState('');
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchCollections = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await fetch('/api/admin/collections', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setCollections(data.collections);
+      }
+    } catch (error) {
+      console.error('Failed to fetch collections:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    fetchCollections();
+  }, [fetchCollections]);
+
+  const handleCreate = async () => {
+    if (!token || !newName.trim()) return;
+
+    try {
+      const response = await fetch('/api/admin/collections', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newName }),
+      });
+
+      if (response.ok) {
+        setNewName('');
+        fetchCollections();
+      }
+    } catch (error) {
+      console.error('Failed to create collection:', error);
+    }
+  };
+
+  const handleEdit = async (id: string) => {
+    if (!token) return;
+
+    setEditingId(id);
+    setItemsText('');
+    setEditorError(null);
+
+    try {
+      const response = await fetch(`/api/admin/collections/${id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.ok) {
+        const data = await response.json();
+        setItemsText(formatItems(data.items));
+      }
+    } catch (error) {
+      console.error('Failed to fetch collection:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!token || !editingId) return;
+
+    const items = parseItems(itemsText);
+    if (!items) {
+      setEditorError('Each line must be a TMDB id, optionally prefixed with "movie:" or "tv:"');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/collections/${editingId}`, {
+        method: 'PATCH',
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ items }),
+      });
+
+      if (response.ok) {
+        setEditingId(null);
+        fetchCollections();
+      } else {
+        const data = await response.json();
+        setEditorError(data.error);
+      }
+    } catch {
+      setEditorError('Failed to save collection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!token || !confirm('Delete this collection?')) return;
+
+    try {
+      await fetch(`/api/admin/collections/${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (editingId === id) setEditingId(null);
+      fetchCollections();
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-xl font-semibold">Curated Collections</h2>
+      <p className="text-sm text-muted-foreground">
+        Room creators can pick these as a source for the swipe deck.
+      </p>
+
+      <div className="flex gap-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New collection name..."
+          maxLength={100}
+        />
+        <Button onClick={handleCreate} disabled={!newName.trim()}>
+          Create
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader />
+        </div>
+      ) : collections.length === 0 ? (
+        <p className="py-4 text-center text-muted-foreground">No collections yet</p>
+      ) : (
+        <div className="space-y-4">
+          {collections.map((collection) => (
+            <Card key={collection.id}>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span>{collection.name}</span>
+                  <span className="text-xs font-normal text-muted-foreground">
+                    {collection.itemCount} titles
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {editingId === collection.id ? (
+                  <div className="space-y-2">
+                    <textarea
+                      value={itemsText}
+                      onChange={(e) => setItemsText(e.target.value)}
+                      placeholder={'603\ntv:1399'}
+                      className="h-48 w-full resize-none rounded-lg border border-border bg-background p-3 font-mono text-sm"
+                    />
+                    {editorError && <p className="text-sm text-red-500">{editorError}</p>}
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                        {isSaving ? 'Saving...' : 'Save'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Cancel
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => handleEdit(collection.id)}>
+                      Edit titles
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(collection.id)}>
+                      Delete
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
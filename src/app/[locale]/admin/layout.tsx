@@ -11,6 +11,7 @@ import {
   GridIcon,
   TelegramIcon,
   Notification03Icon,
+  LibraryIcon,
 } from '@hugeicons/core-free-icons';
 
 const navItems = [
@@ -18,6 +19,7 @@ const navItems = [
   { href: '/admin/users', label: 'Users', icon: UserMultiple02Icon },
   { href: '/admin/rooms', label: 'Rooms', icon: GridIcon },
   { href: '/admin/movies', label: 'Movies', icon: Film02Icon },
+  { href: '/admin/collections', label: 'Collections', icon: LibraryIcon },
   { href: '/admin/bot', label: 'Bot', icon: TelegramIcon },
   { href: '/admin/notifications', label: 'Notifications', icon: Notification03Icon },
 ];
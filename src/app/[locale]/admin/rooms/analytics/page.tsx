@@ -25,6 +25,8 @@ interface TimeRangeStats {
   swipes: {
     total: number;
     avgToMatch: number;
+    superLikes: number;
+    vetoes: number;
   };
   topMatches: Array<{ movieId: number; count: number }>;
 }
@@ -191,6 +193,16 @@ export default function RoomAnalyticsPage() {
           value={stats.swipes.avgToMatch || '-'}
           subtitle={`${stats.swipes.total} total swipes`}
         />
+        <StatCard
+          title="Super Likes"
+          value={stats.swipes.superLikes}
+          subtitle={stats.swipes.total > 0 ? `${((stats.swipes.superLikes / stats.swipes.total) * 100).toFixed(1)}% of swipes` : undefined}
+        />
+        <StatCard
+          title="Vetoes"
+          value={stats.swipes.vetoes}
+          subtitle={stats.swipes.total > 0 ? `${((stats.swipes.vetoes / stats.swipes.total) * 100).toFixed(1)}% of swipes` : undefined}
+        />
       </div>
 
       {/* Funnel & Status */}
@@ -273,7 +285,7 @@ export default function RoomAnalyticsPage() {
                 <span className="font-medium">{stats.auth.withAuth}</span>
               </div>
               <div className="flex justify-between items-center">
-                <span className="text-sm">Both authenticated</span>
+                <span className="text-sm">All authenticated</span>
                 <span className="font-medium">{stats.auth.bothAuth}</span>
               </div>
               {stats.totalRooms > 0 && (
@@ -9,10 +9,10 @@ interface RoomData {
   id: string;
   code: string;
   status: string;
-  userAConnected: boolean;
-  userBConnected: boolean;
-  userAId: string | null;
-  userBId: string | null;
+  maxParticipants: number;
+  matchRule: string;
+  participantCount: number;
+  connectedCount: number;
   matchedMovieId: number | null;
   createdAt: string;
   expiresAt: string | null;
@@ -78,15 +78,22 @@ export default function RoomsPage() {
             key: 'users',
             header: 'Users',
             render: (item) => (
-              <div className="flex gap-1">
-                <span
-                  className={`h-2 w-2 rounded-full ${item.userAConnected ? 'bg-green-500' : 'bg-gray-300'}`}
-                  title="User A"
-                />
-                <span
-                  className={`h-2 w-2 rounded-full ${item.userBConnected ? 'bg-green-500' : 'bg-gray-300'}`}
-                  title="User B"
-                />
+              <div
+                className="flex gap-1"
+                title={`${item.connectedCount}/${item.participantCount} connected, ${item.matchRule}`}
+              >
+                {Array.from({ length: item.maxParticipants }, (_, i) => (
+                  <span
+                    key={i}
+                    className={`h-2 w-2 rounded-full ${
+                      i < item.connectedCount
+                        ? 'bg-green-500'
+                        : i < item.participantCount
+                          ? 'bg-gray-400'
+                          : 'bg-gray-200'
+                    }`}
+                  />
+                ))}
               </div>
             ),
             className: 'text-center',
@@ -0,0 +1,24 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { AuthGuard } from '@/components/auth';
+import { MatchHistoryList } from '@/components/matches';
+import { H4, Muted } from '@/components/ui/typography';
+
+export default function MatchesPage() {
+  const t = useTranslations('matches');
+
+  return (
+    <AuthGuard>
+      <div className="flex-1 flex flex-col bg-background py-4 min-h-0 overflow-y-auto">
+        <div className="mx-auto max-w-2xl w-full">
+          <div className="mb-4 px-4">
+            <H4 className="text-foreground">{t('title')}</H4>
+            <Muted>{t('description')}</Muted>
+          </div>
+          <MatchHistoryList />
+        </div>
+      </div>
+    </AuthGuard>
+  );
+}
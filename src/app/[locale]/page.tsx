@@ -10,12 +10,16 @@ import { Loader } from '@/components/ui/Loader';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { H1, Lead, Muted } from '@/components/ui/typography';
 import { DeckSettingsSheet } from '@/components/deck/DeckSettingsSheet';
+import { RoomOptions } from '@/components/room/RoomOptions';
+import { PoolSourceOptions } from '@/components/room/PoolSourceOptions';
 import { useRoomStore } from '@/stores/roomStore';
 import { useSwipeStore } from '@/stores/swipeStore';
 import { useQueueStore } from '@/stores/queueStore';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useAuth } from '@/hooks/useAuth';
 import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
+import type { RoomSettings } from '@/types/room';
+import { DEFAULT_POOL_SOURCES, type PoolSourceSelection } from '@/types/pool';
 
 // Parse room params from startapp parameter (format: room_{code}_{pin})
 function parseRoomParam(startParam?: string): { code: string; pin: string } | null {
@@ -66,6 +70,15 @@ export default function HomePage() {
   const [error, setError] = useState('');
   const [isJoiningRoom, setIsJoiningRoom] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [roomSettings, setRoomSettings] = useState<RoomSettings>({
+    maxParticipants: 2,
+    matchRule: 'unanimous',
+    matchThreshold: null,
+    matchMode: 'single',
+    shortlistSize: null,
+    swipeBudget: null,
+  });
+  const [poolSources, setPoolSources] = useState<PoolSourceSelection[]>(DEFAULT_POOL_SOURCES);
   const joinAttemptedRef = useRef(false);
 
   // Auto-join room from startapp parameter
@@ -83,7 +96,7 @@ export default function HomePage() {
         const response = await fetch(`/api/rooms/${roomParams.code}/join`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ pin: roomParams.pin, viaLink: true }),
+          body: JSON.stringify({ pin: roomParams.pin }),
         });
         const data = await response.json();
 
@@ -91,7 +104,7 @@ export default function HomePage() {
           throw new Error(data.error || 'Failed to join room');
         }
 
-        setRoom(roomParams.code, roomParams.pin, data.userSlot, data.moviePoolSeed);
+        setRoom(roomParams.code, roomParams.pin, data.userSlot, data.moviePoolSeed, data.ticket);
         router.push(`/${locale}/room/${roomParams.code}/swipe`);
       } catch (err) {
         console.error('Auto-join failed:', err);
@@ -141,7 +154,11 @@ export default function HomePage() {
     setError('');
 
     try {
-      const response = await fetch('/api/rooms', { method: 'POST' });
+      const response = await fetch('/api/rooms', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...roomSettings, poolSources }),
+      });
       const data = await response.json();
 
       if (!response.ok) {
@@ -152,7 +169,7 @@ export default function HomePage() {
       const joinResponse = await fetch(`/api/rooms/${data.roomCode}/join`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pin: data.pin, viaLink: true }),
+        body: JSON.stringify({ pin: data.pin }),
       });
       const joinData = await joinResponse.json();
 
@@ -164,7 +181,8 @@ export default function HomePage() {
         data.roomCode,
         data.pin,
         joinData.userSlot,
-        joinData.moviePoolSeed
+        joinData.moviePoolSeed,
+        joinData.ticket
       );
       trackRoomCreated('pair');
       router.push(`/${locale}/room/${data.roomCode}/swipe`);
@@ -219,6 +237,14 @@ export default function HomePage() {
             </Button>
           </div>
 
+          {/* Group size and match rule (pair mode only) */}
+          {mode === 'pair' && (
+            <>
+              <RoomOptions value={roomSettings} onChange={setRoomSettings} />
+              <PoolSourceOptions value={poolSources} onChange={setPoolSources} />
+            </>
+          )}
+
           {/* Pick movie button */}
           <Button
             onClick={handlePickMovie}
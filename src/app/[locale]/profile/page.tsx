@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { useTranslations, useLocale } from 'next-intl';
 import { AuthGuard } from '@/components/auth';
 import { useUser } from '@/stores/authStore';
@@ -10,6 +11,10 @@ import {
   NotificationsOverlay,
   DeckSettingsOverlay,
   WhatsNewOverlay,
+  ImportOverlay,
+  ExportOverlay,
+  CustomListsOverlay,
+  PairsOverlay,
 } from '@/components/profile';
 import { H3, H4, Muted } from '@/components/ui/typography';
 import {
@@ -19,7 +24,7 @@ import {
   SheetTitle,
 } from '@/components/ui/sheet';
 import { HugeiconsIcon } from '@hugeicons/react';
-import { ArrowRight01Icon, LanguageSquareIcon, Notification01Icon, Settings02Icon, Tick02Icon, FavouriteIcon, SparklesIcon, User03Icon } from '@hugeicons/core-free-icons';
+import { ArrowRight01Icon, FileExportIcon, FileImportIcon, LanguageSquareIcon, LeftToRightListBulletIcon, Notification01Icon, Settings02Icon, Tick02Icon, FavouriteIcon, SparklesIcon, User03Icon, UserLove01Icon } from '@hugeicons/core-free-icons';
 import { Button } from '@/components/ui/button';
 import { FadeImage } from '@/components/ui/FadeImage';
 import { localeNames, type Locale } from '@/i18n/config';
@@ -29,6 +34,7 @@ export default function ProfilePage() {
   const t = useTranslations('profile');
   const tAuth = useTranslations('auth');
   const locale = useLocale();
+  const router = useRouter();
   const user = useUser();
   const { isAuthenticated } = useAuth();
   const { switchLocale: globalSwitchLocale } = useLocaleSwitch();
@@ -36,6 +42,10 @@ export default function ProfilePage() {
   const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const [isDeckSettingsOpen, setIsDeckSettingsOpen] = useState(false);
   const [isWhatsNewOpen, setIsWhatsNewOpen] = useState(false);
+  const [isCustomListsOpen, setIsCustomListsOpen] = useState(false);
+  const [isPairsOpen, setIsPairsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
   const handleLocaleChange = (newLocale: string) => {
     if (newLocale === locale) return;
@@ -257,6 +267,36 @@ export default function ProfilePage() {
               label={t('deckSettings', { defaultValue: 'Deck Settings' })}
             />
             <div className="mx-4 border-t border-border" />
+            <MenuButton
+              onClick={() => router.push(`/${locale}/matches`)}
+              icon={<HugeiconsIcon icon={FavouriteIcon} size={20} />}
+              label={t('matchHistory', { defaultValue: 'Match history' })}
+            />
+            <div className="mx-4 border-t border-border" />
+            <MenuButton
+              onClick={() => setIsCustomListsOpen(true)}
+              icon={<HugeiconsIcon icon={LeftToRightListBulletIcon} size={20} />}
+              label={t('customLists', { defaultValue: 'My lists' })}
+            />
+            <div className="mx-4 border-t border-border" />
+            <MenuButton
+              onClick={() => setIsPairsOpen(true)}
+              icon={<HugeiconsIcon icon={UserLove01Icon} size={20} />}
+              label={t('pairs', { defaultValue: 'Shared watchlist' })}
+            />
+            <div className="mx-4 border-t border-border" />
+            <MenuButton
+              onClick={() => setIsImportOpen(true)}
+              icon={<HugeiconsIcon icon={FileImportIcon} size={20} />}
+              label={t('importLists', { defaultValue: 'Import lists' })}
+            />
+            <div className="mx-4 border-t border-border" />
+            <MenuButton
+              onClick={() => setIsExportOpen(true)}
+              icon={<HugeiconsIcon icon={FileExportIcon} size={20} />}
+              label={t('exportData', { defaultValue: 'Export data' })}
+            />
+            <div className="mx-4 border-t border-border" />
             <MenuButton
               onClick={() => setIsWhatsNewOpen(true)}
               icon={<HugeiconsIcon icon={SparklesIcon} size={20} />}
@@ -328,6 +368,22 @@ export default function ProfilePage() {
         isOpen={isDeckSettingsOpen}
         onClose={() => setIsDeckSettingsOpen(false)}
       />
+      <CustomListsOverlay
+        isOpen={isCustomListsOpen}
+        onClose={() => setIsCustomListsOpen(false)}
+      />
+      <PairsOverlay
+        isOpen={isPairsOpen}
+        onClose={() => setIsPairsOpen(false)}
+      />
+      <ImportOverlay
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+      <ExportOverlay
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+      />
       <WhatsNewOverlay
         isOpen={isWhatsNewOpen}
         onClose={() => setIsWhatsNewOpen(false)}
@@ -52,7 +52,7 @@ export default function JoinRoomPage() {
         return;
       }
 
-      setRoom(roomCode, pin, data.userSlot, data.moviePoolSeed);
+      setRoom(roomCode, pin, data.userSlot, data.moviePoolSeed, data.ticket);
       router.push(`/${locale}/room/${roomCode}/swipe`);
     } catch {
       setError(t('errors.somethingWentWrong'));
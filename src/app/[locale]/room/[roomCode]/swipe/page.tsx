@@ -5,7 +5,9 @@ import { useParams, useRouter } from 'next/navigation';
 import { useLocale, useTranslations } from 'next-intl';
 import { MovieStack } from '@/components/movie/MovieStack';
 import { WaitingRoom } from '@/components/room/WaitingRoom';
+import { DeckFiltersSummary } from '@/components/room/DeckFiltersSummary';
 import { MatchFound } from '@/components/room/MatchFound';
+import { FinalRound } from '@/components/room/FinalRound';
 import { MatchAuthPrompt } from '@/components/auth/MatchAuthPrompt';
 import { Loader } from '@/components/ui/Loader';
 import { useRoomStore } from '@/stores/roomStore';
@@ -31,19 +33,26 @@ export default function SwipePage() {
     pin,
     userSlot,
     moviePoolSeed,
-    isPartnerConnected,
+    members,
+    roomSettings,
+    deckFilters,
+    shortlist,
+    finalRound,
+    finalVote,
     isRoomReady,
     isMatchFound,
     matchedMovieId,
+    rematchOffer,
     partnerHasWatchlist,
     setPartnerHasWatchlist,
+    setRoom,
     reset: resetRoom,
   } = useRoomStore();
 
   const { reset: resetSwipe } = useSwipeStore();
   const likedMoviesDetails = useLikedMoviesDetails();
   const isAuthenticated = useIsAuthenticated();
-  const { initializeQueue, appendMovies, setFetchingMore, reset: resetQueue, queue, currentIndex, isInitialized } = useQueueStore();
+  const { initializeQueue, appendMovies, setFetchingMore, reset: resetQueue, queue, isInitialized } = useQueueStore();
   const shouldFetchMore = useShouldFetchMore();
   const queueMeta = useQueueMeta();
 
@@ -52,12 +61,14 @@ export default function SwipePage() {
   const [error, setError] = useState('');
   const hasRefetchedForPartner = useRef(false);
   const [fetchedMatchMovie, setFetchedMatchMovie] = useState<Movie | null>(null);
+  const [isRematching, setIsRematching] = useState(false);
 
   // State for auth prompt modal
   const [showAuthPrompt, setShowAuthPrompt] = useState(false);
 
   // Initialize socket connection
-  const { disconnect } = useSocket(roomCode, userSlot);
+  const { startRoom, castFinalVote, requestRematch, disconnect } = useSocket(roomCode, userSlot);
+  const maxParticipants = roomSettings?.maxParticipants ?? 2;
 
   // Fetch queue function (extracted for reuse)
   const fetchQueue = useCallback(async (isRefetch = false) => {
@@ -66,8 +77,11 @@ export default function SwipePage() {
     try {
       // Use new queue API for personalized movie order
       // Pass locale to fetch correct language data
+      // A refetch continues the saved queue instead of starting it over
+      const offset = isRefetch ? useQueueStore.getState().queue.length : 0;
       const response = await fetch(
-        `/api/rooms/${roomCode}/queue?userSlot=${userSlot}&limit=${INITIAL_LIMIT}&locale=${locale}`
+        `/api/rooms/${roomCode}/queue?limit=${INITIAL_LIMIT}&offset=${offset}&locale=${locale}`,
+        { headers: { 'X-Room-Ticket': useRoomStore.getState().roomTicket ?? '' } }
       );
       const data = await response.json();
 
@@ -84,7 +98,7 @@ export default function SwipePage() {
       );
 
       // On refetch, merge new priority items into existing queue
-      if (isRefetch && currentIndex > 0) {
+      if (isRefetch && useQueueStore.getState().isInitialized) {
         // Get priority items (partner's watchlist) that we don't have yet
         const priorityItems = queueItems.filter(
           (item: { source: string }) => item.source === 'priority'
@@ -96,6 +110,12 @@ export default function SwipePage() {
             injectPartnerLike(item.movie);
           });
         }
+
+        // The server moved past the rest of the page, so keep it too
+        appendMovies(
+          queueItems.filter((item: { source: string }) => item.source !== 'priority'),
+          data.meta
+        );
       } else {
         initializeQueue(roomCode, userSlot, queueItems, data.meta);
       }
@@ -127,7 +147,7 @@ export default function SwipePage() {
     } finally {
       setIsLoading(false);
     }
-  }, [moviePoolSeed, userSlot, roomCode, locale, initializeQueue, currentIndex]);
+  }, [moviePoolSeed, userSlot, roomCode, locale, initializeQueue, appendMovies]);
 
   // Fetch more movies when approaching end of queue
   const fetchMoreMovies = useCallback(async () => {
@@ -137,7 +157,8 @@ export default function SwipePage() {
     try {
       const offset = queue.length;
       const response = await fetch(
-        `/api/rooms/${roomCode}/queue?userSlot=${userSlot}&limit=${FETCH_MORE_LIMIT}&offset=${offset}&locale=${locale}`
+        `/api/rooms/${roomCode}/queue?limit=${FETCH_MORE_LIMIT}&offset=${offset}&locale=${locale}`,
+        { headers: { 'X-Room-Ticket': useRoomStore.getState().roomTicket ?? '' } }
       );
       const data = await response.json();
 
@@ -231,11 +252,32 @@ export default function SwipePage() {
     router.push(`/${locale}`);
   };
 
+  // Move everyone to the linked rematch room - same slots, no PIN to share
+  const handleRematch = async (rejectMatch: boolean) => {
+    setIsRematching(true);
+    const rematch = await requestRematch(rejectMatch);
+    if (!rematch) {
+      setIsRematching(false);
+      return;
+    }
+
+    disconnect();
+    resetSwipe();
+    resetQueue();
+    setRoom(rematch.roomCode, rematch.pin, rematch.userSlot, rematch.moviePoolSeed, rematch.ticket);
+    router.push(`/${locale}/room/${rematch.roomCode}/swipe`);
+  };
+
   // Show match found screen
   if (isMatchFound && displayMatchMovie) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center p-4 relative overflow-hidden">
-        <MatchFound movie={displayMatchMovie} />
+        <MatchFound
+          movie={displayMatchMovie}
+          onRematch={handleRematch}
+          rematchOffer={rematchOffer}
+          isRematching={isRematching}
+        />
         <button
           onClick={handleLeaveRoom}
           className="mt-8 px-6 py-3 bg-gray-200 dark:bg-gray-800 rounded-xl text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-gray-700 transition-colors"
@@ -264,6 +306,21 @@ export default function SwipePage() {
     );
   }
 
+  // Shortlist mode: head-to-head final round
+  if (finalRound) {
+    return (
+      <div className="flex-1 flex flex-col items-center justify-center p-4">
+        <FinalRound
+          round={finalRound.round}
+          totalRounds={finalRound.totalRounds}
+          candidates={finalRound.candidates}
+          votedMovieId={finalVote}
+          onVote={castFinalVote}
+        />
+      </div>
+    );
+  }
+
   // Loading state
   if (isLoading) {
     return (
@@ -299,19 +356,27 @@ export default function SwipePage() {
         <WaitingRoom
           roomCode={roomCode}
           pin={pin || ''}
-          isPartnerConnected={isPartnerConnected}
+          members={members}
+          maxParticipants={maxParticipants}
+          deckFilters={deckFilters}
+          onStart={startRoom}
           onCancel={handleLeaveRoom}
         />
       </div>
     );
   }
 
-  // Show waiting for partner to connect (for User B if room not ready yet)
+  // Show waiting for the room to start (for other members if room not ready yet)
   if (!isRoomReady) {
     return (
       <div className="flex-1 flex flex-col items-center justify-center p-4">
         <Loader size="lg" />
-        <p className="mt-4 text-gray-500">{t('room.connecting')}</p>
+        <p className="mt-4 text-gray-500">
+          {maxParticipants > 2 ? t('room.waitingForHost') : t('room.connecting')}
+        </p>
+        <div className="mt-6 w-full max-w-sm">
+          <DeckFiltersSummary filters={deckFilters} />
+        </div>
       </div>
     );
   }
@@ -339,6 +404,16 @@ export default function SwipePage() {
             />
           </svg>
         </button>
+
+        {/* Shortlist progress */}
+        {roomSettings?.matchMode === 'shortlist' && (
+          <span className="px-3 py-1 rounded-full bg-gray-200 dark:bg-gray-800 text-sm text-gray-600 dark:text-gray-400">
+            {t('shortlist.progress', {
+              count: shortlist.length,
+              size: roomSettings.shortlistSize ?? shortlist.length,
+            })}
+          </span>
+        )}
       </div>
 
       {/* Movie stack */}
@@ -31,7 +31,7 @@ export default function SoloSwipePage() {
     hasHydrated,
   } = useRoomStore();
 
-  const { addSwipe, addLikedMovieDetails, swipedMovieIds, reset: resetSwipe } = useSwipeStore();
+  const { addSwipe, removeSwipe, addLikedMovieDetails, swipedMovieIds, reset: resetSwipe } = useSwipeStore();
   const swipeStoreHydrated = useSwipeStoreHydrated();
   const likedMoviesDetails = useLikedMoviesDetails();
   const { mediaTypeFilter, loadSettings, isLoaded } = useDeckSettingsStore();
@@ -77,8 +77,12 @@ export default function SoloSwipePage() {
 
     const fetchMovies = async () => {
       try {
+        // Signed-in users get a deck ranked by their taste profile
+        const { token } = authRef.current;
         const response = await fetch(
-          `/api/movies?seed=${moviePoolSeed}&mediaType=${mediaTypeFilter}&locale=${locale}`
+          `/api/movies?seed=${moviePoolSeed}&mediaType=${mediaTypeFilter}&locale=${locale}` +
+            (token ? '&personalized=1' : ''),
+          token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
         );
         const data = await response.json();
 
@@ -109,10 +113,21 @@ export default function SoloSwipePage() {
       // Adding to swipedMovieIds automatically updates remainingMovies via filter
       addSwipe(movieId, isLike);
 
+      // Remember the verdict so future solo decks learn from it
+      const { isAuthenticated, token } = authRef.current;
+      if (isAuthenticated && token) {
+        fetch('/api/history', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ tmdbId: movieId, action: isLike ? 'like' : 'skip' }),
+        }).catch(console.error);
+      }
+
       // If authenticated and liked, save to list with watch timer
       if (isLike) {
-        const { isAuthenticated, token } = authRef.current;
-
         // Find movie details for storing
         const movie = movies.find((m) => m.tmdbId === movieId);
         if (movie) {
@@ -162,6 +177,22 @@ export default function SoloSwipePage() {
     }
   };
 
+  // Solo ends on the first like, so only skips can be taken back
+  const handleUndo = () => {
+    const lastSwipedId = swipedMovieIds[swipedMovieIds.length - 1];
+    if (lastSwipedId !== undefined) {
+      removeSwipe(lastSwipedId);
+
+      const { isAuthenticated, token } = authRef.current;
+      if (isAuthenticated && token) {
+        fetch(`/api/history?tmdbId=${lastSwipedId}`, {
+          method: 'DELETE',
+          headers: { Authorization: `Bearer ${token}` },
+        }).catch(console.error);
+      }
+    }
+  };
+
   const handleLeave = () => {
     resetRoom();
     resetSwipe();
@@ -322,6 +353,27 @@ export default function SoloSwipePage() {
             </svg>
           </button>
 
+          <button
+            onClick={handleUndo}
+            disabled={swipedMovieIds.length === 0}
+            className="self-center w-11 h-11 sm:w-12 sm:h-12 rounded-full bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 flex items-center justify-center transition-transform hover:scale-110 active:scale-95 disabled:opacity-40 disabled:hover:scale-100"
+            aria-label={t('swipe.undo')}
+          >
+            <svg
+              className="w-5 h-5 text-gray-600 dark:text-gray-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 14L4 9l5-5M4 9h10.5a5.5 5.5 0 010 11H11"
+              />
+            </svg>
+          </button>
+
           <button
             onClick={() => handleButtonClick('right')}
             className="w-14 h-14 sm:w-16 sm:h-16 rounded-full bg-green-500 hover:bg-green-600 flex items-center justify-center shadow-lg shadow-green-500/25 transition-transform hover:scale-110 active:scale-95"
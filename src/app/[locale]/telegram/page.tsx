@@ -64,7 +64,7 @@ export default function TelegramEntryPage() {
           const response = await fetch(`/api/rooms/${roomParams.code}/join`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ pin: roomParams.pin, viaLink: true }),
+            body: JSON.stringify({ pin: roomParams.pin }),
           });
           const data = await response.json();
 
@@ -72,7 +72,7 @@ export default function TelegramEntryPage() {
             throw new Error(data.error || 'Failed to join room');
           }
 
-          setRoom(roomParams.code, roomParams.pin, data.userSlot, data.moviePoolSeed);
+          setRoom(roomParams.code, roomParams.pin, data.userSlot, data.moviePoolSeed, data.ticket);
           router.replace(`/${locale}/room/${roomParams.code}/swipe`);
         } catch (err) {
           console.error('Auto-join failed:', err);
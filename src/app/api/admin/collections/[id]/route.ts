@@ -0,0 +1,110 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { poolCollections, poolCollectionItems } from '@/lib/db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { withAdmin } from '@/lib/auth/admin';
+import { success, badRequest, notFound } from '@/lib/auth/middleware';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+interface CollectionItemInput {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+}
+
+function isCollectionItem(value: unknown): value is CollectionItemInput {
+  const item = value as CollectionItemInput;
+  return (
+    !!item &&
+    Number.isInteger(item.tmdbId) &&
+    item.tmdbId > 0 &&
+    (item.mediaType === 'movie' || item.mediaType === 'tv')
+  );
+}
+
+// GET /api/admin/collections/[id] - Collection with its titles in order
+export const GET = withAdmin(async (_request: NextRequest, _user, { params }: RouteContext) => {
+  const { id } = await params;
+
+  const [collection] = await db
+    .select()
+    .from(poolCollections)
+    .where(eq(poolCollections.id, id));
+
+  if (!collection) {
+    return notFound('Collection not found');
+  }
+
+  const items = await db
+    .select({ tmdbId: poolCollectionItems.tmdbId, mediaType: poolCollectionItems.mediaType })
+    .from(poolCollectionItems)
+    .where(eq(poolCollectionItems.collectionId, id))
+    .orderBy(asc(poolCollectionItems.position));
+
+  return success({ collection, items });
+});
+
+// PATCH /api/admin/collections/[id] - Rename and/or replace the titles
+export const PATCH = withAdmin(async (request: NextRequest, _user, { params }: RouteContext) => {
+  const { id } = await params;
+  const { name, items } = await request.json();
+
+  if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.length > 100)) {
+    return badRequest('Name must be 1-100 characters');
+  }
+
+  if (items !== undefined && (!Array.isArray(items) || !items.every(isCollectionItem))) {
+    return badRequest('Items must be a list of { tmdbId, mediaType }');
+  }
+
+  const [collection] = await db
+    .update(poolCollections)
+    .set({ ...(name !== undefined && { name: name.trim() }), updatedAt: new Date() })
+    .where(eq(poolCollections.id, id))
+    .returning();
+
+  if (!collection) {
+    return notFound('Collection not found');
+  }
+
+  if (items !== undefined) {
+    // Drop repeated titles, keeping the first position
+    const unique = [
+      ...new Map(
+        (items as CollectionItemInput[]).map((item) => [`${item.mediaType}-${item.tmdbId}`, item])
+      ).values(),
+    ];
+
+    await db.transaction(async (tx) => {
+      await tx.delete(poolCollectionItems).where(eq(poolCollectionItems.collectionId, id));
+      if (unique.length > 0) {
+        await tx.insert(poolCollectionItems).values(
+          unique.map((item, position) => ({
+            collectionId: id,
+            tmdbId: item.tmdbId,
+            mediaType: item.mediaType,
+            position,
+          }))
+        );
+      }
+    });
+  }
+
+  return success({ collection });
+});
+
+// DELETE /api/admin/collections/[id] - Remove a collection (rooms that picked it lose its titles)
+export const DELETE = withAdmin(async (_request: NextRequest, _user, { params }: RouteContext) => {
+  const { id } = await params;
+
+  const [deleted] = await db
+    .delete(poolCollections)
+    .where(eq(poolCollections.id, id))
+    .returning({ id: poolCollections.id });
+
+  if (!deleted) {
+    return notFound('Collection not found');
+  }
+
+  return success({ deleted: true });
+});
@@ -0,0 +1,39 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { poolCollections, poolCollectionItems } from '@/lib/db/schema';
+import { asc, count, eq } from 'drizzle-orm';
+import { withAdmin } from '@/lib/auth/admin';
+import { success, badRequest } from '@/lib/auth/middleware';
+
+// GET /api/admin/collections - Curated pool collections with their size
+export const GET = withAdmin(async () => {
+  const collections = await db
+    .select({
+      id: poolCollections.id,
+      name: poolCollections.name,
+      updatedAt: poolCollections.updatedAt,
+      itemCount: count(poolCollectionItems.id),
+    })
+    .from(poolCollections)
+    .leftJoin(poolCollectionItems, eq(poolCollectionItems.collectionId, poolCollections.id))
+    .groupBy(poolCollections.id)
+    .orderBy(asc(poolCollections.name));
+
+  return success({ collections });
+});
+
+// POST /api/admin/collections - Create an empty collection
+export const POST = withAdmin(async (request: NextRequest) => {
+  const { name } = await request.json();
+
+  if (typeof name !== 'string' || !name.trim() || name.length > 100) {
+    return badRequest('Name is required (up to 100 characters)');
+  }
+
+  const [collection] = await db
+    .insert(poolCollections)
+    .values({ name: name.trim() })
+    .returning();
+
+  return success({ collection }, 201);
+});
@@ -1,5 +1,5 @@
 import { db } from '@/lib/db';
-import { rooms } from '@/lib/db/schema';
+import { rooms, roomParticipants } from '@/lib/db/schema';
 import { sql, and, gte, isNotNull, count } from 'drizzle-orm';
 import { withAdmin } from '@/lib/auth/admin';
 import { success } from '@/lib/auth/middleware';
@@ -42,11 +42,19 @@ export const GET = withAdmin(async () => {
     });
 
     // Get rooms with users (authenticated vs anonymous)
+    const authedParticipant = sql`EXISTS (
+      SELECT 1 FROM ${roomParticipants}
+      WHERE ${roomParticipants.roomId} = ${rooms.id} AND ${roomParticipants.userId} IS NOT NULL
+    )`;
+    const anonParticipant = sql`EXISTS (
+      SELECT 1 FROM ${roomParticipants}
+      WHERE ${roomParticipants.roomId} = ${rooms.id} AND ${roomParticipants.userId} IS NULL
+    )`;
     const [authStats] = await db
       .select({
-        withAuth: sql<number>`COUNT(*) FILTER (WHERE ${rooms.userAId} IS NOT NULL OR ${rooms.userBId} IS NOT NULL)::int`,
-        bothAuth: sql<number>`COUNT(*) FILTER (WHERE ${rooms.userAId} IS NOT NULL AND ${rooms.userBId} IS NOT NULL)::int`,
-        anonymous: sql<number>`COUNT(*) FILTER (WHERE ${rooms.userAId} IS NULL AND ${rooms.userBId} IS NULL)::int`,
+        withAuth: sql<number>`COUNT(*) FILTER (WHERE ${authedParticipant})::int`,
+        bothAuth: sql<number>`COUNT(*) FILTER (WHERE ${authedParticipant} AND NOT ${anonParticipant})::int`,
+        anonymous: sql<number>`COUNT(*) FILTER (WHERE NOT ${authedParticipant})::int`,
       })
       .from(rooms)
       .where(gte(rooms.createdAt, range.from));
@@ -74,6 +82,20 @@ export const GET = withAdmin(async () => {
           JOIN rooms r ON s.room_id = r.id
           WHERE r.created_at >= ${rangeFromIso}::timestamptz
         )::int`,
+        superLikes: sql<number>`(
+          SELECT COUNT(*)
+          FROM swipes s
+          JOIN rooms r ON s.room_id = r.id
+          WHERE r.created_at >= ${rangeFromIso}::timestamptz
+          AND s.action = 'super_like'
+        )::int`,
+        vetoes: sql<number>`(
+          SELECT COUNT(*)
+          FROM swipes s
+          JOIN rooms r ON s.room_id = r.id
+          WHERE r.created_at >= ${rangeFromIso}::timestamptz
+          AND s.action = 'veto'
+        )::int`,
       })
       .from(sql`(SELECT 1) as dummy`);
 
@@ -125,6 +147,8 @@ export const GET = withAdmin(async () => {
       swipes: {
         total: swipeStats?.totalSwipes || 0,
         avgToMatch: swipeStats?.avgSwipesToMatch || 0,
+        superLikes: swipeStats?.superLikes || 0,
+        vetoes: swipeStats?.vetoes || 0,
       },
       topMatches: topMatches.map((m) => ({
         movieId: m.movieId,
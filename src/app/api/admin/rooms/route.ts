@@ -1,6 +1,6 @@
 import { NextRequest } from 'next/server';
 import { db } from '@/lib/db';
-import { rooms, swipes } from '@/lib/db/schema';
+import { rooms, roomParticipants, swipes } from '@/lib/db/schema';
 import { sql, desc, count, eq } from 'drizzle-orm';
 import { withAdmin } from '@/lib/auth/admin';
 import { success } from '@/lib/auth/middleware';
@@ -21,10 +21,19 @@ export const GET = withAdmin(async (request: NextRequest) => {
       id: rooms.id,
       code: rooms.code,
       status: rooms.status,
-      userAConnected: rooms.userAConnected,
-      userBConnected: rooms.userBConnected,
-      userAId: rooms.userAId,
-      userBId: rooms.userBId,
+      maxParticipants: rooms.maxParticipants,
+      matchRule: rooms.matchRule,
+      participantCount: sql<number>`(
+        SELECT COUNT(*)
+        FROM ${roomParticipants}
+        WHERE ${roomParticipants.roomId} = ${rooms.id}
+      )::int`,
+      connectedCount: sql<number>`(
+        SELECT COUNT(*)
+        FROM ${roomParticipants}
+        WHERE ${roomParticipants.roomId} = ${rooms.id}
+          AND ${roomParticipants.isConnected} = true
+      )::int`,
       matchedMovieId: rooms.matchedMovieId,
       createdAt: rooms.createdAt,
       expiresAt: rooms.expiresAt,
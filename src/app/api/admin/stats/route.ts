@@ -1,6 +1,6 @@
 import { db } from '@/lib/db';
-import { users, rooms, movies, userMovieLists, userSwipeHistory, userSessions, swipes } from '@/lib/db/schema';
-import { sql, count, eq, gte, and, lt, isNotNull, countDistinct, or, avg } from 'drizzle-orm';
+import { users, rooms, roomParticipants, movies, userMovieLists, userSwipeHistory, userSessions, swipes } from '@/lib/db/schema';
+import { sql, count, eq, gte, and, lt, isNotNull, countDistinct, avg } from 'drizzle-orm';
 import { withAdmin } from '@/lib/auth/admin';
 import { success } from '@/lib/auth/middleware';
 
@@ -225,19 +225,28 @@ export const GET = withAdmin(async () => {
     db
       .select({ count: count() })
       .from(rooms)
-      .where(or(eq(rooms.userAConnected, true), eq(rooms.userBConnected, true))),
+      .where(
+        sql`EXISTS (SELECT 1 FROM ${roomParticipants} WHERE ${roomParticipants.roomId} = ${rooms.id})`
+      ),
 
     // Rooms where at least one user authenticated
     db
       .select({ count: count() })
       .from(rooms)
-      .where(or(isNotNull(rooms.userAId), isNotNull(rooms.userBId))),
+      .where(
+        sql`EXISTS (SELECT 1 FROM ${roomParticipants} WHERE ${roomParticipants.roomId} = ${rooms.id} AND ${roomParticipants.userId} IS NOT NULL)`
+      ),
 
-    // Rooms where both users authenticated
+    // Rooms where all users authenticated
     db
       .select({ count: count() })
       .from(rooms)
-      .where(and(isNotNull(rooms.userAId), isNotNull(rooms.userBId))),
+      .where(
+        and(
+          sql`EXISTS (SELECT 1 FROM ${roomParticipants} WHERE ${roomParticipants.roomId} = ${rooms.id})`,
+          sql`NOT EXISTS (SELECT 1 FROM ${roomParticipants} WHERE ${roomParticipants.roomId} = ${rooms.id} AND ${roomParticipants.userId} IS NULL)`
+        )
+      ),
 
     // === Session Depth ===
     // Average swipes per room (for pair mode depth)
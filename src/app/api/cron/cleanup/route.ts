@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { rooms, swipes, roomQueues, watchPrompts } from '@/lib/db/schema';
-import { eq, lt, and, or, isNotNull, isNull, inArray } from 'drizzle-orm';
+import { rooms, roomParticipants, swipes, roomQueues, watchPrompts } from '@/lib/db/schema';
+import { eq, lt, and, or, isNotNull, isNull, inArray, notExists } from 'drizzle-orm';
 import { cleanupExpiredSessions } from '@/lib/auth/session';
+import { expireDueRooms } from '@/lib/room/lifecycle';
 
 // Cron secret for authentication
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -32,6 +33,7 @@ async function handleCleanup(request: NextRequest) {
   try {
     const results = {
       expiredSessions: 0,
+      dueRooms: 0,
       abandonedWaitingRooms: 0,
       staleActiveRooms: 0,
       expiredRooms: 0,
@@ -43,6 +45,9 @@ async function handleCleanup(request: NextRequest) {
     // 1. Cleanup expired sessions
     results.expiredSessions = await cleanupExpiredSessions();
 
+    // 1b. Expire rooms past expiresAt (backup for the socket server's sweeper)
+    results.dueRooms = (await expireDueRooms()).length;
+
     // 2. Cleanup abandoned waiting rooms (no users connected, older than 1 hour)
     const abandonedWaitingCutoff = new Date(
       Date.now() - ABANDONED_WAITING_ROOMS_HOURS * 60 * 60 * 1000
@@ -54,8 +59,17 @@ async function handleCleanup(request: NextRequest) {
       .where(
         and(
           eq(rooms.status, 'waiting'),
-          eq(rooms.userAConnected, false),
-          eq(rooms.userBConnected, false),
+          notExists(
+            db
+              .select({ id: roomParticipants.id })
+              .from(roomParticipants)
+              .where(
+                and(
+                  eq(roomParticipants.roomId, rooms.id),
+                  eq(roomParticipants.isConnected, true)
+                )
+              )
+          ),
           lt(rooms.createdAt, abandonedWaitingCutoff)
         )
       );
@@ -63,6 +77,7 @@ async function handleCleanup(request: NextRequest) {
     if (abandonedWaitingRooms.length > 0) {
       const roomIds = abandonedWaitingRooms.map((r) => r.id);
       await db.delete(roomQueues).where(inArray(roomQueues.roomId, roomIds));
+      await db.delete(roomParticipants).where(inArray(roomParticipants.roomId, roomIds));
       await db.delete(swipes).where(inArray(swipes.roomId, roomIds));
       await db.delete(rooms).where(inArray(rooms.id, roomIds));
       results.abandonedWaitingRooms = abandonedWaitingRooms.length;
@@ -89,6 +104,7 @@ async function handleCleanup(request: NextRequest) {
     if (staleActiveRooms.length > 0) {
       const roomIds = staleActiveRooms.map((r) => r.id);
       await db.delete(roomQueues).where(inArray(roomQueues.roomId, roomIds));
+      await db.delete(roomParticipants).where(inArray(roomParticipants.roomId, roomIds));
       await db.delete(swipes).where(inArray(swipes.roomId, roomIds));
       await db.delete(rooms).where(inArray(rooms.id, roomIds));
       results.staleActiveRooms = staleActiveRooms.length;
@@ -158,6 +174,7 @@ async function handleCleanup(request: NextRequest) {
     if (oldMatchedRooms.length > 0) {
       const roomIds = oldMatchedRooms.map((r) => r.id);
       await db.delete(roomQueues).where(inArray(roomQueues.roomId, roomIds));
+      await db.delete(roomParticipants).where(inArray(roomParticipants.roomId, roomIds));
       await db.delete(swipes).where(inArray(swipes.roomId, roomIds));
       await db.delete(rooms).where(inArray(rooms.id, roomIds));
       // Count these as expired rooms in the result
@@ -20,7 +20,8 @@ const DEFAULT_ANNOUNCE_MIN_POPULARITY = 20;
 const DEFAULT_ANNOUNCE_MIN_AGE_HOURS = 12;
 const DEFAULT_DIGITAL_DELAY_DAYS = 7;
 
-// Period definitions (MSK hours)
+// Period definitions (MSK hours) - they only spread the batch over the day;
+// send-scheduled holds each message back until the recipient's quiet hours are over
 const PERIODS = {
   day: {
     startMsk: 6, // 06:00 MSK = 03:00 UTC
@@ -12,6 +12,7 @@ import {
 import { eq, isNull, or, and, desc, inArray, lt } from 'drizzle-orm';
 import { getBot } from '../../../../../server/bot';
 import { formatAnnouncementMessage } from '../../../../../server/bot/notifications';
+import { applyTitleSubscriptions } from '@/lib/notifications/titleSubscriptions';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const BATCH_SIZE = 30;
@@ -185,6 +186,11 @@ async function handleSendAnnouncements(request: NextRequest) {
     for (const movie of moviesToAnnounce) {
       results.moviesProcessed++;
 
+      // Follows and mutes of this movie override the global setting
+      const recipients = publicEnabled
+        ? await applyTitleSubscriptions(targetUsers, movie.tmdbId, NOTIFICATION_TYPE.ANNOUNCEMENT)
+        : targetUsers;
+
       // Create log entry
       const [logEntry] = await db
         .insert(notificationLog)
@@ -192,7 +198,7 @@ async function handleSendAnnouncements(request: NextRequest) {
           type: NOTIFICATION_TYPE.ANNOUNCEMENT,
           upcomingMovieId: movie.id,
           tmdbId: movie.tmdbId,
-          totalRecipients: targetUsers.length,
+          totalRecipients: recipients.length,
         })
         .returning();
 
@@ -201,8 +207,8 @@ async function handleSendAnnouncements(request: NextRequest) {
       const errors: string[] = [];
 
       // Send in batches
-      for (let i = 0; i < targetUsers.length; i += BATCH_SIZE) {
-        const batch = targetUsers.slice(i, i + BATCH_SIZE);
+      for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+        const batch = recipients.slice(i, i + BATCH_SIZE);
 
         const sendPromises = batch.map(async (user) => {
           try {
@@ -243,7 +249,7 @@ async function handleSendAnnouncements(request: NextRequest) {
         }
 
         // Delay between batches
-        if (i + BATCH_SIZE < targetUsers.length) {
+        if (i + BATCH_SIZE < recipients.length) {
           await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
         }
       }
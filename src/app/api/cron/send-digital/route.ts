@@ -11,6 +11,7 @@ import {
 import { eq, isNull, or, and, lte } from 'drizzle-orm';
 import { getBot } from '../../../../../server/bot';
 import { formatDigitalReleaseMessage } from '../../../../../server/bot/notifications';
+import { applyTitleSubscriptions } from '@/lib/notifications/titleSubscriptions';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const BATCH_SIZE = 30;
@@ -101,6 +102,13 @@ async function handleSendDigital(request: NextRequest) {
     for (const movie of moviesToNotify) {
       results.moviesProcessed++;
 
+      // Follows and mutes of this movie override the global setting
+      const recipients = await applyTitleSubscriptions(
+        targetUsers,
+        movie.tmdbId,
+        NOTIFICATION_TYPE.DIGITAL_RELEASE
+      );
+
       // Create log entry
       const [logEntry] = await db
         .insert(notificationLog)
@@ -108,7 +116,7 @@ async function handleSendDigital(request: NextRequest) {
           type: NOTIFICATION_TYPE.DIGITAL_RELEASE,
           upcomingMovieId: movie.id,
           tmdbId: movie.tmdbId,
-          totalRecipients: targetUsers.length,
+          totalRecipients: recipients.length,
         })
         .returning();
 
@@ -116,8 +124,8 @@ async function handleSendDigital(request: NextRequest) {
       let failureCount = 0;
 
       // Send in batches
-      for (let i = 0; i < targetUsers.length; i += BATCH_SIZE) {
-        const batch = targetUsers.slice(i, i + BATCH_SIZE);
+      for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+        const batch = recipients.slice(i, i + BATCH_SIZE);
 
         const sendPromises = batch.map(async (user) => {
           try {
@@ -154,7 +162,7 @@ async function handleSendDigital(request: NextRequest) {
           }
         }
 
-        if (i + BATCH_SIZE < targetUsers.length) {
+        if (i + BATCH_SIZE < recipients.length) {
           await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
         }
       }
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import {
+  trackedSeries,
+  trackedEpisodes,
+  users,
+  userMovieLists,
+  movies,
+  notificationSettings,
+  notificationLog,
+  notificationConfig,
+  NOTIFICATION_TYPE,
+} from '@/lib/db/schema';
+import { eq, isNull, or, and, gte, lte } from 'drizzle-orm';
+import { getBot } from '../../../../../server/bot';
+import {
+  formatEpisodeDigestMessage,
+  type SeriesDigestEntry,
+} from '../../../../../server/bot/notifications';
+import { splitByEpisodeProgress, getMaxEpisodesBehind } from '@/lib/lists/episodeProgress';
+import { applyTitleSubscriptions } from '@/lib/notifications/titleSubscriptions';
+import { isWeeklyDigestDue } from '@/lib/notifications/digest';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+const BATCH_SIZE = 30;
+const BATCH_DELAY_MS = 1000;
+
+// Series listed in one digest message
+const MAX_DIGEST_ENTRIES = 10;
+const DIGEST_PERIOD_DAYS = 7;
+
+export async function GET(request: NextRequest) {
+  return handleSendEpisodeDigest(request);
+}
+
+export async function POST(request: NextRequest) {
+  return handleSendEpisodeDigest(request);
+}
+
+/**
+ * Weekly digest for users who skipped new episode alerts because they're
+ * too far behind on a series: one message listing how many episodes they have left.
+ * Runs hourly over the weekend; each user gets it on their Sunday, in the local hour
+ * their quiet hours end - the same hour their notification digests arrive.
+ */
+async function handleSendEpisodeDigest(request: NextRequest) {
+  const authHeader = request.headers.get('authorization');
+  if (CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const results = {
+      seriesProcessed: 0,
+      notificationsSent: 0,
+      notificationsFailed: 0,
+    };
+
+    // Progress-based targeting only applies once series notifications are public
+    const [publicConfig] = await db
+      .select({ value: notificationConfig.value })
+      .from(notificationConfig)
+      .where(eq(notificationConfig.key, 'series.publicEnabled'));
+
+    if (publicConfig?.value !== 'true') {
+      return NextResponse.json({
+        success: true,
+        message: 'Skipped: series notifications are admin-only',
+        results,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const now = new Date();
+    const maxEpisodesBehind = await getMaxEpisodesBehind();
+    const today = now.toISOString().split('T')[0];
+    const periodStart = new Date(now.getTime() - DIGEST_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    // Series with episodes out this week - the ones whose alerts were held back
+    const seriesWithNewEpisodes = await db
+      .selectDistinct({
+        tmdbId: trackedSeries.tmdbId,
+        title: trackedSeries.title,
+        titleRu: trackedSeries.titleRu,
+      })
+      .from(trackedEpisodes)
+      .innerJoin(trackedSeries, eq(trackedEpisodes.trackedSeriesId, trackedSeries.id))
+      .where(
+        and(
+          gte(trackedEpisodes.airDate, periodStart),
+          lte(trackedEpisodes.airDate, today),
+          eq(trackedSeries.trackingStatus, 'active')
+        )
+      );
+
+    const digests = new Map<
+      string,
+      { telegramId: number; languageCode: string | null; entries: SeriesDigestEntry[] }
+    >();
+
+    for (const series of seriesWithNewEpisodes) {
+      results.seriesProcessed++;
+
+      const listeners = await db
+        .select({
+          id: users.id,
+          telegramId: users.telegramId,
+          languageCode: users.languageCode,
+          timeZone: notificationSettings.timeZone,
+          quietHoursEnabled: notificationSettings.quietHoursEnabled,
+          quietHoursStart: notificationSettings.quietHoursStart,
+          quietHoursEnd: notificationSettings.quietHoursEnd,
+        })
+        .from(users)
+        .innerJoin(userMovieLists, eq(users.id, userMovieLists.userId))
+        .innerJoin(movies, eq(userMovieLists.unifiedMovieId, movies.id))
+        .leftJoin(notificationSettings, eq(users.id, notificationSettings.userId))
+        .where(
+          and(
+            eq(movies.tmdbId, series.tmdbId),
+            eq(movies.mediaType, 'tv'),
+            or(
+              isNull(notificationSettings.seriesEpisodeReleases),
+              eq(notificationSettings.seriesEpisodeReleases, true)
+            )
+          )
+        );
+
+      // Users who muted the show's episodes don't hear about it here either
+      const subscribed = await applyTitleSubscriptions(
+        listeners.filter((listener) => isWeeklyDigestDue(now, listener)),
+        series.tmdbId,
+        NOTIFICATION_TYPE.EPISODE_RELEASE
+      );
+
+      const { behind } = await splitByEpisodeProgress(
+        subscribed,
+        series.tmdbId,
+        null,
+        maxEpisodesBehind
+      );
+
+      for (const user of behind) {
+        const digest = digests.get(user.id) ?? {
+          telegramId: user.telegramId,
+          languageCode: user.languageCode,
+          entries: [],
+        };
+        digest.entries.push({
+          title: series.title,
+          titleRu: series.titleRu,
+          tmdbId: series.tmdbId,
+          episodesBehind: user.episodesBehind,
+        });
+        digests.set(user.id, digest);
+      }
+    }
+
+    if (digests.size === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No users behind on their series in their digest hour',
+        results,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const [logEntry] = await db
+      .insert(notificationLog)
+      .values({
+        type: NOTIFICATION_TYPE.EPISODE_DIGEST,
+        totalRecipients: digests.size,
+      })
+      .returning();
+
+    const bot = getBot();
+    const recipients = [...digests.values()];
+    const errors: string[] = [];
+
+    // Send in batches
+    for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+      const batch = recipients.slice(i, i + BATCH_SIZE);
+
+      const batchResults = await Promise.all(
+        batch.map(async (digest) => {
+          try {
+            const entries = [...digest.entries]
+              .sort((a, b) => a.episodesBehind - b.episodesBehind)
+              .slice(0, MAX_DIGEST_ENTRIES);
+            const message = formatEpisodeDigestMessage(entries, digest.languageCode === 'ru');
+
+            await bot.api.sendMessage(digest.telegramId, message.text, {
+              parse_mode: 'HTML',
+              reply_markup: message.keyboard,
+            });
+            return { success: true };
+          } catch (error) {
+            return { success: false, error: String(error) };
+          }
+        })
+      );
+
+      for (const result of batchResults) {
+        if (result.success) {
+          results.notificationsSent++;
+        } else {
+          results.notificationsFailed++;
+          if (result.error) errors.push(result.error);
+        }
+      }
+
+      // Delay between batches
+      if (i + BATCH_SIZE < recipients.length) {
+        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+      }
+    }
+
+    await db
+      .update(notificationLog)
+      .set({
+        successCount: results.notificationsSent,
+        failureCount: results.notificationsFailed,
+        completedAt: new Date(),
+        errorDetails: errors.length > 0 ? JSON.stringify(errors.slice(0, 10)) : null,
+      })
+      .where(eq(notificationLog.id, logEntry.id));
+
+    return NextResponse.json({
+      success: true,
+      message: 'Episode digest sent',
+      results,
+      config: { maxEpisodesBehind },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Send episode digest cron error:', error);
+    return NextResponse.json(
+      { error: 'Failed to send episode digest', details: String(error) },
+      { status: 500 }
+    );
+  }
+}
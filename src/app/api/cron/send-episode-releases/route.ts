@@ -14,6 +14,11 @@ import {
 import { eq, isNull, or, and, inArray, lte } from 'drizzle-orm';
 import { getBot } from '../../../../../server/bot';
 import { formatEpisodeReleaseMessage } from '../../../../../server/bot/notifications';
+import {
+  splitByEpisodeProgress,
+  DEFAULT_MAX_EPISODES_BEHIND,
+} from '@/lib/lists/episodeProgress';
+import { applyTitleSubscriptions } from '@/lib/notifications/titleSubscriptions';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const BATCH_SIZE = 30;
@@ -123,6 +128,21 @@ async function handleSendEpisodeReleases(request: NextRequest) {
               )
             )
           );
+
+        // Follows and mutes of this show override the global setting
+        targetUsers = await applyTitleSubscriptions(
+          targetUsers,
+          series.tmdbId,
+          NOTIFICATION_TYPE.EPISODE_RELEASE
+        );
+
+        // Users too far behind on the series get the weekly digest instead
+        ({ notify: targetUsers } = await splitByEpisodeProgress(
+          targetUsers,
+          series.tmdbId,
+          episode,
+          config.maxEpisodesBehind
+        ));
       } else {
         // Admin-only mode
         if (config.adminTelegramIds.length === 0) {
@@ -272,6 +292,7 @@ async function getSeriesConfig(): Promise<{
   publicEnabled: boolean;
   adminTelegramIds: string[];
   maxEpisodesPerHour: number;
+  maxEpisodesBehind: number;
 }> {
   const configs = await db
     .select()
@@ -281,6 +302,7 @@ async function getSeriesConfig(): Promise<{
         'series.publicEnabled',
         'series.adminTelegramIds',
         'series.maxEpisodesPerHour',
+        'series.maxEpisodesBehind',
       ])
     );
 
@@ -296,5 +318,6 @@ async function getSeriesConfig(): Promise<{
     publicEnabled: configMap.get('series.publicEnabled') === 'true',
     adminTelegramIds,
     maxEpisodesPerHour: parseInt(configMap.get('series.maxEpisodesPerHour') || String(DEFAULT_MAX_EPISODES_PER_HOUR), 10),
+    maxEpisodesBehind: parseInt(configMap.get('series.maxEpisodesBehind') || String(DEFAULT_MAX_EPISODES_BEHIND), 10),
   };
 }
@@ -10,6 +10,7 @@ import {
 import { eq, isNull, or, and, lte } from 'drizzle-orm';
 import { getBot } from '../../../../../server/bot';
 import { formatTheatricalReleaseMessage } from '../../../../../server/bot/notifications';
+import { applyTitleSubscriptions } from '@/lib/notifications/titleSubscriptions';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const BATCH_SIZE = 30;
@@ -98,6 +99,13 @@ async function handleSendReleases(request: NextRequest) {
     for (const movie of moviesToNotify) {
       results.moviesProcessed++;
 
+      // Follows and mutes of this movie override the global setting
+      const recipients = await applyTitleSubscriptions(
+        targetUsers,
+        movie.tmdbId,
+        NOTIFICATION_TYPE.THEATRICAL_RELEASE
+      );
+
       // Create log entry
       const [logEntry] = await db
         .insert(notificationLog)
@@ -105,7 +113,7 @@ async function handleSendReleases(request: NextRequest) {
           type: NOTIFICATION_TYPE.THEATRICAL_RELEASE,
           upcomingMovieId: movie.id,
           tmdbId: movie.tmdbId,
-          totalRecipients: targetUsers.length,
+          totalRecipients: recipients.length,
         })
         .returning();
 
@@ -113,8 +121,8 @@ async function handleSendReleases(request: NextRequest) {
       let failureCount = 0;
 
       // Send in batches
-      for (let i = 0; i < targetUsers.length; i += BATCH_SIZE) {
-        const batch = targetUsers.slice(i, i + BATCH_SIZE);
+      for (let i = 0; i < recipients.length; i += BATCH_SIZE) {
+        const batch = recipients.slice(i, i + BATCH_SIZE);
 
         const sendPromises = batch.map(async (user) => {
           try {
@@ -151,7 +159,7 @@ async function handleSendReleases(request: NextRequest) {
           }
         }
 
-        if (i + BATCH_SIZE < targetUsers.length) {
+        if (i + BATCH_SIZE < recipients.length) {
           await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
         }
       }
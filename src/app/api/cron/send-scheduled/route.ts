@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import {
   scheduledNotifications,
+  deferredNotifications,
+  notificationDigestItems,
   upcomingMovies,
   trackedSeries,
   trackedEpisodes,
@@ -10,8 +12,10 @@ import {
   notificationLog,
   notificationConfig,
   NOTIFICATION_TYPE,
+  DELIVERY_MODE,
+  type NotificationType,
 } from '@/lib/db/schema';
-import { eq, and, isNull, or, inArray } from 'drizzle-orm';
+import { eq, and, isNull, or, inArray, lte, sql } from 'drizzle-orm';
 import { getBot } from '../../../../../server/bot';
 import {
   formatAnnouncementMessage,
@@ -19,23 +23,30 @@ import {
   formatDigitalReleaseMessage,
   formatSeasonAnnouncementMessage,
   formatEpisodeReleaseMessage,
+  formatNotificationDigest,
   type MovieNotificationData,
   type SeriesNotificationData,
+  type DigestNotificationItem,
 } from '../../../../../server/bot/notifications';
+import { splitByEpisodeProgress, getMaxEpisodesBehind } from '@/lib/lists/episodeProgress';
+import {
+  applyTitleSubscriptions,
+  NOTIFICATION_SETTING_COLUMN,
+  type TitleNotificationType,
+  type NotificationRecipient,
+} from '@/lib/notifications/titleSubscriptions';
+import { splitByQuietHours } from '@/lib/notifications/quietHours';
+import {
+  splitByDeliveryMode,
+  queueDigestItems,
+  isDigestDue,
+  type DigestSettings,
+} from '@/lib/notifications/digest';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const BATCH_SIZE = 30;
 const BATCH_DELAY_MS = 1000;
 
-// Silent hours (23:00-08:00 MSK = 20:00-05:00 UTC)
-const SILENT_HOUR_START_UTC = 20;
-const SILENT_HOUR_END_UTC = 5;
-
-function isSilentHours(): boolean {
-  const hourUtc = new Date().getUTCHours();
-  return hourUtc >= SILENT_HOUR_START_UTC || hourUtc < SILENT_HOUR_END_UTC;
-}
-
 export async function GET(request: NextRequest) {
   return handleSendScheduled(request);
 }
@@ -59,12 +70,31 @@ async function handleSendScheduled(request: NextRequest) {
       sent: 0,
       failed: 0,
       skipped: 0,
+      deferred: 0,
+      deferredSent: 0,
+      deferredFailed: 0,
+      digested: 0,
+      digestsSent: 0,
+      digestsFailed: 0,
       errors: [] as string[],
     };
 
     const now = new Date();
     const currentHour = now.getUTCHours();
     const today = now.toISOString().split('T')[0];
+    const bot = getBot();
+
+    // Messages held back by recipients' quiet hours from earlier slots
+    const deferredResult = await sendDeferredNotifications(now, bot);
+    results.deferredSent = deferredResult.sent;
+    results.deferredFailed = deferredResult.failed;
+
+    // Digests go out hourly, in the local hour each user gets theirs
+    if (slotMinute === 0) {
+      const digestResult = await sendDigests(now, bot);
+      results.digestsSent = digestResult.sent;
+      results.digestsFailed = digestResult.failed;
+    }
 
     // Get pending notifications for current slot
     const pendingNotifications = await db
@@ -92,8 +122,6 @@ async function handleSendScheduled(request: NextRequest) {
 
     // Get admin mode config
     const config = await getPublicModeConfig();
-    const silentMode = isSilentHours();
-    const bot = getBot();
 
     for (const notification of pendingNotifications) {
       results.processed++;
@@ -105,7 +133,9 @@ async function handleSendScheduled(request: NextRequest) {
         .where(eq(scheduledNotifications.id, notification.id));
 
       try {
-        const sendResult = await sendNotification(notification, config, silentMode, bot);
+        const sendResult = await sendNotification(notification, config, now, bot);
+        results.deferred += sendResult.deferredCount;
+        results.digested += sendResult.digestCount;
 
         // Update notification status
         await db
@@ -143,7 +173,6 @@ async function handleSendScheduled(request: NextRequest) {
       message: `Processed ${results.processed} notifications`,
       results,
       slot: { date: today, hour: currentHour, minute: slotMinute },
-      silentMode,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -188,13 +217,7 @@ async function getTargetUsers(
   config: { publicEnabled: boolean; adminTelegramIds: number[] }
 ) {
   // Map notification type to setting column
-  const settingColumn = {
-    [NOTIFICATION_TYPE.ANNOUNCEMENT]: 'upcomingAnnouncements',
-    [NOTIFICATION_TYPE.THEATRICAL_RELEASE]: 'upcomingTheatricalReleases',
-    [NOTIFICATION_TYPE.DIGITAL_RELEASE]: 'upcomingDigitalReleases',
-    [NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT]: 'seriesSeasons',
-    [NOTIFICATION_TYPE.EPISODE_RELEASE]: 'seriesEpisodes',
-  }[notificationType] as keyof typeof notificationSettings.$inferSelect;
+  const settingColumn = NOTIFICATION_SETTING_COLUMN[notificationType as TitleNotificationType];
 
   if (!config.publicEnabled) {
     // Admin-only mode
@@ -232,7 +255,7 @@ async function getTargetUsers(
 async function sendNotification(
   notification: typeof scheduledNotifications.$inferSelect,
   config: { publicEnabled: boolean; adminTelegramIds: number[] },
-  silentMode: boolean,
+  now: Date,
   bot: ReturnType<typeof getBot>
 ) {
   // Get content data
@@ -242,7 +265,276 @@ async function sendNotification(
   }
 
   // Get target users
-  const targetUsers = await getTargetUsers(notification.type, config);
+  let targetUsers = await getTargetUsers(notification.type, config);
+
+  // Follows and mutes of this title override the global settings
+  if (config.publicEnabled) {
+    targetUsers = await applyTitleSubscriptions(
+      targetUsers,
+      notification.tmdbId,
+      notification.type as NotificationType
+    );
+  }
+
+  // Users too far behind on the series get the weekly digest instead
+  if (
+    config.publicEnabled &&
+    (notification.type === NOTIFICATION_TYPE.EPISODE_RELEASE ||
+      notification.type === NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT)
+  ) {
+    const { seasonNumber, episodeNumber } = contentData as SeriesNotificationData;
+    const episode =
+      notification.type === NOTIFICATION_TYPE.EPISODE_RELEASE && episodeNumber
+        ? { seasonNumber, episodeNumber }
+        : null;
+
+    ({ notify: targetUsers } = await splitByEpisodeProgress(
+      targetUsers,
+      notification.tmdbId,
+      episode,
+      await getMaxEpisodesBehind()
+    ));
+  }
+
+  // Users on a daily or weekly digest get it with their next one
+  const { instant, digest } = await splitByDeliveryMode(targetUsers);
+  await queueDigestItems(notification.id, digest);
+
+  // Recipients in their quiet hours get it once their night is over
+  const { sendNow, deferred } = await splitByQuietHours(instant, now);
+  await deferDelivery(notification.id, deferred);
+
+  const sendResult = await deliverNotification(notification, contentData, sendNow, bot);
+  return { ...sendResult, deferredCount: deferred.length, digestCount: digest.length };
+}
+
+/**
+ * Send the deferred messages whose recipients' quiet hours are over.
+ */
+async function sendDeferredNotifications(now: Date, bot: ReturnType<typeof getBot>) {
+  const result = { sent: 0, failed: 0 };
+
+  // Claim everything due at once so overlapping runs can't send twice
+  const due = await db
+    .delete(deferredNotifications)
+    .where(lte(deferredNotifications.sendAfter, now))
+    .returning();
+
+  if (due.length === 0) return result;
+
+  const userIdsByNotification = new Map<string, string[]>();
+  for (const row of due) {
+    const userIds = userIdsByNotification.get(row.scheduledNotificationId) ?? [];
+    userIds.push(row.userId);
+    userIdsByNotification.set(row.scheduledNotificationId, userIds);
+  }
+
+  for (const [notificationId, userIds] of userIdsByNotification) {
+    try {
+      const [notification] = await db
+        .select()
+        .from(scheduledNotifications)
+        .where(eq(scheduledNotifications.id, notificationId));
+      if (!notification) continue;
+
+      const contentData = await getNotificationContent(notification);
+      if (!contentData) continue;
+
+      const recipients = await db
+        .select({
+          id: users.id,
+          telegramId: users.telegramId,
+          languageCode: users.languageCode,
+        })
+        .from(users)
+        .where(inArray(users.id, userIds));
+
+      // Settings may have changed since the message was held back
+      const { instant, digest } = await splitByDeliveryMode(recipients);
+      await queueDigestItems(notification.id, digest);
+
+      const { sendNow, deferred } = await splitByQuietHours(instant, now);
+      await deferDelivery(notification.id, deferred);
+
+      const { successCount, failureCount } = await deliverNotification(
+        notification,
+        contentData,
+        sendNow,
+        bot
+      );
+
+      await db
+        .update(scheduledNotifications)
+        .set({
+          successCount: sql`coalesce(${scheduledNotifications.successCount}, 0) + ${successCount}`,
+          failureCount: sql`coalesce(${scheduledNotifications.failureCount}, 0) + ${failureCount}`,
+          updatedAt: new Date(),
+        })
+        .where(eq(scheduledNotifications.id, notification.id));
+
+      result.sent += successCount;
+      result.failed += failureCount;
+    } catch (error) {
+      console.error(`Failed to send deferred notification ${notificationId}:`, error);
+      result.failed += userIds.length;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send the collected notifications of every user whose digest is due.
+ */
+async function sendDigests(now: Date, bot: ReturnType<typeof getBot>) {
+  const result = { sent: 0, failed: 0 };
+
+  const waiting = await db
+    .selectDistinct({
+      userId: notificationDigestItems.userId,
+      telegramId: users.telegramId,
+      languageCode: users.languageCode,
+      deliveryMode: notificationSettings.deliveryMode,
+      timeZone: notificationSettings.timeZone,
+      quietHoursEnabled: notificationSettings.quietHoursEnabled,
+      quietHoursStart: notificationSettings.quietHoursStart,
+      quietHoursEnd: notificationSettings.quietHoursEnd,
+    })
+    .from(notificationDigestItems)
+    .innerJoin(users, eq(notificationDigestItems.userId, users.id))
+    .leftJoin(notificationSettings, eq(notificationDigestItems.userId, notificationSettings.userId));
+
+  const due = waiting.filter((user) => isDigestDue(now, user));
+  if (due.length === 0) return result;
+
+  const [logEntry] = await db
+    .insert(notificationLog)
+    .values({
+      type: NOTIFICATION_TYPE.NOTIFICATION_DIGEST,
+      totalRecipients: due.length,
+    })
+    .returning();
+
+  // Most digests share the same releases - load each one once
+  const contentCache = new Map<string, Promise<MovieNotificationData | SeriesNotificationData | null>>();
+  const errors: string[] = [];
+
+  for (let i = 0; i < due.length; i += BATCH_SIZE) {
+    const batch = due.slice(i, i + BATCH_SIZE);
+
+    const batchResults = await Promise.all(
+      batch.map(async (user) => {
+        try {
+          await sendUserDigest(user, contentCache, bot);
+          return { success: true };
+        } catch (error) {
+          return { success: false, error: String(error) };
+        }
+      })
+    );
+
+    for (const batchResult of batchResults) {
+      if (batchResult.success) {
+        result.sent++;
+      } else {
+        result.failed++;
+        if (batchResult.error) errors.push(batchResult.error);
+      }
+    }
+
+    // Delay between batches
+    if (i + BATCH_SIZE < due.length) {
+      await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+    }
+  }
+
+  await db
+    .update(notificationLog)
+    .set({
+      successCount: result.sent,
+      failureCount: result.failed,
+      completedAt: new Date(),
+      errorDetails: errors.length > 0 ? JSON.stringify(errors.slice(0, 10)) : null,
+    })
+    .where(eq(notificationLog.id, logEntry.id));
+
+  return result;
+}
+
+async function sendUserDigest(
+  user: DigestSettings & { userId: string; telegramId: number; languageCode: string | null },
+  contentCache: Map<string, Promise<MovieNotificationData | SeriesNotificationData | null>>,
+  bot: ReturnType<typeof getBot>
+) {
+  // Claim the user's items so an overlapping run can't send them twice
+  const claimed = await db
+    .delete(notificationDigestItems)
+    .where(eq(notificationDigestItems.userId, user.userId))
+    .returning();
+  if (claimed.length === 0) return;
+
+  const notifications = await db
+    .select()
+    .from(scheduledNotifications)
+    .where(inArray(scheduledNotifications.id, claimed.map((item) => item.scheduledNotificationId)))
+    .orderBy(scheduledNotifications.sentAt);
+
+  const items: DigestNotificationItem[] = [];
+  for (const notification of notifications) {
+    if (!contentCache.has(notification.id)) {
+      contentCache.set(notification.id, getNotificationContent(notification));
+    }
+    const content = await contentCache.get(notification.id);
+    if (content) items.push({ type: notification.type, content });
+  }
+  if (items.length === 0) return;
+
+  const digest = formatNotificationDigest(
+    items,
+    user.deliveryMode === DELIVERY_MODE.WEEKLY ? 'weekly' : 'daily',
+    user.languageCode === 'ru'
+  );
+
+  if (digest.photoUrls.length > 0) {
+    await bot.api.sendMediaGroup(
+      user.telegramId,
+      digest.photoUrls.map((url) => ({ type: 'photo' as const, media: url }))
+    );
+  }
+
+  for (const [index, text] of digest.texts.entries()) {
+    await bot.api.sendMessage(user.telegramId, text, {
+      parse_mode: 'HTML',
+      reply_markup: index === digest.texts.length - 1 ? digest.keyboard : undefined,
+      link_preview_options: { is_disabled: true },
+    });
+  }
+}
+
+async function deferDelivery(
+  scheduledNotificationId: string,
+  deferred: { recipient: NotificationRecipient; sendAfter: Date }[]
+) {
+  if (deferred.length === 0) return;
+
+  await db
+    .insert(deferredNotifications)
+    .values(
+      deferred.map(({ recipient, sendAfter }) => ({
+        scheduledNotificationId,
+        userId: recipient.id,
+        sendAfter,
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+async function deliverNotification(
+  notification: typeof scheduledNotifications.$inferSelect,
+  contentData: MovieNotificationData | SeriesNotificationData,
+  targetUsers: NotificationRecipient[],
+  bot: ReturnType<typeof getBot>
+) {
   if (targetUsers.length === 0) {
     return { successCount: 0, failureCount: 0 };
   }
@@ -276,13 +568,11 @@ async function sendNotification(
             caption: message.text,
             parse_mode: 'HTML',
             reply_markup: message.keyboard,
-            disable_notification: silentMode,
           });
         } else {
           await bot.api.sendMessage(user.telegramId, message.text, {
             parse_mode: 'HTML',
             reply_markup: message.keyboard,
-            disable_notification: silentMode,
           });
         }
         return { success: true };
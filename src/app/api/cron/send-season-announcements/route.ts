@@ -13,6 +13,11 @@ import {
 import { eq, isNull, or, and, inArray, isNotNull } from 'drizzle-orm';
 import { getBot } from '../../../../../server/bot';
 import { formatSeasonAnnouncementMessage } from '../../../../../server/bot/notifications';
+import {
+  splitByEpisodeProgress,
+  DEFAULT_MAX_EPISODES_BEHIND,
+} from '@/lib/lists/episodeProgress';
+import { applyTitleSubscriptions } from '@/lib/notifications/titleSubscriptions';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 const BATCH_SIZE = 30;
@@ -122,6 +127,21 @@ async function handleSendSeasonAnnouncements(request: NextRequest) {
             )
           )
         );
+
+      // Follows and mutes of this show override the global setting
+      targetUsers = await applyTitleSubscriptions(
+        targetUsers,
+        series.tmdbId,
+        NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT
+      );
+
+      // Users still far behind on the aired seasons hear about it in the weekly digest
+      ({ notify: targetUsers } = await splitByEpisodeProgress(
+        targetUsers,
+        series.tmdbId,
+        null,
+        config.maxEpisodesBehind
+      ));
     } else {
       // Admin-only mode
       if (config.adminTelegramIds.length === 0) {
@@ -286,6 +306,7 @@ async function handleSendSeasonAnnouncements(request: NextRequest) {
 async function getSeriesConfig(): Promise<{
   publicEnabled: boolean;
   adminTelegramIds: string[];
+  maxEpisodesBehind: number;
 }> {
   const configs = await db
     .select()
@@ -294,6 +315,7 @@ async function getSeriesConfig(): Promise<{
       inArray(notificationConfig.key, [
         'series.publicEnabled',
         'series.adminTelegramIds',
+        'series.maxEpisodesBehind',
       ])
     );
 
@@ -308,5 +330,6 @@ async function getSeriesConfig(): Promise<{
   return {
     publicEnabled: configMap.get('series.publicEnabled') === 'true',
     adminTelegramIds,
+    maxEpisodesBehind: parseInt(configMap.get('series.maxEpisodesBehind') || String(DEFAULT_MAX_EPISODES_BEHIND), 10),
   };
 }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser, unauthorized, badRequest } from '@/lib/auth/middleware';
+import { getUserExport, formatUserExport } from '@/lib/export/userExport';
+import { EXPORT_FORMATS, type ExportFormat } from '@/types/export';
+
+// GET /api/export?format=json|csv|letterboxd - Download the user's lists, swipes and matches
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const format = (searchParams.get('format') || 'json') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return badRequest('format must be "json", "csv" or "letterboxd"');
+  }
+
+  try {
+    const file = formatUserExport(await getUserExport(user.id), format);
+
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting user data:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
+import { sendUserExport } from '@/server/bot';
+import { EXPORT_FORMATS, type ExportFormat } from '@/types/export';
+
+// POST /api/export/telegram - Send the export to the user's Telegram chat
+// (Mini App webviews can't save downloaded files)
+export async function POST(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json();
+  const format = (body.format || 'json') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return badRequest('format must be "json", "csv" or "letterboxd"');
+  }
+
+  try {
+    await sendUserExport(user.telegramId, user.id, format, user.languageCode === 'ru');
+    return success({ success: true });
+  } catch (error) {
+    console.error('Error sending export to Telegram:', error);
+    return NextResponse.json({ error: 'Failed to send export' }, { status: 500 });
+  }
+}
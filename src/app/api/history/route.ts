@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server';
 import { db } from '@/lib/db';
 import { userSwipeHistory, movies } from '@/lib/db/schema';
-import { getAuthUser, unauthorized, success } from '@/lib/auth/middleware';
+import { getAuthUser, unauthorized, success, badRequest } from '@/lib/auth/middleware';
+import { recordSwipeHistory, undoSwipeHistory } from '@/lib/history/swipeHistory';
 import { eq, desc } from 'drizzle-orm';
 
 // GET /api/history - Get user's swipe history
@@ -64,3 +65,44 @@ export async function GET(request: NextRequest) {
     offset,
   });
 }
+
+// POST /api/history - Record a solo swipe (feeds the solo taste profile)
+export async function POST(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json();
+  const { tmdbId, action } = body;
+
+  if (!Number.isInteger(tmdbId)) {
+    return badRequest('tmdbId is required');
+  }
+  if (action !== 'like' && action !== 'skip') {
+    return badRequest('action must be like or skip');
+  }
+
+  await recordSwipeHistory(user.id, tmdbId, action, null);
+
+  return success({ success: true }, 201);
+}
+
+// DELETE /api/history?tmdbId=123 - Take back a solo swipe (undo)
+export async function DELETE(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const tmdbId = parseInt(searchParams.get('tmdbId') || '', 10);
+  if (!tmdbId) {
+    return badRequest('tmdbId is required');
+  }
+
+  // Puts back whatever verdict the solo swipe replaced
+  await undoSwipeHistory(user.id, tmdbId, null);
+
+  return success({ success: true });
+}
@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { userMovieLists, movies, MOVIE_STATUS } from '@/lib/db/schema';
 import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
 import { eq, and } from 'drizzle-orm';
+import { markPairWatched } from '@/lib/pairs/pairs';
 
 interface RouteParams {
   params: Promise<{ tmdbId: string }>;
@@ -128,6 +129,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       .where(eq(userMovieLists.id, existing.id))
       .returning();
 
+    if (updates.watchedAt) {
+      await markPairWatched(user.id, tmdbId);
+    }
+
     return success(updated);
   } catch (error) {
     console.error('Error updating list item:', error);
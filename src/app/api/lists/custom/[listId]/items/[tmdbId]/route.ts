@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { customListItems } from '@/lib/db/schema';
+import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
+import { and, eq } from 'drizzle-orm';
+import { getOwnedList } from '@/lib/lists/customLists';
+
+interface RouteParams {
+  params: Promise<{ listId: string; tmdbId: string }>;
+}
+
+// DELETE /api/lists/custom/[listId]/items/[tmdbId] - Remove a title from a list
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { listId, tmdbId: tmdbIdStr } = await params;
+  const tmdbId = parseInt(tmdbIdStr, 10);
+
+  if (isNaN(tmdbId)) {
+    return badRequest('Invalid tmdbId');
+  }
+
+  const list = await getOwnedList(user.id, listId);
+  if (!list) {
+    return notFound('List not found');
+  }
+
+  await db
+    .delete(customListItems)
+    .where(and(eq(customListItems.listId, list.id), eq(customListItems.tmdbId, tmdbId)));
+
+  return success({ success: true });
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
+import {
+  getOwnedList,
+  addCustomListItem,
+  countCustomListItems,
+} from '@/lib/lists/customLists';
+import { MAX_CUSTOM_LIST_ITEMS } from '@/types/customList';
+
+interface RouteParams {
+  params: Promise<{ listId: string }>;
+}
+
+// POST /api/lists/custom/[listId]/items - Add a title to the end of a list
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { listId } = await params;
+  const list = await getOwnedList(user.id, listId);
+  if (!list) {
+    return notFound('List not found');
+  }
+
+  const body = await request.json();
+  const { tmdbId, mediaType } = body;
+
+  if (!Number.isInteger(tmdbId)) {
+    return badRequest('tmdbId is required and must be a number');
+  }
+  if (mediaType !== undefined && mediaType !== 'movie' && mediaType !== 'tv') {
+    return badRequest('mediaType must be "movie" or "tv"');
+  }
+
+  if ((await countCustomListItems(list.id)) >= MAX_CUSTOM_LIST_ITEMS) {
+    return badRequest(`A list can hold up to ${MAX_CUSTOM_LIST_ITEMS} titles`);
+  }
+
+  if (!(await addCustomListItem(list.id, tmdbId, mediaType))) {
+    return badRequest('Failed to fetch movie data');
+  }
+
+  return success({ success: true }, 201);
+}
@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { customLists } from '@/lib/db/schema';
+import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
+import { eq } from 'drizzle-orm';
+import {
+  getOwnedList,
+  getCustomListDetail,
+  reorderCustomListItems,
+  parseListName,
+} from '@/lib/lists/customLists';
+import { MAX_CUSTOM_LIST_NAME_LENGTH } from '@/types/customList';
+
+interface RouteParams {
+  params: Promise<{ listId: string }>;
+}
+
+// GET /api/lists/custom/[listId] - Get a list with its titles
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { listId } = await params;
+  const list = await getOwnedList(user.id, listId);
+  if (!list) {
+    return notFound('List not found');
+  }
+
+  return success(await getCustomListDetail(list));
+}
+
+// PATCH /api/lists/custom/[listId] - Rename ({ name }) or reorder titles ({ order: [tmdbId, ...] })
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { listId } = await params;
+  let list = await getOwnedList(user.id, listId);
+  if (!list) {
+    return notFound('List not found');
+  }
+
+  const body = await request.json();
+
+  if (body.name !== undefined) {
+    const name = parseListName(body.name);
+    if (!name) {
+      return badRequest(`name must be 1-${MAX_CUSTOM_LIST_NAME_LENGTH} characters`);
+    }
+
+    [list] = await db
+      .update(customLists)
+      .set({ name, updatedAt: new Date() })
+      .where(eq(customLists.id, list.id))
+      .returning();
+  }
+
+  if (body.order !== undefined) {
+    if (!Array.isArray(body.order) || !body.order.every(Number.isInteger)) {
+      return badRequest('order must be an array of tmdbIds');
+    }
+    await reorderCustomListItems(list.id, body.order);
+  }
+
+  return success(await getCustomListDetail(list));
+}
+
+// DELETE /api/lists/custom/[listId] - Delete a list (titles stay in the user's other lists)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { listId } = await params;
+  const list = await getOwnedList(user.id, listId);
+  if (!list) {
+    return notFound('List not found');
+  }
+
+  await db.delete(customLists).where(eq(customLists.id, list.id));
+  return success({ success: true });
+}
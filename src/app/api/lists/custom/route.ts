@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
+import {
+  getCustomLists,
+  createCustomList,
+  reorderCustomLists,
+  parseListName,
+} from '@/lib/lists/customLists';
+import { MAX_CUSTOM_LISTS, MAX_CUSTOM_LIST_NAME_LENGTH } from '@/types/customList';
+
+// GET /api/lists/custom?tmdbId=123 - Get user's custom lists (and which contain the title)
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const tmdbId = parseInt(searchParams.get('tmdbId') || '', 10) || undefined;
+
+  return success({ lists: await getCustomLists(user.id, tmdbId) });
+}
+
+// POST /api/lists/custom - Create a custom list
+export async function POST(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json();
+  const name = parseListName(body.name);
+  if (!name) {
+    return badRequest(`name must be 1-${MAX_CUSTOM_LIST_NAME_LENGTH} characters`);
+  }
+
+  const lists = await getCustomLists(user.id);
+  if (lists.length >= MAX_CUSTOM_LISTS) {
+    return badRequest(`You can have up to ${MAX_CUSTOM_LISTS} lists`);
+  }
+
+  const list = await createCustomList(user.id, name);
+  return success({ id: list.id, name: list.name, itemCount: 0, hasMovie: false }, 201);
+}
+
+// PATCH /api/lists/custom - Reorder lists ({ order: [listId, ...] })
+export async function PATCH(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const body = await request.json();
+  if (!Array.isArray(body.order) || !body.order.every((id: unknown) => typeof id === 'string')) {
+    return badRequest('order must be an array of list ids');
+  }
+
+  await reorderCustomLists(user.id, body.order);
+  return success({ lists: await getCustomLists(user.id) });
+}
@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { userMovieLists, MOVIE_SOURCE } from '@/lib/db/schema';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
+import { eq } from 'drizzle-orm';
+import { parseListImport } from '@/lib/import/formats';
+import { resolveImportRow } from '@/lib/import/resolve';
+import {
+  LIST_IMPORT_FORMATS,
+  MAX_LIST_IMPORT_ROWS,
+  type ListImportFormat,
+  type ListImportResult,
+  type ListImportRow,
+} from '@/types/listImport';
+
+// Largest accepted upload
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Rows resolved in parallel (each may hit TMDB)
+const RESOLVE_CONCURRENCY = 5;
+
+// POST /api/lists/import - Import a Letterboxd, IMDb or Kinopoisk export into lists
+// multipart/form-data: file (ZIP or CSV), format (optional, detected otherwise)
+export async function POST(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  try {
+    const form = await request.formData();
+    const file = form.get('file');
+    const formatParam = form.get('format');
+
+    if (!(file instanceof File)) {
+      return badRequest('file is required');
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return badRequest('file is too large');
+    }
+
+    const format =
+      typeof formatParam === 'string' && formatParam
+        ? (formatParam as ListImportFormat)
+        : undefined;
+    if (format && !LIST_IMPORT_FORMATS.includes(format)) {
+      return badRequest('format must be "letterboxd", "imdb" or "kinopoisk"');
+    }
+
+    let parsed;
+    try {
+      parsed = parseListImport(Buffer.from(await file.arrayBuffer()), file.name, format);
+    } catch (error) {
+      return badRequest(error instanceof Error ? error.message : 'Unreadable file');
+    }
+
+    const { rows } = parsed;
+    if (rows.length > MAX_LIST_IMPORT_ROWS) {
+      return badRequest(`Too many titles (max ${MAX_LIST_IMPORT_ROWS} per import)`);
+    }
+
+    // Resolve titles in small batches to stay within TMDB rate limits
+    const resolved: { row: ListImportRow; movie: Awaited<ReturnType<typeof resolveImportRow>> }[] = [];
+    for (let i = 0; i < rows.length; i += RESOLVE_CONCURRENCY) {
+      const batch = rows.slice(i, i + RESOLVE_CONCURRENCY);
+      const movies = await Promise.all(batch.map(resolveImportRow));
+      batch.forEach((row, index) => resolved.push({ row, movie: movies[index] }));
+    }
+
+    // Titles already on the user's lists keep their status and rating
+    const existing = await db
+      .select({ tmdbId: userMovieLists.tmdbId })
+      .from(userMovieLists)
+      .where(eq(userMovieLists.userId, user.id));
+    const listedIds = new Set(existing.map((e) => e.tmdbId));
+
+    const toInsert: (typeof userMovieLists.$inferInsert)[] = [];
+    const unmatched: ListImportRow[] = [];
+    let alreadyInLists = 0;
+
+    for (const { row, movie } of resolved) {
+      if (!movie) {
+        unmatched.push(row);
+      } else if (listedIds.has(movie.tmdbId)) {
+        alreadyInLists++;
+      } else {
+        listedIds.add(movie.tmdbId); // Exports can list a title twice
+        toInsert.push({
+          userId: user.id,
+          tmdbId: movie.tmdbId,
+          unifiedMovieId: movie.id,
+          status: row.status,
+          rating: row.rating,
+          source: MOVIE_SOURCE.IMPORT,
+        });
+      }
+    }
+
+    if (toInsert.length > 0) {
+      await db.insert(userMovieLists).values(toInsert).onConflictDoNothing();
+    }
+
+    const result: ListImportResult = {
+      format: parsed.format,
+      total: rows.length,
+      imported: toInsert.length,
+      alreadyInLists,
+      unmatched,
+    };
+
+    return success(result);
+  } catch (error) {
+    console.error('Error importing lists:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -11,6 +11,9 @@ import {
 import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
 import { eq, and, desc, count, inArray } from 'drizzle-orm';
 import { movieService } from '@/lib/services/movieService';
+import { markPairWatched } from '@/lib/pairs/pairs';
+import { getWatchedEpisodeCounts } from '@/lib/lists/episodeProgress';
+import type { EpisodeProgressSummary } from '@/types/episodeProgress';
 
 interface MovieListItem {
   id: string;
@@ -43,6 +46,8 @@ interface MovieListItem {
     numberOfEpisodes: number | null;
     originalLanguage: string | null;
   } | null;
+  // Watched episodes of a series
+  episodeProgress: EpisodeProgressSummary | null;
 }
 
 // GET /api/lists - Get user's movie lists
@@ -106,6 +111,11 @@ export async function GET(request: NextRequest) {
     });
   }
 
+  const watchedEpisodes = await getWatchedEpisodeCounts(
+    user.id,
+    filteredItems.filter((item) => item.movie?.mediaType === 'tv').map((item) => item.list.tmdbId)
+  );
+
   const result: MovieListItem[] = filteredItems.map((item) => ({
     id: item.list.id,
     tmdbId: item.list.tmdbId,
@@ -139,6 +149,13 @@ export async function GET(request: NextRequest) {
           originalLanguage: item.movie.originalLanguage,
         }
       : null,
+    episodeProgress:
+      item.movie?.mediaType === 'tv' && item.movie.numberOfEpisodes
+        ? {
+            watched: watchedEpisodes.get(item.list.tmdbId) ?? 0,
+            total: item.movie.numberOfEpisodes,
+          }
+        : null,
   }));
 
   // Get counts for filters
@@ -258,6 +275,10 @@ export async function POST(request: NextRequest) {
         .where(eq(userMovieLists.id, existing.id))
         .returning();
 
+      if (status === MOVIE_STATUS.WATCHED && existing.status !== MOVIE_STATUS.WATCHED) {
+        await markPairWatched(user.id, tmdbId);
+      }
+
       return success(updated);
     }
 
@@ -280,6 +301,10 @@ export async function POST(request: NextRequest) {
       })
       .returning();
 
+    if (status === MOVIE_STATUS.WATCHED) {
+      await markPairWatched(user.id, tmdbId);
+    }
+
     return success(created, 201);
   } catch (error) {
     console.error('Error adding to list:', error);
@@ -0,0 +1,38 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { roomMatchMembers } from '@/lib/db/schema';
+import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
+import { eq } from 'drizzle-orm';
+import { getMatchMembership } from '@/lib/room/matchHistory';
+
+interface RouteParams {
+  params: Promise<{ matchId: string }>;
+}
+
+// PATCH /api/matches/[matchId] - Rate the evening ({ eveningRating: 1-3 | null })
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { matchId } = await params;
+  const membership = await getMatchMembership(user.id, matchId);
+  if (!membership) {
+    return notFound('Match not found');
+  }
+
+  const body = await request.json();
+  const { eveningRating } = body;
+
+  if (eveningRating !== null && ![1, 2, 3].includes(eveningRating)) {
+    return badRequest('eveningRating must be 1, 2, 3 or null');
+  }
+
+  await db
+    .update(roomMatchMembers)
+    .set({ eveningRating, ratedAt: eveningRating === null ? null : new Date() })
+    .where(eq(roomMatchMembers.id, membership.member.id));
+
+  return success({ success: true, eveningRating });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser, unauthorized, notFound, success } from '@/lib/auth/middleware';
+import { getMatchMembership, startMatchWatchTimer } from '@/lib/room/matchHistory';
+
+interface RouteParams {
+  params: Promise<{ matchId: string }>;
+}
+
+// POST /api/matches/[matchId]/watch - Start the watch timer for everyone in the match
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { matchId } = await params;
+  const membership = await getMatchMembership(user.id, matchId);
+  if (!membership) {
+    return notFound('Match not found');
+  }
+
+  try {
+    await startMatchWatchTimer(membership.match);
+    return success({ success: true });
+  } catch (error) {
+    console.error('Error starting match watch timer:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
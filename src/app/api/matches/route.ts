@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser, unauthorized, success } from '@/lib/auth/middleware';
+import { getMatchHistory } from '@/lib/room/matchHistory';
+
+// GET /api/matches - Get every room match the user was part of
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  return success({ matches: await getMatchHistory(user.id) });
+}
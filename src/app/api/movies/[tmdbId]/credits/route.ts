@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { movieService } from '@/lib/services/movieService';
+import { getMovieCredits } from '@/lib/api/credits';
+
+// Get directors, writers, top cast and keywords of a movie or TV series
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tmdbId: string }> }
+) {
+  try {
+    const { tmdbId: tmdbIdStr } = await params;
+    const tmdbId = parseInt(tmdbIdStr, 10);
+    const { searchParams } = new URL(request.url);
+    const mediaType = searchParams.get('type') === 'tv' ? 'tv' : 'movie';
+
+    if (!tmdbId || isNaN(tmdbId)) {
+      return NextResponse.json(
+        { error: 'Invalid tmdbId parameter' },
+        { status: 400 }
+      );
+    }
+
+    // Credits are stored against the cached title
+    const movie = await movieService.findOrCreate({ tmdbId, mediaType, source: 'tmdb' });
+    if (!movie) {
+      return NextResponse.json({ error: 'Movie not found' }, { status: 404 });
+    }
+
+    const credits = await getMovieCredits(movie);
+
+    if (!credits) {
+      return NextResponse.json(
+        { error: 'Failed to get credits' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { credits },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=86400, stale-while-revalidate=604800',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Failed to get credits:', error);
+    return NextResponse.json(
+      { error: 'Failed to get credits' },
+      { status: 500 }
+    );
+  }
+}
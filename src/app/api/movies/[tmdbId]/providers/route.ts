@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWatchProviders } from '@/lib/api/watchProviders';
+
+// Get where to watch a movie or TV series, by region
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tmdbId: string }> }
+) {
+  try {
+    const { tmdbId: tmdbIdStr } = await params;
+    const tmdbId = parseInt(tmdbIdStr, 10);
+    const { searchParams } = new URL(request.url);
+    const mediaType = searchParams.get('type') === 'tv' ? 'tv' : 'movie';
+
+    if (!tmdbId || isNaN(tmdbId)) {
+      return NextResponse.json(
+        { error: 'Invalid tmdbId parameter' },
+        { status: 400 }
+      );
+    }
+
+    const providers = await getWatchProviders(tmdbId, mediaType);
+
+    if (!providers) {
+      return NextResponse.json(
+        { error: 'Failed to get watch providers' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { providers },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=21600, stale-while-revalidate=86400',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Failed to get watch providers:', error);
+    return NextResponse.json(
+      { error: 'Failed to get watch providers' },
+      { status: 500 }
+    );
+  }
+}
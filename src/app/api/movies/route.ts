@@ -1,6 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generatePaginatedMoviePool, type SupportedLocale } from '@/lib/api/moviePool';
-import type { MediaTypeFilter } from '@/types/movie';
+import {
+  generatePaginatedMoviePool,
+  enhancePoolItem,
+  type SupportedLocale,
+} from '@/lib/api/moviePool';
+import { getPersonalizedPoolItems } from '@/lib/recommender/soloDeck';
+import { getAuthUser } from '@/lib/auth/middleware';
+import { db } from '@/lib/db';
+import { deckSettings } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { DEFAULT_EXPLORE_LEVEL } from '@/types/deck';
+import type { Movie, MediaTypeFilter } from '@/types/movie';
+
+// Solo decks are fetched in one go
+const SOLO_DECK_SIZE = 100;
 
 // Get movie pool for a room (solo mode)
 export async function GET(request: NextRequest) {
@@ -9,6 +22,7 @@ export async function GET(request: NextRequest) {
     const seed = parseInt(searchParams.get('seed') || '0', 10);
     const mediaTypeParam = searchParams.get('mediaType');
     const localeParam = searchParams.get('locale');
+    const personalized = searchParams.get('personalized') === '1';
 
     // Validate mediaType parameter
     const validMediaTypes: MediaTypeFilter[] = ['all', 'movie', 'tv'];
@@ -27,8 +41,38 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Signed-in users get a deck ranked by their taste profile
+    const user = personalized ? await getAuthUser(request) : null;
+    if (user) {
+      const [settings] = await db
+        .select({ exploreLevel: deckSettings.exploreLevel })
+        .from(deckSettings)
+        .where(eq(deckSettings.userId, user.id));
+
+      const items = await getPersonalizedPoolItems(
+        user.id,
+        seed,
+        mediaTypeFilter,
+        (settings?.exploreLevel ?? DEFAULT_EXPLORE_LEVEL) / 100
+      );
+      const enhanced = await Promise.all(
+        items.slice(0, SOLO_DECK_SIZE).map((item) => enhancePoolItem(item, locale))
+      );
+
+      return NextResponse.json(
+        { movies: enhanced.filter((m): m is Movie => m !== null) },
+        { headers: { 'Cache-Control': 'private, no-store' } }
+      );
+    }
+
     // Use paginated pool with larger limit for solo mode (fewer API calls needed)
-    const { movies } = await generatePaginatedMoviePool(seed, 0, 100, mediaTypeFilter, locale);
+    const { movies } = await generatePaginatedMoviePool(
+      seed,
+      0,
+      SOLO_DECK_SIZE,
+      mediaTypeFilter,
+      locale
+    );
 
     return NextResponse.json(
       { movies },
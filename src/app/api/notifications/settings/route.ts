@@ -1,8 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { notificationSettings, RELEASE_REGION, type ReleaseRegion } from '@/lib/db/schema';
-import { getAuthUser, unauthorized, success } from '@/lib/auth/middleware';
+import {
+  notificationSettings,
+  RELEASE_REGION,
+  DELIVERY_MODE,
+  type ReleaseRegion,
+  type DeliveryMode,
+} from '@/lib/db/schema';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
 import { eq } from 'drizzle-orm';
+import {
+  DEFAULT_QUIET_HOURS_START,
+  DEFAULT_QUIET_HOURS_END,
+  isValidTimeZone,
+  isValidHour,
+} from '@/lib/notifications/quietHours';
+import { isDeliveryMode } from '@/lib/notifications/digest';
 
 // Default values for notification settings
 const DEFAULT_SETTINGS = {
@@ -14,6 +27,12 @@ const DEFAULT_SETTINGS = {
   seriesEpisodeReleases: true,
   appUpdates: true,
   preferredReleaseRegion: RELEASE_REGION.US as ReleaseRegion,
+  // Not detected yet - the Mini App fills it in
+  timeZone: null as string | null,
+  quietHoursEnabled: true,
+  quietHoursStart: DEFAULT_QUIET_HOURS_START,
+  quietHoursEnd: DEFAULT_QUIET_HOURS_END,
+  deliveryMode: DELIVERY_MODE.INSTANT as DeliveryMode,
 };
 
 // GET /api/notifications/settings - Get user's notification settings
@@ -42,6 +61,11 @@ export async function GET(request: NextRequest) {
     seriesEpisodeReleases: settings.seriesEpisodeReleases ?? DEFAULT_SETTINGS.seriesEpisodeReleases,
     appUpdates: settings.appUpdates ?? DEFAULT_SETTINGS.appUpdates,
     preferredReleaseRegion: settings.preferredReleaseRegion ?? DEFAULT_SETTINGS.preferredReleaseRegion,
+    timeZone: settings.timeZone ?? DEFAULT_SETTINGS.timeZone,
+    quietHoursEnabled: settings.quietHoursEnabled ?? DEFAULT_SETTINGS.quietHoursEnabled,
+    quietHoursStart: settings.quietHoursStart ?? DEFAULT_SETTINGS.quietHoursStart,
+    quietHoursEnd: settings.quietHoursEnd ?? DEFAULT_SETTINGS.quietHoursEnd,
+    deliveryMode: settings.deliveryMode ?? DEFAULT_SETTINGS.deliveryMode,
   });
 }
 
@@ -63,6 +87,11 @@ export async function PATCH(request: NextRequest) {
       seriesEpisodeReleases,
       appUpdates,
       preferredReleaseRegion,
+      timeZone,
+      quietHoursEnabled,
+      quietHoursStart,
+      quietHoursEnd,
+      deliveryMode,
     } = body;
 
     // Validate preferredReleaseRegion if provided
@@ -73,6 +102,21 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    if (timeZone !== undefined && (typeof timeZone !== 'string' || !isValidTimeZone(timeZone))) {
+      return badRequest('Invalid timeZone. Must be an IANA time zone name.');
+    }
+
+    if (
+      (quietHoursStart !== undefined && !isValidHour(quietHoursStart)) ||
+      (quietHoursEnd !== undefined && !isValidHour(quietHoursEnd))
+    ) {
+      return badRequest('Quiet hours must be whole hours from 0 to 23.');
+    }
+
+    if (deliveryMode !== undefined && !isDeliveryMode(deliveryMode)) {
+      return badRequest('Invalid deliveryMode. Must be "instant", "daily" or "weekly".');
+    }
+
     // Check if settings exist
     const [existing] = await db
       .select()
@@ -92,6 +136,11 @@ export async function PATCH(request: NextRequest) {
           seriesEpisodeReleases: seriesEpisodeReleases ?? existing.seriesEpisodeReleases,
           appUpdates: appUpdates ?? existing.appUpdates,
           preferredReleaseRegion: preferredReleaseRegion ?? existing.preferredReleaseRegion,
+          timeZone: timeZone ?? existing.timeZone,
+          quietHoursEnabled: quietHoursEnabled ?? existing.quietHoursEnabled,
+          quietHoursStart: quietHoursStart ?? existing.quietHoursStart,
+          quietHoursEnd: quietHoursEnd ?? existing.quietHoursEnd,
+          deliveryMode: deliveryMode ?? existing.deliveryMode,
           updatedAt: new Date(),
         })
         .where(eq(notificationSettings.userId, user.id))
@@ -106,6 +155,11 @@ export async function PATCH(request: NextRequest) {
         seriesEpisodeReleases: updated.seriesEpisodeReleases,
         appUpdates: updated.appUpdates,
         preferredReleaseRegion: updated.preferredReleaseRegion,
+        timeZone: updated.timeZone,
+        quietHoursEnabled: updated.quietHoursEnabled,
+        quietHoursStart: updated.quietHoursStart,
+        quietHoursEnd: updated.quietHoursEnd,
+        deliveryMode: updated.deliveryMode,
       });
     } else {
       // Create new settings
@@ -121,6 +175,11 @@ export async function PATCH(request: NextRequest) {
           seriesEpisodeReleases: seriesEpisodeReleases ?? DEFAULT_SETTINGS.seriesEpisodeReleases,
           appUpdates: appUpdates ?? DEFAULT_SETTINGS.appUpdates,
           preferredReleaseRegion: preferredReleaseRegion ?? DEFAULT_SETTINGS.preferredReleaseRegion,
+          timeZone: timeZone ?? DEFAULT_SETTINGS.timeZone,
+          quietHoursEnabled: quietHoursEnabled ?? DEFAULT_SETTINGS.quietHoursEnabled,
+          quietHoursStart: quietHoursStart ?? DEFAULT_SETTINGS.quietHoursStart,
+          quietHoursEnd: quietHoursEnd ?? DEFAULT_SETTINGS.quietHoursEnd,
+          deliveryMode: deliveryMode ?? DEFAULT_SETTINGS.deliveryMode,
         })
         .returning();
 
@@ -133,6 +192,11 @@ export async function PATCH(request: NextRequest) {
         seriesEpisodeReleases: created.seriesEpisodeReleases,
         appUpdates: created.appUpdates,
         preferredReleaseRegion: created.preferredReleaseRegion,
+        timeZone: created.timeZone,
+        quietHoursEnabled: created.quietHoursEnabled,
+        quietHoursStart: created.quietHoursStart,
+        quietHoursEnd: created.quietHoursEnd,
+        deliveryMode: created.deliveryMode,
       });
     }
   } catch (error) {
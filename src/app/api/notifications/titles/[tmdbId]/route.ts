@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
+import { TITLE_SUBSCRIPTION_STATE } from '@/lib/db/schema';
+import {
+  getTitleNotificationSettings,
+  setTitleSubscription,
+  isTitleNotificationType,
+  TITLE_NOTIFICATION_TYPES,
+} from '@/lib/notifications/titleSubscriptions';
+
+interface RouteParams {
+  params: Promise<{ tmdbId: string }>;
+}
+
+// GET /api/notifications/titles/[tmdbId]?type=movie|tv - Get notification overrides for a title
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { tmdbId: tmdbIdStr } = await params;
+  const tmdbId = parseInt(tmdbIdStr, 10);
+  if (!tmdbId || isNaN(tmdbId)) {
+    return badRequest('Invalid tmdbId parameter');
+  }
+
+  const mediaType = request.nextUrl.searchParams.get('type') === 'tv' ? 'tv' : 'movie';
+
+  try {
+    const settings = await getTitleNotificationSettings(user.id, tmdbId, mediaType);
+    return success({ settings });
+  } catch (error) {
+    console.error('Failed to get title notification settings:', error);
+    return NextResponse.json({ error: 'Failed to get title notification settings' }, { status: 500 });
+  }
+}
+
+// PUT /api/notifications/titles/[tmdbId] - Follow or mute a title for one notification type
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { tmdbId: tmdbIdStr } = await params;
+  const tmdbId = parseInt(tmdbIdStr, 10);
+  if (!tmdbId || isNaN(tmdbId)) {
+    return badRequest('Invalid tmdbId parameter');
+  }
+
+  const body = await request.json();
+  const { notificationType, state } = body;
+
+  if (!isTitleNotificationType(notificationType)) {
+    return badRequest('notificationType must be a title notification type');
+  }
+  if (state !== null && !Object.values(TITLE_SUBSCRIPTION_STATE).includes(state)) {
+    return badRequest('state must be "follow", "mute" or null');
+  }
+
+  try {
+    await setTitleSubscription(user.id, tmdbId, notificationType, state);
+
+    const mediaType = TITLE_NOTIFICATION_TYPES.tv.includes(notificationType) ? 'tv' : 'movie';
+    const settings = await getTitleNotificationSettings(user.id, tmdbId, mediaType);
+    return success({ settings });
+  } catch (error) {
+    console.error('Failed to update title notification settings:', error);
+    return NextResponse.json(
+      { error: 'Failed to update title notification settings' },
+      { status: 500 }
+    );
+  }
+}
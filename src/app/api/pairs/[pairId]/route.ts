@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { pairs } from '@/lib/db/schema';
+import { getAuthUser, unauthorized, notFound, success } from '@/lib/auth/middleware';
+import { eq } from 'drizzle-orm';
+import { getOwnedPair, getPairDetail } from '@/lib/pairs/pairs';
+
+interface RouteParams {
+  params: Promise<{ pairId: string }>;
+}
+
+// GET /api/pairs/[pairId] - Get a pair with its shared watchlist
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { pairId } = await params;
+  const pair = await getOwnedPair(user.id, pairId);
+  if (!pair) {
+    return notFound('Pair not found');
+  }
+
+  return success(await getPairDetail(pair, user.id));
+}
+
+// DELETE /api/pairs/[pairId] - Unpair (either partner can, the shared watchlist goes too)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { pairId } = await params;
+  const pair = await getOwnedPair(user.id, pairId);
+  if (!pair) {
+    return notFound('Pair not found');
+  }
+
+  await db.delete(pairs).where(eq(pairs.id, pair.id));
+  return success({ success: true });
+}
@@ -0,0 +1,73 @@
+import { NextRequest } from 'next/server';
+import { db } from '@/lib/db';
+import { pairWatchlist } from '@/lib/db/schema';
+import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
+import { and, eq } from 'drizzle-orm';
+import { getOwnedPair, markPairWatched } from '@/lib/pairs/pairs';
+
+interface RouteParams {
+  params: Promise<{ pairId: string; tmdbId: string }>;
+}
+
+async function findEntry(request: NextRequest, params: RouteParams['params']) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return { error: unauthorized() };
+  }
+
+  const { pairId, tmdbId: tmdbIdStr } = await params;
+  const tmdbId = parseInt(tmdbIdStr, 10);
+
+  if (isNaN(tmdbId)) {
+    return { error: badRequest('Invalid tmdbId') };
+  }
+
+  const pair = await getOwnedPair(user.id, pairId);
+  if (!pair) {
+    return { error: notFound('Pair not found') };
+  }
+
+  const where = and(eq(pairWatchlist.pairId, pair.id), eq(pairWatchlist.tmdbId, tmdbId));
+  const [entry] = await db.select().from(pairWatchlist).where(where);
+  if (!entry) {
+    return { error: notFound('Title not on the watchlist') };
+  }
+
+  return { user, tmdbId, where };
+}
+
+// PATCH /api/pairs/[pairId]/watchlist/[tmdbId] - Mark watched ({ watched: true }) or unwatched
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const found = await findEntry(request, params);
+  if ('error' in found) {
+    return found.error;
+  }
+
+  const body = await request.json();
+  if (typeof body.watched !== 'boolean') {
+    return badRequest('watched must be a boolean');
+  }
+
+  if (body.watched) {
+    // Also marks the title on the user's other pairs and prompts the partners
+    await markPairWatched(found.user.id, found.tmdbId);
+  } else {
+    await db
+      .update(pairWatchlist)
+      .set({ watchedAt: null, watchedById: null })
+      .where(found.where);
+  }
+
+  return success({ success: true });
+}
+
+// DELETE /api/pairs/[pairId]/watchlist/[tmdbId] - Remove a title from the shared watchlist
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const found = await findEntry(request, params);
+  if ('error' in found) {
+    return found.error;
+  }
+
+  await db.delete(pairWatchlist).where(found.where);
+  return success({ success: true });
+}
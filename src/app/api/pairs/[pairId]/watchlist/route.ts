@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
+import { getOwnedPair, addToPairWatchlist, countPairWatchlist } from '@/lib/pairs/pairs';
+import { MAX_PAIR_WATCHLIST_ITEMS } from '@/types/pair';
+
+interface RouteParams {
+  params: Promise<{ pairId: string }>;
+}
+
+// POST /api/pairs/[pairId]/watchlist - Add a title to the shared watchlist
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { pairId } = await params;
+  const pair = await getOwnedPair(user.id, pairId);
+  if (!pair) {
+    return notFound('Pair not found');
+  }
+
+  const body = await request.json();
+  const { tmdbId, mediaType } = body;
+
+  if (!Number.isInteger(tmdbId)) {
+    return badRequest('tmdbId is required and must be a number');
+  }
+  if (mediaType !== undefined && mediaType !== 'movie' && mediaType !== 'tv') {
+    return badRequest('mediaType must be "movie" or "tv"');
+  }
+
+  if ((await countPairWatchlist(pair.id)) >= MAX_PAIR_WATCHLIST_ITEMS) {
+    return badRequest(`A watchlist can hold up to ${MAX_PAIR_WATCHLIST_ITEMS} titles`);
+  }
+
+  if (!(await addToPairWatchlist(pair.id, user.id, tmdbId, mediaType))) {
+    return badRequest('Failed to fetch movie data');
+  }
+
+  return success({ success: true }, 201);
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
+import { getPairs, getPairCandidates, getPairLink, createPair } from '@/lib/pairs/pairs';
+
+// GET /api/pairs - Get user's pairs and the people they can pair with
+export async function GET(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const [pairs, candidates] = await Promise.all([getPairs(user.id), getPairCandidates(user.id)]);
+  return success({ pairs, candidates });
+}
+
+// POST /api/pairs - Pair with someone from a shared room or a referral ({ partnerId })
+export async function POST(request: NextRequest) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  try {
+    const body = await request.json();
+    const { partnerId } = body;
+
+    if (!partnerId || typeof partnerId !== 'string') {
+      return badRequest('partnerId is required');
+    }
+
+    const via = await getPairLink(user.id, partnerId);
+    if (!via) {
+      return badRequest('You can only pair with someone you swiped with or invited');
+    }
+
+    const pair = await createPair(user.id, partnerId, via);
+    return success({ id: pair.id, createdVia: pair.createdVia }, 201);
+  } catch (error) {
+    console.error('Error creating pair:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { poolCollections } from '@/lib/db/schema';
+import { asc } from 'drizzle-orm';
+import { listPoolSources } from '@/lib/pool/sources';
+import type { PoolSourcesResponse } from '@/types/pool';
+
+// Sources a room creator can pick, with the curated collections for the 'curated' source
+export async function GET() {
+  try {
+    const collections = await db
+      .select({ id: poolCollections.id, name: poolCollections.name })
+      .from(poolCollections)
+      .orderBy(asc(poolCollections.name));
+
+    const response: PoolSourcesResponse = {
+      sources: listPoolSources(),
+      collections,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Failed to list pool sources:', error);
+    return NextResponse.json(
+      { error: 'Failed to list pool sources' },
+      { status: 500 }
+    );
+  }
+}
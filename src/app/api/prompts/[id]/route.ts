@@ -3,6 +3,7 @@ import { db } from '@/lib/db';
 import { watchPrompts, userMovieLists, MOVIE_STATUS } from '@/lib/db/schema';
 import { getAuthUser, unauthorized, badRequest, notFound, success } from '@/lib/auth/middleware';
 import { eq, and } from 'drizzle-orm';
+import { markPairWatched } from '@/lib/pairs/pairs';
 
 type PromptResponse = 'watched' | 'not_yet' | 'dismissed';
 
@@ -101,6 +102,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
           watchedAt: now,
         });
       }
+
+      await markPairWatched(user.id, prompt.tmdbId);
     }
 
     return success({ success: true, response });
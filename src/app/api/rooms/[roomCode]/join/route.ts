@@ -3,6 +3,11 @@ import { db } from '@/lib/db';
 import { rooms } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getAuthUser } from '@/lib/auth/middleware';
+import { claimSlot, getParticipants } from '@/lib/room/participants';
+import { toRoomSettings } from '@/lib/room/matchRule';
+import { isRoomExpired } from '@/lib/room/lifecycle';
+import { createRoomTicket } from '@/lib/room/ticket';
+import type { UserSlot } from '@/types/room';
 
 interface RouteParams {
   params: Promise<{ roomCode: string }>;
@@ -11,7 +16,7 @@ interface RouteParams {
 // Join a room
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    const { pin, viaLink } = await request.json();
+    const { pin } = await request.json();
     const { roomCode } = await params;
 
     const [room] = await db.select().from(rooms).where(eq(rooms.code, roomCode));
@@ -20,13 +25,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Room not found' }, { status: 404 });
     }
 
-    // Check PIN (skip if joining via direct link)
-    if (!viaLink && room.pin !== pin) {
+    // Check PIN (share links carry it too)
+    if (room.pin !== pin) {
       return NextResponse.json({ error: 'Invalid PIN' }, { status: 401 });
     }
 
     // Check room status
-    if (room.status === 'expired') {
+    if (isRoomExpired(room)) {
       return NextResponse.json({ error: 'Room has expired' }, { status: 410 });
     }
 
@@ -37,33 +42,33 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Determine user slot
-    let userSlot: 'A' | 'B';
-    if (!room.userAConnected) {
-      userSlot = 'A';
-    } else if (!room.userBConnected) {
-      userSlot = 'B';
-    } else {
-      return NextResponse.json({ error: 'Room is full' }, { status: 409 });
-    }
-
     // Associate authenticated user with slot (for personalized queue)
     const user = await getAuthUser(request);
-    if (user) {
-      const updateField =
-        userSlot === 'A' ? { userAId: user.id } : { userBId: user.id };
-      await db.update(rooms).set(updateField).where(eq(rooms.code, roomCode));
+
+    // Claim the first free slot (authenticated users get their previous slot back)
+    const participant = await claimSlot(room, user?.id);
+    if (!participant) {
+      return NextResponse.json({ error: 'Room is full' }, { status: 409 });
     }
 
-    // Get partner's auth status for response
-    const partnerId = userSlot === 'A' ? room.userBId : room.userAId;
+    // Get other members' auth status for response
+    const participants = await getParticipants(room.id);
+    const others = participants.filter((p) => p.userSlot !== participant.userSlot);
 
     return NextResponse.json({
       roomCode: room.code,
-      userSlot,
+      userSlot: participant.userSlot,
       moviePoolSeed: room.moviePoolSeed,
-      isPartnerAuthenticated: !!partnerId,
-      partnerId: partnerId ?? null,
+      ...toRoomSettings(room),
+      isPartnerAuthenticated: others.some((p) => !!p.userId),
+      participantCount: participants.length,
+      // Presented on the socket handshake to prove slot ownership
+      ticket: createRoomTicket({
+        roomId: room.id,
+        roomCode: room.code,
+        userSlot: participant.userSlot as UserSlot,
+        userId: participant.userId,
+      }),
     });
   } catch (error) {
     console.error('Failed to join room:', error);
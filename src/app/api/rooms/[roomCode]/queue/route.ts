@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { buildQueue, type QueueBuildParams } from '@/lib/queue/queueBuilder';
-import { getAuthUser } from '@/lib/auth/middleware';
+import { unauthorized } from '@/lib/auth/middleware';
+import { verifyRoomTicket } from '@/lib/room/ticket';
 import type { SupportedLocale } from '@/lib/api/moviePool';
 
 interface RouteParams {
@@ -13,27 +14,22 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const { roomCode } = await params;
     const { searchParams } = new URL(request.url);
 
-    const userSlot = searchParams.get('userSlot') as 'A' | 'B' | null;
     const limit = parseInt(searchParams.get('limit') || '20', 10);
     const offset = parseInt(searchParams.get('offset') || '0', 10);
     // Get locale from query param, default to 'en'
     const localeParam = searchParams.get('locale');
     const locale: SupportedLocale = localeParam === 'ru' ? 'ru' : 'en';
 
-    if (!userSlot || !['A', 'B'].includes(userSlot)) {
-      return NextResponse.json(
-        { error: 'Invalid or missing userSlot parameter' },
-        { status: 400 }
-      );
+    // The member's slot comes from the ticket issued by /join, same as on the socket
+    const ticket = verifyRoomTicket(request.headers.get('x-room-ticket'));
+    if (!ticket || ticket.roomCode !== roomCode) {
+      return unauthorized('Invalid room ticket');
     }
 
-    // Get authenticated user (optional)
-    const user = await getAuthUser(request);
-
     const queueParams: QueueBuildParams = {
       roomCode,
-      userSlot,
-      userId: user?.id,
+      userSlot: ticket.userSlot,
+      userId: ticket.userId ?? undefined,
       limit,
       offset,
       locale,
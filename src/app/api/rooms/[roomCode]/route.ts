@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { rooms } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
+import { getMemberProgress } from '@/lib/room/participants';
+import { toRoomSettings } from '@/lib/room/matchRule';
 
 interface RouteParams {
   params: Promise<{ roomCode: string }>;
@@ -21,11 +23,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Room not found' }, { status: 404 });
     }
 
+    const members = await getMemberProgress(room.id);
+
     return NextResponse.json({
       code: room.code,
       status: room.status,
-      userAConnected: room.userAConnected,
-      userBConnected: room.userBConnected,
+      ...toRoomSettings(room),
+      members,
       matchedMovieId: room.matchedMovieId,
       expiresAt: room.expiresAt,
     });
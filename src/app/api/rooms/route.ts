@@ -1,12 +1,36 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
 import { rooms } from '@/lib/db/schema';
 import { generateRoomCode } from '@/lib/utils/roomCode';
 import { generatePin } from '@/lib/utils/pin';
+import { parseRoomSettings, toRoomSettings } from '@/lib/room/matchRule';
+import { parsePoolSources } from '@/lib/pool/sources';
 
 // Create a new room
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    // Body is optional - an empty request creates a classic pair room
+    const body = await request.json().catch(() => ({}));
+    const settings = parseRoomSettings(body ?? {});
+
+    if (!settings) {
+      return NextResponse.json(
+        { error: 'Invalid room settings' },
+        { status: 400 }
+      );
+    }
+
+    // Pool sources are optional - rooms without them use the default deck
+    const poolSources =
+      body?.poolSources !== undefined ? parsePoolSources(body.poolSources) : null;
+
+    if (body?.poolSources !== undefined && !poolSources) {
+      return NextResponse.json(
+        { error: 'Invalid pool sources' },
+        { status: 400 }
+      );
+    }
+
     const code = generateRoomCode();
     const pin = generatePin();
     const seed = Math.floor(Math.random() * 1000000);
@@ -17,6 +41,8 @@ export async function POST() {
         code,
         pin,
         moviePoolSeed: seed,
+        poolSources: poolSources ? JSON.stringify(poolSources) : null,
+        ...settings,
       })
       .returning();
 
@@ -24,6 +50,7 @@ export async function POST() {
       roomCode: room.code,
       pin: room.pin,
       shareUrl: `/room/${room.code}/link`,
+      ...toRoomSettings(room),
     });
   } catch (error) {
     console.error('Failed to create room:', error);
@@ -4,7 +4,17 @@ import { db } from '@/lib/db';
 import { movies } from '@/lib/db/schema';
 import { or, ilike } from 'drizzle-orm';
 import { movieService } from '@/lib/services/movieService';
-import type { SearchResult, SortOption, MediaTypeFilter, MediaType } from '@/types/movie';
+import { getWatchProvidersByIds, isAvailableOn } from '@/lib/api/watchProviders';
+import { searchByCredits } from '@/lib/api/credits';
+import {
+  WATCH_REGIONS,
+  type SearchResult,
+  type SortOption,
+  type MediaTypeFilter,
+  type MediaType,
+  type WatchRegion,
+} from '@/types/movie';
+import type { WatchAvailability } from '@/types/deck';
 
 // Timeout wrapper for API calls
 async function withTimeout<T>(
@@ -116,6 +126,18 @@ export async function GET(request: NextRequest) {
   const runtimeMin = parseInt(searchParams.get('runtimeMin') || '') || null;
   const runtimeMax = parseInt(searchParams.get('runtimeMax') || '') || null;
 
+  // Only titles streaming on the user's services in their region
+  const watchProviders = searchParams
+    .get('watchProviders')
+    ?.split(',')
+    .map(Number)
+    .filter(Boolean) || [];
+  const watchRegion = searchParams.get('watchRegion') as WatchRegion | null;
+  const availability: WatchAvailability | null =
+    watchProviders.length > 0 && watchRegion && WATCH_REGIONS.includes(watchRegion)
+      ? { region: watchRegion, providerIds: watchProviders }
+      : null;
+
   // Media type filter
   const mediaTypeParam = searchParams.get('mediaType');
   const validMediaTypes: MediaTypeFilter[] = ['all', 'movie', 'tv'];
@@ -124,7 +146,7 @@ export async function GET(request: NextRequest) {
       ? (mediaTypeParam as MediaTypeFilter)
       : 'all';
 
-  const hasFilters = genres.length > 0 || yearFrom || yearTo || ratingMin || originalLanguages.length > 0 || runtimeMin || runtimeMax;
+  const hasFilters = genres.length > 0 || yearFrom || yearTo || ratingMin || originalLanguages.length > 0 || runtimeMin || runtimeMax || availability;
 
   // If no query and no filters, return empty
   if (!query && !hasFilters) {
@@ -159,6 +181,8 @@ export async function GET(request: NextRequest) {
           originalLanguage: lang || undefined,
           runtimeMin: runtimeMin || undefined,
           runtimeMax: runtimeMax || undefined,
+          watchProviders: availability?.providerIds,
+          watchRegion: availability?.region,
         }),
         tmdb.discoverMovies({
           genres: genres.length > 0 ? genres : undefined,
@@ -171,6 +195,8 @@ export async function GET(request: NextRequest) {
           originalLanguage: lang || undefined,
           runtimeMin: runtimeMin || undefined,
           runtimeMax: runtimeMax || undefined,
+          watchProviders: availability?.providerIds,
+          watchRegion: availability?.region,
         }),
       ]);
 
@@ -277,7 +303,8 @@ export async function GET(request: NextRequest) {
     const alternateQuery = hasYoChar ? normalizedQuery : yoQuery;
 
     const [
-      localResults,
+      titleResults,
+      creditResults,
       tmdbMovieEnResult,
       tmdbMovieRuResult,
       tmdbMovieRuAltResult,
@@ -296,6 +323,8 @@ export async function GET(request: NextRequest) {
         )
         .limit(20)
         .catch(() => []),
+      // Cached titles by director, actor, writer or keyword
+      searchByCredits(query).catch(() => []),
       // TMDB Movies search
       shouldSearchMovies
         ? withTimeout(
@@ -352,6 +381,12 @@ export async function GET(request: NextRequest) {
     const tmdbTVDataRu = tmdbTVRuResult.data;
     const tmdbTVDataRuAlt = tmdbTVRuAltResult.data;
 
+    // Credit matches don't have the query in their title - keep them past the title check
+    const localIds = new Set(titleResults.map((m) => m.id));
+    const creditMatches = creditResults.filter((m) => !localIds.has(m.id));
+    const creditMatchIds = new Set(creditMatches.map((m) => m.id));
+    const localResults = [...titleResults, ...creditMatches];
+
     // Create sets for deduplication
     const localTmdbIds = new Set(localResults.filter((m) => m.tmdbId).map((m) => m.tmdbId));
 
@@ -598,6 +633,7 @@ export async function GET(request: NextRequest) {
     // TMDB sometimes returns loosely related results
     const queryNormForFilter = normalizeRu(query);
     allTmdbResults = allTmdbResults.filter((m) => {
+      if (m.movieId && creditMatchIds.has(m.movieId)) return true;
       // Normalize both titles (ё → е) since RU API may return Russian text in 'title' field
       const titleRu = normalizeRu(m.titleRu || '');
       const titleEn = normalizeRu(m.title || '');
@@ -741,6 +777,19 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // TMDB search can't filter by provider - look the offers up for what we found
+    if (availability) {
+      const offers = await getWatchProvidersByIds(
+        combinedTmdbResults
+          .filter((r) => r.tmdbId)
+          .map((r) => ({ tmdbId: r.tmdbId!, mediaType: r.mediaType ?? 'movie' }))
+      );
+      combinedTmdbResults = combinedTmdbResults.filter((r) => {
+        const providers = r.tmdbId ? offers.get(r.tmdbId) : undefined;
+        return !!providers && isAvailableOn(providers, availability);
+      });
+    }
+
     // Cache new movies in background using movieService
     if (newTmdbMovies.length > 0) {
       Promise.all(
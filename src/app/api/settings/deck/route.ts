@@ -3,6 +3,52 @@ import { db } from '@/lib/db';
 import { deckSettings } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { getAuthUser } from '@/lib/auth/middleware';
+import { toDeckFilters } from '@/lib/room/deckFilters';
+import {
+  DECK_LANGUAGES,
+  MIN_DECK_YEAR,
+  DEFAULT_EXPLORE_LEVEL,
+  MAX_WATCH_PROVIDERS,
+} from '@/types/deck';
+import type { DeckSettings } from '@/lib/db/schema';
+
+function toResponse(settings: DeckSettings | undefined) {
+  const { mediaTypeFilter, minRatingFilter, genreIds, minYear, maxYear, maxRuntime, languages } =
+    toDeckFilters(settings);
+
+  return {
+    showWatchedMovies: settings?.showWatchedMovies ?? false,
+    exploreLevel: settings?.exploreLevel ?? DEFAULT_EXPLORE_LEVEL,
+    mediaTypeFilter,
+    minRatingFilter,
+    genreIds,
+    minYear,
+    maxYear,
+    maxRuntime,
+    languages,
+    // The availability filter applies in the region from the notification settings
+    watchProviderIds: parseProviderIds(settings?.watchProviderIds ?? null),
+    availableOnly: settings?.availableOnly ?? false,
+  };
+}
+
+function parseProviderIds(json: string | null): number[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function isYear(value: unknown): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= MIN_DECK_YEAR &&
+    (value as number) <= new Date().getFullYear() + 1
+  );
+}
 
 // Get deck settings
 export async function GET(request: NextRequest) {
@@ -17,20 +63,8 @@ export async function GET(request: NextRequest) {
       .from(deckSettings)
       .where(eq(deckSettings.userId, user.id));
 
-    // Return default settings if none exist
-    if (!settings) {
-      return NextResponse.json({
-        showWatchedMovies: false,
-        minRatingFilter: null,
-        mediaTypeFilter: 'all',
-      });
-    }
-
-    return NextResponse.json({
-      showWatchedMovies: settings.showWatchedMovies,
-      minRatingFilter: settings.minRatingFilter,
-      mediaTypeFilter: settings.mediaTypeFilter ?? 'all',
-    });
+    // Default settings if none exist
+    return NextResponse.json(toResponse(settings));
   } catch (error) {
     console.error('Failed to get deck settings:', error);
     return NextResponse.json(
@@ -49,7 +83,19 @@ export async function PATCH(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { showWatchedMovies, minRatingFilter, mediaTypeFilter } = body;
+    const {
+      showWatchedMovies,
+      minRatingFilter,
+      mediaTypeFilter,
+      genreIds,
+      minYear,
+      maxYear,
+      maxRuntime,
+      languages,
+      exploreLevel,
+      watchProviderIds,
+      availableOnly,
+    } = body;
 
     // Validate minRatingFilter
     if (
@@ -74,10 +120,87 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
+    // Validate genreIds
+    if (
+      genreIds !== undefined &&
+      (!Array.isArray(genreIds) || !genreIds.every((id) => Number.isInteger(id) && id > 0))
+    ) {
+      return NextResponse.json(
+        { error: 'genreIds must be an array of genre ids' },
+        { status: 400 }
+      );
+    }
+
+    // Validate languages
+    if (
+      languages !== undefined &&
+      (!Array.isArray(languages) ||
+        !languages.every((code) => DECK_LANGUAGES.includes(code)))
+    ) {
+      return NextResponse.json(
+        { error: `languages must only contain ${DECK_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate year range
+    for (const year of [minYear, maxYear]) {
+      if (year !== null && year !== undefined && !isYear(year)) {
+        return NextResponse.json(
+          { error: `Years must be between ${MIN_DECK_YEAR} and ${new Date().getFullYear() + 1}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Validate maxRuntime
+    if (
+      maxRuntime !== null &&
+      maxRuntime !== undefined &&
+      !(Number.isInteger(maxRuntime) && maxRuntime > 0)
+    ) {
+      return NextResponse.json(
+        { error: 'maxRuntime must be a positive number of minutes or null' },
+        { status: 400 }
+      );
+    }
+
+    // Validate exploreLevel
+    if (
+      exploreLevel !== undefined &&
+      !(Number.isInteger(exploreLevel) && exploreLevel >= 0 && exploreLevel <= 100)
+    ) {
+      return NextResponse.json(
+        { error: 'exploreLevel must be a whole percentage (0-100)' },
+        { status: 400 }
+      );
+    }
+
+    // Validate watchProviderIds
+    if (
+      watchProviderIds !== undefined &&
+      (!Array.isArray(watchProviderIds) ||
+        watchProviderIds.length > MAX_WATCH_PROVIDERS ||
+        !watchProviderIds.every((id) => Number.isInteger(id) && id > 0))
+    ) {
+      return NextResponse.json(
+        { error: `watchProviderIds must be an array of up to ${MAX_WATCH_PROVIDERS} provider ids` },
+        { status: 400 }
+      );
+    }
+
     const updateData: {
       showWatchedMovies?: boolean;
       minRatingFilter?: number | null;
       mediaTypeFilter?: string;
+      genreIds?: string | null;
+      minYear?: number | null;
+      maxYear?: number | null;
+      maxRuntime?: number | null;
+      languages?: string | null;
+      exploreLevel?: number;
+      watchProviderIds?: string | null;
+      availableOnly?: boolean;
       updatedAt: Date;
     } = {
       updatedAt: new Date(),
@@ -95,12 +218,55 @@ export async function PATCH(request: NextRequest) {
       updateData.mediaTypeFilter = mediaTypeFilter;
     }
 
+    if (genreIds !== undefined) {
+      updateData.genreIds = genreIds.length > 0 ? JSON.stringify(genreIds) : null;
+    }
+
+    if (minYear !== undefined) {
+      updateData.minYear = minYear;
+    }
+
+    if (maxYear !== undefined) {
+      updateData.maxYear = maxYear;
+    }
+
+    if (maxRuntime !== undefined) {
+      updateData.maxRuntime = maxRuntime;
+    }
+
+    if (languages !== undefined) {
+      updateData.languages = languages.length > 0 ? JSON.stringify(languages) : null;
+    }
+
+    if (exploreLevel !== undefined) {
+      updateData.exploreLevel = exploreLevel;
+    }
+
+    if (watchProviderIds !== undefined) {
+      updateData.watchProviderIds =
+        watchProviderIds.length > 0 ? JSON.stringify(watchProviderIds) : null;
+    }
+
+    if (typeof availableOnly === 'boolean') {
+      updateData.availableOnly = availableOnly;
+    }
+
     // Upsert settings
     const [existing] = await db
       .select()
       .from(deckSettings)
       .where(eq(deckSettings.userId, user.id));
 
+    // A partial update must still leave a valid range
+    const nextMinYear = minYear !== undefined ? minYear : existing?.minYear ?? null;
+    const nextMaxYear = maxYear !== undefined ? maxYear : existing?.maxYear ?? null;
+    if (nextMinYear !== null && nextMaxYear !== null && nextMinYear > nextMaxYear) {
+      return NextResponse.json(
+        { error: 'minYear must not be after maxYear' },
+        { status: 400 }
+      );
+    }
+
     if (existing) {
       await db
         .update(deckSettings)
@@ -112,6 +278,14 @@ export async function PATCH(request: NextRequest) {
         showWatchedMovies: showWatchedMovies ?? false,
         minRatingFilter: minRatingFilter ?? null,
         mediaTypeFilter: mediaTypeFilter ?? 'all',
+        genreIds: updateData.genreIds ?? null,
+        minYear: minYear ?? null,
+        maxYear: maxYear ?? null,
+        maxRuntime: maxRuntime ?? null,
+        languages: updateData.languages ?? null,
+        exploreLevel: exploreLevel ?? DEFAULT_EXPLORE_LEVEL,
+        watchProviderIds: updateData.watchProviderIds ?? null,
+        availableOnly: updateData.availableOnly ?? false,
       });
     }
 
@@ -121,11 +295,7 @@ export async function PATCH(request: NextRequest) {
       .from(deckSettings)
       .where(eq(deckSettings.userId, user.id));
 
-    return NextResponse.json({
-      showWatchedMovies: updated?.showWatchedMovies ?? false,
-      minRatingFilter: updated?.minRatingFilter ?? null,
-      mediaTypeFilter: updated?.mediaTypeFilter ?? 'all',
-    });
+    return NextResponse.json(toResponse(updated));
   } catch (error) {
     console.error('Failed to update deck settings:', error);
     return NextResponse.json(
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthUser, unauthorized, badRequest, success } from '@/lib/auth/middleware';
+import {
+  getSeriesProgress,
+  setEpisodeWatched,
+  setSeasonWatched,
+} from '@/lib/lists/episodeProgress';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/tv/[id]/progress - Get watched episodes and the next one up
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const tvId = parseInt(id, 10);
+  if (!tvId || isNaN(tvId)) {
+    return badRequest('Invalid id parameter');
+  }
+
+  try {
+    return success(await getSeriesProgress(user.id, tvId));
+  } catch (error) {
+    console.error('Failed to get series progress:', error);
+    return NextResponse.json({ error: 'Failed to get series progress' }, { status: 500 });
+  }
+}
+
+// POST /api/tv/[id]/progress - Mark an episode, or a whole season when no episode is given
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  const user = await getAuthUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const { id } = await params;
+  const tvId = parseInt(id, 10);
+  if (!tvId || isNaN(tvId)) {
+    return badRequest('Invalid id parameter');
+  }
+
+  const body = await request.json();
+  const { seasonNumber, episodeNumber, episodeTmdbId, watched } = body;
+
+  if (!Number.isInteger(seasonNumber) || seasonNumber < 0) {
+    return badRequest('seasonNumber is required and must be a number');
+  }
+  if (episodeNumber !== undefined && (!Number.isInteger(episodeNumber) || episodeNumber < 1)) {
+    return badRequest('episodeNumber must be a positive number');
+  }
+  if (episodeTmdbId !== undefined && !Number.isInteger(episodeTmdbId)) {
+    return badRequest('episodeTmdbId must be a number');
+  }
+  if (typeof watched !== 'boolean') {
+    return badRequest('watched is required and must be a boolean');
+  }
+
+  try {
+    if (episodeNumber === undefined) {
+      await setSeasonWatched(user.id, tvId, seasonNumber, watched);
+    } else {
+      await setEpisodeWatched(
+        user.id,
+        tvId,
+        { seasonNumber, episodeNumber, episodeTmdbId },
+        watched
+      );
+    }
+
+    return success(await getSeriesProgress(user.id, tvId));
+  } catch (error) {
+    console.error('Failed to update series progress:', error);
+    return NextResponse.json({ error: 'Failed to update series progress' }, { status: 500 });
+  }
+}
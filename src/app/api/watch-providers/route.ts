@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { tmdb } from '@/lib/api/tmdb';
+import { WATCH_REGIONS, type WatchRegion, type WatchProvider } from '@/types/movie';
+
+// Get the streaming services available in a region (movies and TV combined)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const region = searchParams.get('region') || 'US';
+
+    if (!WATCH_REGIONS.includes(region as WatchRegion)) {
+      return NextResponse.json(
+        { error: `region must be one of ${WATCH_REGIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const [movieProviders, tvProviders] = await Promise.all([
+      tmdb.getRegionWatchProviders('movie', region),
+      tmdb.getRegionWatchProviders('tv', region),
+    ]);
+
+    // Most popular services first
+    const byId = new Map<number, Omit<WatchProvider, 'types'> & { priority: number }>();
+    for (const provider of [...movieProviders, ...tvProviders]) {
+      const existing = byId.get(provider.provider_id);
+      if (!existing || provider.display_priority < existing.priority) {
+        byId.set(provider.provider_id, {
+          id: provider.provider_id,
+          name: provider.provider_name,
+          logoPath: provider.logo_path,
+          priority: provider.display_priority,
+        });
+      }
+    }
+
+    const providers = [...byId.values()]
+      .sort((a, b) => a.priority - b.priority)
+      .map((provider) => ({ id: provider.id, name: provider.name, logoPath: provider.logoPath }));
+
+    return NextResponse.json(
+      { providers },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=86400, stale-while-revalidate=604800',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Failed to get watch providers:', error);
+    return NextResponse.json(
+      { error: 'Failed to get watch providers' },
+      { status: 500 }
+    );
+  }
+}
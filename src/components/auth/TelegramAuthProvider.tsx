@@ -5,6 +5,7 @@ import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 import { useAuth } from '@/hooks/useAuth';
 import { useSyncLikesOnAuth } from '@/hooks/useSyncLikesOnAuth';
 import { useSyncPendingRatingOnAuth } from '@/hooks/useSyncPendingRatingOnAuth';
+import { useSyncTimeZoneOnAuth } from '@/hooks/useSyncTimeZoneOnAuth';
 
 interface TelegramAuthProviderProps {
   children: React.ReactNode;
@@ -18,6 +19,8 @@ export function TelegramAuthProvider({ children }: TelegramAuthProviderProps) {
   // Sync locally stored likes and pending rating when user authenticates
   useSyncLikesOnAuth();
   useSyncPendingRatingOnAuth();
+  // Quiet hours follow the time zone of the device the Mini App runs on
+  useSyncTimeZoneOnAuth(isTelegramMiniApp);
 
   useEffect(() => {
     // Only attempt auth once, when we're in Telegram Mini App and have initData
@@ -1,17 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTranslations } from 'next-intl';
 import { HugeiconsIcon } from '@hugeicons/react';
 import { Loading02Icon, CheckmarkCircle02Icon, Playlist01Icon, Tick02Icon, Add01Icon } from '@hugeicons/core-free-icons';
 import { useAuthToken, useIsAuthenticated } from '@/stores/authStore';
 import { MOVIE_STATUS, type MovieStatus } from '@/lib/db/schema';
+import { MAX_CUSTOM_LIST_NAME_LENGTH, type CustomListSummary } from '@/types/customList';
 import { Small } from '@/components/ui/typography';
 import { MatchAuthPrompt } from '@/components/auth/MatchAuthPrompt';
 
 interface AddToListButtonProps {
   tmdbId: number;
+  mediaType?: 'movie' | 'tv';
   currentStatus?: MovieStatus | null;
   onStatusChange?: (status: MovieStatus | null) => void;
   showLabel?: boolean;
@@ -20,6 +22,7 @@ interface AddToListButtonProps {
 
 export function AddToListButton({
   tmdbId,
+  mediaType,
   currentStatus = null,
   onStatusChange,
   showLabel = false,
@@ -32,6 +35,20 @@ export function AddToListButton({
   const [isLoading, setIsLoading] = useState(false);
   const [status, setStatus] = useState<MovieStatus | null>(currentStatus);
   const [showAuthPrompt, setShowAuthPrompt] = useState(false);
+  const [customLists, setCustomLists] = useState<CustomListSummary[] | null>(null);
+  const [newListName, setNewListName] = useState('');
+
+  // Load the user's own lists each time the menu opens
+  useEffect(() => {
+    if (!isOpen || !token) return;
+
+    fetch(`/api/lists/custom?tmdbId=${tmdbId}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setCustomLists(data.lists))
+      .catch((err) => console.error('Failed to load custom lists:', err));
+  }, [isOpen, token, tmdbId]);
 
   const sizeClasses = {
     sm: 'w-8 h-8 text-lg',
@@ -85,6 +102,77 @@ export function AddToListButton({
     }
   };
 
+  const addToCustomList = async (listId: string) => {
+    const response = await fetch(`/api/lists/custom/${listId}/items`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ tmdbId, mediaType }),
+    });
+    return response.ok;
+  };
+
+  const handleCustomListToggle = async (list: CustomListSummary) => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      const ok = list.hasMovie
+        ? (
+            await fetch(`/api/lists/custom/${list.id}/items/${tmdbId}`, {
+              method: 'DELETE',
+              headers: { Authorization: `Bearer ${token}` },
+            })
+          ).ok
+        : await addToCustomList(list.id);
+
+      if (ok) {
+        const delta = list.hasMovie ? -1 : 1;
+        setCustomLists((lists) =>
+          lists?.map((l) =>
+            l.id === list.id ? { ...l, hasMovie: !l.hasMovie, itemCount: l.itemCount + delta } : l
+          ) ?? null
+        );
+      }
+    } catch (err) {
+      console.error('Failed to update custom list:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCreateList = async () => {
+    const name = newListName.trim();
+    if (!token || !name) return;
+
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/lists/custom', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) return;
+
+      const list: CustomListSummary = await response.json();
+      const added = await addToCustomList(list.id);
+      setCustomLists((lists) => [
+        ...(lists ?? []),
+        added ? { ...list, hasMovie: true, itemCount: 1 } : list,
+      ]);
+      setNewListName('');
+    } catch (err) {
+      console.error('Failed to create custom list:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleButtonClick = () => {
     if (!isAuthenticated) {
       setShowAuthPrompt(true);
@@ -140,7 +228,7 @@ export function AddToListButton({
               initial={{ opacity: 0, scale: 0.9, y: -10 }}
               animate={{ opacity: 1, scale: 1, y: 0 }}
               exit={{ opacity: 0, scale: 0.9, y: -10 }}
-              className="absolute right-0 top-full z-50 mt-2 w-48 overflow-hidden rounded-lg bg-gray-800 shadow-xl"
+              className="absolute right-0 top-full z-50 mt-2 w-56 overflow-hidden rounded-lg bg-gray-800 shadow-xl"
             >
               <button
                 onClick={() => handleAction(MOVIE_STATUS.WANT_TO_WATCH)}
@@ -171,6 +259,40 @@ export function AddToListButton({
                   <HugeiconsIcon icon={Tick02Icon} size={16} className="ml-auto" />
                 )}
               </button>
+
+              {/* User's own lists - a title can be in any number of them */}
+              <div className="border-t border-gray-700">
+                {customLists?.map((list) => (
+                  <button
+                    key={list.id}
+                    onClick={() => handleCustomListToggle(list)}
+                    disabled={isLoading}
+                    className="flex w-full items-center gap-2 px-4 py-2.5 text-left text-sm text-gray-300 transition-colors hover:bg-gray-700"
+                  >
+                    <span className="truncate">{list.name}</span>
+                    {list.hasMovie && (
+                      <HugeiconsIcon icon={Tick02Icon} size={16} className="ml-auto shrink-0" />
+                    )}
+                  </button>
+                ))}
+
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleCreateList();
+                  }}
+                  className="flex items-center gap-2 px-4 py-2"
+                >
+                  <HugeiconsIcon icon={Add01Icon} size={16} className="shrink-0 text-gray-400" />
+                  <input
+                    value={newListName}
+                    onChange={(e) => setNewListName(e.target.value)}
+                    placeholder={t('newList', { defaultValue: 'New list' })}
+                    maxLength={MAX_CUSTOM_LIST_NAME_LENGTH}
+                    className="min-w-0 flex-1 bg-transparent text-sm text-gray-200 placeholder:text-gray-500 focus:outline-none"
+                  />
+                </form>
+              </div>
             </motion.div>
           </>
         )}
@@ -36,6 +36,9 @@ import { Button } from '@/components/ui/button';
 import { RatingStars } from './RatingStars';
 import { SeasonsAccordion } from '@/components/movie/SeasonsAccordion';
 import { TrailerModal } from '@/components/movie/TrailerModal';
+import { WhereToWatch } from '@/components/movie/WatchProviders';
+import { TitleNotifications } from '@/components/movie/TitleNotifications';
+import { MovieCredits } from '@/components/movie/MovieCredits';
 import { RatingAuthPrompt } from '@/components/auth/RatingAuthPrompt';
 import { MOVIE_STATUS, type MovieStatus } from '@/lib/db/schema';
 import { useAuthToken } from '@/stores/authStore';
@@ -818,6 +821,10 @@ export function MovieDetailModal({
                   )}
                 </div>
               )}
+
+              <MovieCredits tmdbId={tmdbId} mediaType={movie?.mediaType ?? 'movie'} />
+              <WhereToWatch tmdbId={tmdbId} mediaType={movie?.mediaType ?? 'movie'} />
+              <TitleNotifications tmdbId={tmdbId} mediaType={movie?.mediaType ?? 'movie'} />
             </div>
           </div>
         </div>
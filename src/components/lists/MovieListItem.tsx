@@ -15,8 +15,10 @@ import { Badge } from '@/components/ui/badge';
 import { WatchTimer, useWatchProgress } from './WatchTimer';
 import { WatchCompletePrompt } from './WatchCompletePrompt';
 import { MovieDetailModal } from './MovieDetailModal';
+import { Progress } from '@/components/ui/progress';
 import { Large } from '@/components/ui/typography';
 import { MOVIE_STATUS, type MovieStatus } from '@/lib/db/schema';
+import type { EpisodeProgressSummary } from '@/types/episodeProgress';
 
 interface MovieData {
   title: string;
@@ -48,6 +50,7 @@ interface MovieListItemProps {
   rating?: number | null;
   movie: MovieData | null;
   watchStartedAt?: string | null;
+  episodeProgress?: EpisodeProgressSummary | null;
   onStatusChange?: (status: MovieStatus) => void;
   onRatingChange?: (rating: number) => void;
   onRemove?: () => void;
@@ -71,6 +74,7 @@ export function MovieListItem({
   rating = null,
   movie,
   watchStartedAt = null,
+  episodeProgress = null,
   onStatusChange,
   onRatingChange,
   onRemove,
@@ -107,6 +111,10 @@ export function MovieListItem({
   // Show prompt if watching and either no start time (bug recovery) or timer complete
   const showPrompt = status === MOVIE_STATUS.WATCHING && (!watchStartedAt || isWatchComplete);
 
+  // Series in progress show watched episodes
+  const showEpisodeProgress =
+    status === MOVIE_STATUS.WATCHING && movie?.mediaType === 'tv' && !!episodeProgress?.total;
+
   // Calculate average rating from all available platforms
   const averageRating = movie
     ? calculateAverageRatingFromStrings(
@@ -220,6 +228,21 @@ export function MovieListItem({
               />
             </div>
           )}
+
+          {/* Episode progress of a series being watched */}
+          {showEpisodeProgress && episodeProgress && (
+            <div className="mt-1 w-full">
+              <Progress
+                value={Math.min(100, Math.round((episodeProgress.watched / episodeProgress.total) * 100))}
+              />
+              <div className="mt-1 text-xs text-muted-foreground">
+                {t('episodesWatched', {
+                  watched: Math.min(episodeProgress.watched, episodeProgress.total),
+                  total: episodeProgress.total,
+                })}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* More icon */}
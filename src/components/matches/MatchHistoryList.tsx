@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useLocale, useTranslations } from 'next-intl';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { FavouriteIcon, PlayIcon } from '@hugeicons/core-free-icons';
+import { useAuthToken } from '@/stores/authStore';
+import { useListStore } from '@/stores/listStore';
+import { Button } from '@/components/ui/button';
+import { Loader } from '@/components/ui/Loader';
+import { H4, Muted } from '@/components/ui/typography';
+import { RatingStars } from '@/components/lists/RatingStars';
+import { MOVIE_STATUS } from '@/lib/db/schema';
+import type { MatchHistoryEntry } from '@/types/matchHistory';
+
+export function MatchHistoryList() {
+  const t = useTranslations('matches');
+  const token = useAuthToken();
+  const invalidateLists = useListStore((state) => state.invalidateCache);
+
+  const [matches, setMatches] = useState<MatchHistoryEntry[] | null>(null);
+  const [error, setError] = useState(false);
+
+  const loadMatches = useCallback(
+    () =>
+      fetch('/api/matches', { headers: { Authorization: `Bearer ${token}` } })
+        .then((response) => (response.ok ? response.json() : Promise.reject(response.status)))
+        .then((data) => setMatches(data.matches))
+        .catch((err) => {
+          console.error('Failed to load matches:', err);
+          setError(true);
+        }),
+    [token]
+  );
+
+  useEffect(() => {
+    if (token) loadMatches();
+  }, [token, loadMatches]);
+
+  const handleWatch = async (match: MatchHistoryEntry) => {
+    const response = await fetch(`/api/matches/${match.id}/watch`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (response.ok) {
+      invalidateLists();
+      loadMatches();
+    }
+  };
+
+  const handleRate = async (match: MatchHistoryEntry, rating: number) => {
+    const eveningRating = rating || null;
+    setMatches((current) =>
+      current?.map((m) => (m.id === match.id ? { ...m, eveningRating } : m)) ?? null
+    );
+    await fetch(`/api/matches/${match.id}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({ eveningRating }),
+    });
+  };
+
+  if (error) {
+    return <Muted className="block py-16 text-center">{t('error')}</Muted>;
+  }
+
+  if (!matches) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader />
+      </div>
+    );
+  }
+
+  if (matches.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center px-4 py-16 text-center">
+        <div className="mb-6 flex justify-center text-primary">
+          <HugeiconsIcon icon={FavouriteIcon} size={64} className="opacity-50" />
+        </div>
+        <H4 className="mb-2 text-foreground">{t('empty')}</H4>
+        <Muted className="max-w-sm">{t('emptyHint')}</Muted>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 px-4">
+      {matches.map((match) => (
+        <MatchCard
+          key={match.id}
+          match={match}
+          onWatch={() => handleWatch(match)}
+          onRate={(rating) => handleRate(match, rating)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function MatchCard({
+  match,
+  onWatch,
+  onRate,
+}: {
+  match: MatchHistoryEntry;
+  onWatch: () => void;
+  onRate: (rating: number) => void;
+}) {
+  const t = useTranslations('matches');
+  const locale = useLocale();
+
+  const title = (locale === 'ru' && match.titleRu) || match.title || `#${match.tmdbId}`;
+  const date = new Date(match.matchedAt).toLocaleDateString(locale, {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+  const partners = [
+    ...match.partners.map((p) => p.name),
+    ...(match.guestCount > 0 ? [t('guests', { count: match.guestCount })] : []),
+  ].join(', ');
+
+  return (
+    <div className="flex gap-3 rounded-xl bg-muted/50 p-3">
+      {match.posterUrl && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={match.posterUrl} alt="" className="h-28 w-[75px] shrink-0 rounded-lg object-cover" />
+      )}
+
+      <div className="flex min-w-0 flex-1 flex-col gap-2">
+        <div>
+          <p className="truncate font-medium text-foreground">{title}</p>
+          <p className="text-xs text-muted-foreground">{date}</p>
+          {partners && (
+            <p className="truncate text-xs text-muted-foreground">
+              {t('with', { names: partners })}
+            </p>
+          )}
+        </div>
+
+        {match.listStatus === MOVIE_STATUS.WATCHED ? (
+          <Muted className="block text-xs">{t('watched')}</Muted>
+        ) : match.listStatus === MOVIE_STATUS.WATCHING && match.watchStartedAt ? (
+          <Muted className="block text-xs">{t('watching')}</Muted>
+        ) : (
+          <Button size="sm" variant="secondary" className="self-start" onClick={onWatch}>
+            <HugeiconsIcon icon={PlayIcon} size={16} />
+            {t('watchTogether')}
+          </Button>
+        )}
+
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-muted-foreground">{t('rateEvening')}</span>
+          <RatingStars rating={match.eveningRating} onChange={onRate} size="sm" />
+        </div>
+      </div>
+    </div>
+  );
+}
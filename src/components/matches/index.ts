@@ -0,0 +1 @@
+export { MatchHistoryList } from './MatchHistoryList';
@@ -8,9 +8,11 @@ import { FilterIcon, ArrowLeft01Icon } from '@hugeicons/core-free-icons';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Small, XSmall, Muted } from '@/components/ui/typography';
 import { useGenresList } from '@/hooks/useGenresList';
+import { useWatchProviderIds } from '@/stores/deckSettingsStore';
 import type { SearchFilters, MediaTypeFilter, OriginalLanguage } from '@/types/movie';
 import { DEFAULT_LANGUAGES } from '@/types/movie';
 
@@ -67,6 +69,7 @@ export const FiltersMenu = memo(function FiltersMenu({
 }: FiltersMenuProps) {
   const t = useTranslations('search');
   const { genresData, isLoading: isLoadingGenres } = useGenresList();
+  const hasServices = useWatchProviderIds().length > 0;
   const [isOpen, setIsOpen] = useState(false);
 
   // Animation state machine
@@ -247,6 +250,7 @@ export const FiltersMenu = memo(function FiltersMenu({
       originalLanguages: DEFAULT_LANGUAGES,
       runtimeMin: null,
       runtimeMax: null,
+      onMyServices: false,
     });
     // Reset "show all" states
     setShowAllMovieGenres(false);
@@ -262,7 +266,8 @@ export const FiltersMenu = memo(function FiltersMenu({
     (filters.ratingMin ? 1 : 0) +
     (!isDefaultLanguages(filters.originalLanguages) ? 1 : 0) +
     (filters.runtimeMin ? 1 : 0) +
-    (filters.runtimeMax ? 1 : 0);
+    (filters.runtimeMax ? 1 : 0) +
+    (filters.onMyServices && hasServices ? 1 : 0);
 
   const showMovieGenres = filters.mediaType === 'all' || filters.mediaType === 'movie';
   const showTvGenres = filters.mediaType === 'all' || filters.mediaType === 'tv';
@@ -603,6 +608,26 @@ export const FiltersMenu = memo(function FiltersMenu({
                     </div>
                   </div>
                 </div>
+
+                {/* Streaming services filter */}
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <Small className="block">{t('onMyServices')}</Small>
+                    <XSmall className="text-muted-foreground">
+                      {hasServices ? t('onMyServicesDescription') : t('onMyServicesEmpty')}
+                    </XSmall>
+                  </div>
+                  <Switch
+                    checked={filters.onMyServices && hasServices}
+                    onCheckedChange={(checked) =>
+                      onFiltersChange({
+                        ...filters,
+                        onMyServices: checked,
+                      })
+                    }
+                    disabled={disabled || !hasServices}
+                  />
+                </div>
               </div>
             </div>
 
@@ -6,6 +6,7 @@ import Image from 'next/image';
 import { OverlayScrollbarsComponent } from 'overlayscrollbars-react';
 import { H3, H4, Small } from '@/components/ui/typography';
 import { MovieBadges } from '@/components/molecules/MovieBadges';
+import { WatchProviderLogos } from '@/components/movie/WatchProviders';
 import { calculateAverageRating } from '@/lib/utils/rating';
 import { translateGenres } from '@/lib/genres';
 import type { Movie } from '@/types/movie';
@@ -255,6 +256,9 @@ export const MovieCard = forwardRef<MovieCardRef, MovieCardProps>(function Movie
             />
           </div>
 
+          {/* Where to watch */}
+          <WatchProviderLogos providers={movie.watchProviders} className="mb-3" />
+
           {/* Overview (truncated) */}
           <Small className="text-gray-200 line-clamp-3 font-normal leading-normal">{overview}</Small>
 
@@ -0,0 +1,73 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import type { MediaType, MovieCredits as MovieCreditsData } from '@/types/movie';
+
+// Actors listed in the details - the rest are a tap on TMDB away
+const SHOWN_CAST = 6;
+
+interface MovieCreditsProps {
+  tmdbId: number;
+  mediaType: MediaType;
+}
+
+/**
+ * Directors, writers, top cast and keywords of the movie details.
+ */
+export function MovieCredits({ tmdbId, mediaType }: MovieCreditsProps) {
+  const t = useTranslations('lists');
+  const [loaded, setLoaded] = useState<{ key: string; credits: MovieCreditsData | null } | null>(
+    null
+  );
+
+  const key = `${mediaType}:${tmdbId}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/movies/${tmdbId}/credits?type=${mediaType}`)
+      .then((response) => (response.ok ? response.json() : { credits: null }))
+      .then((data: { credits: MovieCreditsData | null }) => {
+        if (!cancelled) setLoaded({ key, credits: data.credits });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ key, credits: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tmdbId, mediaType, key]);
+
+  if (loaded?.key !== key || !loaded.credits) return null;
+
+  const { directors, writers, cast, keywords } = loaded.credits;
+  const rows = [
+    { label: t('directors'), names: directors.map((p) => p.name) },
+    { label: t('writers'), names: writers.map((p) => p.name) },
+    { label: t('cast'), names: cast.slice(0, SHOWN_CAST).map((p) => p.name) },
+  ].filter((row) => row.names.length > 0);
+
+  if (rows.length === 0 && keywords.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      {rows.map((row) => (
+        <p key={row.label} className="text-sm">
+          <span className="text-white/50">{row.label}: </span>
+          <span className="text-white/80">{row.names.join(', ')}</span>
+        </p>
+      ))}
+      {keywords.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 pt-1">
+          {keywords.map((keyword) => (
+            <span key={keyword} className="rounded-full bg-white/10 px-2.5 py-0.5 text-xs text-white/70">
+              {keyword}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
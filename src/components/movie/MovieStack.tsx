@@ -4,15 +4,16 @@ import { useCallback, useRef, useEffect, useState } from 'react';
 import { AnimatePresence } from 'framer-motion';
 import { useTranslations, useLocale } from 'next-intl';
 import { HugeiconsIcon } from '@hugeicons/react';
-import { Film02Icon, Cancel01Icon, FavouriteIcon } from '@hugeicons/core-free-icons';
+import { Film02Icon, Cancel01Icon, FavouriteIcon, Undo02Icon, StarIcon, BlockedIcon } from '@hugeicons/core-free-icons';
 import { MovieCard, MovieCardRef } from './MovieCard';
 import { useSwipeStore } from '@/stores/swipeStore';
 import { useQueueStore } from '@/stores/queueStore';
+import { useRoomStore } from '@/stores/roomStore';
 import { useSocket } from '@/hooks/useSocket';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useCardStackHeight } from '@/hooks/useCardStackHeight';
 import { useIsAuthenticated, useAuthToken } from '@/stores/authStore';
-import type { UserSlot } from '@/types/room';
+import { VETOES_PER_ROOM, type UserSlot, type SwipeAction } from '@/types/room';
 
 interface MovieStackProps {
   roomCode: string;
@@ -28,9 +29,16 @@ export function MovieStack({
   const cardStackHeight = useCardStackHeight();
   const { addSwipe, addLikedMovieDetails } = useSwipeStore();
   const { getVisibleMovies, consumeNext, currentIndex, queue, isInitialized, setAnimating, processPendingLikes } = useQueueStore();
-  const { emitSwipe } = useSocket(roomCode, userSlot);
+  const { emitSwipe, undoSwipe } = useSocket(roomCode, userSlot);
   const { trackSwipe } = useAnalytics();
   const topCardRef = useRef<MovieCardRef | null>(null);
+  // Super-like / veto chosen via buttons, applied when the card leaves
+  const pendingActionRef = useRef<SwipeAction | null>(null);
+
+  const vetoesUsed = useRoomStore(
+    (state) => state.members.find((m) => m.userSlot === userSlot)?.vetoesUsed ?? 0
+  );
+  const vetoesLeft = Math.max(0, VETOES_PER_ROOM - vetoesUsed);
 
   // Global swipe lock to prevent multiple cards swiping at once
   const [isSwipeLocked, setIsSwipeLocked] = useState(false);
@@ -71,8 +79,9 @@ export function MovieStack({
       setAnimating(true);
       console.log('[SWIPE] Locks set', { isSwipeLocked: true, isAnimating: true });
 
-      const action = direction === 'right' ? 'like' : 'skip';
-      addSwipe(movieId, action === 'like');
+      const action = pendingActionRef.current ?? (direction === 'right' ? 'like' : 'skip');
+      pendingActionRef.current = null;
+      addSwipe(movieId, direction === 'right', action);
       emitSwipe(movieId, action);
       trackSwipe(direction, movieId);
 
@@ -133,17 +142,22 @@ export function MovieStack({
   const visibleMovies = visibleItems.map((item) => item.movie);
 
 
-  const handleButtonClick = (direction: 'left' | 'right') => {
-    console.log('[BUTTON] Click', { direction, swipeLockRef: swipeLockRef.current });
+  const handleButtonClick = (direction: 'left' | 'right', action?: SwipeAction) => {
     if (swipeLockRef.current) {
       console.log('[BUTTON] Click BLOCKED');
       return;
     }
     if (topCardRef.current && visibleMovies[0]) {
+      pendingActionRef.current = action ?? null;
       topCardRef.current.swipe(direction);
     }
   };
 
+  const handleUndo = () => {
+    if (swipeLockRef.current || currentIndex === 0) return;
+    undoSwipe();
+  };
+
   // Check if we've run out of movies (only check if queue is initialized)
   if (isInitialized && currentIndex >= queue.length) {
     return (
@@ -188,7 +202,20 @@ export function MovieStack({
       </div>
 
       {/* Action buttons */}
-      <div className="flex gap-8">
+      <div className="flex gap-6">
+        <button
+          onClick={() => handleButtonClick('left', 'veto')}
+          disabled={vetoesLeft === 0 || isSwipeLocked}
+          className="relative self-center w-11 h-11 sm:w-12 sm:h-12 rounded-full bg-gray-800 hover:bg-gray-900 dark:bg-gray-200 dark:hover:bg-gray-100 flex items-center justify-center shadow-lg transition-transform hover:scale-110 active:scale-95 disabled:opacity-40 disabled:hover:scale-100"
+          aria-label={t('veto', { count: vetoesLeft })}
+          title={t('veto', { count: vetoesLeft })}
+        >
+          <HugeiconsIcon icon={BlockedIcon} size={22} className="text-white dark:text-gray-900" />
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+            {vetoesLeft}
+          </span>
+        </button>
+
         <button
           onClick={() => handleButtonClick('left')}
           className="w-14 h-14 sm:w-16 sm:h-16 rounded-full bg-red-500 hover:bg-red-600 flex items-center justify-center shadow-lg shadow-red-500/25 transition-transform hover:scale-110 active:scale-95"
@@ -197,6 +224,15 @@ export function MovieStack({
           <HugeiconsIcon icon={Cancel01Icon} size={32} className="text-white" strokeWidth={2.5} />
         </button>
 
+        <button
+          onClick={handleUndo}
+          disabled={currentIndex === 0 || isSwipeLocked}
+          className="self-center w-11 h-11 sm:w-12 sm:h-12 rounded-full bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 flex items-center justify-center transition-transform hover:scale-110 active:scale-95 disabled:opacity-40 disabled:hover:scale-100"
+          aria-label={t('undo')}
+        >
+          <HugeiconsIcon icon={Undo02Icon} size={22} className="text-gray-600 dark:text-gray-400" />
+        </button>
+
         <button
           onClick={() => handleButtonClick('right')}
           className="w-14 h-14 sm:w-16 sm:h-16 rounded-full bg-green-500 hover:bg-green-600 flex items-center justify-center shadow-lg shadow-green-500/25 transition-transform hover:scale-110 active:scale-95"
@@ -204,6 +240,14 @@ export function MovieStack({
         >
           <HugeiconsIcon icon={FavouriteIcon} size={32} className="text-white" fill="currentColor" />
         </button>
+
+        <button
+          onClick={() => handleButtonClick('right', 'super_like')}
+          className="self-center w-11 h-11 sm:w-12 sm:h-12 rounded-full bg-blue-500 hover:bg-blue-600 flex items-center justify-center shadow-lg shadow-blue-500/25 transition-transform hover:scale-110 active:scale-95"
+          aria-label={t('superLike')}
+        >
+          <HugeiconsIcon icon={StarIcon} size={22} className="text-white" fill="currentColor" />
+        </button>
       </div>
 
     </div>
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useTranslations, useLocale } from 'next-intl';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { CheckmarkCircle02Icon } from '@hugeicons/core-free-icons';
 import {
   Accordion,
   AccordionContent,
@@ -9,14 +11,21 @@ import {
   AccordionTrigger,
 } from '@/components/ui/accordion';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Button } from '@/components/ui/button';
 import { Muted } from '@/components/ui/typography';
+import { useAuthToken } from '@/stores/authStore';
 import type { TMDBSeason, TMDBEpisode } from '@/types/movie';
+import type { SeriesProgress } from '@/types/episodeProgress';
 
 interface SeasonsAccordionProps {
   tvId: number;
   numberOfSeasons: number;
 }
 
+// Episodes can only be marked once they're out
+const isAired = (episode: TMDBEpisode) =>
+  !!episode.air_date && episode.air_date <= new Date().toISOString().split('T')[0];
+
 interface SeasonData {
   season: TMDBSeason;
   loading: boolean;
@@ -26,7 +35,64 @@ interface SeasonData {
 export function SeasonsAccordion({ tvId, numberOfSeasons }: SeasonsAccordionProps) {
   const t = useTranslations('seasons');
   const locale = useLocale();
+  const token = useAuthToken();
   const [seasonsData, setSeasonsData] = useState<Record<number, SeasonData>>({});
+  // Watched marks of the signed-in user, keyed by series
+  const [progress, setProgress] = useState<{ tvId: number; data: SeriesProgress } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    fetch(`/api/tv/${tvId}/progress`, { headers: { Authorization: `Bearer ${token}` } })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: SeriesProgress | null) => {
+        if (!cancelled && data) setProgress({ tvId, data });
+      })
+      .catch((error) => console.error('Failed to load series progress:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tvId, token]);
+
+  const seriesProgress = token && progress?.tvId === tvId ? progress.data : null;
+  const isWatched = (seasonNumber: number, episodeNumber: number) =>
+    !!seriesProgress?.watched.some(
+      (e) => e.seasonNumber === seasonNumber && e.episodeNumber === episodeNumber
+    );
+
+  // Mark one episode, or the whole season when no episode is given
+  const updateProgress = useCallback(async (
+    seasonNumber: number,
+    watched: boolean,
+    episode?: TMDBEpisode
+  ) => {
+    if (!token) return;
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/tv/${tvId}/progress`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          seasonNumber,
+          episodeNumber: episode?.episode_number,
+          episodeTmdbId: episode?.id,
+          watched,
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to update progress');
+      setProgress({ tvId, data: await response.json() });
+    } catch (error) {
+      console.error('Failed to update series progress:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  }, [tvId, token]);
 
   const formatDate = useCallback((dateStr: string | null) => {
     if (!dateStr) return null;
@@ -87,6 +153,16 @@ export function SeasonsAccordion({ tvId, numberOfSeasons }: SeasonsAccordionProp
   return (
     <div className="mt-4">
       <Muted className="text-xs uppercase tracking-wider mb-2">{t('title')}</Muted>
+      {seriesProgress && seriesProgress.watched.length > 0 && (
+        <p className="mb-2 text-sm">
+          {seriesProgress.nextUp
+            ? t('nextUp', {
+                season: seriesProgress.nextUp.seasonNumber,
+                episode: seriesProgress.nextUp.episodeNumber,
+              })
+            : t('caughtUp')}
+        </p>
+      )}
       <Accordion type="single" collapsible onValueChange={handleValueChange}>
         {seasonNumbers.map((seasonNum) => {
           const data = seasonsData[seasonNum];
@@ -94,6 +170,12 @@ export function SeasonsAccordion({ tvId, numberOfSeasons }: SeasonsAccordionProp
           const hasError = data?.error;
           const season = data?.season;
           const episodes = season?.episodes || [];
+          const watchedInSeason =
+            seriesProgress?.watched.filter((e) => e.seasonNumber === seasonNum).length ?? 0;
+          const airedEpisodes = episodes.filter(isAired);
+          const isSeasonWatched =
+            airedEpisodes.length > 0 &&
+            airedEpisodes.every((e) => isWatched(seasonNum, e.episode_number));
 
           return (
             <AccordionItem key={seasonNum} value={String(seasonNum)}>
@@ -105,6 +187,11 @@ export function SeasonsAccordion({ tvId, numberOfSeasons }: SeasonsAccordionProp
                       {t('episodeCount', { count: season.episode_count })}
                     </span>
                   )}
+                  {watchedInSeason > 0 && (
+                    <span className="ml-2 text-muted-foreground">
+                      {t('watchedCount', { count: watchedInSeason })}
+                    </span>
+                  )}
                 </span>
               </AccordionTrigger>
               <AccordionContent>
@@ -120,6 +207,18 @@ export function SeasonsAccordion({ tvId, numberOfSeasons }: SeasonsAccordionProp
                   <Muted className="text-destructive">{t('loadError')}</Muted>
                 )}
 
+                {!isLoading && !hasError && airedEpisodes.length > 0 && seriesProgress && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mb-2 w-full"
+                    disabled={isSaving}
+                    onClick={() => updateProgress(seasonNum, !isSeasonWatched)}
+                  >
+                    {isSeasonWatched ? t('unmarkSeason') : t('markSeasonWatched')}
+                  </Button>
+                )}
+
                 {!isLoading && !hasError && episodes.length > 0 && (
                   <div className="space-y-1">
                     {episodes.map((episode: TMDBEpisode) => (
@@ -138,6 +237,28 @@ export function SeasonsAccordion({ tvId, numberOfSeasons }: SeasonsAccordionProp
                             </Muted>
                           )}
                         </div>
+                        {seriesProgress && isAired(episode) && (
+                          <button
+                            type="button"
+                            disabled={isSaving}
+                            aria-pressed={isWatched(seasonNum, episode.episode_number)}
+                            aria-label={t('markEpisodeWatched', { number: episode.episode_number })}
+                            className={
+                              isWatched(seasonNum, episode.episode_number)
+                                ? 'flex-shrink-0 text-primary'
+                                : 'flex-shrink-0 text-muted-foreground/40 hover:text-muted-foreground'
+                            }
+                            onClick={() =>
+                              updateProgress(
+                                seasonNum,
+                                !isWatched(seasonNum, episode.episode_number),
+                                episode
+                              )
+                            }
+                          >
+                            <HugeiconsIcon icon={CheckmarkCircle02Icon} size={20} />
+                          </button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { Switch } from '@/components/ui/switch';
+import { useAuthToken } from '@/stores/authStore';
+import { TITLE_SUBSCRIPTION_STATE } from '@/lib/db/schema';
+import type { MediaType } from '@/types/movie';
+import type { TitleNotificationSetting } from '@/types/titleSubscription';
+
+// Labels shared with the notification settings
+const TYPE_LABELS: Record<string, string> = {
+  theatrical_release: 'theatricalReleases',
+  digital_release: 'digitalReleases',
+  episode_release: 'episodeReleases',
+  season_announcement: 'seasonAnnouncements',
+};
+
+interface TitleNotificationsProps {
+  tmdbId: number;
+  mediaType: MediaType;
+}
+
+/**
+ * Follow or mute one title's notifications, over the global settings.
+ */
+export function TitleNotifications({ tmdbId, mediaType }: TitleNotificationsProps) {
+  const t = useTranslations('notifications');
+  const token = useAuthToken();
+  const [loaded, setLoaded] = useState<{
+    key: string;
+    settings: TitleNotificationSetting[];
+  } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const key = `${mediaType}:${tmdbId}`;
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    fetch(`/api/notifications/titles/${tmdbId}?type=${mediaType}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { settings: TitleNotificationSetting[] } | null) => {
+        if (!cancelled && data) setLoaded({ key, settings: data.settings });
+      })
+      .catch((error) => console.error('Failed to load title notifications:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tmdbId, mediaType, key, token]);
+
+  if (!token || loaded?.key !== key) return null;
+
+  const handleToggle = async (setting: TitleNotificationSetting, enabled: boolean) => {
+    // Matching the global setting needs no override
+    const state =
+      enabled === setting.defaultEnabled
+        ? null
+        : enabled
+          ? TITLE_SUBSCRIPTION_STATE.FOLLOW
+          : TITLE_SUBSCRIPTION_STATE.MUTE;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/notifications/titles/${tmdbId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ notificationType: setting.type, state }),
+      });
+      if (!response.ok) throw new Error('Failed to update title notifications');
+      const data: { settings: TitleNotificationSetting[] } = await response.json();
+      setLoaded({ key, settings: data.settings });
+    } catch (error) {
+      console.error('Failed to update title notifications:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <p className="mb-2 text-sm font-medium">
+        {mediaType === 'tv' ? t('forThisShow') : t('forThisMovie')}
+      </p>
+      <div className="space-y-2">
+        {loaded.settings.map((setting) => {
+          const enabled = setting.state
+            ? setting.state === TITLE_SUBSCRIPTION_STATE.FOLLOW
+            : setting.defaultEnabled;
+
+          return (
+            <div key={setting.type} className="flex items-center gap-3">
+              <div className="flex-1">
+                <p className="text-sm text-white/80">{t(TYPE_LABELS[setting.type])}</p>
+                {setting.state && (
+                  <p className="text-xs text-white/50">
+                    {setting.state === TITLE_SUBSCRIPTION_STATE.MUTE
+                      ? t('titleMuted')
+                      : t('titleFollowed')}
+                  </p>
+                )}
+              </div>
+              <Switch
+                checked={enabled}
+                onCheckedChange={(checked) => handleToggle(setting, checked)}
+                disabled={isSaving}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { getLogoUrl } from '@/lib/api/poster';
+import { usePreferredReleaseRegion } from '@/stores/notificationsStore';
+import {
+  SUBSCRIPTION_PROVIDER_TYPES,
+  type MediaType,
+  type WatchProvider,
+  type WatchProviders,
+} from '@/types/movie';
+
+const isStreaming = (provider: WatchProvider) =>
+  provider.types.some((type) => SUBSCRIPTION_PROVIDER_TYPES.includes(type));
+
+interface WatchProviderLogosProps {
+  providers: WatchProviders | null | undefined;
+  max?: number;
+  className?: string;
+}
+
+/**
+ * Logos of the services a title is on in the user's region, streaming first.
+ */
+export function WatchProviderLogos({ providers, max = 4, className }: WatchProviderLogosProps) {
+  const region = usePreferredReleaseRegion();
+  const list = providers?.[region]?.providers ?? [];
+  if (list.length === 0) return null;
+
+  const sorted = [...list.filter(isStreaming), ...list.filter((p) => !isStreaming(p))];
+
+  return (
+    <div className={`flex items-center gap-1.5 ${className ?? ''}`}>
+      {sorted.slice(0, max).map((provider) => (
+        <ProviderLogo key={provider.id} provider={provider} />
+      ))}
+      {sorted.length > max && (
+        <span className="text-xs text-white/70">+{sorted.length - max}</span>
+      )}
+    </div>
+  );
+}
+
+function ProviderLogo({ provider }: { provider: WatchProvider }) {
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={getLogoUrl(provider.logoPath)}
+      alt={provider.name}
+      title={provider.name}
+      className="h-7 w-7 shrink-0 rounded-md object-cover"
+    />
+  );
+}
+
+interface WhereToWatchProps {
+  tmdbId: number;
+  mediaType: MediaType;
+}
+
+/**
+ * "Where to watch" block of the movie details: services grouped by offer type.
+ */
+export function WhereToWatch({ tmdbId, mediaType }: WhereToWatchProps) {
+  const t = useTranslations('lists');
+  const region = usePreferredReleaseRegion();
+  const [loaded, setLoaded] = useState<{ key: string; providers: WatchProviders | null } | null>(
+    null
+  );
+
+  const key = `${mediaType}:${tmdbId}`;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/movies/${tmdbId}/providers?type=${mediaType}`)
+      .then((response) => (response.ok ? response.json() : { providers: null }))
+      .then((data: { providers: WatchProviders | null }) => {
+        if (!cancelled) setLoaded({ key, providers: data.providers });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ key, providers: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tmdbId, mediaType, key]);
+
+  // Nothing to show until this title's offers arrive or when TMDB is unreachable
+  if (loaded?.key !== key || !loaded.providers) return null;
+
+  const offers = loaded.providers[region];
+  const groups = [
+    { label: t('watchStream'), providers: offers?.providers.filter(isStreaming) ?? [] },
+    {
+      label: t('watchRent'),
+      providers: offers?.providers.filter((p) => p.types.includes('rent')) ?? [],
+    },
+    {
+      label: t('watchBuy'),
+      providers: offers?.providers.filter((p) => p.types.includes('buy')) ?? [],
+    },
+  ].filter((group) => group.providers.length > 0);
+
+  return (
+    <div className="mt-4">
+      <p className="mb-2 text-sm font-medium">{t('whereToWatch')}</p>
+      {groups.length === 0 ? (
+        <p className="text-sm text-white/50">{t('notAvailableToWatch')}</p>
+      ) : (
+        <div className="space-y-2">
+          {groups.map((group) => (
+            <div key={group.label} className="flex items-center gap-3">
+              <span className="w-20 shrink-0 text-xs text-white/60">{group.label}</span>
+              <div className="flex flex-wrap gap-1.5">
+                {group.providers.map((provider) => (
+                  <ProviderLogo key={provider.id} provider={provider} />
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {offers?.link && (
+        <a
+          href={offers.link}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="mt-2 inline-block text-xs text-white/40 hover:text-white/60"
+        >
+          {t('watchProvidersAttribution')}
+        </a>
+      )}
+    </div>
+  );
+}
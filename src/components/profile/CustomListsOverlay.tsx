@@ -0,0 +1,369 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { ProfilePageLayout } from '@/components/layout/ProfilePageLayout';
+import { useAuthToken } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/Loader';
+import { Small, Muted } from '@/components/ui/typography';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  ArrowDown01Icon,
+  ArrowLeft01Icon,
+  ArrowRight01Icon,
+  ArrowUp01Icon,
+  Cancel01Icon,
+  Delete02Icon,
+} from '@hugeicons/core-free-icons';
+import {
+  MAX_CUSTOM_LIST_NAME_LENGTH,
+  type CustomListDetail,
+  type CustomListSummary,
+} from '@/types/customList';
+
+interface CustomListsOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Swap an element with its neighbour, keeping the array immutable
+function move<T>(items: T[], index: number, offset: -1 | 1): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= items.length) return items;
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function CustomListsOverlay({ isOpen, onClose }: CustomListsOverlayProps) {
+  const t = useTranslations('customLists');
+  const token = useAuthToken();
+
+  const [lists, setLists] = useState<CustomListSummary[] | null>(null);
+  const [openListId, setOpenListId] = useState<string | null>(null);
+  const [newListName, setNewListName] = useState('');
+  const [error, setError] = useState('');
+
+  const request = useCallback(
+    (url: string, method = 'GET', body?: unknown) =>
+      fetch(url, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          Authorization: `Bearer ${token}`,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      }),
+    [token]
+  );
+
+  const loadLists = useCallback(
+    () =>
+      request('/api/lists/custom')
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => data && setLists(data.lists))
+        .catch((err) => console.error('Failed to load custom lists:', err)),
+    [request]
+  );
+
+  useEffect(() => {
+    if (isOpen && token) loadLists();
+  }, [isOpen, token, loadLists]);
+
+  const handleCreate = async () => {
+    const name = newListName.trim();
+    if (!name) return;
+    setError('');
+
+    const response = await request('/api/lists/custom', 'POST', { name });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || t('error'));
+      return;
+    }
+    setLists((current) => [...(current ?? []), data]);
+    setNewListName('');
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!lists) return;
+    const next = move(lists, index, offset);
+    setLists(next);
+    await request('/api/lists/custom', 'PATCH', { order: next.map((l) => l.id) });
+  };
+
+  const handleListClose = useCallback(() => {
+    setOpenListId(null);
+    loadLists();
+  }, [loadLists]);
+
+  if (openListId) {
+    return (
+      <ListDetail
+        listId={openListId}
+        isOpen={isOpen}
+        request={request}
+        onBack={handleListClose}
+        onClose={onClose}
+      />
+    );
+  }
+
+  return (
+    <ProfilePageLayout title={t('title')} isOpen={isOpen} onClose={onClose}>
+      <div className="space-y-6">
+        <section>
+          <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+            {t('sectionLists')}
+          </Small>
+
+          {!lists ? (
+            <div className="flex justify-center py-6">
+              <Loader size="sm" />
+            </div>
+          ) : lists.length === 0 ? (
+            <div className="rounded-xl bg-muted/50 px-4 py-4">
+              <Muted className="block">{t('empty')}</Muted>
+            </div>
+          ) : (
+            <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+              {lists.map((list, index) => (
+                <div key={list.id} className="flex items-center gap-1 pl-4 pr-2">
+                  <button
+                    onClick={() => setOpenListId(list.id)}
+                    className="flex min-w-0 flex-1 items-center gap-2 py-3 text-left"
+                  >
+                    <span className="truncate font-medium text-foreground">{list.name}</span>
+                    <span className="shrink-0 text-sm text-muted-foreground">
+                      {list.itemCount}
+                    </span>
+                    <HugeiconsIcon
+                      icon={ArrowRight01Icon}
+                      size={16}
+                      className="ml-auto shrink-0 text-muted-foreground"
+                    />
+                  </button>
+                  <MoveButtons
+                    canMoveUp={index > 0}
+                    canMoveDown={index < lists.length - 1}
+                    onMove={(offset) => handleMove(index, offset)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+            {t('sectionCreate')}
+          </Small>
+
+          <div className="space-y-2 rounded-xl bg-muted/50 px-4 py-4">
+            <div className="flex gap-2">
+              <Input
+                value={newListName}
+                onChange={(e) => setNewListName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                placeholder={t('namePlaceholder')}
+                maxLength={MAX_CUSTOM_LIST_NAME_LENGTH}
+              />
+              <Button onClick={handleCreate} disabled={!newListName.trim()}>
+                {t('create')}
+              </Button>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </section>
+      </div>
+    </ProfilePageLayout>
+  );
+}
+
+interface ListDetailProps {
+  listId: string;
+  isOpen: boolean;
+  request: (url: string, method?: string, body?: unknown) => Promise<Response>;
+  onBack: () => void;
+  onClose: () => void;
+}
+
+// One list - rename, delete, reorder and remove titles
+function ListDetail({ listId, isOpen, request, onBack, onClose }: ListDetailProps) {
+  const t = useTranslations('customLists');
+  const locale = useLocale();
+
+  const [list, setList] = useState<CustomListDetail | null>(null);
+  const [name, setName] = useState('');
+
+  useEffect(() => {
+    request(`/api/lists/custom/${listId}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: CustomListDetail | null) => {
+        if (!data) return onBack();
+        setList(data);
+        setName(data.name);
+      })
+      .catch((err) => console.error('Failed to load custom list:', err));
+  }, [listId, request, onBack]);
+
+  const handleRename = async () => {
+    if (!list || !name.trim() || name.trim() === list.name) return;
+    const response = await request(`/api/lists/custom/${listId}`, 'PATCH', { name });
+    if (response.ok) setList(await response.json());
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(t('confirmDelete', { name: list?.name ?? '' }))) return;
+    const response = await request(`/api/lists/custom/${listId}`, 'DELETE');
+    if (response.ok) onBack();
+  };
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    if (!list) return;
+    const items = move(list.items, index, offset);
+    setList({ ...list, items });
+    await request(`/api/lists/custom/${listId}`, 'PATCH', {
+      order: items.map((item) => item.tmdbId),
+    });
+  };
+
+  const handleRemove = async (tmdbId: number) => {
+    if (!list) return;
+    const response = await request(`/api/lists/custom/${listId}/items/${tmdbId}`, 'DELETE');
+    if (response.ok) {
+      setList({ ...list, items: list.items.filter((item) => item.tmdbId !== tmdbId) });
+    }
+  };
+
+  return (
+    <ProfilePageLayout title={list?.name ?? t('title')} isOpen={isOpen} onClose={onClose}>
+      <div className="space-y-6">
+        <Button variant="ghost" size="sm" className="-ml-2" onClick={onBack}>
+          <HugeiconsIcon icon={ArrowLeft01Icon} size={16} />
+          {t('allLists')}
+        </Button>
+
+        {!list ? (
+          <div className="flex justify-center py-6">
+            <Loader size="sm" />
+          </div>
+        ) : (
+          <>
+            <section>
+              <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+                {t('sectionTitles')}
+              </Small>
+
+              {list.items.length === 0 ? (
+                <div className="rounded-xl bg-muted/50 px-4 py-4">
+                  <Muted className="block">{t('emptyList')}</Muted>
+                </div>
+              ) : (
+                <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+                  {list.items.map((item, index) => (
+                    <div key={item.tmdbId} className="flex items-center gap-3 py-2 pl-4 pr-2">
+                      {item.posterUrl && (
+                        // eslint-disable-next-line @next/next/no-img-element
+                        <img
+                          src={item.posterUrl}
+                          alt=""
+                          className="h-12 w-8 shrink-0 rounded object-cover"
+                        />
+                      )}
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm font-medium text-foreground">
+                          {(locale === 'ru' && item.titleRu) || item.title || `#${item.tmdbId}`}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {item.releaseDate?.slice(0, 4)}
+                        </p>
+                      </div>
+                      <MoveButtons
+                        canMoveUp={index > 0}
+                        canMoveDown={index < list.items.length - 1}
+                        onMove={(offset) => handleMove(index, offset)}
+                      />
+                      <button
+                        onClick={() => handleRemove(item.tmdbId)}
+                        className="rounded-md p-1.5 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+                        aria-label={t('remove')}
+                      >
+                        <HugeiconsIcon icon={Cancel01Icon} size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <section>
+              <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+                {t('sectionSettings')}
+              </Small>
+
+              <div className="space-y-3 rounded-xl bg-muted/50 px-4 py-4">
+                <div className="flex gap-2">
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                    maxLength={MAX_CUSTOM_LIST_NAME_LENGTH}
+                  />
+                  <Button
+                    variant="secondary"
+                    onClick={handleRename}
+                    disabled={!name.trim() || name.trim() === list.name}
+                  >
+                    {t('rename')}
+                  </Button>
+                </div>
+                <Button variant="destructive" className="w-full" onClick={handleDelete}>
+                  <HugeiconsIcon icon={Delete02Icon} size={16} />
+                  {t('delete')}
+                </Button>
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+    </ProfilePageLayout>
+  );
+}
+
+function MoveButtons({
+  canMoveUp,
+  canMoveDown,
+  onMove,
+}: {
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onMove: (offset: -1 | 1) => void;
+}) {
+  const t = useTranslations('customLists');
+  const className =
+    'rounded-md p-1.5 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <>
+      <button
+        onClick={() => onMove(-1)}
+        disabled={!canMoveUp}
+        className={className}
+        aria-label={t('moveUp')}
+      >
+        <HugeiconsIcon icon={ArrowUp01Icon} size={16} />
+      </button>
+      <button
+        onClick={() => onMove(1)}
+        disabled={!canMoveDown}
+        className={className}
+        aria-label={t('moveDown')}
+      >
+        <HugeiconsIcon icon={ArrowDown01Icon} size={16} />
+      </button>
+    </>
+  );
+}
@@ -1,12 +1,38 @@
 'use client';
 
-import { useEffect } from 'react';
-import { useTranslations } from 'next-intl';
+import { useEffect, useMemo, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
 import { ProfilePageLayout } from '@/components/layout/ProfilePageLayout';
 import { useDeckSettingsStore } from '@/stores/deckSettingsStore';
+import { useNotificationsStore } from '@/stores/notificationsStore';
+import { useAuthToken } from '@/stores/authStore';
+import { useGenresList } from '@/hooks/useGenresList';
 import { Switch } from '@/components/ui/switch';
 import { Skeleton } from '@/components/ui/skeleton';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { Small, Muted } from '@/components/ui/typography';
+import { getLogoUrl } from '@/lib/api/poster';
+import {
+  DECK_LANGUAGES,
+  DECK_MAX_RUNTIMES,
+  MAX_WATCH_PROVIDERS,
+  MIN_DECK_YEAR,
+} from '@/types/deck';
+import type { MediaTypeFilter } from '@/types/movie';
+
+const CHIP_CLASS =
+  'px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground';
+
+// Services offered as chips - the region lists well over a hundred
+const SHOWN_WATCH_PROVIDERS = 30;
+
+interface ProviderOption {
+  id: number;
+  name: string;
+  logoPath: string | null;
+}
 
 interface DeckSettingsOverlayProps {
   isOpen: boolean;
@@ -64,6 +90,15 @@ export function DeckSettingsOverlay({ isOpen, onClose }: DeckSettingsOverlayProp
             </div>
           </section>
 
+          {/* Solo Recommendations Section */}
+          <SoloRecommendationsSection />
+
+          {/* Room Filters Section */}
+          <RoomFiltersSection />
+
+          {/* Streaming Services Section */}
+          <StreamingServicesSection />
+
           {/* Info */}
           <Muted className="block text-center">{t('info')}</Muted>
         </div>
@@ -72,6 +107,331 @@ export function DeckSettingsOverlay({ isOpen, onClose }: DeckSettingsOverlayProp
   );
 }
 
+// How adventurous personalized solo decks are
+function SoloRecommendationsSection() {
+  const t = useTranslations('deckSettings');
+  const { exploreLevel, updateSettings } = useDeckSettingsStore();
+  // Local value while dragging - saved once the thumb is released
+  const [draftLevel, setDraftLevel] = useState<number | null>(null);
+  const level = draftLevel ?? exploreLevel;
+
+  return (
+    <section>
+      <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+        {t('sectionSolo')}
+      </Small>
+
+      <div className="space-y-3 rounded-xl bg-muted/50 px-4 py-4">
+        <div className="flex items-center justify-between gap-3">
+          <h3 className="font-medium text-foreground">{t('explore')}</h3>
+          <span className="text-sm font-medium">{t('exploreValue', { value: level })}</span>
+        </div>
+        <Slider
+          min={0}
+          max={100}
+          step={10}
+          value={[level]}
+          onValueChange={([value]) => setDraftLevel(value)}
+          onValueCommit={([value]) => {
+            setDraftLevel(null);
+            updateSettings({ exploreLevel: value });
+          }}
+        />
+        <p className="text-sm text-muted-foreground">{t('exploreDescription')}</p>
+      </div>
+    </section>
+  );
+}
+
+// Filters applied to room decks - intersected with the other members' filters
+function RoomFiltersSection() {
+  const t = useTranslations('deckSettings');
+  const locale = useLocale();
+  const {
+    mediaTypeFilter,
+    genreIds,
+    minYear,
+    maxYear,
+    maxRuntime,
+    languages,
+    isLoading,
+    updateSettings,
+  } = useDeckSettingsStore();
+  const { genresData, isLoading: isLoadingGenres } = useGenresList();
+
+  // Movie and TV genres share most ids - show each once
+  const genres = useMemo(() => {
+    const byId = new Map([...genresData.movie, ...genresData.tv].map((g) => [g.id, g]));
+    return [...byId.values()];
+  }, [genresData]);
+
+  const languageNames = useMemo(
+    () => new Intl.DisplayNames([locale], { type: 'language' }),
+    [locale]
+  );
+
+  const maxAllowedYear = new Date().getFullYear() + 1;
+
+  const handleYearChange = (field: 'minYear' | 'maxYear', value: string) => {
+    const year = value ? Number(value) : null;
+    // Only save complete years inside the accepted range
+    if (year !== null && (year < MIN_DECK_YEAR || year > maxAllowedYear)) return;
+
+    const nextMin = field === 'minYear' ? year : minYear;
+    const nextMax = field === 'maxYear' ? year : maxYear;
+    if (nextMin !== null && nextMax !== null && nextMin > nextMax) return;
+
+    updateSettings({ [field]: year });
+  };
+
+  return (
+    <section>
+      <Small className="mb-1 block uppercase tracking-wider text-muted-foreground">
+        {t('sectionRoomFilters')}
+      </Small>
+      <Muted className="mb-3 block">{t('roomFiltersDescription')}</Muted>
+
+      <div className="space-y-5 rounded-xl bg-muted/50 px-4 py-4">
+        <div>
+          <h3 className="mb-2 font-medium text-foreground">{t('mediaTypeDescription')}</h3>
+          <ToggleGroup
+            type="single"
+            value={mediaTypeFilter}
+            onValueChange={(value) =>
+              value && updateSettings({ mediaTypeFilter: value as MediaTypeFilter })
+            }
+            className="flex flex-wrap justify-start gap-1.5"
+            disabled={isLoading}
+          >
+            <ToggleGroupItem value="all" variant="outline" size="sm" className={CHIP_CLASS}>
+              {t('mediaTypeAll')}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="movie" variant="outline" size="sm" className={CHIP_CLASS}>
+              {t('mediaTypeMovie')}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="tv" variant="outline" size="sm" className={CHIP_CLASS}>
+              {t('mediaTypeTv')}
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div>
+          <h3 className="mb-2 font-medium text-foreground">{t('genres')}</h3>
+          {isLoadingGenres ? (
+            <Skeleton className="h-8 w-full" />
+          ) : (
+            <ToggleGroup
+              type="multiple"
+              value={genreIds.map(String)}
+              onValueChange={(values) => updateSettings({ genreIds: values.map(Number) })}
+              className="flex flex-wrap justify-start gap-1.5"
+              disabled={isLoading}
+            >
+              {genres.map((genre) => (
+                <ToggleGroupItem
+                  key={genre.id}
+                  value={String(genre.id)}
+                  variant="outline"
+                  size="sm"
+                  className={CHIP_CLASS}
+                >
+                  {locale === 'ru' ? genre.nameRu : genre.name}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+        </div>
+
+        <div>
+          <h3 className="mb-2 font-medium text-foreground">{t('years')}</h3>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              inputMode="numeric"
+              placeholder={t('yearFrom')}
+              min={MIN_DECK_YEAR}
+              max={maxAllowedYear}
+              defaultValue={minYear ?? ''}
+              onBlur={(e) => handleYearChange('minYear', e.target.value)}
+              disabled={isLoading}
+            />
+            <span className="text-muted-foreground">—</span>
+            <Input
+              type="number"
+              inputMode="numeric"
+              placeholder={t('yearTo')}
+              min={MIN_DECK_YEAR}
+              max={maxAllowedYear}
+              defaultValue={maxYear ?? ''}
+              onBlur={(e) => handleYearChange('maxYear', e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+        </div>
+
+        <div>
+          <h3 className="mb-2 font-medium text-foreground">{t('maxRuntime')}</h3>
+          <ToggleGroup
+            type="single"
+            value={maxRuntime ? String(maxRuntime) : 'any'}
+            onValueChange={(value) =>
+              value && updateSettings({ maxRuntime: value === 'any' ? null : Number(value) })
+            }
+            className="flex flex-wrap justify-start gap-1.5"
+            disabled={isLoading}
+          >
+            <ToggleGroupItem value="any" variant="outline" size="sm" className={CHIP_CLASS}>
+              {t('anyRuntime')}
+            </ToggleGroupItem>
+            {DECK_MAX_RUNTIMES.map((minutes) => (
+              <ToggleGroupItem
+                key={minutes}
+                value={String(minutes)}
+                variant="outline"
+                size="sm"
+                className={CHIP_CLASS}
+              >
+                {t('runtimeUpTo', { minutes })}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div>
+          <h3 className="mb-2 font-medium text-foreground">{t('languages')}</h3>
+          <ToggleGroup
+            type="multiple"
+            value={languages}
+            onValueChange={(values) => updateSettings({ languages: values })}
+            className="flex flex-wrap justify-start gap-1.5"
+            disabled={isLoading}
+          >
+            {DECK_LANGUAGES.map((code) => (
+              <ToggleGroupItem
+                key={code}
+                value={code}
+                variant="outline"
+                size="sm"
+                className={`capitalize ${CHIP_CLASS}`}
+              >
+                {languageNames.of(code)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+// The user's streaming services - powers the "available on my services" filter
+function StreamingServicesSection() {
+  const t = useTranslations('deckSettings');
+  const token = useAuthToken();
+  const { watchProviderIds, availableOnly, isLoading, updateSettings } = useDeckSettingsStore();
+  const region = useNotificationsStore((state) => state.preferredReleaseRegion);
+  const loadNotificationSettings = useNotificationsStore((state) => state.loadSettings);
+  const [options, setOptions] = useState<{ region: string; providers: ProviderOption[] } | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (token) loadNotificationSettings(token);
+  }, [token, loadNotificationSettings]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/watch-providers?region=${region}`)
+      .then((response) => (response.ok ? response.json() : { providers: [] }))
+      .then((data: { providers: ProviderOption[] }) => {
+        if (!cancelled) setOptions({ region, providers: data.providers });
+      })
+      .catch(() => {
+        if (!cancelled) setOptions({ region, providers: [] });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [region]);
+
+  const isLoadingProviders = options?.region !== region;
+
+  // Popular services first, plus anything already picked further down the list
+  const shown = (options?.providers ?? []).filter(
+    (provider, index) => index < SHOWN_WATCH_PROVIDERS || watchProviderIds.includes(provider.id)
+  );
+  const isFull = watchProviderIds.length >= MAX_WATCH_PROVIDERS;
+
+  const handleProvidersChange = (values: string[]) => {
+    const ids = values.map(Number).slice(0, MAX_WATCH_PROVIDERS);
+    // The filter has nothing to match once the last service is removed
+    updateSettings(
+      ids.length > 0 ? { watchProviderIds: ids } : { watchProviderIds: [], availableOnly: false }
+    );
+  };
+
+  return (
+    <section>
+      <Small className="mb-1 block uppercase tracking-wider text-muted-foreground">
+        {t('sectionServices')}
+      </Small>
+      <Muted className="mb-3 block">{t('servicesDescription', { region })}</Muted>
+
+      <div className="space-y-5 rounded-xl bg-muted/50 px-4 py-4">
+        <div className="flex items-center gap-3">
+          <div className="flex-1">
+            <h3 className="font-medium text-foreground">{t('availableOnly')}</h3>
+            <p className="text-sm text-muted-foreground">{t('availableOnlyDescription')}</p>
+          </div>
+          <Switch
+            checked={availableOnly}
+            onCheckedChange={(checked) => updateSettings({ availableOnly: checked })}
+            disabled={isLoading || watchProviderIds.length === 0}
+          />
+        </div>
+
+        <div>
+          <h3 className="mb-2 font-medium text-foreground">{t('services')}</h3>
+          {isLoadingProviders ? (
+            <Skeleton className="h-8 w-full" />
+          ) : shown.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('servicesUnavailable')}</p>
+          ) : (
+            <ToggleGroup
+              type="multiple"
+              value={watchProviderIds.map(String)}
+              onValueChange={handleProvidersChange}
+              className="flex flex-wrap justify-start gap-1.5"
+              disabled={isLoading}
+            >
+              {shown.map((provider) => (
+                <ToggleGroupItem
+                  key={provider.id}
+                  value={String(provider.id)}
+                  variant="outline"
+                  size="sm"
+                  className={`gap-1.5 pl-1 ${CHIP_CLASS}`}
+                  disabled={isFull && !watchProviderIds.includes(provider.id)}
+                >
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={getLogoUrl(provider.logoPath)}
+                    alt=""
+                    className="h-6 w-6 shrink-0 rounded"
+                  />
+                  {provider.name}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
 function DeckSettingsSkeleton() {
   return (
     <div className="space-y-6">
@@ -0,0 +1,129 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslations } from 'next-intl';
+import { ProfilePageLayout } from '@/components/layout/ProfilePageLayout';
+import { useAuthToken, useIsTelegramMiniApp } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Small, Muted } from '@/components/ui/typography';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { Download01Icon, SentIcon } from '@hugeicons/core-free-icons';
+import { EXPORT_FORMATS, type ExportFormat } from '@/types/export';
+
+interface ExportOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ExportOverlay({ isOpen, onClose }: ExportOverlayProps) {
+  const t = useTranslations('dataExport');
+  const token = useAuthToken();
+  const isTelegramMiniApp = useIsTelegramMiniApp();
+
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [status, setStatus] = useState<'idle' | 'loading' | 'sent' | 'error'>('idle');
+
+  const handleDownload = async () => {
+    if (!token) return;
+    setStatus('loading');
+
+    try {
+      const response = await fetch(`/api/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) throw new Error('Export failed');
+
+      // Keep the server's file name
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = disposition.match(/filename="(.+)"/)?.[1] || `filmber-export.${format}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setStatus('idle');
+    } catch (err) {
+      console.error('Failed to download export:', err);
+      setStatus('error');
+    }
+  };
+
+  const handleSendToTelegram = async () => {
+    if (!token) return;
+    setStatus('loading');
+
+    try {
+      const response = await fetch('/api/export/telegram', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ format }),
+      });
+      setStatus(response.ok ? 'sent' : 'error');
+    } catch (err) {
+      console.error('Failed to send export:', err);
+      setStatus('error');
+    }
+  };
+
+  return (
+    <ProfilePageLayout title={t('title')} isOpen={isOpen} onClose={onClose}>
+      <div className="space-y-6">
+        <section>
+          <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+            {t('sectionFormat')}
+          </Small>
+
+          <div className="space-y-3 rounded-xl bg-muted/50 px-4 py-4">
+            <p className="text-sm text-muted-foreground">{t('description')}</p>
+            <ToggleGroup
+              type="single"
+              value={format}
+              onValueChange={(value) => value && setFormat(value as ExportFormat)}
+              className="justify-start"
+            >
+              {EXPORT_FORMATS.map((value) => (
+                <ToggleGroupItem
+                  key={value}
+                  value={value}
+                  className="px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+                >
+                  {t(`format_${value}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Muted className="block">{t(`formatHint_${format}`)}</Muted>
+          </div>
+        </section>
+
+        <div className="space-y-2">
+          {/* Mini App webviews can't save files - the bot sends it to the chat instead */}
+          {!isTelegramMiniApp && (
+            <Button className="w-full" disabled={status === 'loading'} onClick={handleDownload}>
+              <HugeiconsIcon icon={Download01Icon} size={20} />
+              {t('download')}
+            </Button>
+          )}
+          <Button
+            className="w-full"
+            variant={isTelegramMiniApp ? 'default' : 'secondary'}
+            disabled={status === 'loading'}
+            onClick={handleSendToTelegram}
+          >
+            <HugeiconsIcon icon={SentIcon} size={20} />
+            {t('sendToTelegram')}
+          </Button>
+          {status === 'sent' && <Muted className="block text-center">{t('sent')}</Muted>}
+          {status === 'error' && (
+            <p className="text-center text-sm text-destructive">{t('error')}</p>
+          )}
+        </div>
+      </div>
+    </ProfilePageLayout>
+  );
+}
@@ -0,0 +1,251 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { ProfilePageLayout } from '@/components/layout/ProfilePageLayout';
+import { useAuthToken } from '@/stores/authStore';
+import { useListStore } from '@/stores/listStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/Loader';
+import { Small, Muted } from '@/components/ui/typography';
+import { HugeiconsIcon } from '@hugeicons/react';
+import { FileImportIcon, Tick02Icon } from '@hugeicons/core-free-icons';
+import type { ListImportResult, ListImportRow } from '@/types/listImport';
+import type { SearchResult } from '@/types/movie';
+
+interface ImportOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function ImportOverlay({ isOpen, onClose }: ImportOverlayProps) {
+  const t = useTranslations('listImport');
+  const token = useAuthToken();
+  const invalidateLists = useListStore((state) => state.invalidateCache);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<ListImportResult | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file || !token) return;
+
+    setIsImporting(true);
+    setError('');
+    setResult(null);
+
+    try {
+      const form = new FormData();
+      form.append('file', file);
+
+      const response = await fetch('/api/lists/import', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+        body: form,
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      setResult(data);
+      invalidateLists();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+      // Allow picking the same file again
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <ProfilePageLayout title={t('title')} isOpen={isOpen} onClose={onClose}>
+      <div className="space-y-6">
+        {/* Upload Section */}
+        <section>
+          <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+            {t('sectionUpload')}
+          </Small>
+
+          <div className="space-y-3 rounded-xl bg-muted/50 px-4 py-4">
+            <p className="text-sm text-muted-foreground">{t('description')}</p>
+            <ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+              <li>{t('letterboxdHint')}</li>
+              <li>{t('imdbHint')}</li>
+              <li>{t('kinopoiskHint')}</li>
+            </ul>
+
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.zip,text/csv,application/zip"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Button
+              className="w-full"
+              disabled={isImporting}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isImporting ? (
+                <Loader size="sm" />
+              ) : (
+                <HugeiconsIcon icon={FileImportIcon} size={20} />
+              )}
+              {isImporting ? t('importing') : t('chooseFile')}
+            </Button>
+            {isImporting && <Muted className="block text-center">{t('importingHint')}</Muted>}
+            {error && <p className="text-center text-sm text-destructive">{error}</p>}
+          </div>
+        </section>
+
+        {/* Result Section */}
+        {result && (
+          <section>
+            <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+              {t('sectionResult')}
+            </Small>
+
+            <div className="space-y-1 rounded-xl bg-muted/50 px-4 py-4 text-sm">
+              <p className="text-foreground">
+                {t('imported', { count: result.imported, total: result.total })}
+              </p>
+              {result.alreadyInLists > 0 && (
+                <p className="text-muted-foreground">
+                  {t('alreadyInLists', { count: result.alreadyInLists })}
+                </p>
+              )}
+              {result.unmatched.length > 0 && (
+                <p className="text-muted-foreground">
+                  {t('unmatched', { count: result.unmatched.length })}
+                </p>
+              )}
+            </div>
+          </section>
+        )}
+
+        {/* Manual Resolution Section */}
+        {result && result.unmatched.length > 0 && (
+          <section>
+            <Small className="mb-1 block uppercase tracking-wider text-muted-foreground">
+              {t('sectionUnmatched')}
+            </Small>
+            <Muted className="mb-3 block">{t('unmatchedDescription')}</Muted>
+
+            <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+              {result.unmatched.map((row, index) => (
+                <UnmatchedRow key={`${row.line}-${index}`} row={row} onAdded={invalidateLists} />
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </ProfilePageLayout>
+  );
+}
+
+// An export row we couldn't match - search for the title and add it by hand
+function UnmatchedRow({ row, onAdded }: { row: ListImportRow; onAdded: () => void }) {
+  const t = useTranslations('listImport');
+  const locale = useLocale();
+  const token = useAuthToken();
+
+  const [query, setQuery] = useState(row.originalTitle || row.title);
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isAdded, setIsAdded] = useState(false);
+
+  const search = async () => {
+    if (!query.trim()) return;
+    setIsSearching(true);
+    try {
+      const params = new URLSearchParams({ query: query.trim() });
+      if (row.year) {
+        params.set('yearFrom', String(row.year - 1));
+        params.set('yearTo', String(row.year + 1));
+      }
+      const response = await fetch(`/api/search?${params}`);
+      const data = await response.json();
+      setResults(
+        ((data.tmdb?.results ?? []) as SearchResult[]).filter((r) => r.tmdbId).slice(0, 5)
+      );
+    } catch (err) {
+      console.error('Failed to search:', err);
+      setResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const add = async (movie: SearchResult) => {
+    if (!token) return;
+    const response = await fetch('/api/lists', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify({
+        tmdbId: movie.tmdbId,
+        status: row.status,
+        rating: row.rating,
+        source: 'import',
+        mediaType: movie.mediaType,
+      }),
+    });
+    if (response.ok) {
+      setIsAdded(true);
+      onAdded();
+    }
+  };
+
+  return (
+    <div className="space-y-2 px-4 py-3">
+      <div className="flex items-center gap-2">
+        <div className="min-w-0 flex-1">
+          <p className="truncate font-medium text-foreground">{row.title}</p>
+          <p className="text-xs text-muted-foreground">
+            {[row.year, t('line', { line: row.line })].filter(Boolean).join(' · ')}
+          </p>
+        </div>
+        {isAdded && <HugeiconsIcon icon={Tick02Icon} size={20} className="text-primary" />}
+      </div>
+
+      {!isAdded && (
+        <>
+          <div className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && search()}
+              className="h-8"
+            />
+            <Button size="sm" variant="secondary" onClick={search} disabled={isSearching}>
+              {t('find')}
+            </Button>
+          </div>
+
+          {results?.length === 0 && <Muted className="block">{t('nothingFound')}</Muted>}
+          {results?.map((movie) => (
+            <button
+              key={`${movie.mediaType}-${movie.tmdbId}`}
+              onClick={() => add(movie)}
+              className="flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent"
+            >
+              <span className="truncate text-foreground">
+                {locale === 'ru' && movie.titleRu ? movie.titleRu : movie.title}
+              </span>
+              <span className="shrink-0 text-muted-foreground">
+                {movie.releaseDate?.slice(0, 4)}
+              </span>
+            </button>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
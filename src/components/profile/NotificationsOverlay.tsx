@@ -4,12 +4,41 @@ import { useEffect } from 'react';
 import { useTranslations } from 'next-intl';
 import { ProfilePageLayout } from '@/components/layout/ProfilePageLayout';
 import { useAuthToken } from '@/stores/authStore';
-import { useNotificationsStore, type NotificationSettings } from '@/stores/notificationsStore';
+import {
+  useNotificationsStore,
+  type NotificationSettings,
+  type DeliveryMode,
+} from '@/stores/notificationsStore';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Small, Muted } from '@/components/ui/typography';
 
+const DELIVERY_MODES: { value: DeliveryMode; labelKey: string }[] = [
+  { value: 'instant', labelKey: 'deliveryInstant' },
+  { value: 'daily', labelKey: 'deliveryDaily' },
+  { value: 'weekly', labelKey: 'deliveryWeekly' },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+// IANA zones the browser knows, keeping the saved one even if it's missing there
+function getTimeZones(current: string | null): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return current && !zones.includes(current) ? [current, ...zones] : zones;
+}
+
 interface NotificationsOverlayProps {
   isOpen: boolean;
   onClose: () => void;
@@ -28,6 +57,11 @@ export function NotificationsOverlay({ isOpen, onClose }: NotificationsOverlayPr
     seriesSeasonAnnouncements,
     seriesEpisodeReleases,
     appUpdates,
+    timeZone,
+    quietHoursEnabled,
+    quietHoursStart,
+    quietHoursEnd,
+    deliveryMode,
     isLoaded,
     isLoading,
     hasHydrated,
@@ -54,6 +88,11 @@ export function NotificationsOverlay({ isOpen, onClose }: NotificationsOverlayPr
     }
   };
 
+  const handleChange = async (settings: Partial<NotificationSettings>) => {
+    if (!token) return;
+    await updateSettings(token, settings);
+  };
+
   // Show skeleton only on initial load (no cached data)
   const showSkeleton = !hasHydrated || (!isLoaded && isLoading);
 
@@ -234,6 +273,141 @@ export function NotificationsOverlay({ isOpen, onClose }: NotificationsOverlayPr
             </div>
           </section>
 
+          {/* Delivery Section */}
+          <section>
+            <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+              {t('deliverySection', { defaultValue: 'Delivery' })}
+            </Small>
+
+            <div className="overflow-hidden rounded-xl bg-muted/50">
+              <div className="flex min-h-12 items-center gap-3 px-4 py-3">
+                <div className="flex-1">
+                  <h3 className="font-medium text-foreground">
+                    {t('deliveryMode', { defaultValue: 'Release notifications' })}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {deliveryMode === 'instant'
+                      ? t('deliveryModeDesc', {
+                          defaultValue: 'Announcements, releases, seasons and episodes',
+                        })
+                      : t('deliveryDigestHint', {
+                          defaultValue:
+                            'The digest arrives in the morning as your quiet hours end; weekly on Sundays',
+                        })}
+                  </p>
+                </div>
+                <Select
+                  value={deliveryMode}
+                  onValueChange={(value) => handleChange({ deliveryMode: value as DeliveryMode })}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DELIVERY_MODES.map((mode) => (
+                      <SelectItem key={mode.value} value={mode.value}>
+                        {t(mode.labelKey)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </section>
+
+          {/* Quiet Hours Section */}
+          <section>
+            <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+              {t('quietHoursSection', { defaultValue: 'Quiet Hours' })}
+            </Small>
+
+            <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+              <div className="flex min-h-12 items-center gap-3 px-4 py-3">
+                <div className="flex-1">
+                  <h3 className="font-medium text-foreground">
+                    {t('quietHours', { defaultValue: 'Hold notifications at night' })}
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    {t('quietHoursDesc', {
+                      defaultValue: 'Notifications due during quiet hours arrive once they end',
+                    })}
+                  </p>
+                </div>
+                <Switch
+                  checked={quietHoursEnabled}
+                  onCheckedChange={(checked) => handleChange({ quietHoursEnabled: checked })}
+                  disabled={isLoading}
+                />
+              </div>
+
+              {quietHoursEnabled && (
+                <div className="flex min-h-12 items-center gap-3 px-4 py-3">
+                  <span className="text-sm text-muted-foreground">
+                    {t('quietHoursFrom', { defaultValue: 'From' })}
+                  </span>
+                  <Select
+                    value={String(quietHoursStart)}
+                    onValueChange={(value) => handleChange({ quietHoursStart: Number(value) })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-muted-foreground">
+                    {t('quietHoursTo', { defaultValue: 'to' })}
+                  </span>
+                  <Select
+                    value={String(quietHoursEnd)}
+                    onValueChange={(value) => handleChange({ quietHoursEnd: Number(value) })}
+                    disabled={isLoading}
+                  >
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {HOURS.map((hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="flex min-h-12 items-center gap-3 px-4 py-3">
+                <h3 className="flex-1 font-medium text-foreground">
+                  {t('timeZone', { defaultValue: 'Time zone' })}
+                </h3>
+                <Select
+                  value={timeZone ?? undefined}
+                  onValueChange={(value) => handleChange({ timeZone: value })}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder={t('timeZoneNotSet', { defaultValue: 'Not set' })} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getTimeZones(timeZone).map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone.replace(/_/g, ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </section>
+
           {/* Info */}
           <Muted className="block text-center">
             {t('info', {
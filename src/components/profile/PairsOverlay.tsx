@@ -0,0 +1,422 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { ProfilePageLayout } from '@/components/layout/ProfilePageLayout';
+import { useAuthToken } from '@/stores/authStore';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader } from '@/components/ui/Loader';
+import { Small, Muted } from '@/components/ui/typography';
+import { HugeiconsIcon } from '@hugeicons/react';
+import {
+  ArrowLeft01Icon,
+  ArrowRight01Icon,
+  Cancel01Icon,
+  CheckmarkCircle02Icon,
+  UserAdd01Icon,
+} from '@hugeicons/core-free-icons';
+import type {
+  PairCandidate,
+  PairDetail,
+  PairPartner,
+  PairSummary,
+  PairWatchlistItem,
+} from '@/types/pair';
+import type { SearchResult } from '@/types/movie';
+
+interface PairsOverlayProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type Request = (url: string, method?: string, body?: unknown) => Promise<Response>;
+
+function partnerName(partner: PairPartner) {
+  return [partner.firstName, partner.lastName].filter(Boolean).join(' ');
+}
+
+export function PairsOverlay({ isOpen, onClose }: PairsOverlayProps) {
+  const t = useTranslations('pairs');
+  const token = useAuthToken();
+
+  const [pairs, setPairs] = useState<PairSummary[] | null>(null);
+  const [candidates, setCandidates] = useState<PairCandidate[]>([]);
+  const [openPairId, setOpenPairId] = useState<string | null>(null);
+
+  const request = useCallback<Request>(
+    (url, method = 'GET', body) =>
+      fetch(url, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          Authorization: `Bearer ${token}`,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      }),
+    [token]
+  );
+
+  const loadPairs = useCallback(
+    () =>
+      request('/api/pairs')
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data) => {
+          if (!data) return;
+          setPairs(data.pairs);
+          setCandidates(data.candidates);
+        })
+        .catch((err) => console.error('Failed to load pairs:', err)),
+    [request]
+  );
+
+  useEffect(() => {
+    if (isOpen && token) loadPairs();
+  }, [isOpen, token, loadPairs]);
+
+  const handlePair = async (partnerId: string) => {
+    const response = await request('/api/pairs', 'POST', { partnerId });
+    if (response.ok) {
+      const { id } = await response.json();
+      setOpenPairId(id);
+    }
+  };
+
+  const handlePairClose = useCallback(() => {
+    setOpenPairId(null);
+    loadPairs();
+  }, [loadPairs]);
+
+  if (openPairId) {
+    return (
+      <PairWatchlist
+        pairId={openPairId}
+        isOpen={isOpen}
+        request={request}
+        onBack={handlePairClose}
+        onClose={onClose}
+      />
+    );
+  }
+
+  return (
+    <ProfilePageLayout title={t('title')} isOpen={isOpen} onClose={onClose}>
+      <div className="space-y-6">
+        <section>
+          <Small className="mb-1 block uppercase tracking-wider text-muted-foreground">
+            {t('sectionPairs')}
+          </Small>
+          <Muted className="mb-3 block">{t('description')}</Muted>
+
+          {!pairs ? (
+            <div className="flex justify-center py-6">
+              <Loader size="sm" />
+            </div>
+          ) : pairs.length === 0 ? (
+            <div className="rounded-xl bg-muted/50 px-4 py-4">
+              <Muted className="block">{t('empty')}</Muted>
+            </div>
+          ) : (
+            <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+              {pairs.map((pair) => (
+                <button
+                  key={pair.id}
+                  onClick={() => setOpenPairId(pair.id)}
+                  className="flex w-full items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-accent"
+                >
+                  <PartnerInfo partner={pair.partner} />
+                  <span className="shrink-0 text-sm text-muted-foreground">
+                    {pair.watchlistCount}
+                  </span>
+                  <HugeiconsIcon
+                    icon={ArrowRight01Icon}
+                    size={16}
+                    className="shrink-0 text-muted-foreground"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {candidates.length > 0 && (
+          <section>
+            <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+              {t('sectionCandidates')}
+            </Small>
+
+            <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+              {candidates.map(({ partner, via }) => (
+                <div key={partner.id} className="flex items-center gap-3 px-4 py-3">
+                  <PartnerInfo partner={partner} hint={t(`via_${via}`)} />
+                  <Button size="sm" variant="secondary" onClick={() => handlePair(partner.id)}>
+                    <HugeiconsIcon icon={UserAdd01Icon} size={16} />
+                    {t('pair')}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </ProfilePageLayout>
+  );
+}
+
+function PartnerInfo({ partner, hint }: { partner: PairPartner; hint?: string }) {
+  return (
+    <div className="flex min-w-0 flex-1 items-center gap-3">
+      {partner.photoUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={partner.photoUrl} alt="" className="h-9 w-9 shrink-0 rounded-full object-cover" />
+      ) : (
+        <div className="flex h-9 w-9 shrink-0 items-center justify-center rounded-full bg-muted text-sm font-medium text-muted-foreground">
+          {partner.firstName.charAt(0)}
+        </div>
+      )}
+      <div className="min-w-0">
+        <p className="truncate font-medium text-foreground">{partnerName(partner)}</p>
+        {(hint || partner.username) && (
+          <p className="truncate text-xs text-muted-foreground">
+            {hint ?? `@${partner.username}`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface PairWatchlistProps {
+  pairId: string;
+  isOpen: boolean;
+  request: Request;
+  onBack: () => void;
+  onClose: () => void;
+}
+
+// The shared watchlist - both partners see and edit the same titles
+function PairWatchlist({ pairId, isOpen, request, onBack, onClose }: PairWatchlistProps) {
+  const t = useTranslations('pairs');
+
+  const [pair, setPair] = useState<PairDetail | null>(null);
+
+  const loadPair = useCallback(
+    () =>
+      request(`/api/pairs/${pairId}`)
+        .then((response) => (response.ok ? response.json() : null))
+        .then((data: PairDetail | null) => (data ? setPair(data) : onBack()))
+        .catch((err) => console.error('Failed to load pair:', err)),
+    [pairId, request, onBack]
+  );
+
+  useEffect(() => {
+    loadPair();
+  }, [loadPair]);
+
+  const handleWatched = async (item: PairWatchlistItem) => {
+    const response = await request(`/api/pairs/${pairId}/watchlist/${item.tmdbId}`, 'PATCH', {
+      watched: !item.watchedAt,
+    });
+    if (response.ok) loadPair();
+  };
+
+  const handleRemove = async (tmdbId: number) => {
+    const response = await request(`/api/pairs/${pairId}/watchlist/${tmdbId}`, 'DELETE');
+    if (response.ok && pair) {
+      setPair({ ...pair, watchlist: pair.watchlist.filter((item) => item.tmdbId !== tmdbId) });
+    }
+  };
+
+  const handleUnpair = async () => {
+    if (!pair || !confirm(t('confirmUnpair', { name: partnerName(pair.partner) }))) return;
+    const response = await request(`/api/pairs/${pairId}`, 'DELETE');
+    if (response.ok) onBack();
+  };
+
+  return (
+    <ProfilePageLayout
+      title={pair ? partnerName(pair.partner) : t('title')}
+      isOpen={isOpen}
+      onClose={onClose}
+    >
+      <div className="space-y-6">
+        <Button variant="ghost" size="sm" className="-ml-2" onClick={onBack}>
+          <HugeiconsIcon icon={ArrowLeft01Icon} size={16} />
+          {t('allPairs')}
+        </Button>
+
+        {!pair ? (
+          <div className="flex justify-center py-6">
+            <Loader size="sm" />
+          </div>
+        ) : (
+          <>
+            <section>
+              <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+                {t('sectionWatchlist')}
+              </Small>
+
+              {pair.watchlist.length === 0 ? (
+                <div className="rounded-xl bg-muted/50 px-4 py-4">
+                  <Muted className="block">{t('emptyWatchlist')}</Muted>
+                </div>
+              ) : (
+                <div className="divide-y divide-border overflow-hidden rounded-xl bg-muted/50">
+                  {pair.watchlist.map((item) => (
+                    <WatchlistRow
+                      key={item.tmdbId}
+                      item={item}
+                      onWatched={() => handleWatched(item)}
+                      onRemove={() => handleRemove(item.tmdbId)}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+
+            <AddTitle pairId={pairId} request={request} onAdded={loadPair} />
+
+            <Button variant="destructive" className="w-full" onClick={handleUnpair}>
+              {t('unpair')}
+            </Button>
+          </>
+        )}
+      </div>
+    </ProfilePageLayout>
+  );
+}
+
+function WatchlistRow({
+  item,
+  onWatched,
+  onRemove,
+}: {
+  item: PairWatchlistItem;
+  onWatched: () => void;
+  onRemove: () => void;
+}) {
+  const t = useTranslations('pairs');
+  const locale = useLocale();
+
+  const note = item.watchedBy
+    ? t(item.watchedBy === 'me' ? 'watchedByMe' : 'watchedByPartner')
+    : item.source === 'match'
+      ? t('fromMatch')
+      : item.addedBy && t(item.addedBy === 'me' ? 'addedByMe' : 'addedByPartner');
+
+  return (
+    <div className={`flex items-center gap-3 py-2 pl-4 pr-2 ${item.watchedAt ? 'opacity-60' : ''}`}>
+      {item.posterUrl && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={item.posterUrl} alt="" className="h-12 w-8 shrink-0 rounded object-cover" />
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-sm font-medium text-foreground">
+          {(locale === 'ru' && item.titleRu) || item.title || `#${item.tmdbId}`}
+        </p>
+        <p className="truncate text-xs text-muted-foreground">
+          {[item.releaseDate?.slice(0, 4), note].filter(Boolean).join(' · ')}
+        </p>
+      </div>
+      <button
+        onClick={onWatched}
+        className={`rounded-md p-1.5 transition-colors hover:bg-accent ${
+          item.watchedAt ? 'text-primary' : 'text-muted-foreground hover:text-foreground'
+        }`}
+        aria-label={t(item.watchedAt ? 'markUnwatched' : 'markWatched')}
+      >
+        <HugeiconsIcon icon={CheckmarkCircle02Icon} size={18} />
+      </button>
+      <button
+        onClick={onRemove}
+        className="rounded-md p-1.5 text-muted-foreground transition-colors hover:bg-accent hover:text-foreground"
+        aria-label={t('remove')}
+      >
+        <HugeiconsIcon icon={Cancel01Icon} size={16} />
+      </button>
+    </div>
+  );
+}
+
+// Search for a title and put it on the shared watchlist
+function AddTitle({
+  pairId,
+  request,
+  onAdded,
+}: {
+  pairId: string;
+  request: Request;
+  onAdded: () => void;
+}) {
+  const t = useTranslations('pairs');
+  const locale = useLocale();
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const search = async () => {
+    if (!query.trim()) return;
+    setIsSearching(true);
+    try {
+      const response = await fetch(`/api/search?${new URLSearchParams({ query: query.trim() })}`);
+      const data = await response.json();
+      setResults(
+        ((data.tmdb?.results ?? []) as SearchResult[]).filter((r) => r.tmdbId).slice(0, 5)
+      );
+    } catch (err) {
+      console.error('Failed to search:', err);
+      setResults([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const add = async (movie: SearchResult) => {
+    const response = await request(`/api/pairs/${pairId}/watchlist`, 'POST', {
+      tmdbId: movie.tmdbId,
+      mediaType: movie.mediaType,
+    });
+    if (response.ok) {
+      setQuery('');
+      setResults(null);
+      onAdded();
+    }
+  };
+
+  return (
+    <section>
+      <Small className="mb-3 block uppercase tracking-wider text-muted-foreground">
+        {t('sectionAdd')}
+      </Small>
+
+      <div className="space-y-2 rounded-xl bg-muted/50 px-4 py-4">
+        <div className="flex gap-2">
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && search()}
+            placeholder={t('searchPlaceholder')}
+          />
+          <Button variant="secondary" onClick={search} disabled={isSearching || !query.trim()}>
+            {t('find')}
+          </Button>
+        </div>
+
+        {results?.length === 0 && <Muted className="block">{t('nothingFound')}</Muted>}
+        {results?.map((movie) => (
+          <button
+            key={`${movie.mediaType}-${movie.tmdbId}`}
+            onClick={() => add(movie)}
+            className="flex w-full items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-left text-sm transition-colors hover:bg-accent"
+          >
+            <span className="truncate text-foreground">
+              {locale === 'ru' && movie.titleRu ? movie.titleRu : movie.title}
+            </span>
+            <span className="shrink-0 text-muted-foreground">{movie.releaseDate?.slice(0, 4)}</span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,3 +1,7 @@
 export { NotificationsOverlay } from './NotificationsOverlay';
 export { DeckSettingsOverlay } from './DeckSettingsOverlay';
 export { WhatsNewOverlay } from './WhatsNewOverlay';
+export { ImportOverlay } from './ImportOverlay';
+export { ExportOverlay } from './ExportOverlay';
+export { CustomListsOverlay } from './CustomListsOverlay';
+export { PairsOverlay } from './PairsOverlay';
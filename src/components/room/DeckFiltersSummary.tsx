@@ -0,0 +1,83 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { Muted } from '@/components/ui/typography';
+import { useGenresList } from '@/hooks/useGenresList';
+import type { NegotiatedDeckFilters } from '@/types/deck';
+
+interface DeckFiltersSummaryProps {
+  filters: NegotiatedDeckFilters | null;
+}
+
+// Filters every member agreed on, shown before the room starts
+export function DeckFiltersSummary({ filters }: DeckFiltersSummaryProps) {
+  const t = useTranslations('deckFilters');
+  const tSettings = useTranslations('deckSettings');
+  const locale = useLocale();
+  const { genresData } = useGenresList();
+
+  const languageNames = useMemo(
+    () => new Intl.DisplayNames([locale], { type: 'language' }),
+    [locale]
+  );
+
+  if (!filters) return null;
+
+  const chips: string[] = [];
+
+  if (filters.mediaTypeFilter === 'movie') chips.push(tSettings('mediaTypeMovie'));
+  if (filters.mediaTypeFilter === 'tv') chips.push(tSettings('mediaTypeTv'));
+
+  if (filters.genreIds.length > 0) {
+    const genres = [...genresData.movie, ...genresData.tv];
+    const names = filters.genreIds
+      .map((id) => genres.find((g) => g.id === id))
+      .filter((g) => !!g)
+      .map((g) => (locale === 'ru' ? g.nameRu : g.name));
+    chips.push(...new Set(names));
+  }
+
+  if (filters.minYear !== null && filters.maxYear !== null) {
+    chips.push(t('yearRange', { from: filters.minYear, to: filters.maxYear }));
+  } else if (filters.minYear !== null) {
+    chips.push(t('yearFrom', { year: filters.minYear }));
+  } else if (filters.maxYear !== null) {
+    chips.push(t('yearTo', { year: filters.maxYear }));
+  }
+
+  if (filters.maxRuntime !== null) {
+    chips.push(tSettings('runtimeUpTo', { minutes: filters.maxRuntime }));
+  }
+
+  chips.push(...filters.languages.map((code) => languageNames.of(code) ?? code));
+
+  if (filters.minRatingFilter !== null) {
+    chips.push(t('minRating', { rating: filters.minRatingFilter }));
+  }
+
+  if (filters.availableOn) {
+    chips.push(t('availableOn', { region: filters.availableOn.region }));
+  }
+
+  return (
+    <div className="flex w-full flex-col items-center gap-2">
+      <Muted>{chips.length > 0 ? t('title') : t('none')}</Muted>
+      {chips.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-1.5">
+          {chips.map((chip) => (
+            <span
+              key={chip}
+              className="rounded-full bg-muted px-3 py-1 text-xs font-medium capitalize text-foreground"
+            >
+              {chip}
+            </span>
+          ))}
+        </div>
+      )}
+      {filters.conflicts.length > 0 && (
+        <p className="text-center text-xs text-amber-600 dark:text-amber-400">{t('conflicts')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import Image from 'next/image';
+import { useTranslations, useLocale } from 'next-intl';
+import { H1, Muted } from '@/components/ui/typography';
+import type { ShortlistItem } from '@/types/room';
+
+interface FinalRoundProps {
+  round: number;
+  totalRounds: number;
+  candidates: ShortlistItem[];
+  votedMovieId: number | null;
+  onVote: (movieId: number) => void;
+}
+
+export function FinalRound({ round, totalRounds, candidates, votedMovieId, onVote }: FinalRoundProps) {
+  const t = useTranslations('shortlist');
+  const locale = useLocale();
+  const hasVoted = votedMovieId !== null;
+
+  return (
+    <div className="flex flex-col items-center gap-6 p-4 text-center w-full max-w-md">
+      <div className="space-y-1">
+        <H1 className="text-3xl bg-gradient-to-r from-pink-500 to-rose-500 bg-clip-text text-transparent">
+          {t('finalTitle')}
+        </H1>
+        <Muted>{t('finalRound', { round, total: totalRounds })}</Muted>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 w-full">
+        {candidates.map((candidate, index) => {
+          const movie = candidate.movie;
+          const title = movie
+            ? locale === 'ru' && movie.titleRu
+              ? movie.titleRu
+              : movie.title
+            : `#${candidate.movieId}`;
+          const isChosen = votedMovieId === candidate.movieId;
+
+          return (
+            <motion.button
+              key={candidate.movieId}
+              initial={{ x: index === 0 ? -40 : 40, opacity: 0 }}
+              animate={{ x: 0, opacity: hasVoted && !isChosen ? 0.4 : 1 }}
+              whileTap={hasVoted ? undefined : { scale: 0.95 }}
+              disabled={hasVoted}
+              onClick={() => onVote(candidate.movieId)}
+              className={`relative aspect-[2/3] rounded-xl overflow-hidden shadow-xl ${
+                isChosen ? 'ring-4 ring-pink-500' : ''
+              }`}
+            >
+              {movie?.posterUrl && (
+                <Image
+                  src={movie.posterUrl}
+                  alt={title}
+                  fill
+                  className="object-cover"
+                  sizes="180px"
+                />
+              )}
+              <div className="absolute inset-0 bg-gradient-to-t from-black/80 to-transparent" />
+              <div className="absolute bottom-0 left-0 right-0 p-2 text-left">
+                <span className="text-sm font-semibold text-white line-clamp-2">{title}</span>
+              </div>
+            </motion.button>
+          );
+        })}
+      </div>
+
+      <Muted>{hasVoted ? t('waitingForVotes') : t('pickOne')}</Muted>
+    </div>
+  );
+}
@@ -3,11 +3,17 @@
 import { motion } from 'framer-motion';
 import Image from 'next/image';
 import { useTranslations, useLocale } from 'next-intl';
+import { Button } from '@/components/ui/button';
 import { H1, Large, Muted } from '@/components/ui/typography';
 import type { Movie } from '@/types/movie';
+import type { RematchStartedPayload } from '@/types/socket';
 
 interface MatchFoundProps {
   movie: Movie;
+  // Room mode: start (or join) a new round with the same members
+  onRematch?: (rejectMatch: boolean) => void;
+  rematchOffer?: RematchStartedPayload | null;
+  isRematching?: boolean;
 }
 
 // Pre-generated static heart animations to avoid Math.random() during render
@@ -24,7 +30,7 @@ const HEART_ANIMATIONS = [
   { x: -90, y: 600, scale: 0.95, duration: 3.6, delay: 0.05, repeatDelay: 1.3, left: '80%' },
 ];
 
-export function MatchFound({ movie }: MatchFoundProps) {
+export function MatchFound({ movie, onRematch, rematchOffer, isRematching }: MatchFoundProps) {
   const t = useTranslations('match');
   const locale = useLocale();
   const title = locale === 'ru' && movie.titleRu ? movie.titleRu : movie.title;
@@ -90,6 +96,36 @@ export function MatchFound({ movie }: MatchFoundProps) {
         </Large>
       </motion.div>
 
+      {/* Rematch - the first member to ask decides whether this match is kept */}
+      {onRematch && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ delay: 0.8 }}
+          className="flex w-full max-w-xs flex-col gap-2"
+        >
+          {rematchOffer ? (
+            <>
+              <Muted>
+                {t(rematchOffer.rejectedMatch ? 'rematchStartedNotTonight' : 'rematchStarted')}
+              </Muted>
+              <Button onClick={() => onRematch(false)} disabled={isRematching}>
+                {t('joinRematch')}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button onClick={() => onRematch(false)} disabled={isRematching}>
+                {t('rematch')}
+              </Button>
+              <Button variant="secondary" onClick={() => onRematch(true)} disabled={isRematching}>
+                {t('rematchNotTonight')}
+              </Button>
+            </>
+          )}
+        </motion.div>
+      )}
+
       {/* Hearts decoration */}
       <div className="absolute inset-0 pointer-events-none overflow-hidden">
         {HEART_ANIMATIONS.map((heart, i) => (
@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useTranslations, useLocale } from 'next-intl';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Muted } from '@/components/ui/typography';
+import { useGenresList } from '@/hooks/useGenresList';
+import {
+  MIN_POOL_SOURCE_WEIGHT,
+  MAX_POOL_SOURCE_WEIGHT,
+  MAX_POOL_SOURCES,
+  POOL_SOURCE_IDS,
+  type PoolSourceSelection,
+  type PoolSourcesResponse,
+} from '@/types/pool';
+
+interface PoolSourceOptionsProps {
+  value: PoolSourceSelection[];
+  onChange: (value: PoolSourceSelection[]) => void;
+}
+
+export function PoolSourceOptions({ value, onChange }: PoolSourceOptionsProps) {
+  const t = useTranslations('poolSources');
+  const locale = useLocale();
+  const { genresData } = useGenresList();
+  const [available, setAvailable] = useState<PoolSourcesResponse | null>(null);
+
+  useEffect(() => {
+    fetch('/api/pool-sources')
+      .then((res) => (res.ok ? res.json() : null))
+      .then(setAvailable)
+      .catch((error) => console.error('Failed to load pool sources:', error));
+  }, []);
+
+  if (!available) return null;
+
+  // Built-in sources have labels; sources registered elsewhere are only picked through the API
+  const sources = available.sources.filter(
+    (source) =>
+      (POOL_SOURCE_IDS as readonly string[]).includes(source.id) &&
+      (source.id !== 'curated' || available.collections.length > 0)
+  );
+
+  const defaultOption = (sourceId: string): string | null => {
+    if (sourceId === 'genre') return genresData.movie[0] ? String(genresData.movie[0].id) : null;
+    if (sourceId === 'curated') return available.collections[0]?.id ?? null;
+    return null;
+  };
+
+  const handleSourcesChange = (ids: string[]) => {
+    // Keep at least one source and stay within the limit
+    if (ids.length === 0 || ids.length > MAX_POOL_SOURCES) return;
+
+    const selections = ids.map(
+      (id) =>
+        value.find((selection) => selection.source === id) ?? {
+          source: id,
+          weight: MIN_POOL_SOURCE_WEIGHT,
+          option: defaultOption(id),
+        }
+    );
+
+    // Genres may still be loading - leave the source off until there is something to pick
+    const requiresOption = new Set(sources.filter((s) => s.requiresOption).map((s) => s.id));
+    if (selections.some((s) => requiresOption.has(s.source) && s.option === null)) return;
+
+    onChange(selections);
+  };
+
+  const updateSelection = (source: string, update: Partial<PoolSourceSelection>) => {
+    onChange(value.map((s) => (s.source === source ? { ...s, ...update } : s)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <Muted>{t('title')}</Muted>
+      <ToggleGroup
+        type="multiple"
+        value={value.map((selection) => selection.source)}
+        onValueChange={handleSourcesChange}
+        className="flex flex-wrap justify-start gap-1.5"
+      >
+        {sources.map((source) => (
+          <ToggleGroupItem key={source.id} value={source.id} className="px-3">
+            {t(source.id)}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      {value.length > 1 && <Muted className="block pt-1">{t('weightHint')}</Muted>}
+
+      {value.map((selection) => (
+        <div key={selection.source} className="space-y-2 pt-1">
+          {value.length > 1 && (
+            <>
+              <div className="flex items-center justify-between">
+                <span className="text-sm">{t(selection.source)}</span>
+                <span className="text-sm font-medium">×{selection.weight}</span>
+              </div>
+              <Slider
+                min={MIN_POOL_SOURCE_WEIGHT}
+                max={MAX_POOL_SOURCE_WEIGHT}
+                step={1}
+                value={[selection.weight]}
+                onValueChange={([weight]) => updateSelection(selection.source, { weight })}
+              />
+            </>
+          )}
+
+          {selection.source === 'genre' && (
+            <Select
+              value={selection.option ?? undefined}
+              onValueChange={(option) => updateSelection('genre', { option })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t('pickGenre')} />
+              </SelectTrigger>
+              <SelectContent>
+                {genresData.movie.map((genre) => (
+                  <SelectItem key={genre.id} value={String(genre.id)}>
+                    {locale === 'ru' ? genre.nameRu : genre.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {selection.source === 'curated' && (
+            <Select
+              value={selection.option ?? undefined}
+              onValueChange={(option) => updateSelection('curated', { option })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t('pickCollection')} />
+              </SelectTrigger>
+              <SelectContent>
+                {available.collections.map((collection) => (
+                  <SelectItem key={collection.id} value={collection.id}>
+                    {collection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useTranslations } from 'next-intl';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Muted } from '@/components/ui/typography';
+import {
+  MIN_PARTICIPANTS,
+  MAX_PARTICIPANTS,
+  MIN_SHORTLIST_SIZE,
+  MAX_SHORTLIST_SIZE,
+  DEFAULT_SHORTLIST_SIZE,
+  SWIPE_BUDGETS,
+  type MatchRule,
+  type MatchMode,
+  type RoomSettings,
+} from '@/types/room';
+
+interface RoomOptionsProps {
+  value: RoomSettings;
+  onChange: (value: RoomSettings) => void;
+}
+
+export function RoomOptions({ value, onChange }: RoomOptionsProps) {
+  const t = useTranslations('roomOptions');
+  const { maxParticipants, matchRule, matchThreshold, matchMode, shortlistSize, swipeBudget } = value;
+
+  const handleSizeChange = ([size]: number[]) => {
+    // Pair rooms always require both likes
+    if (size <= MIN_PARTICIPANTS) {
+      onChange({ ...value, maxParticipants: size, matchRule: 'unanimous', matchThreshold: null });
+      return;
+    }
+    onChange({
+      ...value,
+      maxParticipants: size,
+      matchThreshold: matchRule === 'n_of_m' ? Math.min(matchThreshold ?? size, size) : null,
+    });
+  };
+
+  const handleRuleChange = (rule: string) => {
+    if (!rule) return;
+    onChange({
+      ...value,
+      matchRule: rule as MatchRule,
+      matchThreshold: rule === 'n_of_m' ? Math.max(MIN_PARTICIPANTS, Math.ceil(maxParticipants / 2)) : null,
+    });
+  };
+
+  const handleModeChange = (mode: string) => {
+    if (!mode) return;
+    onChange({
+      ...value,
+      matchMode: mode as MatchMode,
+      shortlistSize: mode === 'shortlist' ? DEFAULT_SHORTLIST_SIZE : null,
+      swipeBudget: null,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Muted>{t('groupSize')}</Muted>
+          <span className="text-sm font-medium">{maxParticipants}</span>
+        </div>
+        <Slider
+          min={MIN_PARTICIPANTS}
+          max={MAX_PARTICIPANTS}
+          step={1}
+          value={[maxParticipants]}
+          onValueChange={handleSizeChange}
+        />
+      </div>
+
+      {maxParticipants > MIN_PARTICIPANTS && (
+        <div className="space-y-2">
+          <Muted>{t('matchRule')}</Muted>
+          <ToggleGroup
+            type="single"
+            value={matchRule}
+            onValueChange={handleRuleChange}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="unanimous" className="px-3">
+              {t('ruleUnanimous')}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="majority" className="px-3">
+              {t('ruleMajority')}
+            </ToggleGroupItem>
+            <ToggleGroupItem value="n_of_m" className="px-3">
+              {t('ruleNOfM')}
+            </ToggleGroupItem>
+          </ToggleGroup>
+
+          {matchRule === 'n_of_m' && matchThreshold !== null && (
+            <div className="space-y-2 pt-2">
+              <div className="flex items-center justify-between">
+                <Muted>{t('threshold')}</Muted>
+                <span className="text-sm font-medium">
+                  {t('thresholdValue', { count: matchThreshold, max: maxParticipants })}
+                </span>
+              </div>
+              <Slider
+                min={MIN_PARTICIPANTS}
+                max={maxParticipants}
+                step={1}
+                value={[matchThreshold]}
+                onValueChange={([threshold]) =>
+                  onChange({ ...value, matchThreshold: threshold })
+                }
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Muted>{t('matchMode')}</Muted>
+        <ToggleGroup
+          type="single"
+          value={matchMode}
+          onValueChange={handleModeChange}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="single" className="px-3">
+            {t('modeSingle')}
+          </ToggleGroupItem>
+          <ToggleGroupItem value="shortlist" className="px-3">
+            {t('modeShortlist')}
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        {matchMode === 'shortlist' && shortlistSize !== null && (
+          <div className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Muted>{t('shortlistSize')}</Muted>
+                <span className="text-sm font-medium">{shortlistSize}</span>
+              </div>
+              <Slider
+                min={MIN_SHORTLIST_SIZE}
+                max={MAX_SHORTLIST_SIZE}
+                step={1}
+                value={[shortlistSize]}
+                onValueChange={([size]) => onChange({ ...value, shortlistSize: size })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Muted>{t('swipeBudget')}</Muted>
+              <ToggleGroup
+                type="single"
+                value={swipeBudget ? String(swipeBudget) : 'none'}
+                onValueChange={(budget) => {
+                  if (!budget) return;
+                  onChange({ ...value, swipeBudget: budget === 'none' ? null : Number(budget) });
+                }}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="none" className="px-3">
+                  {t('swipeBudgetNone')}
+                </ToggleGroupItem>
+                {SWIPE_BUDGETS.map((budget) => (
+                  <ToggleGroupItem key={budget} value={String(budget)} className="px-3">
+                    {budget}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import type { ReactNode } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
 import { useTranslations, useLocale } from 'next-intl';
 import { Button } from '@/components/ui/button';
@@ -13,10 +14,13 @@ import { useTelegramWebApp } from '@/hooks/useTelegramWebApp';
 interface ShareLinkProps {
   roomCode: string;
   pin: string;
+  title?: string;
   onCancel?: () => void;
+  // Extra content rendered above the share button (e.g. group member list)
+  children?: ReactNode;
 }
 
-export function ShareLink({ roomCode, pin, onCancel }: ShareLinkProps) {
+export function ShareLink({ roomCode, pin, title, onCancel, children }: ShareLinkProps) {
   const t = useTranslations('room');
   const tCommon = useTranslations('common');
   const locale = useLocale();
@@ -77,7 +81,7 @@ export function ShareLink({ roomCode, pin, onCancel }: ShareLinkProps) {
       {/* Header with spinner */}
       <div className="flex flex-col items-center gap-3">
         <Loader size="lg" />
-        <H4 className="text-foreground">{t('waiting')}</H4>
+        <H4 className="text-foreground">{title ?? t('waiting')}</H4>
         <Muted>{t('shareLink')}</Muted>
       </div>
 
@@ -94,6 +98,8 @@ export function ShareLink({ roomCode, pin, onCancel }: ShareLinkProps) {
 
       <Muted>{t('scanQr')}</Muted>
 
+      {children}
+
       {/* Buttons */}
       <div className="flex w-full flex-col gap-2">
         <Button
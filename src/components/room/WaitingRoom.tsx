@@ -2,37 +2,89 @@
 
 import { useTranslations } from 'next-intl';
 import { ShareLink } from './ShareLink';
+import { DeckFiltersSummary } from './DeckFiltersSummary';
+import { Button } from '@/components/ui/button';
+import { Muted } from '@/components/ui/typography';
 import { HugeiconsIcon } from '@hugeicons/react';
 import { CheckmarkCircle02Icon } from '@hugeicons/core-free-icons';
+import { USER_SLOTS, type MemberProgress } from '@/types/room';
+import type { NegotiatedDeckFilters } from '@/types/deck';
 
 interface WaitingRoomProps {
   roomCode: string;
   pin: string;
-  isPartnerConnected: boolean;
+  members: MemberProgress[];
+  maxParticipants: number;
+  deckFilters: NegotiatedDeckFilters | null;
+  onStart?: () => void;
   onCancel?: () => void;
 }
 
 export function WaitingRoom({
   roomCode,
   pin,
-  isPartnerConnected,
+  members,
+  maxParticipants,
+  deckFilters,
+  onStart,
   onCancel,
 }: WaitingRoomProps) {
   const t = useTranslations('room');
+  const connectedCount = members.filter((m) => m.isConnected).length;
 
-  if (isPartnerConnected) {
-    return (
-      <div className="flex flex-col items-center gap-4">
-        <div className="flex h-16 w-16 items-center justify-center rounded-full bg-emerald-500/20">
-          <HugeiconsIcon icon={CheckmarkCircle02Icon} size={32} className="text-emerald-500" />
+  // Pair room: starts automatically as soon as the partner connects
+  if (maxParticipants <= 2) {
+    if (connectedCount >= 2) {
+      return (
+        <div className="flex flex-col items-center gap-4">
+          <div className="flex h-16 w-16 items-center justify-center rounded-full bg-emerald-500/20">
+            <HugeiconsIcon icon={CheckmarkCircle02Icon} size={32} className="text-emerald-500" />
+          </div>
+          <span className="rounded-full bg-emerald-500 px-3 py-1 text-sm font-medium text-white">
+            {t('connected')}
+          </span>
+          <p className="text-sm text-muted-foreground">{t('startingSoon')}</p>
+          <DeckFiltersSummary filters={deckFilters} />
         </div>
-        <span className="rounded-full bg-emerald-500 px-3 py-1 text-sm font-medium text-white">
-          {t('connected')}
-        </span>
-        <p className="text-sm text-muted-foreground">{t('startingSoon')}</p>
-      </div>
+      );
+    }
+
+    return (
+      <ShareLink roomCode={roomCode} pin={pin} onCancel={onCancel}>
+        <DeckFiltersSummary filters={deckFilters} />
+      </ShareLink>
     );
   }
 
-  return <ShareLink roomCode={roomCode} pin={pin} onCancel={onCancel} />;
+  // Group room: show who is here, creator may start once at least 2 are connected
+  const slots = USER_SLOTS.slice(0, maxParticipants);
+
+  return (
+    <ShareLink roomCode={roomCode} pin={pin} title={t('waitingGroup')} onCancel={onCancel}>
+      <div className="flex w-full flex-col items-center gap-3">
+        <div className="flex gap-2">
+          {slots.map((slot) => {
+            const isConnected = members.some((m) => m.userSlot === slot && m.isConnected);
+            return (
+              <span
+                key={slot}
+                className={`flex h-8 w-8 items-center justify-center rounded-full text-xs font-medium ${
+                  isConnected ? 'bg-emerald-500 text-white' : 'bg-muted text-muted-foreground'
+                }`}
+              >
+                {slot}
+              </span>
+            );
+          })}
+        </div>
+        <Muted>{t('membersJoined', { count: connectedCount, max: maxParticipants })}</Muted>
+        <DeckFiltersSummary filters={deckFilters} />
+        {onStart && (
+          <Button onClick={onStart} disabled={connectedCount < 2} className="w-full" size="lg">
+            {t('startNow')}
+          </Button>
+        )}
+      </div>
+    </ShareLink>
+  );
 }
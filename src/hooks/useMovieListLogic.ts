@@ -7,6 +7,8 @@ import { useDebounce } from '@/hooks/useDebounce';
 import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
 import { useAnalytics } from '@/hooks/useAnalytics';
 import { useClearSearchTrigger } from '@/stores/searchStore';
+import { useWatchProviderIds } from '@/stores/deckSettingsStore';
+import { usePreferredReleaseRegion } from '@/stores/notificationsStore';
 import { MOVIE_STATUS, type MovieStatus } from '@/lib/db/schema';
 import type { SearchResult, SearchFilters as SearchFiltersType, OriginalLanguage } from '@/types/movie';
 import { DEFAULT_LANGUAGES } from '@/types/movie';
@@ -78,6 +80,10 @@ export function useMovieListLogic({ initialStatus = 'all' }: UseMovieListLogicPr
   const [expandedQuery, setExpandedQuery] = useState<string | null>(null);
   const [showExpandedSection, setShowExpandedSection] = useState(false);
 
+  // The "on my services" search filter uses the swipe settings' services and region
+  const watchProviderIds = useWatchProviderIds();
+  const watchRegion = usePreferredReleaseRegion();
+
   // Search filters state
   const [searchFilters, setSearchFilters] = useState<SearchFiltersType>({
     genres: [],
@@ -90,6 +96,7 @@ export function useMovieListLogic({ initialStatus = 'all' }: UseMovieListLogicPr
     originalLanguages: DEFAULT_LANGUAGES,
     runtimeMin: null,
     runtimeMax: null,
+    onMyServices: false,
   });
 
   // Apply filters and sorting to items from store
@@ -327,10 +334,14 @@ export function useMovieListLogic({ initialStatus = 'all' }: UseMovieListLogicPr
       if (searchFilters.runtimeMax) {
         params.set('runtimeMax', String(searchFilters.runtimeMax));
       }
+      if (searchFilters.onMyServices && watchProviderIds.length > 0) {
+        params.set('watchProviders', watchProviderIds.join(','));
+        params.set('watchRegion', watchRegion);
+      }
 
       return `/api/search?${params}`;
     },
-    [searchFilters]
+    [searchFilters, watchProviderIds, watchRegion]
   );
 
   // External search effect
@@ -5,7 +5,13 @@ import { io, Socket } from 'socket.io-client';
 import { useRoomStore } from '@/stores/roomStore';
 import { useQueueStore } from '@/stores/queueStore';
 import { useAuthStore } from '@/stores/authStore';
-import type { ClientToServerEvents, ServerToClientEvents } from '@/types/socket';
+import { useSwipeStore } from '@/stores/swipeStore';
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  ResumeRoomResponse,
+  RematchResponse,
+} from '@/types/socket';
 import type { UserSlot, SwipeAction } from '@/types/room';
 
 type TypedSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -15,15 +21,50 @@ let globalSocket: TypedSocket | null = null;
 let globalRoomCode: string | null = null;
 let globalUserSlot: UserSlot | null = null;
 
+// Reconcile local state with what the server recorded while we were offline
+function applyResumedState(
+  socket: TypedSocket,
+  roomCode: string,
+  state: ResumeRoomResponse
+) {
+  const { setMatchFound, setMatchedMovieId } = useRoomStore.getState();
+
+  if (state.status === 'matched' && state.matchedMovieId) {
+    setMatchedMovieId(state.matchedMovieId);
+    setMatchFound(true);
+    return;
+  }
+
+  // Re-send swipes that never reached the server
+  const serverSwiped = new Set(state.swipedMovieIds);
+  const { swipedMovieIds, likedMovieIds, swipeActions } = useSwipeStore.getState();
+  swipedMovieIds
+    .filter((movieId) => !serverSwiped.has(movieId))
+    .forEach((movieId) => {
+      socket.emit('swipe', {
+        roomCode,
+        movieId,
+        action: swipeActions[movieId] ?? (likedMovieIds.includes(movieId) ? 'like' : 'skip'),
+      });
+    });
+
+  useQueueStore.getState().skipSwiped(state.swipedMovieIds);
+}
+
 export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
   const socketRef = useRef<TypedSocket | null>(null);
   const {
     setConnected,
-    setPartnerConnected,
+    setMemberConnected,
+    setMembers,
+    setRoomSettings,
+    setDeckFilters,
+    setShortlist,
+    setFinalRound,
+    setFinalVote,
     setRoomReady,
     setMatchFound,
     setMatchedMovieId,
-    setPartnerSwipeCount,
   } = useRoomStore();
 
   useEffect(() => {
@@ -51,6 +92,8 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
       reconnection: true,
       reconnectionAttempts: 5,
       reconnectionDelay: 1000,
+      // Identity comes from the ticket issued by /join, re-read on every reconnect
+      auth: (cb) => cb({ ticket: useRoomStore.getState().roomTicket ?? '' }),
     });
 
     globalSocket = socket;
@@ -60,7 +103,20 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
 
     socket.on('connect', () => {
       setConnected(true);
-      socket.emit('join_room', { roomCode, userSlot });
+
+      const { hasJoinedRoom, setJoinedRoom } = useRoomStore.getState();
+      if (!hasJoinedRoom) {
+        setJoinedRoom();
+        socket.emit('join_room', { roomCode });
+        return;
+      }
+
+      // Reconnect, reload or another tab with the same ticket - recover instead of joining from scratch
+      socket.emit('resume_room', { roomCode }, (state: ResumeRoomResponse | null) => {
+        if (state) {
+          applyResumedState(socket, roomCode, state);
+        }
+      });
     });
 
     socket.on('disconnect', () => {
@@ -68,25 +124,33 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
     });
 
     socket.on('user_joined', ({ userSlot: joinedSlot }) => {
-      if (joinedSlot !== userSlot) {
-        setPartnerConnected(true);
-      }
+      setMemberConnected(joinedSlot, true);
     });
 
     socket.on('user_left', ({ userSlot: leftSlot }) => {
-      if (leftSlot !== userSlot) {
-        setPartnerConnected(false);
-      }
+      setMemberConnected(leftSlot, false);
+    });
+
+    socket.on('room_members', ({ members, deckFilters, ...settings }) => {
+      setMembers(members);
+      setRoomSettings(settings);
+      setDeckFilters(deckFilters);
     });
 
     socket.on('room_ready', () => {
       setRoomReady(true);
     });
 
-    socket.on('swipe_progress', ({ userSlot: swipedSlot, totalSwiped }) => {
-      if (swipedSlot !== userSlot) {
-        setPartnerSwipeCount(totalSwiped);
-      }
+    socket.on('swipe_progress', ({ members }) => {
+      setMembers(members);
+    });
+
+    socket.on('shortlist_updated', ({ items }) => {
+      setShortlist(items);
+    });
+
+    socket.on('final_round', (round) => {
+      setFinalRound(round);
     });
 
     socket.on('match_found', ({ movieId }) => {
@@ -115,16 +179,28 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
       // Handle room expiration
     });
 
-    socket.on('partner_liked', ({ movie }) => {
+    socket.on('partner_liked', ({ movie, isSuperLike }) => {
       console.log('[SOCKET] partner_liked received', { movieId: movie?.tmdbId, timestamp: Date.now() });
       // Validate movie object before injecting into queue
       if (!movie || typeof movie.tmdbId !== 'number') {
         console.error('Received invalid movie in partner_liked event:', movie);
         return;
       }
-      // Inject partner's liked movie into queue
+      // Inject partner's liked movie into queue (super-likes become the next card)
       const { injectPartnerLike } = useQueueStore.getState();
-      injectPartnerLike(movie);
+      injectPartnerLike(movie, isSuperLike);
+    });
+
+    socket.on('partner_vetoed', ({ movieId }) => {
+      useQueueStore.getState().removeMovie(movieId);
+    });
+
+    socket.on('partner_veto_retracted', ({ movieId }) => {
+      useQueueStore.getState().restoreVetoedMovie(movieId);
+    });
+
+    socket.on('partner_like_retracted', ({ movieId }) => {
+      useQueueStore.getState().retractPartnerLike(movieId);
     });
 
     socket.on('partner_auth_changed', ({ hasWantToWatchList }) => {
@@ -135,6 +211,10 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
       }
     });
 
+    socket.on('rematch_started', (offer) => {
+      useRoomStore.getState().setRematchOffer(offer);
+    });
+
     socket.on('error', ({ message }) => {
       console.error('Socket error:', message);
     });
@@ -148,18 +228,21 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
     roomCode,
     userSlot,
     setConnected,
-    setPartnerConnected,
+    setMemberConnected,
+    setMembers,
+    setRoomSettings,
+    setDeckFilters,
+    setShortlist,
+    setFinalRound,
     setRoomReady,
     setMatchFound,
     setMatchedMovieId,
-    setPartnerSwipeCount,
   ]);
 
-  // Cleanup on page unload
+  // Cleanup on page unload - a plain disconnect, so a reload within the grace period isn't a leave
   useEffect(() => {
     const handleBeforeUnload = () => {
       if (globalSocket && globalRoomCode && globalUserSlot) {
-        globalSocket.emit('leave_room', { roomCode: globalRoomCode, userSlot: globalUserSlot });
         globalSocket.disconnect();
         globalSocket = null;
         globalRoomCode = null;
@@ -180,16 +263,54 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
         roomCode,
         movieId,
         action,
-        userSlot,
       });
     },
     [roomCode, userSlot]
   );
 
+  // Take back the last swipe once the server has removed it
+  const undoSwipe = useCallback(() => {
+    if (!roomCode || !userSlot) return;
+    socketRef.current?.emit('undo_swipe', { roomCode }, (movieId: number | null) => {
+      if (movieId === null) return;
+      useQueueStore.getState().rewind(movieId);
+      useSwipeStore.getState().removeSwipe(movieId);
+    });
+  }, [roomCode, userSlot]);
+
+  // Room creator starts a group room before every slot is filled
+  const startRoom = useCallback(() => {
+    if (!roomCode || !userSlot) return;
+    socketRef.current?.emit('start_room', { roomCode });
+  }, [roomCode, userSlot]);
+
+  // Shortlist mode: vote for one of the two titles in the current final round
+  const castFinalVote = useCallback(
+    (movieId: number) => {
+      if (!roomCode || !userSlot) return;
+      socketRef.current?.emit('final_vote', { roomCode, movieId });
+      setFinalVote(movieId);
+    },
+    [roomCode, userSlot, setFinalVote]
+  );
+
+  // Continue a matched room in a linked room - resolves with this member's place in it
+  const requestRematch = useCallback(
+    (rejectMatch: boolean) =>
+      new Promise<RematchResponse | null>((resolve) => {
+        if (!roomCode || !userSlot || !socketRef.current) {
+          resolve(null);
+          return;
+        }
+        socketRef.current.emit('request_rematch', { roomCode, rejectMatch }, resolve);
+      }),
+    [roomCode, userSlot]
+  );
+
   // Function to manually disconnect (call when leaving room)
   const disconnect = useCallback(() => {
     if (globalSocket && globalRoomCode && globalUserSlot) {
-      globalSocket.emit('leave_room', { roomCode: globalRoomCode, userSlot: globalUserSlot });
+      globalSocket.emit('leave_room', { roomCode: globalRoomCode });
       globalSocket.disconnect();
       globalSocket = null;
       globalRoomCode = null;
@@ -197,5 +318,5 @@ export function useSocket(roomCode: string | null, userSlot: UserSlot | null) {
     }
   }, []);
 
-  return { emitSwipe, disconnect };
+  return { emitSwipe, undoSwipe, startRoom, castFinalVote, requestRematch, disconnect };
 }
@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useIsAuthenticated, useAuthToken } from '@/stores/authStore';
+import { useNotificationsStore, useNotificationsHydrated } from '@/stores/notificationsStore';
+
+/**
+ * Hook that saves the device time zone for notification quiet hours the first
+ * time the user opens the Mini App signed in. After that it only changes from
+ * the notification settings.
+ */
+export function useSyncTimeZoneOnAuth(isTelegramMiniApp: boolean) {
+  const isAuthenticated = useIsAuthenticated();
+  const token = useAuthToken();
+  const hasHydrated = useNotificationsHydrated();
+  const hasSynced = useRef(false);
+
+  useEffect(() => {
+    if (!isTelegramMiniApp || !isAuthenticated || !token || !hasHydrated || hasSynced.current) {
+      return;
+    }
+    hasSynced.current = true;
+
+    const syncTimeZone = async () => {
+      const { loadSettings, updateSettings } = useNotificationsStore.getState();
+      await loadSettings(token);
+      if (useNotificationsStore.getState().timeZone) return;
+
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      if (timeZone) {
+        await updateSettings(token, { timeZone });
+      }
+    };
+
+    syncTimeZone().catch((error) => {
+      console.error('Failed to sync time zone:', error);
+    });
+  }, [isTelegramMiniApp, isAuthenticated, token, hasHydrated]);
+}
@@ -0,0 +1,81 @@
+/**
+ * Tests for credit parsing
+ *
+ * We keep the top billed cast, directors and writers of a title - each
+ * person once per role, in billing order.
+ */
+
+// The db and TMDB clients need server config; these checks never touch them
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../tmdb', () => ({ tmdb: {} }));
+
+import { groupCredits, parseCredits, TOP_CAST } from '../credits';
+import type { TMDBCastMember, TMDBCrewMember } from '@/types/movie';
+
+const actor = (id: number, order: number): TMDBCastMember => ({
+  id,
+  name: `Actor ${id}`,
+  profile_path: null,
+  character: `Role ${id}`,
+  order,
+});
+
+const crew = (id: number, department: string, job: string): TMDBCrewMember => ({
+  id,
+  name: `Crew ${id}`,
+  profile_path: null,
+  department,
+  job,
+});
+
+describe('parseCredits', () => {
+  it('keeps the top billed cast in billing order', () => {
+    const cast = Array.from({ length: TOP_CAST + 5 }, (_, i) => actor(100 + i, TOP_CAST + 4 - i));
+    const result = parseCredits({ id: 1, cast, crew: [] });
+
+    expect(result).toHaveLength(TOP_CAST);
+    expect(result[0]).toMatchObject({ role: 'cast', position: 0, character: 'Role 114' });
+    expect(result[0].person).toEqual({ id: 114, name: 'Actor 114', profilePath: null });
+  });
+
+  it('picks directors and writers once each', () => {
+    const result = parseCredits({
+      id: 1,
+      cast: [],
+      crew: [
+        crew(1, 'Directing', 'Director'),
+        crew(1, 'Writing', 'Screenplay'),
+        crew(1, 'Writing', 'Story'),
+        crew(2, 'Writing', 'Novel'),
+        crew(3, 'Writing', 'Staff Writer'),
+        crew(4, 'Production', 'Producer'),
+      ],
+    });
+
+    expect(result.map((c) => [c.person.id, c.role, c.position])).toEqual([
+      [1, 'director', 0],
+      [1, 'writer', 0],
+      [2, 'writer', 1],
+    ]);
+  });
+});
+
+describe('groupCredits', () => {
+  it('groups by role and only gives actors a character', () => {
+    const credits = parseCredits({
+      id: 1,
+      cast: [actor(10, 1), actor(11, 0)],
+      crew: [crew(1, 'Directing', 'Director')],
+    });
+
+    expect(groupCredits(credits, ['heist'])).toEqual({
+      directors: [{ id: 1, name: 'Crew 1', profilePath: null }],
+      writers: [],
+      cast: [
+        { id: 11, name: 'Actor 11', profilePath: null, character: 'Role 11' },
+        { id: 10, name: 'Actor 10', profilePath: null, character: 'Role 10' },
+      ],
+      keywords: ['heist'],
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for watch provider parsing and availability
+ *
+ * TMDB lists a service once per offer type; we keep one entry per service
+ * with all its offer types. Only streaming offers make a title available.
+ */
+
+// The db and TMDB clients need server config; these checks never touch them
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../tmdb', () => ({ tmdb: {} }));
+
+import { isAvailableOn, parseStoredWatchProviders, parseWatchProviders } from '../watchProviders';
+import type { TMDBWatchProvider } from '@/types/movie';
+
+const offer = (id: number, priority: number): TMDBWatchProvider => ({
+  provider_id: id,
+  provider_name: `Provider ${id}`,
+  logo_path: `/${id}.jpg`,
+  display_priority: priority,
+});
+
+describe('parseWatchProviders', () => {
+  it('merges offer types per service and keeps the display order', () => {
+    const result = parseWatchProviders({
+      id: 1,
+      results: {
+        US: {
+          link: 'https://www.themoviedb.org/movie/1/watch?locale=US',
+          flatrate: [offer(8, 2)],
+          rent: [offer(2, 1), offer(8, 2)],
+          buy: [offer(2, 1)],
+        },
+      },
+    });
+
+    expect(result.US?.link).toContain('locale=US');
+    expect(result.US?.providers.map((p) => [p.id, p.types])).toEqual([
+      [2, ['rent', 'buy']],
+      [8, ['flatrate', 'rent']],
+    ]);
+  });
+
+  it('skips regions we do not support', () => {
+    const result = parseWatchProviders({ id: 1, results: { DE: { flatrate: [offer(8, 1)] } } });
+    expect(result).toEqual({});
+  });
+});
+
+describe('parseStoredWatchProviders', () => {
+  it('treats missing or broken values as unknown', () => {
+    expect(parseStoredWatchProviders(null)).toBeNull();
+    expect(parseStoredWatchProviders('oops')).toBeNull();
+    expect(parseStoredWatchProviders('{}')).toEqual({});
+  });
+});
+
+describe('isAvailableOn', () => {
+  const providers = parseWatchProviders({
+    id: 1,
+    results: { US: { flatrate: [offer(8, 1)], ads: [offer(300, 2)], rent: [offer(2, 3)] } },
+  });
+
+  it('counts subscription, free and ad-supported offers', () => {
+    expect(isAvailableOn(providers, { region: 'US', providerIds: [8] })).toBe(true);
+    expect(isAvailableOn(providers, { region: 'US', providerIds: [300] })).toBe(true);
+  });
+
+  it('ignores rentals, other services and other regions', () => {
+    expect(isAvailableOn(providers, { region: 'US', providerIds: [2] })).toBe(false);
+    expect(isAvailableOn(providers, { region: 'US', providerIds: [337] })).toBe(false);
+    expect(isAvailableOn(providers, { region: 'RU', providerIds: [8] })).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+import { db } from '../db';
+import {
+  movies,
+  people,
+  movieCredits,
+  keywords,
+  movieKeywords,
+  CREDIT_ROLE,
+  type CreditRole,
+  type Movie,
+} from '../db/schema';
+import { asc, eq, ilike, sql } from 'drizzle-orm';
+import { tmdb } from './tmdb';
+import type {
+  CreditPerson,
+  MediaType,
+  MovieCredits,
+  TMDBCredits,
+  TMDBKeyword,
+} from '@/types/movie';
+
+// Credits barely change once a title is out - same lifetime as the movie details
+export const CREDITS_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Top billed actors we keep per title
+export const TOP_CAST = 10;
+export const MAX_KEYWORDS = 20;
+
+// Crew jobs that count as writing credits
+const WRITER_JOBS = ['Screenplay', 'Writer', 'Story', 'Novel', 'Author'];
+
+export interface ParsedCredit {
+  person: Omit<CreditPerson, 'character'>;
+  role: CreditRole;
+  character: string | null;
+  position: number;
+}
+
+/**
+ * Pick the credits we keep from TMDB: top billed cast, directors and writers.
+ * Each person appears once per role, in billing order.
+ */
+export function parseCredits(data: TMDBCredits): ParsedCredit[] {
+  const result: ParsedCredit[] = [];
+
+  const add = (
+    role: CreditRole,
+    members: { id: number; name: string; profile_path: string | null; character?: string | null }[]
+  ) => {
+    const seen = new Set<number>();
+    for (const member of members) {
+      if (seen.has(member.id)) continue;
+      seen.add(member.id);
+      result.push({
+        person: { id: member.id, name: member.name, profilePath: member.profile_path },
+        role,
+        character: member.character || null,
+        position: seen.size - 1,
+      });
+    }
+  };
+
+  add(
+    CREDIT_ROLE.CAST,
+    [...(data.cast ?? [])].sort((a, b) => a.order - b.order).slice(0, TOP_CAST)
+  );
+  add(CREDIT_ROLE.DIRECTOR, (data.crew ?? []).filter((c) => c.job === 'Director'));
+  add(
+    CREDIT_ROLE.WRITER,
+    (data.crew ?? []).filter((c) => c.department === 'Writing' && WRITER_JOBS.includes(c.job))
+  );
+
+  return result;
+}
+
+/**
+ * Group stored credits by role for display.
+ */
+export function groupCredits(credits: ParsedCredit[], keywordNames: string[]): MovieCredits {
+  const byRole = (role: CreditRole): CreditPerson[] =>
+    credits
+      .filter((c) => c.role === role)
+      .sort((a, b) => a.position - b.position)
+      .map((c) =>
+        role === CREDIT_ROLE.CAST ? { ...c.person, character: c.character } : c.person
+      );
+
+  return {
+    directors: byRole(CREDIT_ROLE.DIRECTOR),
+    writers: byRole(CREDIT_ROLE.WRITER),
+    cast: byRole(CREDIT_ROLE.CAST),
+    keywords: keywordNames,
+  };
+}
+
+// Replace a title's credits and keywords - people and keywords are shared between titles
+async function storeCredits(
+  movieId: string,
+  credits: ParsedCredit[],
+  keywordList: TMDBKeyword[]
+): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx.delete(movieCredits).where(eq(movieCredits.movieId, movieId));
+    await tx.delete(movieKeywords).where(eq(movieKeywords.movieId, movieId));
+
+    if (credits.length > 0) {
+      const uniquePeople = new Map(credits.map((c) => [c.person.id, c.person]));
+      const stored = await tx
+        .insert(people)
+        .values(
+          [...uniquePeople.values()].map((p) => ({
+            tmdbId: p.id,
+            name: p.name,
+            profilePath: p.profilePath,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: people.tmdbId,
+          set: {
+            name: sql`excluded.name`,
+            profilePath: sql`excluded.profile_path`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ id: people.id, tmdbId: people.tmdbId });
+
+      const personIds = new Map(stored.map((p) => [p.tmdbId, p.id]));
+      // A concurrent refresh of the same title may have stored them already
+      await tx
+        .insert(movieCredits)
+        .values(
+          credits.map((c) => ({
+            movieId,
+            personId: personIds.get(c.person.id)!,
+            role: c.role,
+            character: c.character?.slice(0, 500) ?? null,
+            position: c.position,
+          }))
+        )
+        .onConflictDoNothing();
+    }
+
+    if (keywordList.length > 0) {
+      const stored = await tx
+        .insert(keywords)
+        .values(keywordList.map((k) => ({ tmdbId: k.id, name: k.name })))
+        .onConflictDoUpdate({ target: keywords.tmdbId, set: { name: sql`excluded.name` } })
+        .returning({ id: keywords.id });
+
+      await tx
+        .insert(movieKeywords)
+        .values(stored.map((k) => ({ movieId, keywordId: k.id })))
+        .onConflictDoNothing();
+    }
+
+    await tx.update(movies).set({ creditsCachedAt: new Date() }).where(eq(movies.id, movieId));
+  });
+}
+
+/**
+ * Pull credits and keywords from TMDB and store them for a cached title.
+ */
+export async function refreshCredits(
+  movie: Pick<Movie, 'id' | 'tmdbId' | 'mediaType'>
+): Promise<MovieCredits | null> {
+  if (!movie.tmdbId) return null;
+
+  const mediaType: MediaType = movie.mediaType === 'tv' ? 'tv' : 'movie';
+  const [creditsData, keywordList] = await Promise.all([
+    tmdb.getCredits(movie.tmdbId, mediaType),
+    tmdb.getKeywords(movie.tmdbId, mediaType),
+  ]);
+
+  const credits = parseCredits(creditsData);
+  const kept = keywordList.slice(0, MAX_KEYWORDS);
+  await storeCredits(movie.id, credits, kept);
+
+  return groupCredits(credits, kept.map((k) => k.name).sort());
+}
+
+// Credits and keywords already stored for a title
+async function readCredits(movieId: string): Promise<MovieCredits> {
+  const [creditRows, keywordRows] = await Promise.all([
+    db
+      .select({
+        tmdbId: people.tmdbId,
+        name: people.name,
+        profilePath: people.profilePath,
+        role: movieCredits.role,
+        character: movieCredits.character,
+        position: movieCredits.position,
+      })
+      .from(movieCredits)
+      .innerJoin(people, eq(movieCredits.personId, people.id))
+      .where(eq(movieCredits.movieId, movieId)),
+    db
+      .select({ name: keywords.name })
+      .from(movieKeywords)
+      .innerJoin(keywords, eq(movieKeywords.keywordId, keywords.id))
+      .where(eq(movieKeywords.movieId, movieId))
+      .orderBy(keywords.name),
+  ]);
+
+  return groupCredits(
+    creditRows.map((row) => ({
+      person: { id: row.tmdbId, name: row.name, profilePath: row.profilePath },
+      role: row.role as CreditRole,
+      character: row.character,
+      position: row.position,
+    })),
+    keywordRows.map((k) => k.name)
+  );
+}
+
+/**
+ * Credits for a cached title, pulled from TMDB when missing or stale.
+ * Null when they were never stored and TMDB couldn't be reached.
+ */
+export async function getMovieCredits(movie: Movie): Promise<MovieCredits | null> {
+  const isFresh =
+    !!movie.creditsCachedAt && Date.now() - movie.creditsCachedAt.getTime() < CREDITS_TTL_MS;
+  if (isFresh) return readCredits(movie.id);
+
+  try {
+    return await refreshCredits(movie);
+  } catch (error) {
+    console.error(`Failed to get credits for ${movie.tmdbId}:`, error);
+    // Outdated credits beat none
+    return movie.creditsCachedAt ? readCredits(movie.id) : null;
+  }
+}
+
+/**
+ * Cached titles with a person or keyword matching the query:
+ * people by part of their name ("villeneuve"), keywords by the whole keyword.
+ * Directors and writers come before cast.
+ */
+export async function searchByCredits(query: string, limit = 20): Promise<Movie[]> {
+  const [byPerson, byKeyword] = await Promise.all([
+    db
+      .select({ movie: movies })
+      .from(movieCredits)
+      .innerJoin(people, eq(movieCredits.personId, people.id))
+      .innerJoin(movies, eq(movieCredits.movieId, movies.id))
+      .where(ilike(people.name, `%${query}%`))
+      .orderBy(
+        sql`case when ${movieCredits.role} = ${CREDIT_ROLE.CAST} then 1 else 0 end`,
+        asc(movieCredits.position)
+      )
+      .limit(limit),
+    db
+      .select({ movie: movies })
+      .from(movieKeywords)
+      .innerJoin(keywords, eq(movieKeywords.keywordId, keywords.id))
+      .innerJoin(movies, eq(movieKeywords.movieId, movies.id))
+      .where(ilike(keywords.name, query))
+      .limit(limit),
+  ]);
+
+  const found = new Map<string, Movie>();
+  for (const { movie } of [...byPerson, ...byKeyword]) {
+    if (!found.has(movie.id)) found.set(movie.id, movie);
+  }
+
+  return [...found.values()].slice(0, limit);
+}
@@ -2,8 +2,11 @@ import { tmdb, TMDBClient } from './tmdb';
 import { db } from '../db';
 import { movies } from '../db/schema';
 import { eq, inArray } from 'drizzle-orm';
-import { shuffle } from '../utils/shuffle';
+import { getPoolSourceItems } from '../pool/sources';
+import { mixPoolSources } from '../pool/mix';
+import { parseStoredWatchProviders } from './watchProviders';
 import type { Movie, MediaTypeFilter } from '@/types/movie';
+import { DEFAULT_POOL_SOURCES, type PoolSourceSelection } from '@/types/pool';
 
 const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
 
@@ -15,15 +18,15 @@ function getTmdbLocale(locale: SupportedLocale): 'ru-RU' | 'en-US' {
   return locale === 'ru' ? 'ru-RU' : 'en-US';
 }
 
-interface PoolItem {
+export interface PoolItem {
   id: number;
   mediaType: 'movie' | 'tv';
+  // List metadata, enough to filter before the (expensive) enhancement - null when the source doesn't know
+  genreIds: number[] | null;
+  year: number | null;
+  language: string | null;
 }
 
-// Cache for pool items to avoid refetching TMDB lists
-const poolCache = new Map<string, { items: PoolItem[]; timestamp: number }>();
-const POOL_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
-
 // Request deduplication: prevents parallel requests for the same movie
 const pendingRequests = new Map<string, Promise<Movie | null>>();
 
@@ -53,67 +56,43 @@ async function withTimeout<T>(
 }
 
 /**
- * Generate pool item IDs without enhancement (fast).
- * Uses caching to avoid repeated TMDB list calls.
+ * Pool items in seeded order, without enhancement.
+ * The order mixes the given sources by weight; callers walk it themselves
+ * and enhance only what they serve.
  */
-async function generatePoolItems(mediaTypeFilter: MediaTypeFilter = 'all'): Promise<PoolItem[]> {
-  const cacheKey = `pool-${mediaTypeFilter}`;
-  const cached = poolCache.get(cacheKey);
-
-  if (cached && Date.now() - cached.timestamp < POOL_CACHE_TTL) {
-    return cached.items;
-  }
-
-  const poolItems: PoolItem[] = [];
-
-  // Fetch movies if filter allows
-  if (mediaTypeFilter === 'all' || mediaTypeFilter === 'movie') {
-    const topRatedPromises = [];
-    for (let page = 1; page <= 5; page++) {
-      topRatedPromises.push(tmdb.getTopRated('en-US', page));
-    }
-
-    const releasesPromises = [];
-    for (let page = 1; page <= 2; page++) {
-      releasesPromises.push(tmdb.get2025Releases('en-US', page));
-    }
-
-    const [topRatedResults, releasesResults] = await Promise.all([
-      Promise.all(topRatedPromises),
-      Promise.all(releasesPromises),
-    ]);
+export async function getShuffledPoolItems(
+  seed: number,
+  mediaTypeFilter: MediaTypeFilter = 'all',
+  sources: PoolSourceSelection[] = DEFAULT_POOL_SOURCES
+): Promise<PoolItem[]> {
+  const lists = await Promise.all(
+    sources.map(async (selection) => ({
+      items: await getPoolSourceItems(selection),
+      weight: selection.weight,
+    }))
+  );
 
-    const moviesList = [
-      ...topRatedResults.flat().slice(0, 100),
-      ...releasesResults.flat().slice(0, 40),
-    ];
+  let poolItems = mixPoolSources(lists, seed);
 
-    poolItems.push(...moviesList.map((m) => ({ id: m.id, mediaType: 'movie' as const })));
+  // A deck nobody can swipe is worse than the default one (e.g. an emptied collection)
+  if (poolItems.length === 0 && sources !== DEFAULT_POOL_SOURCES) {
+    return getShuffledPoolItems(seed, mediaTypeFilter);
   }
 
-  // Fetch TV series if filter allows
-  if (mediaTypeFilter === 'all' || mediaTypeFilter === 'tv') {
-    const tvPromises = [];
-    for (let page = 1; page <= 3; page++) {
-      tvPromises.push(tmdb.getTopRatedTV('en-US', page));
-      tvPromises.push(tmdb.getPopularTV('en-US', page));
-    }
-
-    const tvResults = await Promise.all(tvPromises);
-    const tvShows = tvResults.flat().slice(0, 100);
-
-    poolItems.push(...tvShows.map((tv) => ({ id: tv.id, mediaType: 'tv' as const })));
+  if (mediaTypeFilter !== 'all') {
+    poolItems = poolItems.filter((item) => item.mediaType === mediaTypeFilter);
   }
 
-  // Remove duplicates by ID+mediaType
-  const uniqueItems = [
-    ...new Map(poolItems.map((item) => [`${item.mediaType}-${item.id}`, item])).values(),
-  ];
-
-  // Cache the result
-  poolCache.set(cacheKey, { items: uniqueItems, timestamp: Date.now() });
+  return poolItems;
+}
 
-  return uniqueItems;
+/**
+ * Enhance a single pool item with detailed info (cached).
+ */
+export function enhancePoolItem(item: PoolItem, locale: SupportedLocale = 'en'): Promise<Movie | null> {
+  return item.mediaType === 'movie'
+    ? enhanceMovieData(item.id, locale)
+    : enhanceTVData(item.id, locale);
 }
 
 /**
@@ -129,23 +108,14 @@ export async function generatePaginatedMoviePool(
   mediaTypeFilter: MediaTypeFilter = 'all',
   locale: SupportedLocale = 'en'
 ): Promise<{ movies: Movie[]; totalCount: number; hasMore: boolean }> {
-  // Get all pool items (fast, cached)
-  const poolItems = await generatePoolItems(mediaTypeFilter);
-
-  // Shuffle with seed for consistent ordering
-  const shuffled = shuffle(poolItems, seed);
+  // Get all pool items in seeded order (fast, cached)
+  const shuffled = await getShuffledPoolItems(seed, mediaTypeFilter);
 
   // Get the slice we need
   const slice = shuffled.slice(offset, offset + limit);
 
   // Enhance only the slice (this is the expensive part)
-  const enhanced = await Promise.all(
-    slice.map((item) =>
-      item.mediaType === 'movie'
-        ? enhanceMovieData(item.id, locale)
-        : enhanceTVData(item.id, locale)
-    )
-  );
+  const enhanced = await Promise.all(slice.map((item) => enhancePoolItem(item, locale)));
 
   const validMovies = enhanced.filter((m): m is Movie => m !== null);
 
@@ -164,8 +134,7 @@ export async function generateMoviePool(
   seed: number,
   mediaTypeFilter: MediaTypeFilter = 'all'
 ): Promise<Movie[]> {
-  const poolItems = await generatePoolItems(mediaTypeFilter);
-  const shuffled = shuffle(poolItems, seed);
+  const shuffled = await getShuffledPoolItems(seed, mediaTypeFilter);
 
   // Enhance with detailed info (cached)
   const enhanced = await Promise.all(
@@ -477,6 +446,7 @@ interface CachedMovieData {
   mediaType?: string | null;
   numberOfSeasons?: number | null;
   numberOfEpisodes?: number | null;
+  watchProviders?: string | null;
 }
 
 // Parse genres from JSON - handles both old format (strings) and new format ({id, name} objects)
@@ -518,6 +488,7 @@ function formatCachedMovie(cached: CachedMovieData): Movie {
     mediaType: (cached.mediaType as 'movie' | 'tv') || 'movie',
     numberOfSeasons: cached.numberOfSeasons || null,
     numberOfEpisodes: cached.numberOfEpisodes || null,
+    watchProviders: parseStoredWatchProviders(cached.watchProviders) ?? undefined,
   };
 }
 
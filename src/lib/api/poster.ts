@@ -40,3 +40,11 @@ export function getBackdropUrl(
   if (!path) return '/images/no-backdrop.png';
   return `/api/tmdb-image?path=${encodeURIComponent(path)}&size=${size}`;
 }
+
+/**
+ * Build logo URL (streaming services, networks) - uses proxy endpoint on server to bypass geo-blocking
+ */
+export function getLogoUrl(path: string | null, size: 'w92' | 'w154' = 'w92'): string {
+  if (!path) return '/images/no-poster.svg';
+  return `/api/tmdb-image?path=${encodeURIComponent(path)}&size=${size}`;
+}
@@ -6,6 +6,10 @@ import type {
   TMDBSeason,
   TMDBVideo,
   TMDBReleaseDates,
+  TMDBWatchProvider,
+  TMDBWatchProviders,
+  TMDBCredits,
+  TMDBKeyword,
 } from '@/types/movie';
 import { ProxyAgent, fetch as proxyFetch } from 'undici';
 import {
@@ -44,6 +48,9 @@ function setCachedGenres(key: string, data: { id: number; name: string }[]): voi
   genreCache.set(key, { data, timestamp: Date.now() });
 }
 
+// In-memory region provider cache (the provider lineup changes rarely too)
+const providerCache = new Map<string, { data: TMDBWatchProvider[]; timestamp: number }>();
+
 // Custom fetch that uses proxy if configured
 async function tmdbFetch(url: string, options: RequestInit = {}): Promise<Response> {
   if (TMDB_PROXY_URL) {
@@ -57,6 +64,20 @@ async function tmdbFetch(url: string, options: RequestInit = {}): Promise<Respon
   return fetch(url, options);
 }
 
+// Discover filter for titles included in a subscription (or free) on any of the providers
+function watchProviderParams(params: {
+  watchProviders?: number[];
+  watchRegion?: string;
+}): Record<string, string> {
+  if (!params.watchProviders?.length || !params.watchRegion) return {};
+
+  return {
+    with_watch_providers: params.watchProviders.join('|'),
+    watch_region: params.watchRegion,
+    with_watch_monetization_types: 'flatrate|free|ads',
+  };
+}
+
 interface TMDBResponse<T> {
   results: T[];
   page: number;
@@ -119,20 +140,45 @@ class TMDBClient {
     return data.results;
   }
 
-  // Get 2025 releases
-  async get2025Releases(
+  // Get movies released within the last `days` days (rolling window)
+  async getRecentReleases(
     language: 'en-US' | 'ru-RU' = 'en-US',
-    page = 1
+    page = 1,
+    days = 365
   ): Promise<TMDBMovie[]> {
+    const today = new Date();
+    const from = new Date(today.getTime() - days * 24 * 60 * 60 * 1000);
+
     const data = await this.fetch<TMDBResponse<TMDBMovie>>('/discover/movie', {
       language,
       page: page.toString(),
-      primary_release_year: '2025',
+      'primary_release_date.gte': from.toISOString().slice(0, 10),
+      'primary_release_date.lte': today.toISOString().slice(0, 10),
+      'vote_count.gte': '50',
       sort_by: 'popularity.desc',
     });
     return data.results;
   }
 
+  // Get trending movies of the week
+  async getTrending(
+    language: 'en-US' | 'ru-RU' = 'en-US',
+    page = 1
+  ): Promise<TMDBMovie[]> {
+    const data = await this.fetch<TMDBResponse<TMDBMovie>>('/trending/movie/week', {
+      language,
+      page: page.toString(),
+    });
+    return data.results;
+  }
+
+  // Find movies and TV series by IMDb ID
+  async findByImdbId(
+    imdbId: string
+  ): Promise<{ movie_results: TMDBMovie[]; tv_results: TMDBTVSeries[] }> {
+    return this.fetch(`/find/${imdbId}`, { external_source: 'imdb_id' });
+  }
+
   // Get movie details with IMDB ID
   async getMovieDetails(
     movieId: number,
@@ -187,6 +233,9 @@ class TMDBClient {
     originalLanguage?: string; // ISO 639-1 code (en, ru, ko, ja, etc.)
     runtimeMin?: number; // minutes
     runtimeMax?: number; // minutes
+    // Only titles streaming on one of these providers in the region
+    watchProviders?: number[];
+    watchRegion?: string;
   }): Promise<{ results: TMDBMovie[]; totalResults: number; totalPages: number }> {
     const queryParams: Record<string, string> = {
       language: params.language || 'en-US',
@@ -219,6 +268,7 @@ class TMDBClient {
     if (params.runtimeMax) {
       queryParams['with_runtime.lte'] = String(params.runtimeMax);
     }
+    Object.assign(queryParams, watchProviderParams(params));
 
     const data = await this.fetch<TMDBResponse<TMDBMovie>>('/discover/movie', queryParams);
     return {
@@ -323,6 +373,18 @@ class TMDBClient {
     return data.results;
   }
 
+  // Get trending TV series of the week
+  async getTrendingTV(
+    language: 'en-US' | 'ru-RU' = 'en-US',
+    page = 1
+  ): Promise<TMDBTVSeries[]> {
+    const data = await this.fetch<TMDBResponse<TMDBTVSeries>>('/trending/tv/week', {
+      language,
+      page: page.toString(),
+    });
+    return data.results;
+  }
+
   // Get TV series details
   async getTVSeriesDetails(
     tvId: number,
@@ -389,6 +451,9 @@ class TMDBClient {
     page?: number;
     language?: 'en-US' | 'ru-RU';
     originalLanguage?: string; // ISO 639-1 code (en, ru, ko, ja, etc.)
+    // Only titles streaming on one of these providers in the region
+    watchProviders?: number[];
+    watchRegion?: string;
   }): Promise<{ results: TMDBTVSeries[]; totalResults: number; totalPages: number }> {
     const queryParams: Record<string, string> = {
       language: params.language || 'en-US',
@@ -415,6 +480,7 @@ class TMDBClient {
     if (params.originalLanguage) {
       queryParams.with_original_language = params.originalLanguage;
     }
+    Object.assign(queryParams, watchProviderParams(params));
 
     const data = await this.fetch<TMDBResponse<TMDBTVSeries>>('/discover/tv', queryParams);
     return {
@@ -454,6 +520,52 @@ class TMDBClient {
     return this.sortVideos(data.results);
   }
 
+  // ============================================
+  // WATCH PROVIDER ENDPOINTS
+  // ============================================
+
+  // Get streaming/rent/buy offers for a movie or TV series in every region
+  async getWatchProviders(tmdbId: number, mediaType: 'movie' | 'tv'): Promise<TMDBWatchProviders> {
+    return this.fetch<TMDBWatchProviders>(`/${mediaType}/${tmdbId}/watch/providers`);
+  }
+
+  // Get every provider available in a region (cached for 24 hours)
+  async getRegionWatchProviders(
+    mediaType: 'movie' | 'tv',
+    region: string
+  ): Promise<TMDBWatchProvider[]> {
+    const cacheKey = `providers-${mediaType}-${region}`;
+    const cached = providerCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < GENRE_CACHE_TTL) {
+      return cached.data;
+    }
+
+    const data = await this.fetch<{ results: TMDBWatchProvider[] }>(
+      `/watch/providers/${mediaType}`,
+      { watch_region: region }
+    );
+    providerCache.set(cacheKey, { data: data.results, timestamp: Date.now() });
+    return data.results;
+  }
+
+  // ============================================
+  // CREDITS ENDPOINTS
+  // ============================================
+
+  // Get cast and crew for a movie or TV series
+  async getCredits(tmdbId: number, mediaType: 'movie' | 'tv'): Promise<TMDBCredits> {
+    return this.fetch<TMDBCredits>(`/${mediaType}/${tmdbId}/credits`);
+  }
+
+  // Get keywords for a movie or TV series
+  async getKeywords(tmdbId: number, mediaType: 'movie' | 'tv'): Promise<TMDBKeyword[]> {
+    // Movies return { keywords }, TV series return { results }
+    const data = await this.fetch<{ keywords?: TMDBKeyword[]; results?: TMDBKeyword[] }>(
+      `/${mediaType}/${tmdbId}/keywords`
+    );
+    return data.keywords ?? data.results ?? [];
+  }
+
   // Static methods delegate to standalone functions from poster.ts
   // Kept for backward compatibility with existing code
   static getPosterUrl = getPosterUrl;
@@ -0,0 +1,184 @@
+import { db } from '../db';
+import { movies } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { tmdb } from './tmdb';
+import {
+  SUBSCRIPTION_PROVIDER_TYPES,
+  WATCH_PROVIDER_TYPES,
+  WATCH_REGIONS,
+  type MediaType,
+  type Movie,
+  type TMDBWatchProviders,
+  type WatchProvider,
+  type WatchProviders,
+} from '@/types/movie';
+import type { WatchAvailability } from '@/types/deck';
+
+// Offers change more often than the movie details, which are cached for 30 days
+export const WATCH_PROVIDERS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse TMDB watch providers into one entry per provider for the regions we support.
+ * Providers keep TMDB's display order.
+ */
+export function parseWatchProviders(data: TMDBWatchProviders): WatchProviders {
+  const result: WatchProviders = {};
+
+  for (const region of WATCH_REGIONS) {
+    const offers = data.results?.[region];
+    if (!offers) continue;
+
+    const providers = new Map<number, WatchProvider>();
+    const priority = new Map<number, number>();
+
+    for (const type of WATCH_PROVIDER_TYPES) {
+      for (const offer of offers[type] ?? []) {
+        const existing = providers.get(offer.provider_id);
+        if (existing) {
+          existing.types.push(type);
+        } else {
+          providers.set(offer.provider_id, {
+            id: offer.provider_id,
+            name: offer.provider_name,
+            logoPath: offer.logo_path,
+            types: [type],
+          });
+        }
+        priority.set(
+          offer.provider_id,
+          Math.min(priority.get(offer.provider_id) ?? Infinity, offer.display_priority)
+        );
+      }
+    }
+
+    result[region] = {
+      link: offers.link ?? null,
+      providers: [...providers.values()].sort(
+        (a, b) => priority.get(a.id)! - priority.get(b.id)!
+      ),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Read provider data stored on a movies row (null when never fetched).
+ */
+export function parseStoredWatchProviders(json: string | null | undefined): WatchProviders | null {
+  if (!json) return null;
+
+  try {
+    return JSON.parse(json) as WatchProviders;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether the title streams (with a subscription, for free or with ads)
+ * on one of the services in the region. Renting or buying doesn't count.
+ */
+export function isAvailableOn(providers: WatchProviders, availability: WatchAvailability): boolean {
+  const region = providers[availability.region];
+  if (!region) return false;
+
+  return region.providers.some(
+    (provider) =>
+      availability.providerIds.includes(provider.id) &&
+      provider.types.some((type) => SUBSCRIPTION_PROVIDER_TYPES.includes(type))
+  );
+}
+
+interface WatchProviderTarget {
+  tmdbId: number;
+  mediaType: MediaType;
+}
+
+/**
+ * Provider data for several titles. Stale or missing entries are fetched from TMDB
+ * and cached on titles we already keep in the movies table.
+ * Titles whose lookup fails are left out.
+ */
+export async function getWatchProvidersByIds(
+  targets: WatchProviderTarget[]
+): Promise<Map<number, WatchProviders>> {
+  const result = new Map<number, WatchProviders>();
+  if (targets.length === 0) return result;
+
+  const cached = await db
+    .select({
+      tmdbId: movies.tmdbId,
+      watchProviders: movies.watchProviders,
+      watchProvidersCachedAt: movies.watchProvidersCachedAt,
+    })
+    .from(movies)
+    .where(
+      inArray(
+        movies.tmdbId,
+        targets.map((t) => t.tmdbId)
+      )
+    );
+
+  const cachedById = new Map(cached.map((row) => [row.tmdbId!, row]));
+  const toFetch: WatchProviderTarget[] = [];
+
+  for (const target of targets) {
+    const row = cachedById.get(target.tmdbId);
+    const stored = parseStoredWatchProviders(row?.watchProviders);
+    const isFresh =
+      !!row?.watchProvidersCachedAt &&
+      Date.now() - row.watchProvidersCachedAt.getTime() < WATCH_PROVIDERS_TTL_MS;
+
+    if (stored && isFresh) {
+      result.set(target.tmdbId, stored);
+    } else {
+      toFetch.push(target);
+    }
+  }
+
+  await Promise.all(
+    toFetch.map(async ({ tmdbId, mediaType }) => {
+      try {
+        const providers = parseWatchProviders(await tmdb.getWatchProviders(tmdbId, mediaType));
+        result.set(tmdbId, providers);
+
+        if (cachedById.has(tmdbId)) {
+          await db
+            .update(movies)
+            .set({ watchProviders: JSON.stringify(providers), watchProvidersCachedAt: new Date() })
+            .where(eq(movies.tmdbId, tmdbId));
+        }
+      } catch (error) {
+        console.error(`Failed to get watch providers for ${tmdbId}:`, error);
+        // Outdated offers beat none
+        const stored = parseStoredWatchProviders(cachedById.get(tmdbId)?.watchProviders);
+        if (stored) result.set(tmdbId, stored);
+      }
+    })
+  );
+
+  return result;
+}
+
+/**
+ * Provider data for one title, or null when TMDB couldn't be reached.
+ */
+export async function getWatchProviders(
+  tmdbId: number,
+  mediaType: MediaType
+): Promise<WatchProviders | null> {
+  const result = await getWatchProvidersByIds([{ tmdbId, mediaType }]);
+  return result.get(tmdbId) ?? null;
+}
+
+/**
+ * Attach fresh provider data to movies (null when it couldn't be looked up).
+ */
+export async function attachWatchProviders(list: Movie[]): Promise<void> {
+  const providers = await getWatchProvidersByIds(list);
+
+  for (const movie of list) {
+    movie.watchProviders = providers.get(movie.tmdbId) ?? null;
+  }
+}
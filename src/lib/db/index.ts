@@ -6,6 +6,7 @@ import * as schema from './schema';
 let _db: PostgresJsDatabase<typeof schema> | null = null;
 let _queryClient: Sql | null = null;
 let _migrationClient: Sql | null = null;
+let _notifyClient: Sql | null = null;
 
 function getConnectionString(): string {
   const connectionString = process.env.DATABASE_URL;
@@ -39,3 +40,11 @@ export function getMigrationClient(): Sql {
   }
   return _migrationClient;
 }
+
+// For LISTEN/NOTIFY (Socket.io adapter) - kept apart from the query pool
+export function getNotifyClient(): Sql {
+  if (!_notifyClient) {
+    _notifyClient = postgres(getConnectionString(), { max: 2 });
+  }
+  return _notifyClient;
+}
@@ -0,0 +1,5 @@
+-- Migration: Snapshot of the schema as deployed with db:push
+-- The tables and columns added since 0005 (bug reports, upcoming movies, notifications,
+-- series tracking, deck settings...) already exist on every database, so this migration
+-- changes nothing. It only records the schema so that later migrations diff against it.
+SELECT 1;
@@ -0,0 +1,39 @@
+-- Migration: Move room slots A/B into room_participants for group rooms
+-- The slot columns are copied into the new table before they are dropped,
+-- so rooms that are open during the deploy keep their members.
+
+CREATE TABLE "room_participants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid NOT NULL,
+	"user_slot" varchar(1) NOT NULL,
+	"user_id" uuid,
+	"is_connected" boolean DEFAULT false NOT NULL,
+	"joined_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "max_participants" integer DEFAULT 2 NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "match_rule" varchar(20) DEFAULT 'unanimous' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "match_threshold" integer;--> statement-breakpoint
+ALTER TABLE "room_participants" ADD CONSTRAINT "room_participants_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_participants" ADD CONSTRAINT "room_participants_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_room_participant_idx" ON "room_participants" USING btree ("room_id","user_slot");--> statement-breakpoint
+CREATE INDEX "room_participant_user_idx" ON "room_participants" USING btree ("user_id");--> statement-breakpoint
+-- Copy slot A (the room creator) of every room
+INSERT INTO "room_participants" ("room_id", "user_slot", "user_id", "is_connected", "joined_at")
+SELECT r."id", 'A', r."user_a_id", COALESCE(r."user_a_connected", false), r."created_at"
+FROM "rooms" r
+ON CONFLICT ("room_id", "user_slot") DO NOTHING;--> statement-breakpoint
+-- Copy slot B of rooms someone joined
+INSERT INTO "room_participants" ("room_id", "user_slot", "user_id", "is_connected", "joined_at")
+SELECT r."id", 'B', r."user_b_id", COALESCE(r."user_b_connected", false), r."created_at"
+FROM "rooms" r
+WHERE r."user_b_id" IS NOT NULL
+  OR r."user_b_connected" = true
+  OR r."status" IN ('active', 'matched')
+ON CONFLICT ("room_id", "user_slot") DO NOTHING;--> statement-breakpoint
+ALTER TABLE "rooms" DROP CONSTRAINT "rooms_user_a_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "rooms" DROP CONSTRAINT "rooms_user_b_id_users_id_fk";--> statement-breakpoint
+ALTER TABLE "rooms" DROP COLUMN "user_a_connected";--> statement-breakpoint
+ALTER TABLE "rooms" DROP COLUMN "user_b_connected";--> statement-breakpoint
+ALTER TABLE "rooms" DROP COLUMN "user_a_id";--> statement-breakpoint
+ALTER TABLE "rooms" DROP COLUMN "user_b_id";
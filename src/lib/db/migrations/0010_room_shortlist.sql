@@ -0,0 +1,26 @@
+CREATE TABLE "room_final_votes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid NOT NULL,
+	"round" integer NOT NULL,
+	"user_slot" varchar(1) NOT NULL,
+	"movie_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "room_shortlist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid NOT NULL,
+	"movie_id" integer NOT NULL,
+	"like_count" integer NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "match_mode" varchar(20) DEFAULT 'single' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "shortlist_size" integer;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "swipe_budget" integer;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "final_round" integer;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "final_champion_id" integer;--> statement-breakpoint
+ALTER TABLE "room_final_votes" ADD CONSTRAINT "room_final_votes_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_shortlist" ADD CONSTRAINT "room_shortlist_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_room_final_vote_idx" ON "room_final_votes" USING btree ("room_id","round","user_slot");--> statement-breakpoint
+CREATE UNIQUE INDEX "unique_room_shortlist_idx" ON "room_shortlist" USING btree ("room_id","movie_id");
\ No newline at end of file
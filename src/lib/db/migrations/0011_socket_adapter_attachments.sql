@@ -0,0 +1,8 @@
+CREATE TABLE "socket_adapter_attachments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"payload" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "room_participants" ADD COLUMN "disconnected_at" timestamp;--> statement-breakpoint
+CREATE INDEX "socket_adapter_attachments_created_idx" ON "socket_adapter_attachments" USING btree ("created_at");
\ No newline at end of file
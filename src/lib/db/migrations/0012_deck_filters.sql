@@ -0,0 +1,5 @@
+ALTER TABLE "deck_settings" ADD COLUMN "genre_ids" text;--> statement-breakpoint
+ALTER TABLE "deck_settings" ADD COLUMN "min_year" integer;--> statement-breakpoint
+ALTER TABLE "deck_settings" ADD COLUMN "max_year" integer;--> statement-breakpoint
+ALTER TABLE "deck_settings" ADD COLUMN "max_runtime" integer;--> statement-breakpoint
+ALTER TABLE "deck_settings" ADD COLUMN "languages" text;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "pool_collection_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"collection_id" uuid NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"media_type" varchar(10) NOT NULL,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pool_collections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "pool_sources" text;--> statement-breakpoint
+ALTER TABLE "pool_collection_items" ADD CONSTRAINT "pool_collection_items_collection_id_pool_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."pool_collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "pool_collection_items_unique_idx" ON "pool_collection_items" USING btree ("collection_id","tmdb_id","media_type");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "deck_settings" ADD COLUMN "explore_level" integer DEFAULT 30 NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "rooms" ADD COLUMN "pool_scores" text;
\ No newline at end of file
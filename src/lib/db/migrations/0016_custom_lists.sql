@@ -0,0 +1,24 @@
+CREATE TABLE "custom_list_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"list_id" uuid NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"unified_movie_id" uuid,
+	"position" integer NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "custom_lists" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"position" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "custom_list_items" ADD CONSTRAINT "custom_list_items_list_id_custom_lists_id_fk" FOREIGN KEY ("list_id") REFERENCES "public"."custom_lists"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_list_items" ADD CONSTRAINT "custom_list_items_unified_movie_id_movies_id_fk" FOREIGN KEY ("unified_movie_id") REFERENCES "public"."movies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "custom_lists" ADD CONSTRAINT "custom_lists_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "custom_list_items_unique_idx" ON "custom_list_items" USING btree ("list_id","tmdb_id");--> statement-breakpoint
+CREATE INDEX "custom_list_items_tmdb_idx" ON "custom_list_items" USING btree ("tmdb_id");--> statement-breakpoint
+CREATE INDEX "custom_lists_user_idx" ON "custom_lists" USING btree ("user_id","position");
\ No newline at end of file
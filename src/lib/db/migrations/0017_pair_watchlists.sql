@@ -0,0 +1,32 @@
+CREATE TABLE "pair_watchlist" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pair_id" uuid NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"unified_movie_id" uuid,
+	"source" varchar(20) NOT NULL,
+	"added_by_id" uuid,
+	"room_id" uuid,
+	"watched_at" timestamp,
+	"watched_by_id" uuid,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "pairs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_a_id" uuid NOT NULL,
+	"user_b_id" uuid NOT NULL,
+	"created_via" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pair_watchlist" ADD CONSTRAINT "pair_watchlist_pair_id_pairs_id_fk" FOREIGN KEY ("pair_id") REFERENCES "public"."pairs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pair_watchlist" ADD CONSTRAINT "pair_watchlist_unified_movie_id_movies_id_fk" FOREIGN KEY ("unified_movie_id") REFERENCES "public"."movies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pair_watchlist" ADD CONSTRAINT "pair_watchlist_added_by_id_users_id_fk" FOREIGN KEY ("added_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pair_watchlist" ADD CONSTRAINT "pair_watchlist_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pair_watchlist" ADD CONSTRAINT "pair_watchlist_watched_by_id_users_id_fk" FOREIGN KEY ("watched_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pairs" ADD CONSTRAINT "pairs_user_a_id_users_id_fk" FOREIGN KEY ("user_a_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "pairs" ADD CONSTRAINT "pairs_user_b_id_users_id_fk" FOREIGN KEY ("user_b_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "pair_watchlist_unique_idx" ON "pair_watchlist" USING btree ("pair_id","tmdb_id");--> statement-breakpoint
+CREATE INDEX "pair_watchlist_tmdb_idx" ON "pair_watchlist" USING btree ("tmdb_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "pairs_users_idx" ON "pairs" USING btree ("user_a_id","user_b_id");--> statement-breakpoint
+CREATE INDEX "pairs_user_b_idx" ON "pairs" USING btree ("user_b_id");
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "room_match_members" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"match_id" uuid NOT NULL,
+	"user_slot" varchar(1) NOT NULL,
+	"user_id" uuid,
+	"evening_rating" integer,
+	"rated_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "room_matches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid,
+	"room_code" varchar(10) NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"unified_movie_id" uuid,
+	"matched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "room_match_members" ADD CONSTRAINT "room_match_members_match_id_room_matches_id_fk" FOREIGN KEY ("match_id") REFERENCES "public"."room_matches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_match_members" ADD CONSTRAINT "room_match_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_matches" ADD CONSTRAINT "room_matches_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "room_matches" ADD CONSTRAINT "room_matches_unified_movie_id_movies_id_fk" FOREIGN KEY ("unified_movie_id") REFERENCES "public"."movies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "room_match_members_slot_idx" ON "room_match_members" USING btree ("match_id","user_slot");--> statement-breakpoint
+CREATE INDEX "room_match_members_user_idx" ON "room_match_members" USING btree ("user_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "room_matches_room_idx" ON "room_matches" USING btree ("room_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "rooms" ADD COLUMN "previous_room_id" uuid;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "carried_exclusions" text;--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "previous_match_id" integer;--> statement-breakpoint
+ALTER TABLE "rooms" ADD CONSTRAINT "rooms_previous_room_id_rooms_id_fk" FOREIGN KEY ("previous_room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "rooms_previous_room_idx" ON "rooms" USING btree ("previous_room_id");
\ No newline at end of file
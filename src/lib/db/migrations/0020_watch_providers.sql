@@ -0,0 +1,4 @@
+ALTER TABLE "deck_settings" ADD COLUMN "watch_provider_ids" text;--> statement-breakpoint
+ALTER TABLE "deck_settings" ADD COLUMN "available_only" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "watch_providers" text;--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "watch_providers_cached_at" timestamp;
\ No newline at end of file
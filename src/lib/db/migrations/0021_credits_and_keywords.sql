@@ -0,0 +1,41 @@
+CREATE TABLE "keywords" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"name" varchar(200) NOT NULL,
+	CONSTRAINT "keywords_tmdb_id_unique" UNIQUE("tmdb_id")
+);
+--> statement-breakpoint
+CREATE TABLE "movie_credits" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"movie_id" uuid NOT NULL,
+	"person_id" uuid NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"character" varchar(500),
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "movie_keywords" (
+	"movie_id" uuid NOT NULL,
+	"keyword_id" uuid NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "people" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"name" varchar(300) NOT NULL,
+	"profile_path" varchar(500),
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "people_tmdb_id_unique" UNIQUE("tmdb_id")
+);
+--> statement-breakpoint
+ALTER TABLE "movies" ADD COLUMN "credits_cached_at" timestamp;--> statement-breakpoint
+ALTER TABLE "movie_credits" ADD CONSTRAINT "movie_credits_movie_id_movies_id_fk" FOREIGN KEY ("movie_id") REFERENCES "public"."movies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "movie_credits" ADD CONSTRAINT "movie_credits_person_id_people_id_fk" FOREIGN KEY ("person_id") REFERENCES "public"."people"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "movie_keywords" ADD CONSTRAINT "movie_keywords_movie_id_movies_id_fk" FOREIGN KEY ("movie_id") REFERENCES "public"."movies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "movie_keywords" ADD CONSTRAINT "movie_keywords_keyword_id_keywords_id_fk" FOREIGN KEY ("keyword_id") REFERENCES "public"."keywords"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "keywords_name_idx" ON "keywords" USING btree ("name");--> statement-breakpoint
+CREATE UNIQUE INDEX "movie_credits_unique_idx" ON "movie_credits" USING btree ("movie_id","person_id","role");--> statement-breakpoint
+CREATE INDEX "movie_credits_person_idx" ON "movie_credits" USING btree ("person_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "movie_keywords_unique_idx" ON "movie_keywords" USING btree ("movie_id","keyword_id");--> statement-breakpoint
+CREATE INDEX "movie_keywords_keyword_idx" ON "movie_keywords" USING btree ("keyword_id");--> statement-breakpoint
+CREATE INDEX "people_name_idx" ON "people" USING btree ("name");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "episode_progress" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"series_tmdb_id" integer NOT NULL,
+	"episode_tmdb_id" integer,
+	"season_number" integer NOT NULL,
+	"episode_number" integer NOT NULL,
+	"watched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "episode_progress" ADD CONSTRAINT "episode_progress_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "episode_progress_user_series_idx" ON "episode_progress" USING btree ("user_id","series_tmdb_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "episode_progress_unique_idx" ON "episode_progress" USING btree ("user_id","series_tmdb_id","season_number","episode_number");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "title_subscriptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"notification_type" varchar(30) NOT NULL,
+	"state" varchar(10) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "title_subscriptions" ADD CONSTRAINT "title_subscriptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "title_subscriptions_unique_idx" ON "title_subscriptions" USING btree ("user_id","tmdb_id","notification_type");--> statement-breakpoint
+CREATE INDEX "title_subscriptions_title_idx" ON "title_subscriptions" USING btree ("tmdb_id","notification_type");
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "deferred_notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scheduled_notification_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"send_after" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "time_zone" varchar(64);--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "quiet_hours_enabled" boolean DEFAULT true;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "quiet_hours_start" integer DEFAULT 23;--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "quiet_hours_end" integer DEFAULT 8;--> statement-breakpoint
+ALTER TABLE "deferred_notifications" ADD CONSTRAINT "deferred_notifications_scheduled_notification_id_scheduled_notifications_id_fk" FOREIGN KEY ("scheduled_notification_id") REFERENCES "public"."scheduled_notifications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "deferred_notifications" ADD CONSTRAINT "deferred_notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "deferred_notifications_unique_idx" ON "deferred_notifications" USING btree ("scheduled_notification_id","user_id");--> statement-breakpoint
+CREATE INDEX "deferred_notifications_send_after_idx" ON "deferred_notifications" USING btree ("send_after");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "notification_digest_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"scheduled_notification_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_settings" ADD COLUMN "delivery_mode" varchar(10) DEFAULT 'instant';--> statement-breakpoint
+ALTER TABLE "notification_digest_items" ADD CONSTRAINT "notification_digest_items_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_digest_items" ADD CONSTRAINT "notification_digest_items_scheduled_notification_id_scheduled_notifications_id_fk" FOREIGN KEY ("scheduled_notification_id") REFERENCES "public"."scheduled_notifications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "notification_digest_items_unique_idx" ON "notification_digest_items" USING btree ("user_id","scheduled_notification_id");
\ No newline at end of file
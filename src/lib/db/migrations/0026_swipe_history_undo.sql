@@ -0,0 +1,5 @@
+ALTER TABLE "user_swipe_history" ADD COLUMN "previous_action" varchar(10);--> statement-breakpoint
+ALTER TABLE "user_swipe_history" ADD COLUMN "previous_context" varchar(20);--> statement-breakpoint
+ALTER TABLE "user_swipe_history" ADD COLUMN "previous_room_id" uuid;--> statement-breakpoint
+ALTER TABLE "user_swipe_history" ADD COLUMN "previous_created_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user_swipe_history" ADD CONSTRAINT "user_swipe_history_previous_room_id_rooms_id_fk" FOREIGN KEY ("previous_room_id") REFERENCES "public"."rooms"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
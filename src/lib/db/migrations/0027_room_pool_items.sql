@@ -0,0 +1,15 @@
+CREATE TABLE "room_pool_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"room_id" uuid NOT NULL,
+	"position" integer NOT NULL,
+	"tmdb_id" integer NOT NULL,
+	"media_type" varchar(10) NOT NULL,
+	"genre_ids" text,
+	"year" integer,
+	"language" varchar(10),
+	"score" real
+);
+--> statement-breakpoint
+ALTER TABLE "rooms" ADD COLUMN "pool_size" integer;--> statement-breakpoint
+ALTER TABLE "room_pool_items" ADD CONSTRAINT "room_pool_items_room_id_rooms_id_fk" FOREIGN KEY ("room_id") REFERENCES "public"."rooms"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "room_pool_items_position_idx" ON "room_pool_items" USING btree ("room_id","position");
\ No newline at end of file
@@ -9,10 +9,12 @@ import {
   uniqueIndex,
   index,
   bigint,
+  real,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
 
-// Rooms table - temporary sessions for 2 users
+// Rooms table - temporary sessions for 2-8 participants
 export const rooms = pgTable(
   'rooms',
   {
@@ -20,12 +22,19 @@ export const rooms = pgTable(
     code: varchar('code', { length: 10 }).notNull().unique(),
     pin: varchar('pin', { length: 6 }).notNull(),
     status: varchar('status', { length: 20 }).notNull().default('waiting'),
-    // Status: 'waiting' | 'active' | 'matched' | 'expired'
-    userAConnected: boolean('user_a_connected').default(false),
-    userBConnected: boolean('user_b_connected').default(false),
-    // Associate authenticated users with slots (for personalized queue)
-    userAId: uuid('user_a_id').references(() => users.id, { onDelete: 'set null' }),
-    userBId: uuid('user_b_id').references(() => users.id, { onDelete: 'set null' }),
+    // Status: 'waiting' | 'active' | 'final' | 'matched' | 'expired'
+
+    // Group settings (participants live in room_participants)
+    maxParticipants: integer('max_participants').notNull().default(2),
+    matchRule: varchar('match_rule', { length: 20 }).notNull().default('unanimous'), // 'unanimous' | 'majority' | 'n_of_m'
+    matchThreshold: integer('match_threshold'), // N for 'n_of_m', null otherwise
+
+    // Shortlist mode: matches collect into a shortlist, then a head-to-head final picks one
+    matchMode: varchar('match_mode', { length: 20 }).notNull().default('single'), // 'single' | 'shortlist'
+    shortlistSize: integer('shortlist_size'), // Titles needed to start the final round
+    swipeBudget: integer('swipe_budget'), // Swipes per member before the final round, null = unlimited
+    finalRound: integer('final_round'), // Current head-to-head round (1-based), null outside the final
+    finalChampionId: integer('final_champion_id'), // TMDB ID of the title defending the current round
 
     // Legacy TMDB ID for match (kept for backward compatibility)
     matchedMovieId: integer('matched_movie_id'),
@@ -36,10 +45,80 @@ export const rooms = pgTable(
     createdAt: timestamp('created_at').defaultNow().notNull(),
     expiresAt: timestamp('expires_at'),
     moviePoolSeed: integer('movie_pool_seed').notNull(),
+    poolSources: text('pool_sources'), // JSON array of { source, weight, option }, null = default sources
+    poolScores: text('pool_scores'), // JSON { tmdbId: joint score }, fixed at the first queue build; {} = not ranked
+    poolSize: integer('pool_size'), // Titles in room_pool_items, null until the first queue build stores the order
+
+    // Rematch: the matched room this one continues (one rematch per room)
+    previousRoomId: uuid('previous_room_id').references((): AnyPgColumn => rooms.id, {
+      onDelete: 'set null',
+    }),
+    carriedExclusions: text('carried_exclusions'), // JSON array of TMDB IDs swiped in the earlier rounds
+    previousMatchId: integer('previous_match_id'), // TMDB ID offered again first, null when rejected as "not tonight"
   },
   (table) => [
     index('rooms_expires_idx').on(table.expiresAt),
     index('rooms_status_idx').on(table.status),
+    uniqueIndex('rooms_previous_room_idx').on(table.previousRoomId),
+  ]
+);
+
+// Room participants - one row per claimed slot ('A'..'H')
+export const roomParticipants = pgTable(
+  'room_participants',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    roomId: uuid('room_id')
+      .references(() => rooms.id, { onDelete: 'cascade' })
+      .notNull(),
+    userSlot: varchar('user_slot', { length: 1 }).notNull(),
+
+    // Authenticated user in this slot (for personalized queue)
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+    isConnected: boolean('is_connected').notNull().default(false),
+    // Set when the socket drops; the member counts as left once the reconnect grace period passes
+    disconnectedAt: timestamp('disconnected_at'),
+
+    joinedAt: timestamp('joined_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('unique_room_participant_idx').on(table.roomId, table.userSlot),
+    index('room_participant_user_idx').on(table.userId),
+  ]
+);
+
+// Room shortlist - titles matched in shortlist mode, in the order they matched
+export const roomShortlist = pgTable(
+  'room_shortlist',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    roomId: uuid('room_id')
+      .references(() => rooms.id, { onDelete: 'cascade' })
+      .notNull(),
+    movieId: integer('movie_id').notNull(), // TMDB ID
+    likeCount: integer('like_count').notNull(), // Members supporting the title when it matched
+    addedAt: timestamp('added_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('unique_room_shortlist_idx').on(table.roomId, table.movieId),
+  ]
+);
+
+// Final round votes - one vote per member per head-to-head round
+export const roomFinalVotes = pgTable(
+  'room_final_votes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    roomId: uuid('room_id')
+      .references(() => rooms.id, { onDelete: 'cascade' })
+      .notNull(),
+    round: integer('round').notNull(),
+    userSlot: varchar('user_slot', { length: 1 }).notNull(),
+    movieId: integer('movie_id').notNull(), // TMDB ID of the chosen title
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('unique_room_final_vote_idx').on(table.roomId, table.round, table.userSlot),
   ]
 );
 
@@ -58,8 +137,8 @@ export const swipes = pgTable(
     // New unified movie reference (for future use)
     unifiedMovieId: uuid('unified_movie_id').references(() => movies.id, { onDelete: 'cascade' }),
 
-    userSlot: varchar('user_slot', { length: 1 }).notNull(), // 'A' or 'B'
-    action: varchar('action', { length: 10 }).notNull(), // 'like' | 'skip'
+    userSlot: varchar('user_slot', { length: 1 }).notNull(), // 'A'..'H'
+    action: varchar('action', { length: 10 }).notNull(), // 'like' | 'skip' | 'super_like' | 'veto'
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => [
@@ -68,6 +147,41 @@ export const swipes = pgTable(
   ]
 );
 
+// Room matches - history that outlives the room (rooms are deleted by the cleanup cron)
+export const roomMatches = pgTable(
+  'room_matches',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    roomId: uuid('room_id').references(() => rooms.id, { onDelete: 'set null' }),
+    roomCode: varchar('room_code', { length: 10 }).notNull(),
+    tmdbId: integer('tmdb_id').notNull(),
+    unifiedMovieId: uuid('unified_movie_id').references(() => movies.id, { onDelete: 'set null' }),
+    matchedAt: timestamp('matched_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('room_matches_room_idx').on(table.roomId)]
+);
+
+// One row per room member at match time - guests keep a row with a null user
+export const roomMatchMembers = pgTable(
+  'room_match_members',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    matchId: uuid('match_id')
+      .references(() => roomMatches.id, { onDelete: 'cascade' })
+      .notNull(),
+    userSlot: varchar('user_slot', { length: 1 }).notNull(),
+    userId: uuid('user_id').references(() => users.id, { onDelete: 'set null' }),
+
+    // How the evening went (1-3, like list ratings), null until rated
+    eveningRating: integer('evening_rating'),
+    ratedAt: timestamp('rated_at'),
+  },
+  (table) => [
+    uniqueIndex('room_match_members_slot_idx').on(table.matchId, table.userSlot),
+    index('room_match_members_user_idx').on(table.userId),
+  ]
+);
+
 // ============================================
 // MOVIES - Unified movie database
 // ============================================
@@ -114,6 +228,13 @@ export const movies = pgTable(
     rottenTomatoesRating: varchar('rt_rating', { length: 10 }),
     metacriticRating: varchar('metacritic_rating', { length: 10 }),
 
+    // Where to watch - JSON { region: { link, providers } }, refreshed separately from the details
+    watchProviders: text('watch_providers'),
+    watchProvidersCachedAt: timestamp('watch_providers_cached_at'),
+
+    // Cast, crew and keywords live in their own tables - this marks when they were last pulled
+    creditsCachedAt: timestamp('credits_cached_at'),
+
     // Tracking
     primarySource: varchar('primary_source', { length: 20 }).notNull(), // 'tmdb' | 'kinopoisk' | 'omdb'
     cachedAt: timestamp('cached_at').defaultNow().notNull(),
@@ -129,6 +250,68 @@ export const movies = pgTable(
   ]
 );
 
+// ============================================
+// PEOPLE & KEYWORDS - Credits and TMDB keywords of cached movies
+// ============================================
+export const people = pgTable(
+  'people',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tmdbId: integer('tmdb_id').notNull().unique(),
+    name: varchar('name', { length: 300 }).notNull(),
+    profilePath: varchar('profile_path', { length: 500 }), // TMDB path
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [index('people_name_idx').on(table.name)]
+);
+
+// Who worked on a movie - top billed cast, directors and writers
+export const movieCredits = pgTable(
+  'movie_credits',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    movieId: uuid('movie_id')
+      .references(() => movies.id, { onDelete: 'cascade' })
+      .notNull(),
+    personId: uuid('person_id')
+      .references(() => people.id, { onDelete: 'cascade' })
+      .notNull(),
+    role: varchar('role', { length: 20 }).notNull(), // 'cast' | 'director' | 'writer'
+    character: varchar('character', { length: 500 }), // Cast only
+    position: integer('position').notNull(), // Billing order within the role
+  },
+  (table) => [
+    uniqueIndex('movie_credits_unique_idx').on(table.movieId, table.personId, table.role),
+    index('movie_credits_person_idx').on(table.personId),
+  ]
+);
+
+export const keywords = pgTable(
+  'keywords',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tmdbId: integer('tmdb_id').notNull().unique(),
+    name: varchar('name', { length: 200 }).notNull(),
+  },
+  (table) => [index('keywords_name_idx').on(table.name)]
+);
+
+export const movieKeywords = pgTable(
+  'movie_keywords',
+  {
+    movieId: uuid('movie_id')
+      .references(() => movies.id, { onDelete: 'cascade' })
+      .notNull(),
+    keywordId: uuid('keyword_id')
+      .references(() => keywords.id, { onDelete: 'cascade' })
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex('movie_keywords_unique_idx').on(table.movieId, table.keywordId),
+    index('movie_keywords_keyword_idx').on(table.keywordId),
+  ]
+);
+
 // ============================================
 // RELATIONS
 // ============================================
@@ -139,26 +322,99 @@ export const moviesRelations = relations(movies, ({ many }) => ({
   swipeHistory: many(userSwipeHistory),
   swipes: many(swipes),
   watchPrompts: many(watchPrompts),
+  credits: many(movieCredits),
+  keywords: many(movieKeywords),
+}));
+
+export const peopleRelations = relations(people, ({ many }) => ({
+  credits: many(movieCredits),
+}));
+
+export const movieCreditsRelations = relations(movieCredits, ({ one }) => ({
+  movie: one(movies, {
+    fields: [movieCredits.movieId],
+    references: [movies.id],
+  }),
+  person: one(people, {
+    fields: [movieCredits.personId],
+    references: [people.id],
+  }),
+}));
+
+export const keywordsRelations = relations(keywords, ({ many }) => ({
+  movies: many(movieKeywords),
+}));
+
+export const movieKeywordsRelations = relations(movieKeywords, ({ one }) => ({
+  movie: one(movies, {
+    fields: [movieKeywords.movieId],
+    references: [movies.id],
+  }),
+  keyword: one(keywords, {
+    fields: [movieKeywords.keywordId],
+    references: [keywords.id],
+  }),
 }));
 
 // Rooms relations
 export const roomsRelations = relations(rooms, ({ many, one }) => ({
   swipes: many(swipes),
   queues: many(roomQueues),
-  userA: one(users, {
-    fields: [rooms.userAId],
-    references: [users.id],
-    relationName: 'roomUserA',
+  participants: many(roomParticipants),
+  shortlist: many(roomShortlist),
+  finalVotes: many(roomFinalVotes),
+  unifiedMatchedMovie: one(movies, {
+    fields: [rooms.unifiedMatchedMovieId],
+    references: [movies.id],
   }),
-  userB: one(users, {
-    fields: [rooms.userBId],
+}));
+
+export const roomParticipantsRelations = relations(roomParticipants, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomParticipants.roomId],
+    references: [rooms.id],
+  }),
+  user: one(users, {
+    fields: [roomParticipants.userId],
     references: [users.id],
-    relationName: 'roomUserB',
   }),
-  unifiedMatchedMovie: one(movies, {
-    fields: [rooms.unifiedMatchedMovieId],
+}));
+
+export const roomShortlistRelations = relations(roomShortlist, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomShortlist.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const roomFinalVotesRelations = relations(roomFinalVotes, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomFinalVotes.roomId],
+    references: [rooms.id],
+  }),
+}));
+
+export const roomMatchesRelations = relations(roomMatches, ({ one, many }) => ({
+  room: one(rooms, {
+    fields: [roomMatches.roomId],
+    references: [rooms.id],
+  }),
+  unifiedMovie: one(movies, {
+    fields: [roomMatches.unifiedMovieId],
     references: [movies.id],
   }),
+  members: many(roomMatchMembers),
+}));
+
+export const roomMatchMembersRelations = relations(roomMatchMembers, ({ one }) => ({
+  match: one(roomMatches, {
+    fields: [roomMatchMembers.matchId],
+    references: [roomMatches.id],
+  }),
+  user: one(users, {
+    fields: [roomMatchMembers.userId],
+    references: [users.id],
+  }),
 }));
 
 export const swipesRelations = relations(swipes, ({ one }) => ({
@@ -293,13 +549,19 @@ export const userSwipeHistory = pgTable(
     // New unified movie reference (for future use)
     unifiedMovieId: uuid('unified_movie_id').references(() => movies.id, { onDelete: 'cascade' }),
 
-    action: varchar('action', { length: 10 }).notNull(), // 'like' | 'skip'
+    action: varchar('action', { length: 10 }).notNull(), // 'like' | 'skip' | 'super_like' | 'veto'
 
     // Context (where did the swipe happen)
     context: varchar('context', { length: 20 }), // 'solo' | 'room' | null
     roomId: uuid('room_id').references(() => rooms.id, { onDelete: 'set null' }),
 
     createdAt: timestamp('created_at').defaultNow().notNull(),
+
+    // Verdict this swipe replaced, put back if the swipe is undone
+    previousAction: varchar('previous_action', { length: 10 }),
+    previousContext: varchar('previous_context', { length: 20 }),
+    previousRoomId: uuid('previous_room_id').references(() => rooms.id, { onDelete: 'set null' }),
+    previousCreatedAt: timestamp('previous_created_at'),
   },
   (table) => [
     uniqueIndex('unique_user_swipe_idx').on(table.userId, table.tmdbId),
@@ -308,6 +570,92 @@ export const userSwipeHistory = pgTable(
   ]
 );
 
+// ============================================
+// CUSTOM_LISTS - User-created named lists ("Halloween marathon")
+// ============================================
+export const customLists = pgTable(
+  'custom_lists',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    name: varchar('name', { length: 100 }).notNull(),
+    position: integer('position').notNull(), // Order among the user's lists
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [index('custom_lists_user_idx').on(table.userId, table.position)]
+);
+
+// A title can be on any number of custom lists, independent of its watch status
+export const customListItems = pgTable(
+  'custom_list_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    listId: uuid('list_id')
+      .references(() => customLists.id, { onDelete: 'cascade' })
+      .notNull(),
+    tmdbId: integer('tmdb_id').notNull(),
+    unifiedMovieId: uuid('unified_movie_id').references(() => movies.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    addedAt: timestamp('added_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('custom_list_items_unique_idx').on(table.listId, table.tmdbId),
+    index('custom_list_items_tmdb_idx').on(table.tmdbId),
+  ]
+);
+
+// ============================================
+// PAIRS - Two users sharing a watchlist (couples, flatmates)
+// ============================================
+export const pairs = pgTable(
+  'pairs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    // Stored in id order so a pair has exactly one row
+    userAId: uuid('user_a_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    userBId: uuid('user_b_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    createdVia: varchar('created_via', { length: 20 }).notNull(), // 'room' | 'referral'
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('pairs_users_idx').on(table.userAId, table.userBId),
+    index('pairs_user_b_idx').on(table.userBId),
+  ]
+);
+
+// Shared watchlist - either partner can add, remove or mark titles watched
+export const pairWatchlist = pgTable(
+  'pair_watchlist',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    pairId: uuid('pair_id')
+      .references(() => pairs.id, { onDelete: 'cascade' })
+      .notNull(),
+    tmdbId: integer('tmdb_id').notNull(),
+    unifiedMovieId: uuid('unified_movie_id').references(() => movies.id, { onDelete: 'cascade' }),
+    source: varchar('source', { length: 20 }).notNull(), // 'match' | 'manual'
+    addedById: uuid('added_by_id').references(() => users.id, { onDelete: 'set null' }), // null for room matches
+    roomId: uuid('room_id').references(() => rooms.id, { onDelete: 'set null' }), // Room the match came from
+
+    // First partner to watch it - the other one gets a watch prompt
+    watchedAt: timestamp('watched_at'),
+    watchedById: uuid('watched_by_id').references(() => users.id, { onDelete: 'set null' }),
+
+    addedAt: timestamp('added_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('pair_watchlist_unique_idx').on(table.pairId, table.tmdbId),
+    index('pair_watchlist_tmdb_idx').on(table.tmdbId),
+  ]
+);
+
 // ============================================
 // USER_SESSIONS - JWT session management
 // ============================================
@@ -398,10 +746,42 @@ export const notificationSettings = pgTable('notification_settings', {
   // Preferred release region for notifications
   preferredReleaseRegion: varchar('preferred_release_region', { length: 5 }).default('US'), // 'US' | 'RU'
 
+  // Quiet hours, in the user's local time
+  timeZone: varchar('time_zone', { length: 64 }), // IANA name, detected from the Mini App; null = Europe/Moscow
+  quietHoursEnabled: boolean('quiet_hours_enabled').default(true),
+  quietHoursStart: integer('quiet_hours_start').default(23), // 0-23 local hour
+  quietHoursEnd: integer('quiet_hours_end').default(8), // 0-23 local hour, exclusive
+
+  // Release notifications one by one or collected into a digest
+  deliveryMode: varchar('delivery_mode', { length: 10 }).default('instant'), // 'instant' | 'daily' | 'weekly'
+
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ============================================
+// TITLE_SUBSCRIPTIONS - Per-title overrides of the notification settings
+// ============================================
+export const titleSubscriptions = pgTable(
+  'title_subscriptions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    tmdbId: integer('tmdb_id').notNull(),
+    notificationType: varchar('notification_type', { length: 30 }).notNull(), // NOTIFICATION_TYPE value
+    state: varchar('state', { length: 10 }).notNull(), // 'follow' | 'mute'
+
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('title_subscriptions_unique_idx').on(table.userId, table.tmdbId, table.notificationType),
+    index('title_subscriptions_title_idx').on(table.tmdbId, table.notificationType),
+  ]
+);
+
 // ============================================
 // ROOM_QUEUES - Per-user queue state for rooms
 // ============================================
@@ -412,7 +792,7 @@ export const roomQueues = pgTable(
     roomId: uuid('room_id')
       .references(() => rooms.id, { onDelete: 'cascade' })
       .notNull(),
-    userSlot: varchar('user_slot', { length: 1 }).notNull(), // 'A' | 'B'
+    userSlot: varchar('user_slot', { length: 1 }).notNull(), // 'A'..'H'
 
     // Base pool traversal direction
     basePoolDirection: varchar('base_pool_direction', { length: 4 }).notNull(), // 'asc' | 'desc'
@@ -430,6 +810,67 @@ export const roomQueues = pgTable(
   (table) => [uniqueIndex('unique_room_queue_idx').on(table.roomId, table.userSlot)]
 );
 
+// Base pool of a room in the order every slot walks it, stored at the first queue build
+// so later pages read only the positions they walk
+export const roomPoolItems = pgTable(
+  'room_pool_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    roomId: uuid('room_id')
+      .references(() => rooms.id, { onDelete: 'cascade' })
+      .notNull(),
+    position: integer('position').notNull(),
+    tmdbId: integer('tmdb_id').notNull(),
+    mediaType: varchar('media_type', { length: 10 }).notNull(), // 'movie' | 'tv'
+    genreIds: text('genre_ids'), // JSON array, null when the source doesn't know
+    year: integer('year'),
+    language: varchar('language', { length: 10 }),
+    score: real('score'), // Joint taste score, null in unranked rooms
+  },
+  (table) => [uniqueIndex('room_pool_items_position_idx').on(table.roomId, table.position)]
+);
+
+// Socket.io adapter payloads too large for a NOTIFY (8000 byte limit)
+export const socketAdapterAttachments = pgTable(
+  'socket_adapter_attachments',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    payload: text('payload').notNull(), // JSON-encoded cluster message
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('socket_adapter_attachments_created_idx').on(table.createdAt)]
+);
+
+// ============================================
+// POOL_COLLECTIONS - Curated titles for the 'curated' pool source
+// ============================================
+export const poolCollections = pgTable('pool_collections', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const poolCollectionItems = pgTable(
+  'pool_collection_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    collectionId: uuid('collection_id')
+      .references(() => poolCollections.id, { onDelete: 'cascade' })
+      .notNull(),
+    tmdbId: integer('tmdb_id').notNull(),
+    mediaType: varchar('media_type', { length: 10 }).notNull(), // 'movie' | 'tv'
+    position: integer('position').notNull(),
+  },
+  (table) => [
+    uniqueIndex('pool_collection_items_unique_idx').on(
+      table.collectionId,
+      table.tmdbId,
+      table.mediaType
+    ),
+  ]
+);
+
 // ============================================
 // DECK_SETTINGS - User deck configuration
 // ============================================
@@ -444,6 +885,14 @@ export const deckSettings = pgTable('deck_settings', {
   showWatchedMovies: boolean('show_watched_movies').default(false),
   minRatingFilter: integer('min_rating_filter'), // null = no filter, 1-3
   mediaTypeFilter: varchar('media_type_filter', { length: 20 }).default('all'), // 'all' | 'movie' | 'tv'
+  genreIds: text('genre_ids'), // JSON array of TMDB genre ids, null = any
+  minYear: integer('min_year'),
+  maxYear: integer('max_year'),
+  maxRuntime: integer('max_runtime'), // Minutes, null = any
+  languages: text('languages'), // JSON array of ISO 639-1 codes, null = any
+  watchProviderIds: text('watch_provider_ids'), // JSON array of TMDB provider ids - the user's services
+  availableOnly: boolean('available_only').notNull().default(false), // Only titles streaming on those services
+  exploreLevel: integer('explore_level').notNull().default(30), // Solo deck: % of cards picked outside the learned taste
 
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -458,6 +907,7 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   sessions: many(userSessions),
   watchPrompts: many(watchPrompts),
   notificationSettings: one(notificationSettings),
+  titleSubscriptions: many(titleSubscriptions),
   deckSettings: one(deckSettings),
   // Referral relations
   referredBy: one(users, {
@@ -467,6 +917,8 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   }),
   referrals: many(users, { relationName: 'referrer' }),
   referralRewards: many(referralRewards),
+  roomParticipations: many(roomParticipants),
+  episodeProgress: many(episodeProgress),
 }));
 
 export const userMovieListsRelations = relations(userMovieLists, ({ one }) => ({
@@ -480,6 +932,50 @@ export const userMovieListsRelations = relations(userMovieLists, ({ one }) => ({
   }),
 }));
 
+export const customListsRelations = relations(customLists, ({ one, many }) => ({
+  user: one(users, {
+    fields: [customLists.userId],
+    references: [users.id],
+  }),
+  items: many(customListItems),
+}));
+
+export const customListItemsRelations = relations(customListItems, ({ one }) => ({
+  list: one(customLists, {
+    fields: [customListItems.listId],
+    references: [customLists.id],
+  }),
+  unifiedMovie: one(movies, {
+    fields: [customListItems.unifiedMovieId],
+    references: [movies.id],
+  }),
+}));
+
+export const pairsRelations = relations(pairs, ({ one, many }) => ({
+  userA: one(users, {
+    fields: [pairs.userAId],
+    references: [users.id],
+    relationName: 'pairUserA',
+  }),
+  userB: one(users, {
+    fields: [pairs.userBId],
+    references: [users.id],
+    relationName: 'pairUserB',
+  }),
+  watchlist: many(pairWatchlist),
+}));
+
+export const pairWatchlistRelations = relations(pairWatchlist, ({ one }) => ({
+  pair: one(pairs, {
+    fields: [pairWatchlist.pairId],
+    references: [pairs.id],
+  }),
+  unifiedMovie: one(movies, {
+    fields: [pairWatchlist.unifiedMovieId],
+    references: [movies.id],
+  }),
+}));
+
 export const userSwipeHistoryRelations = relations(userSwipeHistory, ({ one }) => ({
   user: one(users, {
     fields: [userSwipeHistory.userId],
@@ -513,6 +1009,13 @@ export const watchPromptsRelations = relations(watchPrompts, ({ one }) => ({
   }),
 }));
 
+export const titleSubscriptionsRelations = relations(titleSubscriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [titleSubscriptions.userId],
+    references: [users.id],
+  }),
+}));
+
 export const notificationSettingsRelations = relations(notificationSettings, ({ one }) => ({
   user: one(users, {
     fields: [notificationSettings.userId],
@@ -534,6 +1037,13 @@ export const roomQueuesRelations = relations(roomQueues, ({ one }) => ({
   }),
 }));
 
+export const roomPoolItemsRelations = relations(roomPoolItems, ({ one }) => ({
+  room: one(rooms, {
+    fields: [roomPoolItems.roomId],
+    references: [rooms.id],
+  }),
+}));
+
 export const deckSettingsRelations = relations(deckSettings, ({ one }) => ({
   user: one(users, {
     fields: [deckSettings.userId],
@@ -652,7 +1162,7 @@ export const notificationLog = pgTable(
     id: uuid('id').primaryKey().defaultRandom(),
 
     // Notification details
-    type: varchar('type', { length: 30 }).notNull(), // 'announcement' | 'theatrical_release' | 'digital_release' | 'season_announcement' | 'episode_release'
+    type: varchar('type', { length: 30 }).notNull(), // 'announcement' | 'theatrical_release' | 'digital_release' | 'season_announcement' | 'episode_release' | 'episode_digest'
     upcomingMovieId: uuid('upcoming_movie_id').references(() => upcomingMovies.id, { onDelete: 'set null' }),
     tmdbId: integer('tmdb_id'),
 
@@ -790,6 +1300,36 @@ export const trackedEpisodes = pgTable(
   ]
 );
 
+// ============================================
+// EPISODE_PROGRESS - Episodes a user has watched
+// ============================================
+// Same identity as tracked episodes, but kept for any series - not only tracked ones
+export const episodeProgress = pgTable(
+  'episode_progress',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    seriesTmdbId: integer('series_tmdb_id').notNull(), // trackedSeries.tmdbId
+    episodeTmdbId: integer('episode_tmdb_id'), // trackedEpisodes.tmdbId
+
+    seasonNumber: integer('season_number').notNull(),
+    episodeNumber: integer('episode_number').notNull(),
+
+    watchedAt: timestamp('watched_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('episode_progress_user_series_idx').on(table.userId, table.seriesTmdbId),
+    uniqueIndex('episode_progress_unique_idx').on(
+      table.userId,
+      table.seriesTmdbId,
+      table.seasonNumber,
+      table.episodeNumber
+    ),
+  ]
+);
+
 // Relations for tracked series
 export const trackedSeriesRelations = relations(trackedSeries, ({ one, many }) => ({
   unifiedMovie: one(movies, {
@@ -806,6 +1346,13 @@ export const trackedEpisodesRelations = relations(trackedEpisodes, ({ one }) =>
   }),
 }));
 
+export const episodeProgressRelations = relations(episodeProgress, ({ one }) => ({
+  user: one(users, {
+    fields: [episodeProgress.userId],
+    references: [users.id],
+  }),
+}));
+
 export const notificationConfigRelations = relations(notificationConfig, ({ one }) => ({
   updatedByUser: one(users, {
     fields: [notificationConfig.updatedBy],
@@ -864,6 +1411,46 @@ export const scheduledNotifications = pgTable(
   ]
 );
 
+// Recipients whose quiet hours fell on the slot - sent once their night is over
+export const deferredNotifications = pgTable(
+  'deferred_notifications',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    scheduledNotificationId: uuid('scheduled_notification_id')
+      .references(() => scheduledNotifications.id, { onDelete: 'cascade' })
+      .notNull(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    sendAfter: timestamp('send_after').notNull(),
+
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('deferred_notifications_unique_idx').on(table.scheduledNotificationId, table.userId),
+    index('deferred_notifications_send_after_idx').on(table.sendAfter),
+  ]
+);
+
+// Notifications collected for users on a daily or weekly digest
+export const notificationDigestItems = pgTable(
+  'notification_digest_items',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    userId: uuid('user_id')
+      .references(() => users.id, { onDelete: 'cascade' })
+      .notNull(),
+    scheduledNotificationId: uuid('scheduled_notification_id')
+      .references(() => scheduledNotifications.id, { onDelete: 'cascade' })
+      .notNull(),
+
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('notification_digest_items_unique_idx').on(table.userId, table.scheduledNotificationId),
+  ]
+);
+
 export const scheduledNotificationsRelations = relations(scheduledNotifications, ({ one }) => ({
   upcomingMovie: one(upcomingMovies, {
     fields: [scheduledNotifications.upcomingMovieId],
@@ -879,6 +1466,28 @@ export const scheduledNotificationsRelations = relations(scheduledNotifications,
   }),
 }));
 
+export const deferredNotificationsRelations = relations(deferredNotifications, ({ one }) => ({
+  scheduledNotification: one(scheduledNotifications, {
+    fields: [deferredNotifications.scheduledNotificationId],
+    references: [scheduledNotifications.id],
+  }),
+  user: one(users, {
+    fields: [deferredNotifications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationDigestItemsRelations = relations(notificationDigestItems, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationDigestItems.userId],
+    references: [users.id],
+  }),
+  scheduledNotification: one(scheduledNotifications, {
+    fields: [notificationDigestItems.scheduledNotificationId],
+    references: [scheduledNotifications.id],
+  }),
+}));
+
 // ============================================
 // ENUMS/CONSTANTS
 // ============================================
@@ -913,6 +1522,22 @@ export const NOTIFICATION_TYPE = {
   // TV Series notifications
   SEASON_ANNOUNCEMENT: 'season_announcement',
   EPISODE_RELEASE: 'episode_release',
+  EPISODE_DIGEST: 'episode_digest', // Weekly "episodes behind" summary
+  // Daily or weekly digest of release notifications
+  NOTIFICATION_DIGEST: 'notification_digest',
+} as const;
+
+// How release notifications reach the user
+export const DELIVERY_MODE = {
+  INSTANT: 'instant', // One message per notification
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+} as const;
+
+// Per-title override of a notification setting
+export const TITLE_SUBSCRIPTION_STATE = {
+  FOLLOW: 'follow', // Notify even when the setting is off
+  MUTE: 'mute', // Never notify about this title
 } as const;
 
 export const UPCOMING_MOVIE_STATUS = {
@@ -921,18 +1546,46 @@ export const UPCOMING_MOVIE_STATUS = {
   ARCHIVED: 'archived',
 } as const;
 
+export const ROOM_MATCH_RULE = {
+  UNANIMOUS: 'unanimous', // Every participant likes the title
+  MAJORITY: 'majority', // More than half of participants
+  N_OF_M: 'n_of_m', // At least matchThreshold participants
+} as const;
+
+export const PAIR_SOURCE = {
+  ROOM: 'room', // Partners swiped together in a room
+  REFERRAL: 'referral', // One partner invited the other
+} as const;
+
+export const ROOM_MATCH_MODE = {
+  SINGLE: 'single', // First match ends the room
+  SHORTLIST: 'shortlist', // Matches collect into a shortlist for a final round
+} as const;
+
 export const RELEASE_REGION = {
   US: 'US',
   RU: 'RU',
 } as const;
 
+export const CREDIT_ROLE = {
+  CAST: 'cast',
+  DIRECTOR: 'director',
+  WRITER: 'writer', // Screenplay, story or the source novel
+} as const;
+
 export type MovieStatus = (typeof MOVIE_STATUS)[keyof typeof MOVIE_STATUS];
 export type MovieSource = (typeof MOVIE_SOURCE)[keyof typeof MOVIE_SOURCE];
 export type MediaType = (typeof MEDIA_TYPE)[keyof typeof MEDIA_TYPE];
 export type MediaTypeFilter = (typeof MEDIA_TYPE_FILTER)[keyof typeof MEDIA_TYPE_FILTER];
 export type NotificationType = (typeof NOTIFICATION_TYPE)[keyof typeof NOTIFICATION_TYPE];
+export type TitleSubscriptionState = (typeof TITLE_SUBSCRIPTION_STATE)[keyof typeof TITLE_SUBSCRIPTION_STATE];
+export type DeliveryMode = (typeof DELIVERY_MODE)[keyof typeof DELIVERY_MODE];
 export type UpcomingMovieStatus = (typeof UPCOMING_MOVIE_STATUS)[keyof typeof UPCOMING_MOVIE_STATUS];
 export type ReleaseRegion = (typeof RELEASE_REGION)[keyof typeof RELEASE_REGION];
+export type RoomMatchRule = (typeof ROOM_MATCH_RULE)[keyof typeof ROOM_MATCH_RULE];
+export type RoomMatchMode = (typeof ROOM_MATCH_MODE)[keyof typeof ROOM_MATCH_MODE];
+export type PairSource = (typeof PAIR_SOURCE)[keyof typeof PAIR_SOURCE];
+export type CreditRole = (typeof CREDIT_ROLE)[keyof typeof CREDIT_ROLE];
 
 // ============================================
 // TYPE EXPORTS
@@ -941,10 +1594,26 @@ export type ReleaseRegion = (typeof RELEASE_REGION)[keyof typeof RELEASE_REGION]
 // Movie types (unified)
 export type Movie = typeof movies.$inferSelect;
 export type NewMovie = typeof movies.$inferInsert;
+export type Person = typeof people.$inferSelect;
+export type NewPerson = typeof people.$inferInsert;
+export type MovieCredit = typeof movieCredits.$inferSelect;
+export type NewMovieCredit = typeof movieCredits.$inferInsert;
+export type Keyword = typeof keywords.$inferSelect;
+export type NewKeyword = typeof keywords.$inferInsert;
 
 // Room types
 export type Room = typeof rooms.$inferSelect;
 export type NewRoom = typeof rooms.$inferInsert;
+export type RoomParticipant = typeof roomParticipants.$inferSelect;
+export type NewRoomParticipant = typeof roomParticipants.$inferInsert;
+export type RoomShortlistEntry = typeof roomShortlist.$inferSelect;
+export type NewRoomShortlistEntry = typeof roomShortlist.$inferInsert;
+export type RoomFinalVote = typeof roomFinalVotes.$inferSelect;
+export type NewRoomFinalVote = typeof roomFinalVotes.$inferInsert;
+export type RoomMatch = typeof roomMatches.$inferSelect;
+export type NewRoomMatch = typeof roomMatches.$inferInsert;
+export type RoomMatchMember = typeof roomMatchMembers.$inferSelect;
+export type NewRoomMatchMember = typeof roomMatchMembers.$inferInsert;
 export type Swipe = typeof swipes.$inferSelect;
 export type NewSwipe = typeof swipes.$inferInsert;
 
@@ -955,16 +1624,31 @@ export type UserMovieList = typeof userMovieLists.$inferSelect;
 export type NewUserMovieList = typeof userMovieLists.$inferInsert;
 export type UserSwipeHistory = typeof userSwipeHistory.$inferSelect;
 export type NewUserSwipeHistory = typeof userSwipeHistory.$inferInsert;
+export type CustomList = typeof customLists.$inferSelect;
+export type NewCustomList = typeof customLists.$inferInsert;
+export type CustomListItem = typeof customListItems.$inferSelect;
+export type NewCustomListItem = typeof customListItems.$inferInsert;
+export type Pair = typeof pairs.$inferSelect;
+export type NewPair = typeof pairs.$inferInsert;
+export type PairWatchlistEntry = typeof pairWatchlist.$inferSelect;
+export type NewPairWatchlistEntry = typeof pairWatchlist.$inferInsert;
 export type UserSession = typeof userSessions.$inferSelect;
 export type NewUserSession = typeof userSessions.$inferInsert;
 export type WatchPrompt = typeof watchPrompts.$inferSelect;
 export type NewWatchPrompt = typeof watchPrompts.$inferInsert;
 export type NotificationSettings = typeof notificationSettings.$inferSelect;
 export type NewNotificationSettings = typeof notificationSettings.$inferInsert;
+export type TitleSubscription = typeof titleSubscriptions.$inferSelect;
+export type NewTitleSubscription = typeof titleSubscriptions.$inferInsert;
 export type ReferralReward = typeof referralRewards.$inferSelect;
 export type NewReferralReward = typeof referralRewards.$inferInsert;
 export type RoomQueue = typeof roomQueues.$inferSelect;
 export type NewRoomQueue = typeof roomQueues.$inferInsert;
+export type RoomPoolItem = typeof roomPoolItems.$inferSelect;
+export type PoolCollection = typeof poolCollections.$inferSelect;
+export type NewPoolCollection = typeof poolCollections.$inferInsert;
+export type PoolCollectionItem = typeof poolCollectionItems.$inferSelect;
+export type NewPoolCollectionItem = typeof poolCollectionItems.$inferInsert;
 export type DeckSettings = typeof deckSettings.$inferSelect;
 export type NewDeckSettings = typeof deckSettings.$inferInsert;
 export type BugReport = typeof bugReports.$inferSelect;
@@ -985,7 +1669,13 @@ export type TrackedSeries = typeof trackedSeries.$inferSelect;
 export type NewTrackedSeries = typeof trackedSeries.$inferInsert;
 export type TrackedEpisode = typeof trackedEpisodes.$inferSelect;
 export type NewTrackedEpisode = typeof trackedEpisodes.$inferInsert;
+export type EpisodeProgress = typeof episodeProgress.$inferSelect;
+export type NewEpisodeProgress = typeof episodeProgress.$inferInsert;
 
 // Scheduled notifications types
 export type ScheduledNotification = typeof scheduledNotifications.$inferSelect;
 export type NewScheduledNotification = typeof scheduledNotifications.$inferInsert;
+export type DeferredNotification = typeof deferredNotifications.$inferSelect;
+export type NewDeferredNotification = typeof deferredNotifications.$inferInsert;
+export type NotificationDigestItem = typeof notificationDigestItems.$inferSelect;
+export type NewNotificationDigestItem = typeof notificationDigestItems.$inferInsert;
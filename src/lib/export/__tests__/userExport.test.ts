@@ -0,0 +1,65 @@
+/**
+ * Tests for rendering user data exports
+ */
+
+// The db client needs DATABASE_URL; formatting never touches it
+jest.mock('../../db', () => ({ db: {} }));
+
+import { formatUserExport } from '../userExport';
+import type { UserExport } from '@/types/export';
+
+const title = { imdbId: 'tt0113277', mediaType: 'movie', title: 'Heat, the movie', year: 1995 };
+
+const data: UserExport = {
+  exportedAt: '2025-03-01T10:00:00.000Z',
+  lists: [
+    {
+      ...title,
+      tmdbId: 949,
+      status: 'watched',
+      rating: 3,
+      notes: 'Said "wow"',
+      watchedAt: '2025-02-01T20:00:00.000Z',
+      addedAt: '2025-01-01T10:00:00.000Z',
+    },
+    {
+      ...title,
+      tmdbId: 1396,
+      mediaType: 'tv',
+      status: 'watched',
+      rating: 2,
+      notes: null,
+      watchedAt: null,
+      addedAt: '2025-01-02T10:00:00.000Z',
+    },
+  ],
+  swipes: [{ ...title, tmdbId: 949, action: 'like', context: 'room', swipedAt: '2025-01-01T09:00:00.000Z' }],
+  matches: [{ ...title, tmdbId: 949, roomCode: 'ABC123', eveningRating: null, matchedAt: '2025-01-01T08:00:00.000Z' }],
+};
+
+describe('formatUserExport', () => {
+  it('names files by export date', () => {
+    expect(formatUserExport(data, 'json').fileName).toBe('filmber-export-2025-03-01.json');
+    expect(JSON.parse(formatUserExport(data, 'json').content)).toEqual(data);
+  });
+
+  it('puts lists, swipes and matches in one CSV table', () => {
+    const lines = formatUserExport(data, 'csv').content.split('\n');
+
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toBe(
+      'list,949,tt0113277,movie,"Heat, the movie",1995,watched,3,"Said ""wow""",2025-02-01T20:00:00.000Z,,,,2025-01-01T10:00:00.000Z'
+    );
+    expect(lines[3]).toMatch(/^swipe,949,.*,like,room,,/);
+    expect(lines[4]).toMatch(/^match,949,.*,ABC123,/);
+  });
+
+  it('exports only watched films for Letterboxd', () => {
+    const lines = formatUserExport(data, 'letterboxd').content.split('\n');
+
+    expect(lines).toEqual([
+      'tmdbID,imdbID,Title,Year,Rating,WatchedDate,Review',
+      '949,tt0113277,"Heat, the movie",1995,4.5,2025-02-01,"Said ""wow"""',
+    ]);
+  });
+});
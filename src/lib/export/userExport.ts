@@ -0,0 +1,180 @@
+import { db } from '../db';
+import {
+  movies,
+  roomMatches,
+  roomMatchMembers,
+  userMovieLists,
+  userSwipeHistory,
+  MOVIE_STATUS,
+} from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { formatCsv } from '../import/csv';
+import type { ExportFormat, ExportTitle, UserExport } from '@/types/export';
+
+// Our 1-3 stars on Letterboxd's 0.5-5 scale - these map back to the same stars on import
+const LETTERBOXD_RATINGS: Record<number, number> = { 1: 2, 2: 3.5, 3: 4.5 };
+
+export interface ExportFile {
+  content: string;
+  contentType: string;
+  fileName: string;
+}
+
+type MovieRow = Pick<typeof movies.$inferSelect, 'imdbId' | 'mediaType' | 'title' | 'releaseDate'>;
+
+const movieColumns = {
+  imdbId: movies.imdbId,
+  mediaType: movies.mediaType,
+  title: movies.title,
+  releaseDate: movies.releaseDate,
+};
+
+function toTitle(tmdbId: number, movie: MovieRow | null): ExportTitle {
+  const year = parseInt(movie?.releaseDate?.slice(0, 4) ?? '', 10);
+  return {
+    tmdbId,
+    imdbId: movie?.imdbId ?? null,
+    mediaType: movie?.mediaType ?? 'movie',
+    title: movie?.title ?? null,
+    year: Number.isNaN(year) ? null : year,
+  };
+}
+
+/**
+ * Collect a user's lists, swipe history and room matches.
+ */
+export async function getUserExport(userId: string): Promise<UserExport> {
+  const [lists, history, matches] = await Promise.all([
+    db
+      .select({ item: userMovieLists, movie: movieColumns })
+      .from(userMovieLists)
+      .leftJoin(movies, eq(userMovieLists.tmdbId, movies.tmdbId))
+      .where(eq(userMovieLists.userId, userId))
+      .orderBy(asc(userMovieLists.createdAt)),
+    db
+      .select({ swipe: userSwipeHistory, movie: movieColumns })
+      .from(userSwipeHistory)
+      .leftJoin(movies, eq(userSwipeHistory.tmdbId, movies.tmdbId))
+      .where(eq(userSwipeHistory.userId, userId))
+      .orderBy(asc(userSwipeHistory.createdAt)),
+    db
+      .select({
+        match: roomMatches,
+        eveningRating: roomMatchMembers.eveningRating,
+        movie: movieColumns,
+      })
+      .from(roomMatchMembers)
+      .innerJoin(roomMatches, eq(roomMatchMembers.matchId, roomMatches.id))
+      .leftJoin(movies, eq(roomMatches.tmdbId, movies.tmdbId))
+      .where(eq(roomMatchMembers.userId, userId))
+      .orderBy(asc(roomMatches.matchedAt)),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    lists: lists.map(({ item, movie }) => ({
+      ...toTitle(item.tmdbId, movie),
+      status: item.status,
+      rating: item.rating,
+      notes: item.notes,
+      watchedAt: item.watchedAt?.toISOString() ?? null,
+      addedAt: item.createdAt.toISOString(),
+    })),
+    swipes: history.map(({ swipe, movie }) => ({
+      ...toTitle(swipe.tmdbId, movie),
+      action: swipe.action,
+      context: swipe.context,
+      swipedAt: swipe.createdAt.toISOString(),
+    })),
+    matches: matches.map(({ match, eveningRating, movie }) => ({
+      ...toTitle(match.tmdbId, movie),
+      roomCode: match.roomCode,
+      eveningRating,
+      matchedAt: match.matchedAt.toISOString(),
+    })),
+  };
+}
+
+// One table with a row per list entry, swipe and match
+function toCsv(data: UserExport): string {
+  const header = [
+    'Type',
+    'TMDB ID',
+    'IMDb ID',
+    'Media Type',
+    'Title',
+    'Year',
+    'Status',
+    'Rating',
+    'Notes',
+    'Watched At',
+    'Action',
+    'Context',
+    'Room',
+    'Date',
+  ];
+
+  return formatCsv([
+    header,
+    ...data.lists.map((i) => [
+      'list', i.tmdbId, i.imdbId, i.mediaType, i.title, i.year,
+      i.status, i.rating, i.notes, i.watchedAt, null, null, null, i.addedAt,
+    ]),
+    ...data.swipes.map((s) => [
+      'swipe', s.tmdbId, s.imdbId, s.mediaType, s.title, s.year,
+      null, null, null, null, s.action, s.context, null, s.swipedAt,
+    ]),
+    ...data.matches.map((m) => [
+      'match', m.tmdbId, m.imdbId, m.mediaType, m.title, m.year,
+      null, m.eveningRating, null, null, null, null, m.roomCode, m.matchedAt,
+    ]),
+  ]);
+}
+
+// Letterboxd's import format - watched and rated films only (it has no TV or watchlist import)
+function toLetterboxdCsv(data: UserExport): string {
+  const watched = data.lists.filter(
+    (i) => i.mediaType === 'movie' && i.status === MOVIE_STATUS.WATCHED
+  );
+
+  return formatCsv([
+    ['tmdbID', 'imdbID', 'Title', 'Year', 'Rating', 'WatchedDate', 'Review'],
+    ...watched.map((i) => [
+      i.tmdbId,
+      i.imdbId,
+      i.title,
+      i.year,
+      i.rating ? LETTERBOXD_RATINGS[i.rating] : null,
+      i.watchedAt?.slice(0, 10) ?? null,
+      i.notes,
+    ]),
+  ]);
+}
+
+/**
+ * Render an export as a downloadable file.
+ */
+export function formatUserExport(data: UserExport, format: ExportFormat): ExportFile {
+  const date = data.exportedAt.slice(0, 10);
+
+  switch (format) {
+    case 'json':
+      return {
+        content: JSON.stringify(data, null, 2),
+        contentType: 'application/json',
+        fileName: `filmber-export-${date}.json`,
+      };
+    case 'csv':
+      return {
+        content: toCsv(data),
+        contentType: 'text/csv; charset=utf-8',
+        fileName: `filmber-export-${date}.csv`,
+      };
+    case 'letterboxd':
+      return {
+        content: toLetterboxdCsv(data),
+        contentType: 'text/csv; charset=utf-8',
+        fileName: `filmber-letterboxd-${date}.csv`,
+      };
+  }
+}
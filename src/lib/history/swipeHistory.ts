@@ -0,0 +1,69 @@
+import { db } from '../db';
+import { userSwipeHistory } from '../db/schema';
+import { eq, and, isNull, isNotNull, sql } from 'drizzle-orm';
+import type { SwipeAction } from '@/types/room';
+
+/**
+ * Record a signed-in user's verdict on a title. History keeps the latest
+ * verdict per title, remembering the one it replaced so an undo can put it back.
+ */
+export async function recordSwipeHistory(
+  userId: string,
+  tmdbId: number,
+  action: SwipeAction,
+  roomId: string | null
+): Promise<void> {
+  const context = roomId ? 'room' : 'solo';
+
+  await db
+    .insert(userSwipeHistory)
+    .values({ userId, tmdbId, action, context, roomId })
+    .onConflictDoUpdate({
+      target: [userSwipeHistory.userId, userSwipeHistory.tmdbId],
+      set: {
+        action,
+        context,
+        roomId,
+        createdAt: new Date(),
+        previousAction: sql`${userSwipeHistory.action}`,
+        previousContext: sql`${userSwipeHistory.context}`,
+        previousRoomId: sql`${userSwipeHistory.roomId}`,
+        previousCreatedAt: sql`${userSwipeHistory.createdAt}`,
+      },
+    });
+}
+
+/**
+ * Take back the verdict from a room swipe (or a solo one when roomId is null),
+ * restoring the verdict it replaced or dropping the entry if there was none.
+ */
+export async function undoSwipeHistory(
+  userId: string,
+  tmdbId: number,
+  roomId: string | null
+): Promise<void> {
+  const entry = and(
+    eq(userSwipeHistory.userId, userId),
+    eq(userSwipeHistory.tmdbId, tmdbId),
+    roomId ? eq(userSwipeHistory.roomId, roomId) : eq(userSwipeHistory.context, 'solo')
+  );
+
+  const [restored] = await db
+    .update(userSwipeHistory)
+    .set({
+      action: sql`${userSwipeHistory.previousAction}`,
+      context: sql`${userSwipeHistory.previousContext}`,
+      roomId: sql`${userSwipeHistory.previousRoomId}`,
+      createdAt: sql`coalesce(${userSwipeHistory.previousCreatedAt}, ${userSwipeHistory.createdAt})`,
+      previousAction: null,
+      previousContext: null,
+      previousRoomId: null,
+      previousCreatedAt: null,
+    })
+    .where(and(entry, isNotNull(userSwipeHistory.previousAction)))
+    .returning({ id: userSwipeHistory.id });
+
+  if (restored) return;
+
+  await db.delete(userSwipeHistory).where(and(entry, isNull(userSwipeHistory.previousAction)));
+}
@@ -0,0 +1,138 @@
+/**
+ * @jest-environment node
+ *
+ * Tests for list import parsing
+ *
+ * Each service exports its own columns and scale; rows come out
+ * with our list status and 1-3 star rating.
+ */
+
+import { deflateRawSync } from 'zlib';
+import { parseCsv } from '../csv';
+import { parseListImport, toStarRating } from '../formats';
+
+// Minimal ZIP writer (deflated entries) - enough for readZip
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('parseCsv', () => {
+  it('handles quoted cells with delimiters, quotes and line breaks', () => {
+    expect(parseCsv('a,b\n"x, y","say ""hi""\nthere"\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('detects semicolon-separated files', () => {
+    expect(parseCsv('a;b\r\n1;2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('toStarRating', () => {
+  it('maps other scales onto 1-3 stars', () => {
+    expect(toStarRating(5, 10)).toBe(1);
+    expect(toStarRating(7, 10)).toBe(2);
+    expect(toStarRating(4.5, 5)).toBe(3);
+    expect(toStarRating(NaN, 10)).toBeNull();
+  });
+});
+
+describe('parseListImport', () => {
+  it('merges the lists of a Letterboxd export', () => {
+    const zip = createZip({
+      'watchlist.csv': 'Date,Name,Year,Letterboxd URI\n2024-01-01,Heat,1995,https://boxd.it/a\n2024-01-01,Alien,1979,https://boxd.it/b\n',
+      'watched.csv': 'Date,Name,Year,Letterboxd URI\n2024-02-01,Heat,1995,https://boxd.it/a\n',
+      'ratings.csv': 'Date,Name,Year,Letterboxd URI,Rating\n2024-02-01,Heat,1995,https://boxd.it/a,4.5\n',
+      'reviews.csv': 'Date,Name\n',
+    });
+
+    const { format, rows } = parseListImport(zip);
+    expect(format).toBe('letterboxd');
+    expect(rows).toEqual([
+      expect.objectContaining({ title: 'Heat', year: 1995, status: 'watched', rating: 3 }),
+      expect.objectContaining({ title: 'Alien', year: 1979, status: 'want_to_watch', rating: null }),
+    ]);
+  });
+
+  it('reads IMDb ratings and skips episodes', () => {
+    const csv = [
+      'Const,Your Rating,Date Rated,Title,Original Title,URL,Title Type,IMDb Rating,Runtime (mins),Year',
+      'tt0113277,8,2024-01-01,Heat,Heat,https://imdb.com,movie,8.3,170,1995',
+      'tt0903747,10,2024-01-01,Breaking Bad,Breaking Bad,https://imdb.com,tvSeries,9.5,49,2008',
+      'tt0959621,9,2024-01-01,Pilot,Pilot,https://imdb.com,tvEpisode,9.0,58,2008',
+    ].join('\n');
+
+    const { format, rows } = parseListImport(Buffer.from(csv));
+    expect(format).toBe('imdb');
+    expect(rows.map((r) => [r.imdbId, r.mediaType, r.status, r.rating])).toEqual([
+      ['tt0113277', 'movie', 'watched', 3],
+      ['tt0903747', 'tv', 'watched', 3],
+    ]);
+  });
+
+  it('reads Kinopoisk exports in Windows-1251', () => {
+    const csv = 'ID;Название;Оригинальное название;Год;Моя оценка\n329;Схватка;Heat;1995;6\n';
+    const buffer = Buffer.from(csv);
+    const cp1251 = Buffer.from(
+      [...csv].map((char) => {
+        const code = char.charCodeAt(0);
+        // Cyrillic А..я sit at 0xC0..0xFF in Windows-1251
+        return code >= 0x410 && code <= 0x44f ? code - 0x410 + 0xc0 : code;
+      })
+    );
+
+    for (const file of [buffer, cp1251]) {
+      const { format, rows } = parseListImport(file);
+      expect(format).toBe('kinopoisk');
+      expect(rows).toEqual([
+        expect.objectContaining({
+          title: 'Схватка',
+          originalTitle: 'Heat',
+          kinopoiskId: 329,
+          year: 1995,
+          status: 'watched',
+          rating: 2,
+        }),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Parse CSV text into rows of cells.
+ * Handles quoted cells (with "" escapes and line breaks) and detects
+ * ';' or tab delimiters, which spreadsheet exports often use.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(input);
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+// Pick the delimiter that splits the header line the most
+function detectDelimiter(text: string): string {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+}
+
+/**
+ * Parse CSV with a header line into records keyed by column name.
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map((name) => name.trim());
+  return rows.map((row) =>
+    Object.fromEntries(columns.map((column, index) => [column, row[index]?.trim() ?? '']))
+  );
+}
+
+/**
+ * Serialize rows as CSV, quoting cells where needed.
+ */
+export function formatCsv(rows: (string | number | null)[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const cell = value === null ? '' : String(value);
+          return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(',')
+    )
+    .join('\n');
+}
@@ -0,0 +1,194 @@
+import { parseCsvRecords } from './csv';
+import { isZip, readZip } from './zip';
+import type { ListImportFormat, ListImportRow } from '@/types/listImport';
+
+// Letterboxd export files we read, by path inside the ZIP (later files win)
+const LETTERBOXD_FILES = ['watchlist.csv', 'watched.csv', 'ratings.csv'];
+
+// IMDb title types we can put on a list (episodes, games etc. are skipped)
+const IMDB_MOVIE_TYPES = ['movie', 'tvMovie', 'video', 'short', 'tvShort', 'tvSpecial'];
+const IMDB_TV_TYPES = ['tvSeries', 'tvMiniSeries'];
+
+// Kinopoisk exports come from different tools - accept their common column names
+const KINOPOISK_COLUMNS = {
+  kinopoiskId: ['kinopoisk_id', 'kinopoiskId', 'kp_id', 'ID', 'id'],
+  title: ['Название', 'nameRu', 'title', 'Title'],
+  originalTitle: ['Оригинальное название', 'nameOriginal', 'nameEn', 'original_title'],
+  year: ['Год', 'year', 'Year'],
+  rating: ['Моя оценка', 'Оценка', 'rating', 'my_rating', 'Rating'],
+  imdbId: ['imdb_id', 'imdbId', 'IMDb ID'],
+  type: ['Тип', 'type', 'Type'],
+};
+
+export interface ParsedListImport {
+  format: ListImportFormat;
+  rows: ListImportRow[];
+}
+
+/**
+ * Map a score from another service onto our 1-3 stars.
+ * Normalized to 10: below 6 is a dislike, 6-7 liked, 8 and up loved.
+ */
+export function toStarRating(score: number, outOf: number): number | null {
+  if (!(score > 0)) return null;
+
+  const normalized = (score / outOf) * 10;
+  if (normalized < 6) return 1;
+  if (normalized < 8) return 2;
+  return 3;
+}
+
+function parseYear(value: string | undefined): number | null {
+  const year = parseInt(value ?? '', 10);
+  return year >= 1870 && year <= 2100 ? year : null;
+}
+
+function pick(record: Record<string, string>, columns: string[]): string {
+  for (const column of columns) {
+    if (record[column]) return record[column];
+  }
+  return '';
+}
+
+/**
+ * Decode an export file. Russian exports are often in Windows-1251.
+ */
+export function decodeText(buffer: Buffer): string {
+  const utf8 = new TextDecoder('utf-8').decode(buffer);
+  if (!utf8.includes('\uFFFD')) return utf8;
+  return new TextDecoder('windows-1251').decode(buffer);
+}
+
+// Letterboxd: Date, Name, Year, Letterboxd URI[, Rating]
+function parseLetterboxd(files: { name: string; text: string }[]): ListImportRow[] {
+  const rowsByUri = new Map<string, ListImportRow>();
+
+  for (const { name, text } of files) {
+    const isWatchlist = name.toLowerCase().includes('watchlist');
+
+    parseCsvRecords(text).forEach((record, index) => {
+      if (!record['Name']) return;
+
+      const uri = record['Letterboxd URI'] || `${record['Name']}:${record['Year']}`;
+      const previous = rowsByUri.get(uri);
+      const rating = toStarRating(parseFloat(record['Rating']), 5);
+
+      rowsByUri.set(uri, {
+        line: index + 2,
+        title: record['Name'],
+        originalTitle: null,
+        year: parseYear(record['Year']),
+        imdbId: null,
+        kinopoiskId: null,
+        mediaType: 'movie',
+        // A watched or rated entry beats the same film on the watchlist
+        status: isWatchlist && previous?.status !== 'watched' ? 'want_to_watch' : 'watched',
+        rating: rating ?? previous?.rating ?? null,
+      });
+    });
+  }
+
+  return [...rowsByUri.values()];
+}
+
+// IMDb ratings or watchlist: Const, [Your Rating,] Title, Title Type, Year, ...
+function parseImdb(text: string): ListImportRow[] {
+  const rows: ListImportRow[] = [];
+
+  parseCsvRecords(text).forEach((record, index) => {
+    const type = record['Title Type'];
+    const isTv = IMDB_TV_TYPES.includes(type);
+    if (type && !isTv && !IMDB_MOVIE_TYPES.includes(type)) return;
+    if (!/^tt\d+$/.test(record['Const'])) return;
+
+    const rating = toStarRating(parseFloat(record['Your Rating']), 10);
+
+    rows.push({
+      line: index + 2,
+      title: record['Title'],
+      originalTitle: record['Original Title'] || null,
+      year: parseYear(record['Year']),
+      imdbId: record['Const'],
+      kinopoiskId: null,
+      mediaType: isTv ? 'tv' : 'movie',
+      // The watchlist export has no rating column
+      status: 'Your Rating' in record ? 'watched' : 'want_to_watch',
+      rating,
+    });
+  });
+
+  return rows;
+}
+
+function parseKinopoisk(text: string): ListImportRow[] {
+  const records = parseCsvRecords(text);
+  const hasRatings = records.length > 0 && KINOPOISK_COLUMNS.rating.some((c) => c in records[0]);
+  const rows: ListImportRow[] = [];
+
+  records.forEach((record, index) => {
+    const title = pick(record, KINOPOISK_COLUMNS.title);
+    const originalTitle = pick(record, KINOPOISK_COLUMNS.originalTitle) || null;
+    const kinopoiskId = parseInt(pick(record, KINOPOISK_COLUMNS.kinopoiskId), 10) || null;
+    if (!title && !originalTitle && !kinopoiskId) return;
+
+    const type = pick(record, KINOPOISK_COLUMNS.type).toLowerCase();
+    const imdbId = pick(record, KINOPOISK_COLUMNS.imdbId);
+
+    rows.push({
+      line: index + 2,
+      title: title || originalTitle || '',
+      originalTitle,
+      year: parseYear(pick(record, KINOPOISK_COLUMNS.year)),
+      imdbId: /^tt\d+$/.test(imdbId) ? imdbId : null,
+      kinopoiskId,
+      mediaType: type.includes('сериал') || type.includes('series') || type === 'tv' ? 'tv' : 'movie',
+      // "Будут смотреть" exports have no rating column
+      status: hasRatings ? 'watched' : 'want_to_watch',
+      rating: toStarRating(parseFloat(pick(record, KINOPOISK_COLUMNS.rating)), 10),
+    });
+  });
+
+  return rows;
+}
+
+function detectFormat(header: string): ListImportFormat {
+  if (header.includes('Letterboxd URI')) return 'letterboxd';
+  if (/(^|[,;\t])"?Const"?([,;\t]|$)/.test(header)) return 'imdb';
+  return 'kinopoisk';
+}
+
+/**
+ * Parse an uploaded export: a Letterboxd ZIP, or a Letterboxd, IMDb or Kinopoisk CSV.
+ * The format is detected from the file unless given.
+ *
+ * @param fileName - Original file name (tells a Letterboxd watchlist from watched films)
+ */
+export function parseListImport(
+  buffer: Buffer,
+  fileName = '',
+  format?: ListImportFormat
+): ParsedListImport {
+  if (isZip(buffer)) {
+    // Letterboxd is the only service that exports a ZIP
+    const entries = readZip(buffer, (path) => LETTERBOXD_FILES.includes(path));
+    const files = LETTERBOXD_FILES.filter((name) => entries.has(name)).map((name) => ({
+      name,
+      text: decodeText(entries.get(name)!),
+    }));
+    if (files.length === 0) throw new Error('No Letterboxd lists found in the archive');
+
+    return { format: 'letterboxd', rows: parseLetterboxd(files) };
+  }
+
+  const text = decodeText(buffer);
+  const detected = format ?? detectFormat(text.slice(0, text.indexOf('\n')));
+
+  switch (detected) {
+    case 'letterboxd':
+      return { format: detected, rows: parseLetterboxd([{ name: fileName, text }]) };
+    case 'imdb':
+      return { format: detected, rows: parseImdb(text) };
+    case 'kinopoisk':
+      return { format: detected, rows: parseKinopoisk(text) };
+  }
+}
@@ -0,0 +1,96 @@
+import { tmdb } from '../api/tmdb';
+import { movieService } from '../services/movieService';
+import type { Movie } from '../db/schema';
+import type { ListImportRow } from '@/types/listImport';
+
+// Lists are keyed by TMDB id, so only titles TMDB knows can be imported
+type ResolvedMovie = Movie & { tmdbId: number };
+
+function hasTmdbId(movie: Movie | null): movie is ResolvedMovie {
+  return !!movie?.tmdbId;
+}
+
+async function fromTmdb(tmdbId: number, mediaType: 'movie' | 'tv') {
+  const movie = await movieService.findOrCreate({ tmdbId, mediaType, source: 'tmdb' });
+  return hasTmdbId(movie) ? movie : null;
+}
+
+async function fromImdbId(imdbId: string) {
+  const existing = await movieService.findByExternalId({ imdbId });
+  if (hasTmdbId(existing)) return existing;
+
+  const found = await tmdb.findByImdbId(imdbId);
+  if (found.movie_results[0]) return fromTmdb(found.movie_results[0].id, 'movie');
+  if (found.tv_results[0]) return fromTmdb(found.tv_results[0].id, 'tv');
+  return null;
+}
+
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/ё/g, 'е').replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Search by title, accepting a release a year off (festival vs. theatrical dates)
+async function fromTitle(
+  title: string,
+  year: number | null,
+  mediaType: 'movie' | 'tv',
+  language: 'en-US' | 'ru-RU'
+) {
+  const results =
+    mediaType === 'tv'
+      ? (await tmdb.searchTV(title, language)).results.map((r) => ({
+          id: r.id,
+          title: r.name,
+          date: r.first_air_date,
+        }))
+      : (await tmdb.searchMovies(title, language)).results.map((r) => ({
+          id: r.id,
+          title: r.title,
+          date: r.release_date,
+        }));
+
+  const match = results.find((result) => {
+    const resultYear = parseInt(result.date?.slice(0, 4) ?? '', 10);
+    if (year) return Math.abs(resultYear - year) <= 1;
+    return normalizeTitle(result.title) === normalizeTitle(title);
+  });
+
+  return match ? fromTmdb(match.id, mediaType) : null;
+}
+
+/**
+ * Find the title an import row refers to: by IMDb id, then Kinopoisk id,
+ * then title and year. Null when nothing matches confidently.
+ */
+export async function resolveImportRow(row: ListImportRow): Promise<ResolvedMovie | null> {
+  try {
+    if (row.imdbId) {
+      const movie = await fromImdbId(row.imdbId);
+      if (movie) return movie;
+    }
+
+    if (row.kinopoiskId) {
+      const movie = await movieService.findOrCreate({
+        kinopoiskId: row.kinopoiskId,
+        source: 'kinopoisk',
+      });
+      if (hasTmdbId(movie)) return movie;
+      // Kinopoisk knows the IMDb id for most titles
+      if (movie?.imdbId) {
+        const linked = await fromImdbId(movie.imdbId);
+        if (linked) return linked;
+      }
+    }
+
+    if (row.originalTitle) {
+      const movie = await fromTitle(row.originalTitle, row.year, row.mediaType, 'en-US');
+      if (movie) return movie;
+    }
+
+    // Kinopoisk titles are Russian
+    const language = row.kinopoiskId || /[а-яё]/i.test(row.title) ? 'ru-RU' : 'en-US';
+    return row.title ? await fromTitle(row.title, row.year, row.mediaType, language) : null;
+  } catch (error) {
+    console.error(`Failed to resolve import row ${row.line}:`, error);
+    return null;
+  }
+}
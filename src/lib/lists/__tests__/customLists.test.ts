@@ -0,0 +1,35 @@
+/**
+ * Tests for custom list ordering and name validation
+ */
+
+// Neither helper touches the db or external APIs
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../../services/movieService', () => ({ movieService: {} }));
+
+import { applyOrder, parseListName } from '../customLists';
+
+describe('applyOrder', () => {
+  it('reorders to match the requested order', () => {
+    expect(applyOrder([1, 2, 3], [3, 1, 2])).toEqual([3, 1, 2]);
+  });
+
+  it('keeps items missing from the order after the ordered ones', () => {
+    expect(applyOrder(['a', 'b', 'c', 'd'], ['c', 'a'])).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('ignores unknown and duplicate ids', () => {
+    expect(applyOrder([1, 2, 3], [2, 99, 2, 1])).toEqual([2, 1, 3]);
+  });
+});
+
+describe('parseListName', () => {
+  it('trims the name', () => {
+    expect(parseListName('  Halloween  ')).toBe('Halloween');
+  });
+
+  it('rejects empty, too long and non-string names', () => {
+    expect(parseListName('   ')).toBeNull();
+    expect(parseListName('x'.repeat(101))).toBeNull();
+    expect(parseListName(42)).toBeNull();
+  });
+});
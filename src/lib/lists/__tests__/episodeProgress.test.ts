@@ -0,0 +1,95 @@
+/**
+ * Tests for episode progress
+ *
+ * "Next up" follows the furthest watched episode across the aired
+ * regular seasons; specials never count. Episode alerts only go to users
+ * who aren't too many unwatched episodes behind.
+ */
+
+// The db and TMDB clients need server config; these checks never touch them
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../../api/tmdb', () => ({ tmdb: {} }));
+
+import { computeNextUp, countEpisodesBehind, getAiredSeasons } from '../episodeProgress';
+import type { TMDBSeason } from '@/types/movie';
+
+const season = (number: number, episodeCount: number): TMDBSeason => ({
+  season_number: number,
+  name: `Season ${number}`,
+  overview: '',
+  air_date: null,
+  episode_count: episodeCount,
+  poster_path: null,
+});
+
+const episode = (seasonNumber: number, episodeNumber: number) => ({ seasonNumber, episodeNumber });
+
+describe('getAiredSeasons', () => {
+  it('drops specials and cuts the airing season at the last aired episode', () => {
+    const result = getAiredSeasons({
+      seasons: [season(2, 10), season(0, 3), season(1, 8), season(3, 10)],
+      last_episode_to_air: {
+        id: 1,
+        season_number: 2,
+        episode_number: 4,
+        name: '',
+        overview: '',
+        air_date: '2026-01-01',
+        runtime: null,
+        vote_average: 0,
+        still_path: null,
+      },
+    });
+
+    expect(result).toEqual([
+      { seasonNumber: 1, episodeCount: 8 },
+      { seasonNumber: 2, episodeCount: 4 },
+    ]);
+  });
+
+  it('has nothing aired before the premiere', () => {
+    expect(getAiredSeasons({ seasons: [season(1, 8)], last_episode_to_air: null })).toEqual([]);
+  });
+});
+
+describe('computeNextUp', () => {
+  const seasons = [
+    { seasonNumber: 1, episodeCount: 3 },
+    { seasonNumber: 2, episodeCount: 2 },
+  ];
+
+  it('starts from the first episode', () => {
+    expect(computeNextUp([], seasons)).toEqual(episode(1, 1));
+  });
+
+  it('follows the furthest watched episode', () => {
+    expect(computeNextUp([episode(1, 1), episode(1, 2)], seasons)).toEqual(episode(1, 3));
+    expect(computeNextUp([episode(1, 2), episode(0, 5)], seasons)).toEqual(episode(1, 3));
+  });
+
+  it('moves on to the next season', () => {
+    expect(computeNextUp([episode(1, 3)], seasons)).toEqual(episode(2, 1));
+  });
+
+  it('is caught up after the last aired episode', () => {
+    expect(computeNextUp([episode(2, 2)], seasons)).toBeNull();
+    expect(computeNextUp([], [])).toBeNull();
+  });
+});
+
+describe('countEpisodesBehind', () => {
+  const seasons = [
+    { seasonNumber: 1, episodeCount: 3 },
+    { seasonNumber: 2, episodeCount: 2 },
+  ];
+
+  it('counts every unwatched aired episode', () => {
+    expect(countEpisodesBehind([episode(1, 1), episode(2, 1)], seasons)).toBe(3);
+  });
+
+  it('only counts episodes before the new one', () => {
+    const watched = [episode(1, 1), episode(1, 2), episode(1, 3)];
+    expect(countEpisodesBehind(watched, seasons, episode(2, 1))).toBe(0);
+    expect(countEpisodesBehind(watched, seasons, episode(2, 2))).toBe(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { db } from '../db';
+import { customLists, customListItems, movies, type CustomList } from '../db/schema';
+import { and, asc, count, eq, inArray, max } from 'drizzle-orm';
+import { movieService } from '../services/movieService';
+import {
+  MAX_CUSTOM_LIST_NAME_LENGTH,
+  type CustomListDetail,
+  type CustomListSummary,
+} from '@/types/customList';
+
+/**
+ * Get a list if it belongs to the user.
+ */
+export async function getOwnedList(userId: string, listId: string): Promise<CustomList | null> {
+  const [list] = await db
+    .select()
+    .from(customLists)
+    .where(and(eq(customLists.id, listId), eq(customLists.userId, userId)));
+
+  return list ?? null;
+}
+
+/**
+ * The user's lists in their order, with item counts.
+ *
+ * @param tmdbId - Also report which lists contain this title
+ */
+export async function getCustomLists(
+  userId: string,
+  tmdbId?: number
+): Promise<CustomListSummary[]> {
+  const lists = await db
+    .select({ id: customLists.id, name: customLists.name, itemCount: count(customListItems.id) })
+    .from(customLists)
+    .leftJoin(customListItems, eq(customListItems.listId, customLists.id))
+    .where(eq(customLists.userId, userId))
+    .groupBy(customLists.id)
+    .orderBy(asc(customLists.position));
+
+  const containing =
+    tmdbId && lists.length > 0
+      ? await db
+          .select({ listId: customListItems.listId })
+          .from(customListItems)
+          .where(
+            and(
+              eq(customListItems.tmdbId, tmdbId),
+              inArray(
+                customListItems.listId,
+                lists.map((l) => l.id)
+              )
+            )
+          )
+      : [];
+  const containingIds = new Set(containing.map((c) => c.listId));
+
+  return lists.map((list) => ({ ...list, hasMovie: containingIds.has(list.id) }));
+}
+
+/**
+ * A list with its titles in order.
+ */
+export async function getCustomListDetail(list: CustomList): Promise<CustomListDetail> {
+  const rows = await db
+    .select({ item: customListItems, movie: movies })
+    .from(customListItems)
+    .leftJoin(movies, eq(customListItems.tmdbId, movies.tmdbId))
+    .where(eq(customListItems.listId, list.id))
+    .orderBy(asc(customListItems.position));
+
+  return {
+    id: list.id,
+    name: list.name,
+    items: rows.map(({ item, movie }) => ({
+      tmdbId: item.tmdbId,
+      mediaType: movie?.mediaType === 'tv' ? 'tv' : 'movie',
+      title: movie?.title ?? null,
+      titleRu: movie?.titleRu ?? null,
+      posterUrl: movie ? movieService.getPosterUrl(movie, 'w185') : null,
+      releaseDate: movie?.releaseDate ?? null,
+      addedAt: item.addedAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Create a list at the end of the user's lists.
+ */
+export async function createCustomList(userId: string, name: string): Promise<CustomList> {
+  const [{ last }] = await db
+    .select({ last: max(customLists.position) })
+    .from(customLists)
+    .where(eq(customLists.userId, userId));
+
+  const [list] = await db
+    .insert(customLists)
+    .values({ userId, name, position: (last ?? -1) + 1 })
+    .returning();
+
+  return list;
+}
+
+/**
+ * Number of titles on a list.
+ */
+export async function countCustomListItems(listId: string): Promise<number> {
+  const [result] = await db
+    .select({ total: count() })
+    .from(customListItems)
+    .where(eq(customListItems.listId, listId));
+
+  return result?.total ?? 0;
+}
+
+/**
+ * Append a title to a list (fetching its details if we haven't cached it yet).
+ * Returns false when the title couldn't be found.
+ */
+export async function addCustomListItem(
+  listId: string,
+  tmdbId: number,
+  mediaType?: 'movie' | 'tv'
+): Promise<boolean> {
+  const movie = await movieService.findOrCreate({ tmdbId, mediaType, source: 'tmdb' });
+  if (!movie) return false;
+
+  const [{ last }] = await db
+    .select({ last: max(customListItems.position) })
+    .from(customListItems)
+    .where(eq(customListItems.listId, listId));
+
+  await db
+    .insert(customListItems)
+    .values({ listId, tmdbId, unifiedMovieId: movie.id, position: (last ?? -1) + 1 })
+    .onConflictDoNothing();
+
+  return true;
+}
+
+/**
+ * Rewrite positions from an ordered list of ids. Ids not in `order` keep
+ * their relative order after the given ones.
+ */
+export function applyOrder<T>(current: T[], order: T[]): T[] {
+  const known = new Set(current);
+  const ordered = [...new Set(order)].filter((id) => known.has(id));
+  const orderedSet = new Set(ordered);
+  return [...ordered, ...current.filter((id) => !orderedSet.has(id))];
+}
+
+/**
+ * Reorder the user's lists.
+ */
+export async function reorderCustomLists(userId: string, order: string[]): Promise<void> {
+  const current = await db
+    .select({ id: customLists.id })
+    .from(customLists)
+    .where(eq(customLists.userId, userId))
+    .orderBy(asc(customLists.position));
+
+  const ids = applyOrder(
+    current.map((l) => l.id),
+    order
+  );
+  await db.transaction(async (tx) => {
+    for (const [position, id] of ids.entries()) {
+      await tx.update(customLists).set({ position }).where(eq(customLists.id, id));
+    }
+  });
+}
+
+/**
+ * Reorder the titles on a list.
+ */
+export async function reorderCustomListItems(listId: string, order: number[]): Promise<void> {
+  const current = await db
+    .select({ tmdbId: customListItems.tmdbId })
+    .from(customListItems)
+    .where(eq(customListItems.listId, listId))
+    .orderBy(asc(customListItems.position));
+
+  const tmdbIds = applyOrder(
+    current.map((i) => i.tmdbId),
+    order
+  );
+  await db.transaction(async (tx) => {
+    for (const [position, tmdbId] of tmdbIds.entries()) {
+      await tx
+        .update(customListItems)
+        .set({ position })
+        .where(and(eq(customListItems.listId, listId), eq(customListItems.tmdbId, tmdbId)));
+    }
+  });
+}
+
+/**
+ * Trimmed list name, or null when empty or too long.
+ */
+export function parseListName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  return name && name.length <= MAX_CUSTOM_LIST_NAME_LENGTH ? name : null;
+}
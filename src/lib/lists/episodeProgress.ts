@@ -0,0 +1,312 @@
+import { db } from '../db';
+import { episodeProgress, notificationConfig } from '../db/schema';
+import { and, count, eq, gt, inArray } from 'drizzle-orm';
+import { tmdb } from '../api/tmdb';
+import type { TMDBTVSeriesDetails } from '@/types/movie';
+import type { AiredSeason, EpisodeRef, SeriesProgress } from '@/types/episodeProgress';
+
+// How far behind a user may be and still hear about every new episode
+export const DEFAULT_MAX_EPISODES_BEHIND = 2;
+
+/**
+ * Regular seasons in order with the number of episodes aired so far.
+ */
+export function getAiredSeasons(
+  series: Pick<TMDBTVSeriesDetails, 'seasons' | 'last_episode_to_air'>
+): AiredSeason[] {
+  const last = series.last_episode_to_air;
+  if (!last) return [];
+
+  const lastSeason = last.season_number ?? Infinity;
+
+  return (series.seasons ?? [])
+    .filter((s) => s.season_number > 0 && s.season_number <= lastSeason)
+    .sort((a, b) => a.season_number - b.season_number)
+    .map((s) => ({
+      seasonNumber: s.season_number,
+      episodeCount:
+        s.season_number === lastSeason
+          ? Math.min(s.episode_count, last.episode_number)
+          : s.episode_count,
+    }))
+    .filter((s) => s.episodeCount > 0);
+}
+
+/**
+ * The episode after the furthest one watched - episodes skipped before it
+ * don't hold the user back. Null once the aired episodes run out.
+ */
+export function computeNextUp(watched: EpisodeRef[], seasons: AiredSeason[]): EpisodeRef | null {
+  if (seasons.length === 0) return null;
+
+  const furthest = watched
+    .filter((e) => e.seasonNumber > 0)
+    .reduce<EpisodeRef | null>(
+      (best, e) =>
+        !best ||
+        e.seasonNumber > best.seasonNumber ||
+        (e.seasonNumber === best.seasonNumber && e.episodeNumber > best.episodeNumber)
+          ? e
+          : best,
+      null
+    );
+
+  if (!furthest) return { seasonNumber: seasons[0].seasonNumber, episodeNumber: 1 };
+
+  const current = seasons.find((s) => s.seasonNumber === furthest.seasonNumber);
+  if (current && furthest.episodeNumber < current.episodeCount) {
+    return { seasonNumber: furthest.seasonNumber, episodeNumber: furthest.episodeNumber + 1 };
+  }
+
+  const next = seasons.find((s) => s.seasonNumber > furthest.seasonNumber);
+  return next ? { seasonNumber: next.seasonNumber, episodeNumber: 1 } : null;
+}
+
+/**
+ * Aired episodes the user hasn't watched.
+ *
+ * @param before - Only count episodes that aired before this one
+ */
+export function countEpisodesBehind(
+  watched: EpisodeRef[],
+  seasons: AiredSeason[],
+  before?: EpisodeRef
+): number {
+  const watchedKeys = new Set(watched.map((e) => `${e.seasonNumber}:${e.episodeNumber}`));
+  let behind = 0;
+
+  for (const season of seasons) {
+    for (let episodeNumber = 1; episodeNumber <= season.episodeCount; episodeNumber++) {
+      if (
+        before &&
+        (season.seasonNumber > before.seasonNumber ||
+          (season.seasonNumber === before.seasonNumber && episodeNumber >= before.episodeNumber))
+      ) {
+        return behind;
+      }
+      if (!watchedKeys.has(`${season.seasonNumber}:${episodeNumber}`)) behind++;
+    }
+  }
+
+  return behind;
+}
+
+// Episodes of a series the user has marked watched, in order
+async function getWatchedEpisodes(userId: string, seriesTmdbId: number): Promise<EpisodeRef[]> {
+  return db
+    .select({
+      seasonNumber: episodeProgress.seasonNumber,
+      episodeNumber: episodeProgress.episodeNumber,
+    })
+    .from(episodeProgress)
+    .where(and(eq(episodeProgress.userId, userId), eq(episodeProgress.seriesTmdbId, seriesTmdbId)))
+    .orderBy(episodeProgress.seasonNumber, episodeProgress.episodeNumber);
+}
+
+/**
+ * Watched episodes of a series with the next one up.
+ */
+export async function getSeriesProgress(
+  userId: string,
+  seriesTmdbId: number
+): Promise<SeriesProgress> {
+  const [watched, series] = await Promise.all([
+    getWatchedEpisodes(userId, seriesTmdbId),
+    // Marks are still worth showing without TMDB
+    tmdb.getTVSeriesDetails(seriesTmdbId).catch((error) => {
+      console.error(`Failed to get series ${seriesTmdbId} for progress:`, error);
+      return null;
+    }),
+  ]);
+
+  const seasons = series ? getAiredSeasons(series) : [];
+
+  return {
+    watched,
+    nextUp: computeNextUp(watched, seasons),
+    airedCount: seasons.reduce((sum, s) => sum + s.episodeCount, 0),
+  };
+}
+
+/**
+ * Mark or unmark one episode.
+ */
+export async function setEpisodeWatched(
+  userId: string,
+  seriesTmdbId: number,
+  episode: EpisodeRef & { episodeTmdbId?: number | null },
+  watched: boolean
+): Promise<void> {
+  if (watched) {
+    await db
+      .insert(episodeProgress)
+      .values({
+        userId,
+        seriesTmdbId,
+        episodeTmdbId: episode.episodeTmdbId ?? null,
+        seasonNumber: episode.seasonNumber,
+        episodeNumber: episode.episodeNumber,
+      })
+      .onConflictDoNothing();
+    return;
+  }
+
+  await db
+    .delete(episodeProgress)
+    .where(
+      and(
+        eq(episodeProgress.userId, userId),
+        eq(episodeProgress.seriesTmdbId, seriesTmdbId),
+        eq(episodeProgress.seasonNumber, episode.seasonNumber),
+        eq(episodeProgress.episodeNumber, episode.episodeNumber)
+      )
+    );
+}
+
+/**
+ * Mark every aired episode of a season watched, or clear the season.
+ */
+export async function setSeasonWatched(
+  userId: string,
+  seriesTmdbId: number,
+  seasonNumber: number,
+  watched: boolean
+): Promise<void> {
+  if (!watched) {
+    await db
+      .delete(episodeProgress)
+      .where(
+        and(
+          eq(episodeProgress.userId, userId),
+          eq(episodeProgress.seriesTmdbId, seriesTmdbId),
+          eq(episodeProgress.seasonNumber, seasonNumber)
+        )
+      );
+    return;
+  }
+
+  const season = await tmdb.getSeasonDetails(seriesTmdbId, seasonNumber);
+  const today = new Date().toISOString().split('T')[0];
+  const aired = (season.episodes ?? []).filter((e) => e.air_date && e.air_date <= today);
+  if (aired.length === 0) return;
+
+  await db
+    .insert(episodeProgress)
+    .values(
+      aired.map((e) => ({
+        userId,
+        seriesTmdbId,
+        episodeTmdbId: e.id,
+        seasonNumber,
+        episodeNumber: e.episode_number,
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+/**
+ * Number of watched regular-season episodes per series.
+ */
+export async function getWatchedEpisodeCounts(
+  userId: string,
+  seriesTmdbIds: number[]
+): Promise<Map<number, number>> {
+  if (seriesTmdbIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ seriesTmdbId: episodeProgress.seriesTmdbId, watched: count() })
+    .from(episodeProgress)
+    .where(
+      and(
+        eq(episodeProgress.userId, userId),
+        inArray(episodeProgress.seriesTmdbId, seriesTmdbIds),
+        gt(episodeProgress.seasonNumber, 0)
+      )
+    )
+    .groupBy(episodeProgress.seriesTmdbId);
+
+  return new Map(rows.map((row) => [row.seriesTmdbId, row.watched]));
+}
+
+/**
+ * Admin-configured limit for progress-based series notifications.
+ */
+export async function getMaxEpisodesBehind(): Promise<number> {
+  const [config] = await db
+    .select({ value: notificationConfig.value })
+    .from(notificationConfig)
+    .where(eq(notificationConfig.key, 'series.maxEpisodesBehind'));
+
+  const value = parseInt(config?.value ?? '', 10);
+  return isNaN(value) || value < 0 ? DEFAULT_MAX_EPISODES_BEHIND : value;
+}
+
+/**
+ * Split the recipients of a series notification by their episode progress.
+ * Users who never marked an episode hear about everything, as before;
+ * the others only while at most `maxBehind` episodes behind.
+ * When TMDB can't tell what has aired, everyone is notified.
+ *
+ * @param episode - The new episode; episodes from it on don't count as behind
+ */
+export async function splitByEpisodeProgress<T extends { id: string }>(
+  recipients: T[],
+  seriesTmdbId: number,
+  episode: EpisodeRef | null,
+  maxBehind: number
+): Promise<{ notify: T[]; behind: (T & { episodesBehind: number })[] }> {
+  if (recipients.length === 0) return { notify: [], behind: [] };
+
+  const rows = await db
+    .select({
+      userId: episodeProgress.userId,
+      seasonNumber: episodeProgress.seasonNumber,
+      episodeNumber: episodeProgress.episodeNumber,
+    })
+    .from(episodeProgress)
+    .where(
+      and(
+        eq(episodeProgress.seriesTmdbId, seriesTmdbId),
+        inArray(
+          episodeProgress.userId,
+          recipients.map((r) => r.id)
+        )
+      )
+    );
+  if (rows.length === 0) return { notify: recipients, behind: [] };
+
+  const watchedByUser = new Map<string, EpisodeRef[]>();
+  for (const row of rows) {
+    const watched = watchedByUser.get(row.userId) ?? [];
+    watched.push(row);
+    watchedByUser.set(row.userId, watched);
+  }
+
+  let seasons: AiredSeason[];
+  try {
+    seasons = getAiredSeasons(await tmdb.getTVSeriesDetails(seriesTmdbId));
+  } catch (error) {
+    console.error(`Failed to get series ${seriesTmdbId} for progress targeting:`, error);
+    return { notify: recipients, behind: [] };
+  }
+
+  const notify: T[] = [];
+  const behind: (T & { episodesBehind: number })[] = [];
+
+  for (const recipient of recipients) {
+    const watched = watchedByUser.get(recipient.id);
+    if (!watched) {
+      notify.push(recipient);
+      continue;
+    }
+
+    const episodesBehind = countEpisodesBehind(watched, seasons, episode ?? undefined);
+    if (episodesBehind <= maxBehind) {
+      notify.push(recipient);
+    } else {
+      behind.push({ ...recipient, episodesBehind });
+    }
+  }
+
+  return { notify, behind };
+}
@@ -0,0 +1,69 @@
+/**
+ * Tests for notification digest timing
+ *
+ * Digests go out in the local hour the user's quiet hours end (09:00 without
+ * quiet hours), weekly ones only on Sunday.
+ */
+
+// The db client needs server config; these checks never touch it
+jest.mock('../../db', () => ({ db: {} }));
+
+import { isDigestDue, isWeeklyDigestDue, isDeliveryMode } from '../digest';
+
+const settings = (overrides: Partial<Parameters<typeof isDigestDue>[1]> = {}) => ({
+  deliveryMode: 'daily',
+  timeZone: 'Europe/Berlin',
+  quietHoursEnabled: true,
+  quietHoursStart: 23,
+  quietHoursEnd: 8,
+  ...overrides,
+});
+
+// Thursday 08:15 in Berlin (UTC+1 in winter)
+const thursdayMorning = new Date('2026-01-15T07:15:00Z');
+// Sunday 08:15 in Berlin
+const sundayMorning = new Date('2026-01-18T07:15:00Z');
+
+describe('isDigestDue', () => {
+  it('sends the daily digest as quiet hours end, in the user time zone', () => {
+    expect(isDigestDue(thursdayMorning, settings())).toBe(true);
+    expect(isDigestDue(new Date('2026-01-15T08:15:00Z'), settings())).toBe(false);
+    expect(isDigestDue(thursdayMorning, settings({ timeZone: 'Asia/Tokyo' }))).toBe(false);
+  });
+
+  it('falls back to 09:00 without quiet hours', () => {
+    const noQuietHours = settings({ quietHoursEnabled: false });
+    expect(isDigestDue(thursdayMorning, noQuietHours)).toBe(false);
+    expect(isDigestDue(new Date('2026-01-15T08:15:00Z'), noQuietHours)).toBe(true);
+  });
+
+  it('sends the weekly digest on Sunday only', () => {
+    const weekly = settings({ deliveryMode: 'weekly' });
+    expect(isDigestDue(thursdayMorning, weekly)).toBe(false);
+    expect(isDigestDue(sundayMorning, weekly)).toBe(true);
+  });
+
+  it('flushes leftovers after switching back to instant outside quiet hours', () => {
+    const instant = settings({ deliveryMode: 'instant' });
+    expect(isDigestDue(thursdayMorning, instant)).toBe(true);
+    expect(isDigestDue(new Date('2026-01-15T23:00:00Z'), instant)).toBe(false);
+    expect(isDigestDue(thursdayMorning, null)).toBe(true);
+  });
+});
+
+describe('isWeeklyDigestDue', () => {
+  it('goes out on Sunday in the digest hour, whatever the delivery mode', () => {
+    const instant = settings({ deliveryMode: 'instant' });
+    expect(isWeeklyDigestDue(sundayMorning, instant)).toBe(true);
+    expect(isWeeklyDigestDue(thursdayMorning, instant)).toBe(false);
+    expect(isWeeklyDigestDue(new Date('2026-01-18T11:15:00Z'), instant)).toBe(false);
+  });
+});
+
+describe('isDeliveryMode', () => {
+  it('accepts the known modes only', () => {
+    expect(isDeliveryMode('weekly')).toBe(true);
+    expect(isDeliveryMode('hourly')).toBe(false);
+    expect(isDeliveryMode(null)).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tests for personal quiet hours
+ *
+ * A recipient in their local quiet hours gets the message at the first
+ * :00 or :30 slot after the quiet hours end, in their own time zone.
+ */
+
+// The db client needs server config; these checks never touch it
+jest.mock('../../db', () => ({ db: {} }));
+
+import {
+  isQuietHour,
+  getLocalHour,
+  resolveQuietHours,
+  getNextAllowedTime,
+  partitionByQuietHours,
+} from '../quietHours';
+
+const user = (id: string) => ({ id, telegramId: id.charCodeAt(0), languageCode: null });
+
+describe('isQuietHour', () => {
+  it('handles periods wrapping past midnight', () => {
+    expect(isQuietHour(23, 23, 8)).toBe(true);
+    expect(isQuietHour(3, 23, 8)).toBe(true);
+    expect(isQuietHour(8, 23, 8)).toBe(false);
+    expect(isQuietHour(12, 23, 8)).toBe(false);
+  });
+
+  it('handles daytime periods and empty ones', () => {
+    expect(isQuietHour(14, 13, 15)).toBe(true);
+    expect(isQuietHour(15, 13, 15)).toBe(false);
+    expect(isQuietHour(5, 5, 5)).toBe(false);
+  });
+});
+
+describe('getLocalHour', () => {
+  it('reads the hour in the given time zone', () => {
+    const date = new Date('2026-01-15T21:00:00Z');
+    expect(getLocalHour(date, 'Europe/Moscow')).toBe(0);
+    expect(getLocalHour(date, 'America/New_York')).toBe(16);
+  });
+});
+
+describe('resolveQuietHours', () => {
+  it('falls back to Moscow 23-8 without settings or with a bad zone', () => {
+    const fallback = { timeZone: 'Europe/Moscow', start: 23, end: 8 };
+    expect(resolveQuietHours(null)).toEqual(fallback);
+    expect(
+      resolveQuietHours({
+        timeZone: 'Mars/Olympus',
+        quietHoursEnabled: true,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+      })
+    ).toEqual(fallback);
+  });
+
+  it('is off when the user turned quiet hours off', () => {
+    expect(
+      resolveQuietHours({
+        timeZone: 'Asia/Tokyo',
+        quietHoursEnabled: false,
+        quietHoursStart: 22,
+        quietHoursEnd: 7,
+      })
+    ).toBeNull();
+  });
+});
+
+describe('getNextAllowedTime', () => {
+  const moscow = { timeZone: 'Europe/Moscow', start: 23, end: 8 };
+
+  it('sends right away outside quiet hours', () => {
+    const now = new Date('2026-01-15T10:10:00Z'); // 13:10 MSK
+    expect(getNextAllowedTime(now, moscow)).toBe(now);
+    expect(getNextAllowedTime(now, null)).toBe(now);
+  });
+
+  it('waits for the end of the quiet hours', () => {
+    const now = new Date('2026-01-15T22:10:00Z'); // 01:10 MSK
+    expect(getNextAllowedTime(now, moscow)).toEqual(new Date('2026-01-16T05:00:00Z'));
+  });
+
+  it('lands on the :30 slot for half-hour time zones', () => {
+    const now = new Date('2026-01-15T20:00:00Z'); // 01:30 IST
+    const india = { timeZone: 'Asia/Kolkata', start: 23, end: 8 };
+    expect(getNextAllowedTime(now, india)).toEqual(new Date('2026-01-16T02:30:00Z'));
+  });
+});
+
+describe('partitionByQuietHours', () => {
+  it('defers only the recipients whose local night it is', () => {
+    const now = new Date('2026-01-15T22:00:00Z'); // 01:00 MSK, 17:00 in New York
+    const quietHours = new Map([
+      ['ny', { timeZone: 'America/New_York', start: 23, end: 8 }],
+      ['off', null],
+    ]);
+
+    const { sendNow, deferred } = partitionByQuietHours(
+      [user('ny'), user('off'), user('msk')],
+      quietHours,
+      now
+    );
+
+    expect(sendNow.map((r) => r.id)).toEqual(['ny', 'off']);
+    expect(deferred).toEqual([
+      { recipient: user('msk'), sendAfter: new Date('2026-01-16T05:00:00Z') },
+    ]);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Tests for per-title notification overrides
+ *
+ * A mute drops the user from a title's notifications even with the setting
+ * on; a follow adds them even with it off.
+ */
+
+// The db client needs server config; these checks never touch it
+jest.mock('../../db', () => ({ db: {} }));
+
+import { mergeTitleSubscribers } from '../titleSubscriptions';
+
+const user = (id: string) => ({ id, telegramId: id.charCodeAt(0), languageCode: null });
+
+describe('mergeTitleSubscribers', () => {
+  it('drops muted users and adds followers once', () => {
+    const result = mergeTitleSubscribers(
+      [user('a'), user('b')],
+      [
+        { user: user('b'), state: 'mute' },
+        { user: user('c'), state: 'follow' },
+        { user: user('a'), state: 'follow' },
+      ]
+    );
+
+    expect(result.map((r) => r.id)).toEqual(['a', 'c']);
+  });
+
+  it('keeps everyone without overrides', () => {
+    expect(mergeTitleSubscribers([user('a')], [])).toEqual([user('a')]);
+  });
+});
@@ -0,0 +1,104 @@
+import { db } from '../db';
+import {
+  notificationSettings,
+  notificationDigestItems,
+  DELIVERY_MODE,
+  type DeliveryMode,
+  type NotificationSettings,
+} from '../db/schema';
+import { inArray } from 'drizzle-orm';
+import type { NotificationRecipient } from './titleSubscriptions';
+import {
+  resolveQuietHours,
+  resolveTimeZone,
+  getLocalHour,
+  getNextAllowedTime,
+} from './quietHours';
+
+// Local hour digests go out at for users without quiet hours
+export const DEFAULT_DIGEST_HOUR = 9;
+
+// Weekly digests arrive on Sunday
+const WEEKLY_DIGEST_DAY = 'Sun';
+
+export type DigestSettings = Pick<
+  NotificationSettings,
+  'deliveryMode' | 'timeZone' | 'quietHoursEnabled' | 'quietHoursStart' | 'quietHoursEnd'
+>;
+
+export function isDeliveryMode(value: unknown): value is DeliveryMode {
+  return typeof value === 'string' && (Object.values(DELIVERY_MODE) as string[]).includes(value);
+}
+
+function getLocalWeekday(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short' }).format(date);
+}
+
+/**
+ * Whether the user's collected notifications should go out now. Digests come
+ * in the hour their quiet hours end, weekly ones on Sunday; whatever is left
+ * after switching back to instant goes out as soon as quiet hours allow.
+ */
+export function isDigestDue(now: Date, settings: DigestSettings | null): boolean {
+  const quietHours = resolveQuietHours(settings);
+  const mode = isDeliveryMode(settings?.deliveryMode) ? settings.deliveryMode : DELIVERY_MODE.INSTANT;
+
+  if (mode === DELIVERY_MODE.INSTANT) {
+    return getNextAllowedTime(now, quietHours).getTime() <= now.getTime();
+  }
+
+  const timeZone = resolveTimeZone(settings?.timeZone);
+  const digestHour =
+    quietHours && quietHours.start !== quietHours.end ? quietHours.end : DEFAULT_DIGEST_HOUR;
+
+  if (getLocalHour(now, timeZone) !== digestHour) return false;
+  return mode === DELIVERY_MODE.DAILY || getLocalWeekday(now, timeZone) === WEEKLY_DIGEST_DAY;
+}
+
+/**
+ * Whether a weekly digest of our own (like the episode digest) should go out now:
+ * Sunday in the hour the user's digests arrive, whatever their delivery mode.
+ */
+export function isWeeklyDigestDue(now: Date, settings: Omit<DigestSettings, 'deliveryMode'>): boolean {
+  return isDigestDue(now, { ...settings, deliveryMode: DELIVERY_MODE.WEEKLY });
+}
+
+/**
+ * Recipients split into those messaged per notification and those on a digest.
+ */
+export async function splitByDeliveryMode<T extends NotificationRecipient>(
+  recipients: T[]
+): Promise<{ instant: T[]; digest: T[] }> {
+  if (recipients.length === 0) return { instant: [], digest: [] };
+
+  const settings = await db
+    .select({ userId: notificationSettings.userId, deliveryMode: notificationSettings.deliveryMode })
+    .from(notificationSettings)
+    .where(inArray(notificationSettings.userId, recipients.map((r) => r.id)));
+
+  const digestUsers = new Set(
+    settings
+      .filter((s) => isDeliveryMode(s.deliveryMode) && s.deliveryMode !== DELIVERY_MODE.INSTANT)
+      .map((s) => s.userId)
+  );
+
+  return {
+    instant: recipients.filter((r) => !digestUsers.has(r.id)),
+    digest: recipients.filter((r) => digestUsers.has(r.id)),
+  };
+}
+
+/**
+ * Add a notification to the next digest of each recipient.
+ */
+export async function queueDigestItems(
+  scheduledNotificationId: string,
+  recipients: NotificationRecipient[]
+): Promise<void> {
+  if (recipients.length === 0) return;
+
+  await db
+    .insert(notificationDigestItems)
+    .values(recipients.map((r) => ({ userId: r.id, scheduledNotificationId })))
+    .onConflictDoNothing();
+}
@@ -0,0 +1,154 @@
+import { db } from '../db';
+import { notificationSettings, type NotificationSettings } from '../db/schema';
+import { inArray } from 'drizzle-orm';
+import type { NotificationRecipient } from './titleSubscriptions';
+
+// Users who never opened the Mini App keep the old Moscow schedule
+export const DEFAULT_TIME_ZONE = 'Europe/Moscow';
+export const DEFAULT_QUIET_HOURS_START = 23;
+export const DEFAULT_QUIET_HOURS_END = 8;
+
+// Deferred messages go out on the send-scheduled cron's :00 and :30 runs
+const SLOT_MINUTES = 30;
+
+export interface QuietHours {
+  timeZone: string;
+  start: number; // local hour the quiet period starts at
+  end: number; // local hour it ends at, exclusive
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+}
+
+/**
+ * Hour of the day (0-23) at a moment in the given time zone.
+ */
+export function getLocalHour(date: Date, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).format(date);
+  return parseInt(hour, 10);
+}
+
+/**
+ * Whether a local hour falls in a quiet period; periods can wrap past midnight
+ * (23-8) and an empty one (start == end) is never quiet.
+ */
+export function isQuietHour(hour: number, start: number, end: number): boolean {
+  if (start === end) return false;
+  if (start < end) return hour >= start && hour < end;
+  return hour >= start || hour < end;
+}
+
+/**
+ * The user's time zone, falling back to Moscow when unset or unknown.
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * The user's quiet hours from their settings, null when turned off.
+ */
+export function resolveQuietHours(
+  settings: Pick<
+    NotificationSettings,
+    'timeZone' | 'quietHoursEnabled' | 'quietHoursStart' | 'quietHoursEnd'
+  > | null
+): QuietHours | null {
+  if (settings?.quietHoursEnabled === false) return null;
+
+  return {
+    timeZone: resolveTimeZone(settings?.timeZone),
+    start: settings?.quietHoursStart ?? DEFAULT_QUIET_HOURS_START,
+    end: settings?.quietHoursEnd ?? DEFAULT_QUIET_HOURS_END,
+  };
+}
+
+/**
+ * Earliest moment a message may reach the user: now, or the first cron slot
+ * after their quiet hours end.
+ */
+export function getNextAllowedTime(now: Date, quietHours: QuietHours | null): Date {
+  if (!quietHours) return now;
+
+  const isQuiet = (date: Date) =>
+    isQuietHour(getLocalHour(date, quietHours.timeZone), quietHours.start, quietHours.end);
+
+  if (!isQuiet(now)) return now;
+
+  const slotMs = SLOT_MINUTES * 60 * 1000;
+  let slot = new Date(Math.ceil(now.getTime() / slotMs) * slotMs);
+
+  // A quiet period is shorter than a day, so this always ends within 48 slots
+  for (let i = 0; i < (24 * 60) / SLOT_MINUTES && isQuiet(slot); i++) {
+    slot = new Date(slot.getTime() + slotMs);
+  }
+
+  return slot;
+}
+
+/**
+ * Split recipients into those who can be messaged now and those in their
+ * quiet hours, with the time each of them can be messaged.
+ */
+export function partitionByQuietHours<T extends NotificationRecipient>(
+  recipients: T[],
+  quietHoursByUser: Map<string, QuietHours | null>,
+  now: Date
+): { sendNow: T[]; deferred: { recipient: T; sendAfter: Date }[] } {
+  const sendNow: T[] = [];
+  const deferred: { recipient: T; sendAfter: Date }[] = [];
+
+  for (const recipient of recipients) {
+    // No settings row - the defaults apply
+    const quietHours = quietHoursByUser.has(recipient.id)
+      ? quietHoursByUser.get(recipient.id)!
+      : resolveQuietHours(null);
+    const sendAfter = getNextAllowedTime(now, quietHours);
+
+    if (sendAfter.getTime() <= now.getTime()) {
+      sendNow.push(recipient);
+    } else {
+      deferred.push({ recipient, sendAfter });
+    }
+  }
+
+  return { sendNow, deferred };
+}
+
+/**
+ * Recipients split by their own quiet hours at this moment.
+ */
+export async function splitByQuietHours<T extends NotificationRecipient>(
+  recipients: T[],
+  now: Date = new Date()
+): Promise<{ sendNow: T[]; deferred: { recipient: T; sendAfter: Date }[] }> {
+  if (recipients.length === 0) return { sendNow: [], deferred: [] };
+
+  const settings = await db
+    .select({
+      userId: notificationSettings.userId,
+      timeZone: notificationSettings.timeZone,
+      quietHoursEnabled: notificationSettings.quietHoursEnabled,
+      quietHoursStart: notificationSettings.quietHoursStart,
+      quietHoursEnd: notificationSettings.quietHoursEnd,
+    })
+    .from(notificationSettings)
+    .where(inArray(notificationSettings.userId, recipients.map((r) => r.id)));
+
+  const quietHoursByUser = new Map(settings.map((s) => [s.userId, resolveQuietHours(s)]));
+  return partitionByQuietHours(recipients, quietHoursByUser, now);
+}
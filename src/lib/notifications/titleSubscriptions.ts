@@ -0,0 +1,141 @@
+import { db } from '../db';
+import {
+  titleSubscriptions,
+  notificationSettings,
+  users,
+  NOTIFICATION_TYPE,
+  TITLE_SUBSCRIPTION_STATE,
+  type NotificationType,
+  type NotificationSettings,
+  type TitleSubscriptionState,
+} from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import type { TitleNotificationSetting } from '@/types/titleSubscription';
+
+export interface NotificationRecipient {
+  id: string;
+  telegramId: number;
+  languageCode: string | null;
+}
+
+// Global setting each notification type falls back to
+export const NOTIFICATION_SETTING_COLUMN = {
+  [NOTIFICATION_TYPE.ANNOUNCEMENT]: 'upcomingAnnouncements',
+  [NOTIFICATION_TYPE.THEATRICAL_RELEASE]: 'upcomingTheatricalReleases',
+  [NOTIFICATION_TYPE.DIGITAL_RELEASE]: 'upcomingDigitalReleases',
+  [NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT]: 'seriesSeasonAnnouncements',
+  [NOTIFICATION_TYPE.EPISODE_RELEASE]: 'seriesEpisodeReleases',
+} as const satisfies Partial<Record<NotificationType, keyof NotificationSettings>>;
+
+export type TitleNotificationType = keyof typeof NOTIFICATION_SETTING_COLUMN;
+
+// Notification types a title can be followed or muted for
+export const TITLE_NOTIFICATION_TYPES: Record<'movie' | 'tv', TitleNotificationType[]> = {
+  movie: [NOTIFICATION_TYPE.THEATRICAL_RELEASE, NOTIFICATION_TYPE.DIGITAL_RELEASE],
+  tv: [NOTIFICATION_TYPE.EPISODE_RELEASE, NOTIFICATION_TYPE.SEASON_ANNOUNCEMENT],
+};
+
+export function isTitleNotificationType(value: unknown): value is TitleNotificationType {
+  return typeof value === 'string' && value in NOTIFICATION_SETTING_COLUMN;
+}
+
+/**
+ * Apply per-title overrides to the recipients picked by the global settings:
+ * muted users are dropped, followers are added.
+ */
+export function mergeTitleSubscribers<T extends NotificationRecipient>(
+  recipients: T[],
+  subscribers: { user: NotificationRecipient; state: string }[]
+): NotificationRecipient[] {
+  const muted = new Set(
+    subscribers.filter((s) => s.state === TITLE_SUBSCRIPTION_STATE.MUTE).map((s) => s.user.id)
+  );
+  const result: NotificationRecipient[] = recipients.filter((r) => !muted.has(r.id));
+  const included = new Set(result.map((r) => r.id));
+
+  for (const { user, state } of subscribers) {
+    if (state === TITLE_SUBSCRIPTION_STATE.FOLLOW && !included.has(user.id)) {
+      result.push(user);
+      included.add(user.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Recipients of a title's notification after its follows and mutes.
+ */
+export async function applyTitleSubscriptions<T extends NotificationRecipient>(
+  recipients: T[],
+  tmdbId: number,
+  type: NotificationType
+): Promise<NotificationRecipient[]> {
+  const subscribers = await db
+    .select({
+      user: { id: users.id, telegramId: users.telegramId, languageCode: users.languageCode },
+      state: titleSubscriptions.state,
+    })
+    .from(titleSubscriptions)
+    .innerJoin(users, eq(titleSubscriptions.userId, users.id))
+    .where(and(eq(titleSubscriptions.tmdbId, tmdbId), eq(titleSubscriptions.notificationType, type)));
+
+  return subscribers.length > 0 ? mergeTitleSubscribers(recipients, subscribers) : recipients;
+}
+
+/**
+ * The user's notification types for a title with their overrides.
+ */
+export async function getTitleNotificationSettings(
+  userId: string,
+  tmdbId: number,
+  mediaType: 'movie' | 'tv'
+): Promise<TitleNotificationSetting[]> {
+  const [[settings], subscriptions] = await Promise.all([
+    db.select().from(notificationSettings).where(eq(notificationSettings.userId, userId)),
+    db
+      .select({ type: titleSubscriptions.notificationType, state: titleSubscriptions.state })
+      .from(titleSubscriptions)
+      .where(and(eq(titleSubscriptions.userId, userId), eq(titleSubscriptions.tmdbId, tmdbId))),
+  ]);
+
+  const states = new Map(subscriptions.map((s) => [s.type, s.state as TitleSubscriptionState]));
+
+  return TITLE_NOTIFICATION_TYPES[mediaType].map((type) => ({
+    type,
+    // Settings default to on until the user changes them
+    defaultEnabled: settings?.[NOTIFICATION_SETTING_COLUMN[type]] ?? true,
+    state: states.get(type) ?? null,
+  }));
+}
+
+/**
+ * Follow or mute a title for one notification type; null goes back to the global setting.
+ */
+export async function setTitleSubscription(
+  userId: string,
+  tmdbId: number,
+  type: TitleNotificationType,
+  state: TitleSubscriptionState | null
+): Promise<void> {
+  if (!state) {
+    await db
+      .delete(titleSubscriptions)
+      .where(
+        and(
+          eq(titleSubscriptions.userId, userId),
+          eq(titleSubscriptions.tmdbId, tmdbId),
+          eq(titleSubscriptions.notificationType, type)
+        )
+      );
+    return;
+  }
+
+  await db
+    .insert(titleSubscriptions)
+    .values({ userId, tmdbId, notificationType: type, state })
+    .onConflictDoUpdate({
+      target: [titleSubscriptions.userId, titleSubscriptions.tmdbId, titleSubscriptions.notificationType],
+      set: { state, updatedAt: new Date() },
+    });
+}
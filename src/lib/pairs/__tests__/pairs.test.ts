@@ -0,0 +1,28 @@
+/**
+ * Tests for pair membership helpers
+ */
+
+// The helpers under test never touch the db or external APIs
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../../services/movieService', () => ({ movieService: {} }));
+
+import { orderPair, partnerOf } from '../pairs';
+
+const alice = '1b9d6bcd-bbfd-4b2d-9b5d-ab8dfbbd4bed';
+const bob = '9b2c7e1a-4f3d-4c1e-8a6b-2d5f0e7c3a91';
+
+describe('orderPair', () => {
+  it('returns the same order whoever creates the pair', () => {
+    expect(orderPair(alice, bob)).toEqual([alice, bob]);
+    expect(orderPair(bob, alice)).toEqual([alice, bob]);
+  });
+});
+
+describe('partnerOf', () => {
+  const pair = { userAId: alice, userBId: bob };
+
+  it('returns the other member', () => {
+    expect(partnerOf(pair, alice)).toBe(bob);
+    expect(partnerOf(pair, bob)).toBe(alice);
+  });
+});
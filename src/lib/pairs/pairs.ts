@@ -0,0 +1,356 @@
+import { db } from '../db';
+import {
+  pairs,
+  pairWatchlist,
+  users,
+  movies,
+  roomParticipants,
+  userMovieLists,
+  watchPrompts,
+  MOVIE_STATUS,
+  PAIR_SOURCE,
+  type Pair,
+} from '../db/schema';
+import { and, count, desc, eq, inArray, isNotNull, isNull, ne, or } from 'drizzle-orm';
+import { movieService } from '../services/movieService';
+import {
+  PAIR_CANDIDATE_ROOMS,
+  type PairCandidate,
+  type PairDetail,
+  type PairPartner,
+  type PairSummary,
+  type PairVia,
+  type PairWatchlistItem,
+} from '@/types/pair';
+
+/**
+ * Pair rows store the two user ids in a fixed order.
+ */
+export function orderPair(userId: string, partnerId: string): [string, string] {
+  return userId < partnerId ? [userId, partnerId] : [partnerId, userId];
+}
+
+/**
+ * The other member of a pair.
+ */
+export function partnerOf(pair: Pick<Pair, 'userAId' | 'userBId'>, userId: string): string {
+  return pair.userAId === userId ? pair.userBId : pair.userAId;
+}
+
+function withUser(userId: string) {
+  return or(eq(pairs.userAId, userId), eq(pairs.userBId, userId));
+}
+
+async function getPartners(ids: string[]): Promise<Map<string, PairPartner>> {
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      id: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      username: users.telegramUsername,
+      photoUrl: users.photoUrl,
+    })
+    .from(users)
+    .where(inArray(users.id, ids));
+
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+/**
+ * Get a pair if the user is one of its members.
+ */
+export async function getOwnedPair(userId: string, pairId: string): Promise<Pair | null> {
+  const [pair] = await db
+    .select()
+    .from(pairs)
+    .where(and(eq(pairs.id, pairId), withUser(userId)));
+
+  return pair ?? null;
+}
+
+/**
+ * The user's pairs with their watchlist sizes, newest first.
+ */
+export async function getPairs(userId: string): Promise<PairSummary[]> {
+  const rows = await db
+    .select({ pair: pairs, watchlistCount: count(pairWatchlist.id) })
+    .from(pairs)
+    .leftJoin(pairWatchlist, eq(pairWatchlist.pairId, pairs.id))
+    .where(withUser(userId))
+    .groupBy(pairs.id)
+    .orderBy(desc(pairs.createdAt));
+
+  const partners = await getPartners(rows.map(({ pair }) => partnerOf(pair, userId)));
+
+  return rows.flatMap(({ pair, watchlistCount }) => {
+    const partner = partners.get(partnerOf(pair, userId));
+    return partner ? [{ ...toSummary(pair, partner), watchlistCount }] : [];
+  });
+}
+
+function toSummary(pair: Pair, partner: PairPartner): Omit<PairSummary, 'watchlistCount'> {
+  return {
+    id: pair.id,
+    partner,
+    createdVia: pair.createdVia as PairVia,
+    createdAt: pair.createdAt.toISOString(),
+  };
+}
+
+// Ids of everyone who swiped in one of the user's recent rooms
+async function getRoomPartnerIds(userId: string): Promise<string[]> {
+  const recentRooms = await db
+    .select({ roomId: roomParticipants.roomId })
+    .from(roomParticipants)
+    .where(eq(roomParticipants.userId, userId))
+    .orderBy(desc(roomParticipants.joinedAt))
+    .limit(PAIR_CANDIDATE_ROOMS);
+
+  if (recentRooms.length === 0) return [];
+
+  const members = await db
+    .selectDistinct({ userId: roomParticipants.userId })
+    .from(roomParticipants)
+    .where(
+      and(
+        inArray(
+          roomParticipants.roomId,
+          recentRooms.map((r) => r.roomId)
+        ),
+        isNotNull(roomParticipants.userId),
+        ne(roomParticipants.userId, userId)
+      )
+    );
+
+  return members.map((m) => m.userId!);
+}
+
+// Ids of the user's referrer and the users they referred
+async function getReferralPartnerIds(userId: string): Promise<string[]> {
+  const rows = await db
+    .select({ id: users.id, referredById: users.referredById })
+    .from(users)
+    .where(or(eq(users.id, userId), eq(users.referredById, userId)));
+
+  return rows.flatMap((row) => (row.id === userId ? (row.referredById ?? []) : row.id));
+}
+
+/**
+ * How the two users know each other, or null if they can't pair.
+ * A referral link wins over a shared room.
+ */
+export async function getPairLink(userId: string, partnerId: string): Promise<PairVia | null> {
+  if (userId === partnerId) return null;
+  if ((await getReferralPartnerIds(userId)).includes(partnerId)) return PAIR_SOURCE.REFERRAL;
+  if ((await getRoomPartnerIds(userId)).includes(partnerId)) return PAIR_SOURCE.ROOM;
+  return null;
+}
+
+/**
+ * Users the user can pair with and isn't paired with yet.
+ */
+export async function getPairCandidates(userId: string): Promise<PairCandidate[]> {
+  const [referralIds, roomIds, existing] = await Promise.all([
+    getReferralPartnerIds(userId),
+    getRoomPartnerIds(userId),
+    db.select().from(pairs).where(withUser(userId)),
+  ]);
+
+  const paired = new Set(existing.map((pair) => partnerOf(pair, userId)));
+  const via = new Map<string, PairVia>();
+  for (const id of roomIds) via.set(id, PAIR_SOURCE.ROOM);
+  for (const id of referralIds) via.set(id, PAIR_SOURCE.REFERRAL);
+  for (const id of paired) via.delete(id);
+
+  const partners = await getPartners([...via.keys()]);
+
+  return [...via].flatMap(([id, candidateVia]) => {
+    const partner = partners.get(id);
+    return partner ? [{ partner, via: candidateVia }] : [];
+  });
+}
+
+/**
+ * Link two users. Returns the existing pair if they're already linked.
+ */
+export async function createPair(userId: string, partnerId: string, via: PairVia): Promise<Pair> {
+  const [userAId, userBId] = orderPair(userId, partnerId);
+
+  const [created] = await db
+    .insert(pairs)
+    .values({ userAId, userBId, createdVia: via })
+    .onConflictDoNothing()
+    .returning();
+  if (created) return created;
+
+  const [existing] = await db
+    .select()
+    .from(pairs)
+    .where(and(eq(pairs.userAId, userAId), eq(pairs.userBId, userBId)));
+
+  return existing;
+}
+
+/**
+ * A pair with its shared watchlist, unwatched titles first.
+ */
+export async function getPairDetail(pair: Pair, userId: string): Promise<PairDetail> {
+  const partnerId = partnerOf(pair, userId);
+  const [partners, rows] = await Promise.all([
+    getPartners([partnerId]),
+    db
+      .select({ item: pairWatchlist, movie: movies })
+      .from(pairWatchlist)
+      .leftJoin(movies, eq(pairWatchlist.tmdbId, movies.tmdbId))
+      .where(eq(pairWatchlist.pairId, pair.id))
+      .orderBy(desc(pairWatchlist.addedAt)),
+  ]);
+
+  const whose = (id: string | null): PairWatchlistItem['addedBy'] =>
+    id === userId ? 'me' : id ? 'partner' : null;
+
+  const watchlist = rows.map(({ item, movie }): PairWatchlistItem => ({
+    tmdbId: item.tmdbId,
+    mediaType: movie?.mediaType === 'tv' ? 'tv' : 'movie',
+    title: movie?.title ?? null,
+    titleRu: movie?.titleRu ?? null,
+    posterUrl: movie ? movieService.getPosterUrl(movie, 'w185') : null,
+    releaseDate: movie?.releaseDate ?? null,
+    source: item.source === 'match' ? 'match' : 'manual',
+    addedBy: whose(item.addedById),
+    addedAt: item.addedAt.toISOString(),
+    watchedBy: item.watchedAt ? whose(item.watchedById) : null,
+    watchedAt: item.watchedAt?.toISOString() ?? null,
+  }));
+
+  return {
+    ...toSummary(pair, partners.get(partnerId)!),
+    watchlistCount: watchlist.length,
+    watchlist: [
+      ...watchlist.filter((item) => !item.watchedAt),
+      ...watchlist.filter((item) => item.watchedAt),
+    ],
+  };
+}
+
+/**
+ * Number of titles on a pair's watchlist.
+ */
+export async function countPairWatchlist(pairId: string): Promise<number> {
+  const [result] = await db
+    .select({ total: count() })
+    .from(pairWatchlist)
+    .where(eq(pairWatchlist.pairId, pairId));
+
+  return result?.total ?? 0;
+}
+
+/**
+ * Add a title to a pair's watchlist by hand.
+ * Returns false when the title couldn't be found.
+ */
+export async function addToPairWatchlist(
+  pairId: string,
+  userId: string,
+  tmdbId: number,
+  mediaType?: 'movie' | 'tv'
+): Promise<boolean> {
+  const movie = await movieService.findOrCreate({ tmdbId, mediaType, source: 'tmdb' });
+  if (!movie) return false;
+
+  await db
+    .insert(pairWatchlist)
+    .values({ pairId, tmdbId, unifiedMovieId: movie.id, source: 'manual', addedById: userId })
+    .onConflictDoNothing();
+
+  return true;
+}
+
+/**
+ * Put a room match on the watchlist of every pair that swiped in the room.
+ */
+export async function addMatchToPairWatchlists(roomId: string, tmdbId: number): Promise<void> {
+  const members = await db
+    .selectDistinct({ userId: roomParticipants.userId })
+    .from(roomParticipants)
+    .where(and(eq(roomParticipants.roomId, roomId), isNotNull(roomParticipants.userId)));
+
+  const userIds = members.map((m) => m.userId!);
+  if (userIds.length < 2) return;
+
+  const roomPairs = await db
+    .select({ id: pairs.id })
+    .from(pairs)
+    .where(and(inArray(pairs.userAId, userIds), inArray(pairs.userBId, userIds)));
+  if (roomPairs.length === 0) return;
+
+  // The match screen already cached the title
+  const [movie] = await db
+    .select({ id: movies.id })
+    .from(movies)
+    .where(eq(movies.tmdbId, tmdbId));
+
+  await db
+    .insert(pairWatchlist)
+    .values(
+      roomPairs.map((pair) => ({
+        pairId: pair.id,
+        tmdbId,
+        unifiedMovieId: movie?.id ?? null,
+        source: 'match',
+        roomId,
+      }))
+    )
+    .onConflictDoNothing();
+}
+
+/**
+ * Record that the user watched a title: mark it on their shared watchlists
+ * and ask each partner who hasn't seen it yet through a watch prompt.
+ */
+export async function markPairWatched(userId: string, tmdbId: number): Promise<void> {
+  const userPairs = await db.select().from(pairs).where(withUser(userId));
+  if (userPairs.length === 0) return;
+
+  const marked = await db
+    .update(pairWatchlist)
+    .set({ watchedAt: new Date(), watchedById: userId })
+    .where(
+      and(
+        inArray(
+          pairWatchlist.pairId,
+          userPairs.map((pair) => pair.id)
+        ),
+        eq(pairWatchlist.tmdbId, tmdbId),
+        isNull(pairWatchlist.watchedAt)
+      )
+    )
+    .returning();
+
+  for (const entry of marked) {
+    const pair = userPairs.find((p) => p.id === entry.pairId)!;
+    const partnerId = partnerOf(pair, userId);
+
+    const [seen] = await db
+      .select({ id: userMovieLists.id })
+      .from(userMovieLists)
+      .where(
+        and(
+          eq(userMovieLists.userId, partnerId),
+          eq(userMovieLists.tmdbId, tmdbId),
+          eq(userMovieLists.status, MOVIE_STATUS.WATCHED)
+        )
+      );
+    if (seen) continue;
+
+    await db
+      .insert(watchPrompts)
+      .values({ userId: partnerId, tmdbId, unifiedMovieId: entry.unifiedMovieId })
+      .onConflictDoUpdate({
+        target: [watchPrompts.userId, watchPrompts.tmdbId],
+        set: { promptedAt: new Date(), respondedAt: null, response: null, snoozeUntil: null },
+      });
+  }
+}
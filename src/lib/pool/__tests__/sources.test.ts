@@ -0,0 +1,80 @@
+/**
+ * Tests for movie pool sources
+ *
+ * Rooms mix several sources by weight into one seeded order and
+ * only accept source selections the registry knows about.
+ */
+
+// The db and API clients need env and network; these checks never touch them
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../../api/tmdb', () => ({ tmdb: {} }));
+jest.mock('../../api/kinopoisk', () => ({ kinopoisk: {} }));
+
+import { mixPoolSources } from '../mix';
+import { parsePoolSources } from '../sources';
+import type { PoolItem } from '../../api/moviePool';
+
+const items = (ids: number[], mediaType: 'movie' | 'tv' = 'movie'): PoolItem[] =>
+  ids.map((id) => ({ id, mediaType, genreIds: [], year: null, language: 'en' }));
+
+const range = (from: number, count: number) => Array.from({ length: count }, (_, i) => from + i);
+
+describe('mixPoolSources', () => {
+  it('returns the same order for the same seed', () => {
+    const lists = [
+      { items: items(range(1, 20)), weight: 1 },
+      { items: items(range(100, 20)), weight: 2 },
+    ];
+    expect(mixPoolSources(lists, 42)).toEqual(mixPoolSources(lists, 42));
+    expect(mixPoolSources(lists, 42)).not.toEqual(mixPoolSources(lists, 43));
+  });
+
+  it('keeps every title once, even when several sources have it', () => {
+    const mixed = mixPoolSources(
+      [
+        { items: items([1, 2, 3]), weight: 1 },
+        { items: items([3, 4]), weight: 1 },
+        { items: items([3], 'tv'), weight: 1 },
+      ],
+      7
+    );
+    expect(mixed).toHaveLength(5);
+    expect(new Set(mixed.map((item) => `${item.mediaType}-${item.id}`)).size).toBe(5);
+  });
+
+  it('draws from heavier sources more often', () => {
+    const mixed = mixPoolSources(
+      [
+        { items: items(range(1, 200)), weight: 1 },
+        { items: items(range(1000, 200)), weight: 4 },
+      ],
+      1
+    );
+    const heavyShare = mixed.slice(0, 100).filter((item) => item.id >= 1000).length;
+    expect(heavyShare).toBeGreaterThan(65);
+  });
+});
+
+describe('parsePoolSources', () => {
+  it('accepts known sources with weights', () => {
+    expect(
+      parsePoolSources([
+        { source: 'top_rated', weight: 2 },
+        { source: 'genre', weight: 1, option: '35' },
+      ])
+    ).toEqual([
+      { source: 'top_rated', weight: 2, option: null },
+      { source: 'genre', weight: 1, option: '35' },
+    ]);
+  });
+
+  it('rejects unknown sources, bad weights and missing options', () => {
+    expect(parsePoolSources([])).toBeNull();
+    expect(parsePoolSources([{ source: 'nope', weight: 1 }])).toBeNull();
+    expect(parsePoolSources([{ source: 'popular', weight: 0 }])).toBeNull();
+    expect(parsePoolSources([{ source: 'popular', weight: 1.5 }])).toBeNull();
+    expect(parsePoolSources([{ source: 'genre', weight: 1 }])).toBeNull();
+    expect(parsePoolSources([{ source: 'curated', weight: 1, option: 'not-a-uuid' }])).toBeNull();
+    expect(parsePoolSources([{ source: 'popular', weight: 1, option: '35' }])).toBeNull();
+  });
+});
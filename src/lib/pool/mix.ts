@@ -0,0 +1,40 @@
+import { mulberry32, shuffle } from '../utils/shuffle';
+import type { PoolItem } from '../api/moviePool';
+
+export interface WeightedPoolList {
+  items: PoolItem[];
+  weight: number;
+}
+
+/**
+ * Mix the lists of several pool sources into one seeded order.
+ * Each list is shuffled on its own, then every position is drawn from a list
+ * with probability proportional to its weight, so a source's share of the deck
+ * holds from the first card on. Titles found by several sources appear once.
+ */
+export function mixPoolSources(lists: WeightedPoolList[], seed: number): PoolItem[] {
+  const random = mulberry32(seed);
+  const queues = lists
+    .filter((list) => list.weight > 0)
+    .map((list, i) => ({ items: shuffle(list.items, seed + i + 1), weight: list.weight, next: 0 }));
+
+  const seen = new Set<string>();
+  const mixed: PoolItem[] = [];
+
+  for (;;) {
+    const open = queues.filter((queue) => queue.next < queue.items.length);
+    if (open.length === 0) break;
+
+    let pick = random() * open.reduce((sum, queue) => sum + queue.weight, 0);
+    const queue = open.find((q) => (pick -= q.weight) < 0) ?? open[open.length - 1];
+
+    const item = queue.items[queue.next++];
+    const key = `${item.mediaType}-${item.id}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      mixed.push(item);
+    }
+  }
+
+  return mixed;
+}
@@ -0,0 +1,269 @@
+import { tmdb } from '../api/tmdb';
+import { kinopoisk } from '../api/kinopoisk';
+import { db } from '../db';
+import { poolCollectionItems, type Room } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import type { PoolItem } from '../api/moviePool';
+import type { TMDBMovie, TMDBTVSeries } from '@/types/movie';
+import {
+  DEFAULT_POOL_SOURCES,
+  MIN_POOL_SOURCE_WEIGHT,
+  MAX_POOL_SOURCE_WEIGHT,
+  MAX_POOL_SOURCES,
+  type PoolSourceSelection,
+} from '@/types/pool';
+
+export interface PoolSource {
+  // Titles the source contributes; `option` is set for sources that require one
+  fetchItems: (option: string | null) => Promise<PoolItem[]>;
+  requiresOption?: boolean;
+  isValidOption?: (option: string) => boolean;
+  // Hide the source when it can't work in this environment (e.g. missing API key)
+  isAvailable?: () => boolean;
+}
+
+// Rolling window for the recent releases source
+const RECENT_RELEASE_DAYS = 180;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Lists are cached so rooms sharing a source don't refetch it
+const sourceCache = new Map<string, { items: PoolItem[]; timestamp: number }>();
+const SOURCE_CACHE_TTL = 10 * 60 * 1000; // 10 minutes
+
+function parseYear(date: string | undefined): number | null {
+  const year = parseInt(date?.slice(0, 4) ?? '', 10);
+  return Number.isNaN(year) ? null : year;
+}
+
+function fromTmdbMovie(movie: TMDBMovie): PoolItem {
+  return {
+    id: movie.id,
+    mediaType: 'movie',
+    genreIds: movie.genre_ids ?? [],
+    year: parseYear(movie.release_date),
+    language: movie.original_language,
+  };
+}
+
+function fromTmdbTV(tv: TMDBTVSeries): PoolItem {
+  return {
+    id: tv.id,
+    mediaType: 'tv',
+    genreIds: tv.genre_ids ?? [],
+    year: parseYear(tv.first_air_date),
+    language: tv.original_language,
+  };
+}
+
+// Fetch pages 1..count of a paginated list
+async function fetchPages<T>(count: number, fetchPage: (page: number) => Promise<T[]>) {
+  const pages = await Promise.all(
+    Array.from({ length: count }, (_, i) => fetchPage(i + 1))
+  );
+  return pages.flat();
+}
+
+async function fetchKinopoiskTop(): Promise<PoolItem[]> {
+  const films = await fetchPages(3, (page) => kinopoisk.getTopRated(page));
+  const imdbIds = films.map((f) => f.imdbId).filter((id): id is string => !!id);
+
+  // Kinopoisk ids mean nothing to the deck - resolve each title on TMDB via its IMDb id
+  const items: PoolItem[] = [];
+  for (let i = 0; i < imdbIds.length; i += 10) {
+    const found = await Promise.all(
+      imdbIds.slice(i, i + 10).map((imdbId) => tmdb.findByImdbId(imdbId).catch(() => null))
+    );
+    for (const result of found) {
+      if (result?.movie_results[0]) items.push(fromTmdbMovie(result.movie_results[0]));
+      else if (result?.tv_results[0]) items.push(fromTmdbTV(result.tv_results[0]));
+    }
+  }
+  return items;
+}
+
+async function fetchCollection(collectionId: string | null): Promise<PoolItem[]> {
+  if (!collectionId) return [];
+
+  const rows = await db
+    .select()
+    .from(poolCollectionItems)
+    .where(eq(poolCollectionItems.collectionId, collectionId))
+    .orderBy(asc(poolCollectionItems.position));
+
+  return rows.map((row) => ({
+    id: row.tmdbId,
+    mediaType: row.mediaType === 'tv' ? 'tv' : 'movie',
+    genreIds: null,
+    year: null,
+    language: null,
+  }));
+}
+
+const poolSources = new Map<string, PoolSource>([
+  [
+    'top_rated',
+    {
+      fetchItems: async () => [
+        ...(await fetchPages(5, (page) => tmdb.getTopRated('en-US', page))).map(fromTmdbMovie),
+        ...(await fetchPages(3, (page) => tmdb.getTopRatedTV('en-US', page))).map(fromTmdbTV),
+      ],
+    },
+  ],
+  [
+    'popular',
+    {
+      fetchItems: async () => [
+        ...(await fetchPages(3, (page) => tmdb.getPopular('en-US', page))).map(fromTmdbMovie),
+        ...(await fetchPages(3, (page) => tmdb.getPopularTV('en-US', page))).map(fromTmdbTV),
+      ],
+    },
+  ],
+  [
+    'trending',
+    {
+      fetchItems: async () => [
+        ...(await fetchPages(3, (page) => tmdb.getTrending('en-US', page))).map(fromTmdbMovie),
+        ...(await fetchPages(2, (page) => tmdb.getTrendingTV('en-US', page))).map(fromTmdbTV),
+      ],
+    },
+  ],
+  [
+    'recent_releases',
+    {
+      fetchItems: async () =>
+        (
+          await fetchPages(3, (page) =>
+            tmdb.getRecentReleases('en-US', page, RECENT_RELEASE_DAYS)
+          )
+        ).map(fromTmdbMovie),
+    },
+  ],
+  [
+    'genre',
+    {
+      requiresOption: true,
+      isValidOption: (option) => /^\d+$/.test(option),
+      fetchItems: async (option) => {
+        const genreId = Number(option);
+        const [movieResults, tvResults] = await Promise.all([
+          fetchPages(3, async (page) =>
+            (await tmdb.discoverMovies({ genres: [genreId], sortBy: 'popularity.desc', page }))
+              .results
+          ),
+          // Movie and TV genre ids only partly overlap - TV simply returns nothing for movie-only ids
+          fetchPages(2, async (page) =>
+            (await tmdb.discoverTV({ genres: [genreId], sortBy: 'popularity.desc', page }))
+              .results
+          ),
+        ]);
+        return [...movieResults.map(fromTmdbMovie), ...tvResults.map(fromTmdbTV)];
+      },
+    },
+  ],
+  [
+    'kinopoisk_top',
+    {
+      fetchItems: fetchKinopoiskTop,
+      isAvailable: () => !!process.env.KINOPOISK_API_KEY,
+    },
+  ],
+  [
+    'curated',
+    {
+      requiresOption: true,
+      isValidOption: (option) => UUID_PATTERN.test(option),
+      fetchItems: fetchCollection,
+    },
+  ],
+]);
+
+/**
+ * Register an additional pool source that room creators can pick.
+ */
+export function registerPoolSource(id: string, source: PoolSource) {
+  poolSources.set(id, source);
+}
+
+/**
+ * Sources available in this environment.
+ */
+export function listPoolSources(): { id: string; requiresOption: boolean }[] {
+  return [...poolSources.entries()]
+    .filter(([, source]) => source.isAvailable?.() ?? true)
+    .map(([id, source]) => ({ id, requiresOption: !!source.requiresOption }));
+}
+
+/**
+ * Items of one source (cached). A failing source contributes nothing
+ * rather than breaking the whole deck.
+ */
+export async function getPoolSourceItems(selection: PoolSourceSelection): Promise<PoolItem[]> {
+  const source = poolSources.get(selection.source);
+  if (!source) return [];
+
+  const cacheKey = `${selection.source}:${selection.option ?? ''}`;
+  const cached = sourceCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < SOURCE_CACHE_TTL) {
+    return cached.items;
+  }
+
+  try {
+    const items = await source.fetchItems(selection.option);
+    sourceCache.set(cacheKey, { items, timestamp: Date.now() });
+    return items;
+  } catch (error) {
+    console.error(`Failed to fetch pool source ${cacheKey}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Validate the pool sources from a create-room request.
+ * Returns null when the selection is invalid.
+ */
+export function parsePoolSources(input: unknown): PoolSourceSelection[] | null {
+  if (!Array.isArray(input) || input.length === 0 || input.length > MAX_POOL_SOURCES) {
+    return null;
+  }
+
+  const selections: PoolSourceSelection[] = [];
+  for (const entry of input) {
+    const { source, weight, option = null } = (entry ?? {}) as Record<string, unknown>;
+    const poolSource = typeof source === 'string' ? poolSources.get(source) : undefined;
+
+    if (!poolSource || !(poolSource.isAvailable?.() ?? true)) return null;
+    if (
+      typeof weight !== 'number' ||
+      !Number.isInteger(weight) ||
+      weight < MIN_POOL_SOURCE_WEIGHT ||
+      weight > MAX_POOL_SOURCE_WEIGHT
+    ) {
+      return null;
+    }
+    if (poolSource.requiresOption) {
+      if (typeof option !== 'string' || !(poolSource.isValidOption?.(option) ?? true)) {
+        return null;
+      }
+    } else if (option !== null) {
+      return null;
+    }
+
+    selections.push({ source: source as string, weight, option: option as string | null });
+  }
+
+  return selections;
+}
+
+/**
+ * Sources picked for a room (the defaults for rooms created without a choice).
+ */
+export function getRoomPoolSources(room: Pick<Room, 'poolSources'>): PoolSourceSelection[] {
+  if (!room.poolSources) return DEFAULT_POOL_SOURCES;
+
+  try {
+    return JSON.parse(room.poolSources) as PoolSourceSelection[];
+  } catch {
+    return DEFAULT_POOL_SOURCES;
+  }
+}
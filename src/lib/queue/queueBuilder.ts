@@ -1,25 +1,46 @@
 import { db } from '../db';
 import {
   rooms,
+  roomQueues,
   userMovieLists,
   deckSettings,
   swipes,
   MOVIE_STATUS,
+  type RoomQueue,
+  type NewRoomQueue,
 } from '../db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
-import { generatePaginatedMoviePool, getMoviesByIds, type SupportedLocale } from '../api/moviePool';
+import { eq, and, ne, inArray } from 'drizzle-orm';
+import { enhancePoolItem, getMoviesByIds, type SupportedLocale } from '../api/moviePool';
+import { attachWatchProviders } from '../api/watchProviders';
+import { getParticipants } from '../room/participants';
+import { getCarriedExclusions } from '../room/rematch';
+import { getRoomDeckFilters, matchesPoolItem, matchesMovie } from '../room/deckFilters';
+import {
+  getRoomPool,
+  getRoomPoolChunk,
+  getRoomPoolEntryScores,
+  type BaseDirection,
+  type RoomPoolEntry,
+} from './roomPool';
+import { USER_SLOTS, LIKE_ACTIONS, type UserSlot } from '@/types/room';
 import type { Movie } from '@/types/movie';
 
 export interface QueueItem {
   movie: Movie;
   source: 'priority' | 'base' | 'partner_like';
+  // Predicted chance (0-1) that every signed-in member likes it - only in jointly ranked rooms
+  score?: number;
 }
 
+// Pool positions read per query while walking the base pool
+const POOL_CHUNK_SIZE = 100;
+
 export interface QueueBuildParams {
   roomCode: string;
-  userSlot: 'A' | 'B';
+  userSlot: UserSlot;
   userId?: string;
   limit?: number;
+  // 0 replays the saved traversal from the top (reload, new device); anything else continues it
   offset?: number;
   locale?: SupportedLocale;
 }
@@ -34,6 +55,11 @@ export interface QueueResponse {
   };
 }
 
+/**
+ * Build the next page of a member's queue.
+ * Traversal state (pool position, priority queue, exclusions) is persisted per slot in room_queues,
+ * so each page only walks and enhances the movies it serves.
+ */
 export async function buildQueue(params: QueueBuildParams): Promise<QueueResponse> {
   const { roomCode, userSlot, userId, limit = 20, offset = 0, locale = 'en' } = params;
 
@@ -43,8 +69,11 @@ export async function buildQueue(params: QueueBuildParams): Promise<QueueRespons
     throw new Error('Room not found');
   }
 
-  // Get partner ID
-  const partnerId = userSlot === 'A' ? room.userBId : room.userAId;
+  // Get other members' user IDs (authenticated only)
+  const participants = await getParticipants(room.id);
+  const otherUserIds = participants
+    .filter((p) => p.userSlot !== userSlot && p.userId)
+    .map((p) => p.userId!);
 
   // Get user's deck settings (if authenticated)
   let userDeckSettings = null;
@@ -56,164 +85,253 @@ export async function buildQueue(params: QueueBuildParams): Promise<QueueRespons
     userDeckSettings = settings;
   }
 
+  // Filters every member agreed on (intersection of their deck settings)
+  const filters = await getRoomDeckFilters(room.id);
+
+  // Later pages continue from the saved traversal. The first page (reload, new device) replays
+  // the saved order from the top - swiped titles are skipped, so what was served but never
+  // swiped comes back in the same place.
+  const saved = await loadQueueState(room.id, userSlot);
+  const isReplay = offset === 0;
+
+  // BASE POOL: seeded order, or ranked by the members' joint taste when they are signed in
+  // The pool itself stays unfiltered so slot cursors remain valid when the filters change
+  const pool = await getRoomPool(
+    room,
+    participants.filter((p) => p.userId).map((p) => p.userId!)
+  );
+
+  // Ranked pools are walked from the top by everyone, so the likely matches come first
+  // Otherwise even slots (A, C, ...) walk the pool from the start, odd slots (B, D, ...) from the end
+  const direction: BaseDirection =
+    (saved?.basePoolDirection as BaseDirection | undefined) ??
+    (pool.isRanked || USER_SLOTS.indexOf(userSlot) % 2 === 0 ? 'asc' : 'desc');
+  let baseIndex = saved && !isReplay ? saved.currentBaseIndex : 0;
+  const priorityIds: number[] = saved ? JSON.parse(saved.priorityQueue) : [];
+  let priorityIndex = saved && !isReplay ? saved.priorityQueueIndex : 0;
+
   // Build exclusion set (movies already swiped in this room + user's watched list)
-  const excludeIds = new Set<number>();
+  const excludeIds = new Set<number>(saved ? JSON.parse(saved.excludedIds) : []);
 
-  // Get already swiped movies in this room by this user
-  const userSwipes = await db
-    .select({ movieId: swipes.movieId })
-    .from(swipes)
-    .where(and(eq(swipes.roomId, room.id), eq(swipes.userSlot, userSlot)));
+  if (!saved || isReplay) {
+    // Get already swiped movies in this room by this user
+    const userSwipes = await db
+      .select({ movieId: swipes.movieId })
+      .from(swipes)
+      .where(and(eq(swipes.roomId, room.id), eq(swipes.userSlot, userSlot)));
 
-  userSwipes.forEach((s) => excludeIds.add(s.movieId));
+    userSwipes.forEach((s) => excludeIds.add(s.movieId));
+  }
 
-  // Exclude user's watched movies (unless settings say otherwise)
-  if (userId && (!userDeckSettings || !userDeckSettings.showWatchedMovies)) {
-    const watched = await db
-      .select({ tmdbId: userMovieLists.tmdbId })
-      .from(userMovieLists)
-      .where(
-        and(
-          eq(userMovieLists.userId, userId),
-          eq(userMovieLists.status, MOVIE_STATUS.WATCHED)
-        )
-      );
-    watched.forEach((w) => excludeIds.add(w.tmdbId));
+  if (!saved) {
+    // A rematch skips everything swiped in the earlier rounds
+    getCarriedExclusions(room).forEach((id) => excludeIds.add(id));
+
+    // Exclude user's watched movies (unless settings say otherwise)
+    if (userId && (!userDeckSettings || !userDeckSettings.showWatchedMovies)) {
+      const watched = await db
+        .select({ tmdbId: userMovieLists.tmdbId })
+        .from(userMovieLists)
+        .where(
+          and(
+            eq(userMovieLists.userId, userId),
+            eq(userMovieLists.status, MOVIE_STATUS.WATCHED)
+          )
+        );
+      watched.forEach((w) => excludeIds.add(w.tmdbId));
+    }
+
+    // ...but offers the previous match first, unless it was turned down for tonight
+    if (room.previousMatchId && !excludeIds.has(room.previousMatchId)) {
+      priorityIds.push(room.previousMatchId);
+    }
   }
 
-  const queue: QueueItem[] = [];
+  // Exclude movies other members vetoed in this room (checked every page - vetoes arrive any time)
+  const partnerVetoes = await db
+    .select({ movieId: swipes.movieId })
+    .from(swipes)
+    .where(
+      and(
+        eq(swipes.roomId, room.id),
+        ne(swipes.userSlot, userSlot),
+        eq(swipes.action, 'veto')
+      )
+    );
 
-  // PRIORITY 1: Partner's likes (from swipes in this room)
-  // PRIORITY 2: Partner's "want to watch" list
-  if (partnerId) {
-    // Get partner likes
-    const partnerLikes = await db
-      .select({ movieId: swipes.movieId })
+  partnerVetoes.forEach((v) => excludeIds.add(v.movieId));
+
+  // PRIORITY 1: Other members' likes (from swipes in this room), super-likes first
+  // PRIORITY 2: Other members' "want to watch" lists
+  // Get other members' likes
+  const partnerLikes = (
+    await db
+      .select({ movieId: swipes.movieId, action: swipes.action })
       .from(swipes)
       .where(
         and(
           eq(swipes.roomId, room.id),
-          eq(swipes.userSlot, userSlot === 'A' ? 'B' : 'A'),
-          eq(swipes.action, 'like')
-        )
-      );
-
-    // Get partner's want to watch list
-    const partnerWantToWatch = await db
-      .select({
-        tmdbId: userMovieLists.tmdbId,
-        rating: userMovieLists.rating,
-      })
-      .from(userMovieLists)
-      .where(
-        and(
-          eq(userMovieLists.userId, partnerId),
-          inArray(userMovieLists.status, [
-            MOVIE_STATUS.WANT_TO_WATCH,
-            MOVIE_STATUS.WATCHING,
-          ])
+          ne(swipes.userSlot, userSlot),
+          inArray(swipes.action, [...LIKE_ACTIONS])
         )
-      );
+      )
+  ).sort((a, b) => Number(b.action === 'super_like') - Number(a.action === 'super_like'));
 
-    // Filter want-to-watch by rating if user has minRatingFilter set
-    const filteredWantToWatch = userDeckSettings?.minRatingFilter
-      ? partnerWantToWatch.filter(
-          (m) => m.rating && m.rating >= userDeckSettings.minRatingFilter!
-        )
-      : partnerWantToWatch;
-
-    // Collect all tmdbIds that need movie data (not already excluded)
-    const likeIds = partnerLikes
-      .filter((l) => !excludeIds.has(l.movieId))
-      .map((l) => l.movieId);
-    const wantToWatchIds = filteredWantToWatch
-      .filter((w) => !excludeIds.has(w.tmdbId))
-      .map((w) => w.tmdbId);
-    const allPriorityIds = [...new Set([...likeIds, ...wantToWatchIds])];
-
-    // Batch fetch all priority movies
-    const priorityMoviesMap = await getMoviesByIds(allPriorityIds, locale);
-
-    // Add partner likes to queue (priority 1)
-    for (const like of partnerLikes) {
-      if (!excludeIds.has(like.movieId)) {
-        const movie = priorityMoviesMap.get(like.movieId);
-        if (movie) {
-          queue.push({ movie, source: 'partner_like' });
-          excludeIds.add(like.movieId);
-        }
-      }
-    }
+  // Get other members' want to watch lists
+  const partnerWantToWatch =
+    otherUserIds.length > 0
+      ? await db
+          .select({
+            tmdbId: userMovieLists.tmdbId,
+            rating: userMovieLists.rating,
+          })
+          .from(userMovieLists)
+          .where(
+            and(
+              inArray(userMovieLists.userId, otherUserIds),
+              inArray(userMovieLists.status, [
+                MOVIE_STATUS.WANT_TO_WATCH,
+                MOVIE_STATUS.WATCHING,
+              ])
+            )
+          )
+      : [];
 
-    // Add partner's want-to-watch to queue (priority 2)
-    for (const item of filteredWantToWatch) {
-      if (!excludeIds.has(item.tmdbId)) {
-        const movie = priorityMoviesMap.get(item.tmdbId);
-        if (movie) {
-          queue.push({ movie, source: 'priority' });
-          excludeIds.add(item.tmdbId);
-        }
-      }
+  // Filter want-to-watch by the room's minimum rating
+  const { minRatingFilter } = filters;
+  const filteredWantToWatch = minRatingFilter
+    ? partnerWantToWatch.filter((m) => m.rating && m.rating >= minRatingFilter)
+    : partnerWantToWatch;
+
+  // Append newly found priority movies - already queued ones keep their place
+  const partnerLikeIds = new Set(partnerLikes.map((l) => l.movieId));
+  const queuedPriorityIds = new Set(priorityIds);
+  for (const tmdbId of [...partnerLikeIds, ...filteredWantToWatch.map((w) => w.tmdbId)]) {
+    if (!excludeIds.has(tmdbId) && !queuedPriorityIds.has(tmdbId)) {
+      priorityIds.push(tmdbId);
+      queuedPriorityIds.add(tmdbId);
     }
   }
 
-  // Count priority items
-  const priorityCount = queue.length;
-
-  // Calculate how many base pool items we need
-  const priorityInThisPage = Math.min(priorityCount, Math.max(0, priorityCount - offset));
-  const baseNeeded = limit - priorityInThisPage;
-  const baseOffset = Math.max(0, offset - priorityCount);
-
-  // BASE POOL: Paginated movie pool - only fetch what we need!
-  // Request extra items to account for exclusions
-  const bufferMultiplier = 2;
-  const { movies: basePoolMovies, totalCount, hasMore: poolHasMore } = await generatePaginatedMoviePool(
-    room.moviePoolSeed,
-    0, // Always start from 0, we'll filter and track progress
-    Math.max(baseNeeded * bufferMultiplier, 50), // Fetch enough to cover exclusions
-    'all', // TODO: use userDeckSettings?.mediaTypeFilter
+  const queue: QueueItem[] = [];
+
+  // Serve the next priority movies (batch fetch)
+  const nextPriorityIds = priorityIds.slice(priorityIndex, priorityIndex + limit);
+  priorityIndex += nextPriorityIds.length;
+
+  const priorityMoviesMap = await getMoviesByIds(
+    nextPriorityIds.filter((tmdbId) => !excludeIds.has(tmdbId)),
     locale
   );
+  const priorityScores = pool.isRanked
+    ? await getRoomPoolEntryScores(room.id, nextPriorityIds)
+    : new Map<number, number>();
+
+  // Cards show where to watch, and the availability filter needs the offers
+  await attachWatchProviders([...priorityMoviesMap.values()]);
 
-  // User A goes from start (index 0), User B goes from end
-  const orderedPool = userSlot === 'A' ? basePoolMovies : [...basePoolMovies].reverse();
+  for (const tmdbId of nextPriorityIds) {
+    const movie = priorityMoviesMap.get(tmdbId);
+    if (!movie) continue;
+
+    // Partner likes always come through - they may be a match
+    if (partnerLikeIds.has(tmdbId)) {
+      queue.push({ movie, source: 'partner_like', score: priorityScores.get(tmdbId) });
+    } else if (matchesMovie(movie, filters)) {
+      queue.push({ movie, source: 'priority', score: priorityScores.get(tmdbId) });
+    }
+  }
 
+  // BASE POOL: walk the order from the saved position and enhance only what we serve
+  const baseNeeded = limit - queue.length;
   let basePoolCount = 0;
-  let skipped = 0;
-  for (const movie of orderedPool) {
-    if (!excludeIds.has(movie.tmdbId)) {
-      // Skip items before our offset
-      if (skipped < baseOffset) {
-        skipped++;
-        continue;
-      }
-      queue.push({ movie, source: 'base' });
-      excludeIds.add(movie.tmdbId);
-      basePoolCount++;
 
-      // Stop when we have enough
-      if (basePoolCount >= baseNeeded) {
+  while (basePoolCount < baseNeeded && baseIndex < pool.size) {
+    const batch: RoomPoolEntry[] = [];
+    while (batch.length < baseNeeded - basePoolCount && baseIndex < pool.size) {
+      const chunk = await getRoomPoolChunk(room.id, pool, direction, baseIndex, POOL_CHUNK_SIZE);
+      if (chunk.length === 0) {
+        baseIndex = pool.size;
         break;
       }
+
+      for (const item of chunk) {
+        if (batch.length >= baseNeeded - basePoolCount) break;
+        baseIndex++;
+
+        if (
+          !excludeIds.has(item.id) &&
+          !queuedPriorityIds.has(item.id) &&
+          matchesPoolItem(item, filters)
+        ) {
+          batch.push(item);
+        }
+      }
     }
+
+    // Some items fail to enhance (collections, API errors) - keep walking until the page is full
+    const enhanced = await Promise.all(batch.map((item) => enhancePoolItem(item, locale)));
+    await attachWatchProviders(enhanced.filter((movie): movie is Movie => movie !== null));
+    enhanced.forEach((movie, index) => {
+      // Runtime and offers are only known after enhancement
+      if (movie && matchesMovie(movie, filters)) {
+        queue.push({ movie, source: 'base', score: batch[index].score ?? undefined });
+        basePoolCount++;
+      }
+    });
   }
 
-  // Apply pagination to the final queue
-  const paginatedQueue = queue.slice(offset, offset + limit);
-  const totalRemaining = priorityCount + totalCount - offset;
+  await saveQueueState({
+    roomId: room.id,
+    userSlot,
+    basePoolDirection: direction,
+    currentBaseIndex: baseIndex,
+    priorityQueue: JSON.stringify(priorityIds),
+    priorityQueueIndex: priorityIndex,
+    excludedIds: JSON.stringify([...excludeIds]),
+  });
+
+  const priorityQueueRemaining = priorityIds.length - priorityIndex;
+  const basePoolRemaining = pool.size - baseIndex;
 
   return {
-    movies: paginatedQueue,
+    movies: queue,
     meta: {
-      priorityQueueRemaining: Math.max(0, priorityCount - offset),
-      basePoolRemaining: Math.max(0, totalCount - baseOffset - basePoolCount),
-      totalRemaining: Math.max(0, totalRemaining),
-      hasMore: poolHasMore || basePoolCount >= baseNeeded,
+      priorityQueueRemaining,
+      basePoolRemaining,
+      totalRemaining: priorityQueueRemaining + basePoolRemaining,
+      hasMore: priorityQueueRemaining + basePoolRemaining > 0,
     },
   };
 }
 
+// Traversal state of a member's queue, saved after every page
+async function loadQueueState(roomId: string, userSlot: UserSlot): Promise<RoomQueue | null> {
+  const [state] = await db
+    .select()
+    .from(roomQueues)
+    .where(and(eq(roomQueues.roomId, roomId), eq(roomQueues.userSlot, userSlot)));
+
+  return state ?? null;
+}
+
+async function saveQueueState(state: NewRoomQueue): Promise<void> {
+  await db
+    .insert(roomQueues)
+    .values(state)
+    .onConflictDoUpdate({
+      target: [roomQueues.roomId, roomQueues.userSlot],
+      set: {
+        basePoolDirection: state.basePoolDirection,
+        currentBaseIndex: state.currentBaseIndex,
+        priorityQueue: state.priorityQueue,
+        priorityQueueIndex: state.priorityQueueIndex,
+        excludedIds: state.excludedIds,
+        updatedAt: new Date(),
+      },
+    });
+}
+
 // Inject a partner-liked movie into the queue (for real-time updates)
 export function injectPartnerLike(
   queue: QueueItem[],
@@ -0,0 +1,137 @@
+import { db } from '../db';
+import { rooms, roomPoolItems, type Room, type RoomPoolItem } from '../db/schema';
+import { and, eq, gte, lte, asc, desc, inArray, isNull } from 'drizzle-orm';
+import { getShuffledPoolItems, type PoolItem } from '../api/moviePool';
+import { getRoomPoolSources } from '../pool/sources';
+import { getRoomPoolScores, ROOM_EXPLORE_RATIO } from '../recommender/roomRanking';
+import { rankByTaste } from '../recommender/tasteProfile';
+
+// Rows per insert when storing a pool
+const INSERT_BATCH_SIZE = 500;
+
+export type BaseDirection = 'asc' | 'desc';
+
+export interface RoomPool {
+  size: number;
+  // Ranked by the members' joint taste (otherwise the seeded order)
+  isRanked: boolean;
+}
+
+export type RoomPoolEntry = PoolItem & { score: number | null };
+
+function isRankedPool(poolScores: string | null): boolean {
+  return !!poolScores && poolScores !== '{}';
+}
+
+function toPoolEntry(row: RoomPoolItem): RoomPoolEntry {
+  return {
+    id: row.tmdbId,
+    mediaType: row.mediaType as PoolItem['mediaType'],
+    genreIds: row.genreIds ? (JSON.parse(row.genreIds) as number[]) : null,
+    year: row.year,
+    language: row.language,
+    score: row.score,
+  };
+}
+
+/**
+ * The room's base pool: seeded order, or ranked by the members' joint taste when
+ * they are signed in. Built once at the first queue build and stored in
+ * room_pool_items, so later pages only read the positions they walk.
+ */
+export async function getRoomPool(room: Room, userIds: string[]): Promise<RoomPool> {
+  if (room.poolSize !== null) {
+    return { size: room.poolSize, isRanked: isRankedPool(room.poolScores) };
+  }
+
+  const seededPool = await getShuffledPoolItems(room.moviePoolSeed, 'all', getRoomPoolSources(room));
+  const poolScores = await getRoomPoolScores(room, userIds, seededPool);
+  const pool = poolScores
+    ? rankByTaste(
+        seededPool,
+        (item) => poolScores.get(item.id) ?? 0,
+        ROOM_EXPLORE_RATIO,
+        room.moviePoolSeed
+      )
+    : seededPool;
+
+  // Claiming pool_size first makes concurrent first builds wait for the one that stores the order
+  const stored = await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(rooms)
+      .set({ poolSize: pool.length })
+      .where(and(eq(rooms.id, room.id), isNull(rooms.poolSize)))
+      .returning({ id: rooms.id });
+    if (!claimed) return false;
+
+    for (let i = 0; i < pool.length; i += INSERT_BATCH_SIZE) {
+      await tx.insert(roomPoolItems).values(
+        pool.slice(i, i + INSERT_BATCH_SIZE).map((item, index) => ({
+          roomId: room.id,
+          position: i + index,
+          tmdbId: item.id,
+          mediaType: item.mediaType,
+          genreIds: item.genreIds ? JSON.stringify(item.genreIds) : null,
+          year: item.year,
+          language: item.language,
+          score: poolScores?.get(item.id) ?? null,
+        }))
+      );
+    }
+    return true;
+  });
+  if (stored) return { size: pool.length, isRanked: !!poolScores };
+
+  // Another member's queue got there first - use their order
+  const [current] = await db
+    .select({ poolSize: rooms.poolSize, poolScores: rooms.poolScores })
+    .from(rooms)
+    .where(eq(rooms.id, room.id));
+  return { size: current?.poolSize ?? 0, isRanked: isRankedPool(current?.poolScores ?? null) };
+}
+
+/**
+ * Up to `count` pool entries from a slot's cursor, in the slot's walking direction.
+ */
+export async function getRoomPoolChunk(
+  roomId: string,
+  pool: RoomPool,
+  direction: BaseDirection,
+  fromIndex: number,
+  count: number
+): Promise<RoomPoolEntry[]> {
+  const rows = await db
+    .select()
+    .from(roomPoolItems)
+    .where(
+      and(
+        eq(roomPoolItems.roomId, roomId),
+        direction === 'asc'
+          ? gte(roomPoolItems.position, fromIndex)
+          : lte(roomPoolItems.position, pool.size - 1 - fromIndex)
+      )
+    )
+    .orderBy(direction === 'asc' ? asc(roomPoolItems.position) : desc(roomPoolItems.position))
+    .limit(count);
+
+  return rows.map(toPoolEntry);
+}
+
+/**
+ * Joint scores of the given titles in a ranked room's pool.
+ */
+export async function getRoomPoolEntryScores(
+  roomId: string,
+  tmdbIds: number[]
+): Promise<Map<number, number>> {
+  if (tmdbIds.length === 0) return new Map();
+
+  const rows = await db
+    .select({ tmdbId: roomPoolItems.tmdbId, score: roomPoolItems.score })
+    .from(roomPoolItems)
+    .where(and(eq(roomPoolItems.roomId, roomId), inArray(roomPoolItems.tmdbId, tmdbIds)));
+
+  return new Map(
+    rows.filter((row) => row.score !== null).map((row) => [row.tmdbId, row.score!])
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Tests for the solo taste profile
+ *
+ * Affinities come from reactions to titles; ranking mixes the best
+ * matches with a seeded share of random picks.
+ */
+
+import {
+  learnTasteProfile,
+  scoreTitle,
+  rankByTaste,
+  jointScore,
+  type TasteFeatures,
+} from '../tasteProfile';
+
+const comedy: TasteFeatures = { genreIds: [35], language: 'en', year: 1994, runtime: 95 };
+const horror: TasteFeatures = { genreIds: [27], language: 'ja', year: 2015, runtime: 140 };
+const unknown: TasteFeatures = { genreIds: null, language: null, year: null, runtime: null };
+
+describe('learnTasteProfile', () => {
+  it('learns positive affinities from likes and negative ones from vetoes', () => {
+    const profile = learnTasteProfile([
+      { features: comedy, weight: 1 },
+      { features: comedy, weight: 2 },
+      { features: horror, weight: -1.5 },
+    ]);
+
+    expect(profile.signalCount).toBe(3);
+    expect(profile.affinities['genre:35']).toBeCloseTo(3 / 4);
+    expect(profile.affinities['genre:27']).toBeCloseTo(-1.5 / 3);
+    expect(profile.affinities['decade:1990']).toBeGreaterThan(0);
+    expect(profile.affinities['runtime:long']).toBeLessThan(0);
+  });
+});
+
+describe('scoreTitle', () => {
+  const profile = learnTasteProfile([
+    { features: comedy, weight: 1 },
+    { features: horror, weight: -1 },
+  ]);
+
+  it('scores titles like the liked ones above titles like the disliked ones', () => {
+    expect(scoreTitle(profile, comedy)).toBeGreaterThan(0);
+    expect(scoreTitle(profile, horror)).toBeLessThan(0);
+  });
+
+  it('treats unknown features as neutral', () => {
+    expect(scoreTitle(profile, unknown)).toBe(0);
+  });
+});
+
+describe('rankByTaste', () => {
+  const items = Array.from({ length: 20 }, (_, i) => i);
+  const score = (item: number) => item;
+
+  it('orders purely by score without exploration', () => {
+    expect(rankByTaste(items, score, 0, 42)).toEqual([...items].reverse());
+  });
+
+  it('keeps every item exactly once', () => {
+    const ranked = rankByTaste(items, score, 0.5, 42);
+    expect([...ranked].sort((a, b) => a - b)).toEqual(items);
+  });
+
+  it('is deterministic for a seed', () => {
+    expect(rankByTaste(items, score, 0.3, 7)).toEqual(rankByTaste(items, score, 0.3, 7));
+  });
+});
+
+describe('jointScore', () => {
+  it('is a coin flip for a neutral member', () => {
+    expect(jointScore([0])).toBeCloseTo(0.5);
+  });
+
+  it('prefers titles both members like over ones only one loves', () => {
+    expect(jointScore([0.5, 0.5])).toBeGreaterThan(jointScore([1, -0.5]));
+  });
+});
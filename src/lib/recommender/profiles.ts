@@ -0,0 +1,133 @@
+import { db } from '../db';
+import { movies, userMovieLists, userSwipeHistory, MOVIE_STATUS } from '../db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { tmdb } from '../api/tmdb';
+import type { PoolItem } from '../api/moviePool';
+import {
+  learnTasteProfile,
+  SWIPE_SIGNAL_WEIGHTS,
+  RATING_SIGNAL_WEIGHTS,
+  LISTED_SIGNAL_WEIGHT,
+  type TasteFeatures,
+  type TasteProfile,
+  type TasteSignal,
+} from './tasteProfile';
+
+// The movies table stores genre names in whichever locale cached the title first
+async function getGenreIdsByName(): Promise<Map<string, number>> {
+  const lists = await Promise.all([
+    tmdb.getGenres('en-US'),
+    tmdb.getGenres('ru-RU'),
+    tmdb.getTVGenres('en-US'),
+    tmdb.getTVGenres('ru-RU'),
+  ]);
+  return new Map(lists.flat().map((genre) => [genre.name.toLowerCase(), genre.id]));
+}
+
+function parseYear(date: string | null): number | null {
+  const year = parseInt(date?.slice(0, 4) ?? '', 10);
+  return Number.isNaN(year) ? null : year;
+}
+
+// Features of titles we have cached, keyed by TMDB id
+async function getCachedFeatures(tmdbIds: number[]): Promise<Map<number, TasteFeatures>> {
+  if (tmdbIds.length === 0) return new Map();
+
+  const [rows, genreIdsByName] = await Promise.all([
+    db
+      .select({
+        tmdbId: movies.tmdbId,
+        genres: movies.genres,
+        originalLanguage: movies.originalLanguage,
+        releaseDate: movies.releaseDate,
+        runtime: movies.runtime,
+      })
+      .from(movies)
+      .where(inArray(movies.tmdbId, tmdbIds)),
+    getGenreIdsByName(),
+  ]);
+
+  const features = new Map<number, TasteFeatures>();
+  for (const row of rows) {
+    let genreNames: string[] = [];
+    try {
+      genreNames = row.genres ? JSON.parse(row.genres) : [];
+    } catch {
+      // Unparseable genres count as unknown
+    }
+
+    features.set(row.tmdbId!, {
+      genreIds: genreNames
+        .map((name) => genreIdsByName.get(String(name).toLowerCase()))
+        .filter((id): id is number => id !== undefined),
+      language: row.originalLanguage,
+      year: parseYear(row.releaseDate),
+      runtime: row.runtime,
+    });
+  }
+  return features;
+}
+
+/**
+ * Learn a user's taste from their swipes, lists and star ratings.
+ * Also returns the titles they already reacted to, so the deck can skip them.
+ */
+export async function getTasteProfile(
+  userId: string
+): Promise<{ profile: TasteProfile; seenIds: Set<number> }> {
+  const [history, lists] = await Promise.all([
+    db
+      .select({ tmdbId: userSwipeHistory.tmdbId, action: userSwipeHistory.action })
+      .from(userSwipeHistory)
+      .where(eq(userSwipeHistory.userId, userId)),
+    db
+      .select({
+        tmdbId: userMovieLists.tmdbId,
+        status: userMovieLists.status,
+        rating: userMovieLists.rating,
+      })
+      .from(userMovieLists)
+      .where(eq(userMovieLists.userId, userId)),
+  ]);
+
+  const weights: { tmdbId: number; weight: number }[] = [
+    ...history.map((h) => ({ tmdbId: h.tmdbId, weight: SWIPE_SIGNAL_WEIGHTS[h.action] ?? 0 })),
+    // A star rating says more than the swipe that added the title
+    ...lists.map((l) => ({
+      tmdbId: l.tmdbId,
+      weight: l.rating ? RATING_SIGNAL_WEIGHTS[l.rating] ?? 0 : LISTED_SIGNAL_WEIGHT,
+    })),
+  ];
+
+  const features = await getCachedFeatures([...new Set(weights.map((w) => w.tmdbId))]);
+  const signals: TasteSignal[] = weights
+    .filter((w) => w.weight !== 0 && features.has(w.tmdbId))
+    .map((w) => ({ features: features.get(w.tmdbId)!, weight: w.weight }));
+
+  // Want-to-watch titles are still worth swiping on (in rooms, with a partner)
+  const seenIds = new Set([
+    ...history.map((h) => h.tmdbId),
+    ...lists.filter((l) => l.status === MOVIE_STATUS.WATCHED).map((l) => l.tmdbId),
+  ]);
+
+  return { profile: learnTasteProfile(signals), seenIds };
+}
+
+/**
+ * Features of pool items - list metadata plus the runtime where the title is cached.
+ */
+export async function getPoolItemFeatures(items: PoolItem[]): Promise<Map<number, TasteFeatures>> {
+  const cached = await getCachedFeatures(items.map((item) => item.id));
+
+  return new Map(
+    items.map((item) => [
+      item.id,
+      {
+        genreIds: item.genreIds,
+        language: item.language,
+        year: item.year,
+        runtime: cached.get(item.id)?.runtime ?? null,
+      },
+    ])
+  );
+}
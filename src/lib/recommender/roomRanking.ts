@@ -0,0 +1,70 @@
+import { db } from '../db';
+import { rooms, type Room } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import type { PoolItem } from '../api/moviePool';
+import { getTasteProfile, getPoolItemFeatures } from './profiles';
+import { scoreTitle, jointScore, MIN_TASTE_SIGNALS } from './tasteProfile';
+
+// Share of the ranked room pool still picked at random
+export const ROOM_EXPLORE_RATIO = 0.2;
+
+/**
+ * Joint scores for a pool: how likely every signed-in member is to like each title.
+ * Null when fewer than two members are signed in or nobody has enough history.
+ */
+export async function getJointPoolScores(
+  userIds: string[],
+  items: PoolItem[]
+): Promise<Map<number, number> | null> {
+  if (userIds.length < 2) return null;
+
+  const profiles = (await Promise.all(userIds.map(getTasteProfile))).map((p) => p.profile);
+  const informed = profiles.filter((profile) => profile.signalCount >= MIN_TASTE_SIGNALS);
+  if (informed.length === 0) return null;
+
+  const features = await getPoolItemFeatures(items);
+
+  return new Map(
+    items.map((item) => {
+      const itemFeatures = features.get(item.id)!;
+      const score = jointScore(informed.map((profile) => scoreTitle(profile, itemFeatures)));
+      return [item.id, Math.round(score * 10000) / 10000];
+    })
+  );
+}
+
+function parsePoolScores(value: string): Map<number, number> | null {
+  const entries = Object.entries(JSON.parse(value) as Record<string, number>);
+  return entries.length > 0 ? new Map(entries.map(([id, score]) => [Number(id), score])) : null;
+}
+
+/**
+ * Joint scores the room's base pool is ranked by, or null to keep the seeded order.
+ * Decided on the first queue build and stored on the room, unranked ({}) included -
+ * later sign-ins and swipes change the profiles, but the order and slot directions
+ * have to stay put for the slot cursors in room_queues.
+ */
+export async function getRoomPoolScores(
+  room: Pick<Room, 'id' | 'poolScores'>,
+  userIds: string[],
+  pool: PoolItem[]
+): Promise<Map<number, number> | null> {
+  if (room.poolScores) return parsePoolScores(room.poolScores);
+
+  const scores = await getJointPoolScores(userIds, pool);
+  const poolScores = JSON.stringify(scores ? Object.fromEntries(scores) : {});
+
+  const [saved] = await db
+    .update(rooms)
+    .set({ poolScores })
+    .where(and(eq(rooms.id, room.id), isNull(rooms.poolScores)))
+    .returning({ id: rooms.id });
+  if (saved) return scores;
+
+  // Another member's queue got there first - use their scores
+  const [current] = await db
+    .select({ poolScores: rooms.poolScores })
+    .from(rooms)
+    .where(eq(rooms.id, room.id));
+  return current?.poolScores ? parsePoolScores(current.poolScores) : scores;
+}
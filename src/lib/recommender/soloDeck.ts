@@ -0,0 +1,36 @@
+import { getShuffledPoolItems, type PoolItem } from '../api/moviePool';
+import { getTasteProfile, getPoolItemFeatures } from './profiles';
+import { scoreTitle, rankByTaste, MIN_TASTE_SIGNALS } from './tasteProfile';
+import type { MediaTypeFilter } from '@/types/movie';
+
+/**
+ * Solo deck for a signed-in user: the usual pool without titles they already
+ * reacted to, ranked by their taste profile.
+ *
+ * @param exploreRatio - Share of cards (0-1) picked at random instead of by taste
+ */
+export async function getPersonalizedPoolItems(
+  userId: string,
+  seed: number,
+  mediaTypeFilter: MediaTypeFilter,
+  exploreRatio: number
+): Promise<PoolItem[]> {
+  const [pool, { profile, seenIds }] = await Promise.all([
+    getShuffledPoolItems(seed, mediaTypeFilter),
+    getTasteProfile(userId),
+  ]);
+
+  const candidates = pool.filter((item) => !seenIds.has(item.id));
+
+  // Too little history to go on - keep the seeded order
+  if (profile.signalCount < MIN_TASTE_SIGNALS) return candidates;
+
+  const features = await getPoolItemFeatures(candidates);
+
+  return rankByTaste(
+    candidates,
+    (item) => scoreTitle(profile, features.get(item.id)!),
+    exploreRatio,
+    seed
+  );
+}
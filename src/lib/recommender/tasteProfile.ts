@@ -0,0 +1,149 @@
+import { mulberry32, shuffle } from '../utils/shuffle';
+
+// What the recommender knows about a title - null when unknown
+export interface TasteFeatures {
+  genreIds: number[] | null;
+  language: string | null;
+  year: number | null;
+  runtime: number | null;
+}
+
+// A title the user reacted to and how strongly (positive = liked)
+export interface TasteSignal {
+  features: TasteFeatures;
+  weight: number;
+}
+
+export interface TasteProfile {
+  // Learned affinity per feature key (e.g. 'genre:35', 'decade:1990'), roughly -2..2
+  affinities: Record<string, number>;
+  signalCount: number;
+}
+
+// Signal weights per reaction
+export const SWIPE_SIGNAL_WEIGHTS: Record<string, number> = {
+  like: 1,
+  super_like: 2,
+  skip: -0.3,
+  veto: -1.5,
+};
+export const RATING_SIGNAL_WEIGHTS: Record<number, number> = { 1: -1, 2: 1, 3: 2 };
+// Adding a title to a list without rating it still says something
+export const LISTED_SIGNAL_WEIGHT = 0.5;
+
+// Below this many signals the profile is too thin to rank by
+export const MIN_TASTE_SIGNALS = 5;
+
+// Pseudo-count that pulls rarely seen features towards neutral
+const PRIOR_COUNT = 2;
+
+// How much each dimension contributes to a title's score
+const DIMENSION_WEIGHTS = { genre: 0.5, language: 0.2, decade: 0.2, runtime: 0.1 };
+
+function runtimeBucket(runtime: number): string {
+  if (runtime < 90) return 'short';
+  if (runtime <= 130) return 'medium';
+  return 'long';
+}
+
+function featureKeys(features: TasteFeatures) {
+  return {
+    genre: (features.genreIds ?? []).map((id) => `genre:${id}`),
+    language: features.language ? [`lang:${features.language}`] : [],
+    decade: features.year !== null ? [`decade:${Math.floor(features.year / 10) * 10}`] : [],
+    runtime: features.runtime ? [`runtime:${runtimeBucket(features.runtime)}`] : [],
+  };
+}
+
+/**
+ * Learn feature affinities from the user's reactions.
+ */
+export function learnTasteProfile(signals: TasteSignal[]): TasteProfile {
+  const totals = new Map<string, { sum: number; count: number }>();
+
+  for (const { features, weight } of signals) {
+    for (const key of Object.values(featureKeys(features)).flat()) {
+      const total = totals.get(key) ?? { sum: 0, count: 0 };
+      total.sum += weight;
+      total.count++;
+      totals.set(key, total);
+    }
+  }
+
+  const affinities: Record<string, number> = {};
+  for (const [key, { sum, count }] of totals) {
+    affinities[key] = sum / (count + PRIOR_COUNT);
+  }
+
+  return { affinities, signalCount: signals.length };
+}
+
+/**
+ * How well a title fits the profile (0 = neutral or unknown).
+ */
+export function scoreTitle(profile: TasteProfile, features: TasteFeatures): number {
+  const keys = featureKeys(features);
+
+  return (Object.keys(DIMENSION_WEIGHTS) as (keyof typeof DIMENSION_WEIGHTS)[]).reduce(
+    (score, dimension) => {
+      const dimensionKeys = keys[dimension];
+      if (dimensionKeys.length === 0) return score;
+
+      const mean =
+        dimensionKeys.reduce((sum, key) => sum + (profile.affinities[key] ?? 0), 0) /
+        dimensionKeys.length;
+      return score + DIMENSION_WEIGHTS[dimension] * mean;
+    },
+    0
+  );
+}
+
+/**
+ * Order titles for the deck: each card is the best remaining match (exploit),
+ * or with probability `exploreRatio` the next title in seeded random order (explore),
+ * so the deck keeps surfacing things outside the learned taste.
+ */
+export function rankByTaste<T>(
+  items: T[],
+  score: (item: T) => number,
+  exploreRatio: number,
+  seed: number
+): T[] {
+  // Shuffle first so equal scores don't always come out in list order
+  const explore = shuffle(items, seed);
+  const exploit = explore
+    .map((item, index) => ({ item, index, score: score(item) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+
+  const random = mulberry32(seed + 1);
+  const used = new Set<T>();
+  const ranked: T[] = [];
+  let exploreIndex = 0;
+  let exploitIndex = 0;
+
+  while (ranked.length < items.length) {
+    const fromExplore = random() < exploreRatio;
+    const source = fromExplore ? explore : exploit;
+    let index = fromExplore ? exploreIndex : exploitIndex;
+
+    while (used.has(source[index])) index++;
+    used.add(source[index]);
+    ranked.push(source[index]);
+
+    if (fromExplore) exploreIndex = index + 1;
+    else exploitIndex = index + 1;
+  }
+
+  return ranked;
+}
+
+// Steepness of the score -> like-probability curve
+const LIKE_CURVE = 4;
+
+/**
+ * Predicted chance (0-1) that everyone likes a title, from each member's score.
+ */
+export function jointScore(scores: number[]): number {
+  return scores.reduce((chance, score) => chance / (1 + Math.exp(-LIKE_CURVE * score)), 1);
+}
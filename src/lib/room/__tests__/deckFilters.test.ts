@@ -0,0 +1,141 @@
+/**
+ * Tests for deck filter negotiation
+ *
+ * Each member's filters narrow the room deck; filters the members have
+ * nothing in common on are dropped and reported as conflicts.
+ */
+
+// The db and TMDB clients need server config; negotiation never touches them
+jest.mock('../../db', () => ({ db: {} }));
+jest.mock('../../api/tmdb', () => ({ tmdb: {} }));
+
+import { negotiateDeckFilters, matchesPoolItem, matchesMovie } from '../deckFilters';
+import { DEFAULT_DECK_FILTERS, type DeckFilters } from '@/types/deck';
+import type { Movie } from '@/types/movie';
+
+const filters = (overrides: Partial<DeckFilters>): DeckFilters => ({
+  ...DEFAULT_DECK_FILTERS,
+  ...overrides,
+});
+
+describe('negotiateDeckFilters', () => {
+  it('uses the defaults when nobody set filters', () => {
+    expect(negotiateDeckFilters([])).toEqual({ ...DEFAULT_DECK_FILTERS, conflicts: [] });
+  });
+
+  it('lets a specific media type win over "all"', () => {
+    const result = negotiateDeckFilters([
+      filters({ mediaTypeFilter: 'all' }),
+      filters({ mediaTypeFilter: 'tv' }),
+    ]);
+    expect(result.mediaTypeFilter).toBe('tv');
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('drops conflicting media types', () => {
+    const result = negotiateDeckFilters([
+      filters({ mediaTypeFilter: 'movie' }),
+      filters({ mediaTypeFilter: 'tv' }),
+    ]);
+    expect(result.mediaTypeFilter).toBe('all');
+    expect(result.conflicts).toEqual(['mediaTypeFilter']);
+  });
+
+  it('intersects genres and languages, ignoring members without a preference', () => {
+    const result = negotiateDeckFilters([
+      filters({ genreIds: [18, 35, 80], languages: ['en', 'fr'] }),
+      filters({ genreIds: [35, 80, 99] }),
+      filters({ languages: ['fr', 'ko'] }),
+    ]);
+    expect(result.genreIds).toEqual([35, 80]);
+    expect(result.languages).toEqual(['fr']);
+  });
+
+  it('drops genres with nothing in common', () => {
+    const result = negotiateDeckFilters([filters({ genreIds: [18] }), filters({ genreIds: [35] })]);
+    expect(result.genreIds).toEqual([]);
+    expect(result.conflicts).toEqual(['genreIds']);
+  });
+
+  it('narrows the year range and drops ranges that do not overlap', () => {
+    expect(
+      negotiateDeckFilters([
+        filters({ minYear: 1990, maxYear: 2010 }),
+        filters({ minYear: 2000 }),
+      ])
+    ).toMatchObject({ minYear: 2000, maxYear: 2010, conflicts: [] });
+
+    expect(
+      negotiateDeckFilters([filters({ maxYear: 1980 }), filters({ minYear: 2000 })])
+    ).toMatchObject({ minYear: null, maxYear: null, conflicts: ['minYear', 'maxYear'] });
+  });
+
+  it('takes the strictest rating and runtime limits', () => {
+    const result = negotiateDeckFilters([
+      filters({ minRatingFilter: 2, maxRuntime: 150 }),
+      filters({ minRatingFilter: 3, maxRuntime: 90 }),
+      filters({}),
+    ]);
+    expect(result.minRatingFilter).toBe(3);
+    expect(result.maxRuntime).toBe(90);
+  });
+
+  it("pools the members' services when they share a region", () => {
+    const result = negotiateDeckFilters([
+      filters({ availableOn: { region: 'US', providerIds: [8, 337] } }),
+      filters({ availableOn: { region: 'US', providerIds: [337, 9] } }),
+      filters({}),
+    ]);
+    expect(result.availableOn).toEqual({ region: 'US', providerIds: [8, 337, 9] });
+  });
+
+  it('drops availability across regions', () => {
+    const result = negotiateDeckFilters([
+      filters({ availableOn: { region: 'US', providerIds: [8] } }),
+      filters({ availableOn: { region: 'RU', providerIds: [115] } }),
+    ]);
+    expect(result.availableOn).toBeNull();
+    expect(result.conflicts).toEqual(['availableOn']);
+  });
+});
+
+describe('matchesPoolItem', () => {
+  const item = { id: 1, mediaType: 'movie' as const, genreIds: [18, 35], year: 2005, language: 'en' };
+
+  it('passes everything without filters', () => {
+    expect(matchesPoolItem(item, DEFAULT_DECK_FILTERS)).toBe(true);
+  });
+
+  it('checks media type, genres, language and year', () => {
+    expect(matchesPoolItem(item, filters({ mediaTypeFilter: 'tv' }))).toBe(false);
+    expect(matchesPoolItem(item, filters({ genreIds: [35, 99] }))).toBe(true);
+    expect(matchesPoolItem(item, filters({ genreIds: [99] }))).toBe(false);
+    expect(matchesPoolItem(item, filters({ languages: ['ko'] }))).toBe(false);
+    expect(matchesPoolItem(item, filters({ minYear: 2010 }))).toBe(false);
+    expect(matchesPoolItem({ ...item, year: null }, filters({ minYear: 2010 }))).toBe(true);
+  });
+});
+
+describe('matchesMovie', () => {
+  const movie = { mediaType: 'movie', releaseDate: '1999-03-31', runtime: 136 } as Movie;
+
+  it('checks runtime and release year', () => {
+    expect(matchesMovie(movie, filters({ maxRuntime: 150 }))).toBe(true);
+    expect(matchesMovie(movie, filters({ maxRuntime: 120 }))).toBe(false);
+    expect(matchesMovie(movie, filters({ maxYear: 1995 }))).toBe(false);
+    expect(matchesMovie({ ...movie, runtime: null }, filters({ maxRuntime: 90 }))).toBe(true);
+  });
+
+  it('checks availability when the offers are known', () => {
+    const availableOn = { region: 'US' as const, providerIds: [8] };
+    const onNetflix = {
+      ...movie,
+      watchProviders: {
+        US: { link: null, providers: [{ id: 8, name: 'Netflix', logoPath: null, types: ['flatrate' as const] }] },
+      },
+    };
+    expect(matchesMovie(onNetflix, filters({ availableOn }))).toBe(true);
+    expect(matchesMovie({ ...movie, watchProviders: {} }, filters({ availableOn }))).toBe(false);
+    expect(matchesMovie(movie, filters({ availableOn }))).toBe(true);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for room expiry checks
+ *
+ * expiresAt is the source of truth - a room past it counts as expired
+ * even before the sweeper has flipped its status.
+ */
+
+// The db client needs DATABASE_URL; these checks never touch it
+jest.mock('../../db', () => ({ db: {} }));
+
+import { getMatchExpiry, isRoomExpired, MATCH_TTL_MS } from '../lifecycle';
+
+describe('isRoomExpired', () => {
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  it('treats the expired status as expired', () => {
+    expect(isRoomExpired({ status: 'expired', expiresAt: null }, now)).toBe(true);
+  });
+
+  it('treats a passed expiresAt as expired before the sweeper runs', () => {
+    const expiresAt = new Date(now.getTime() - 1000);
+    expect(isRoomExpired({ status: 'matched', expiresAt }, now)).toBe(true);
+  });
+
+  it('keeps rooms open until expiresAt', () => {
+    const expiresAt = new Date(now.getTime() + 1000);
+    expect(isRoomExpired({ status: 'matched', expiresAt }, now)).toBe(false);
+    expect(isRoomExpired({ status: 'active', expiresAt: null }, now)).toBe(false);
+  });
+});
+
+describe('getMatchExpiry', () => {
+  it('expires matched rooms after the match TTL', () => {
+    const now = new Date('2025-01-01T12:00:00Z');
+    expect(getMatchExpiry(now).getTime() - now.getTime()).toBe(MATCH_TTL_MS);
+  });
+});
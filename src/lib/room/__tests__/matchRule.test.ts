@@ -0,0 +1,119 @@
+/**
+ * Tests for group room match rules
+ *
+ * Pair rooms always match on two likes; group rooms can require everyone,
+ * a simple majority, or a fixed number of likes.
+ */
+
+import { getRequiredLikes, isMatch, parseRoomSettings } from '../matchRule';
+
+describe('getRequiredLikes', () => {
+  it('requires every participant for unanimous rooms', () => {
+    expect(getRequiredLikes('unanimous', 2, null)).toBe(2);
+    expect(getRequiredLikes('unanimous', 5, null)).toBe(5);
+  });
+
+  it('requires more than half for majority rooms', () => {
+    expect(getRequiredLikes('majority', 3, null)).toBe(2);
+    expect(getRequiredLikes('majority', 4, null)).toBe(3);
+    expect(getRequiredLikes('majority', 8, null)).toBe(5);
+  });
+
+  it('clamps the N-of-M threshold to the participant count', () => {
+    expect(getRequiredLikes('n_of_m', 6, 3)).toBe(3);
+    expect(getRequiredLikes('n_of_m', 3, 5)).toBe(3);
+    expect(getRequiredLikes('n_of_m', 4, null)).toBe(4);
+  });
+});
+
+describe('isMatch', () => {
+  it('matches a pair room only when both liked', () => {
+    expect(isMatch(1, 'unanimous', 2, null)).toBe(false);
+    expect(isMatch(2, 'unanimous', 2, null)).toBe(true);
+  });
+
+  it('never matches on a single like', () => {
+    // Majority of a room with one connected participant would be 1
+    expect(isMatch(1, 'majority', 1, null)).toBe(false);
+  });
+
+  it('applies the room rule for groups', () => {
+    expect(isMatch(3, 'unanimous', 4, null)).toBe(false);
+    expect(isMatch(3, 'majority', 4, null)).toBe(true);
+    expect(isMatch(2, 'n_of_m', 6, 2)).toBe(true);
+  });
+
+  it('counts super-likes double', () => {
+    expect(isMatch(2, 'unanimous', 3, null, 1)).toBe(true);
+    expect(isMatch(2, 'majority', 5, null, 0)).toBe(false);
+    expect(isMatch(2, 'majority', 5, null, 1)).toBe(true);
+  });
+
+  it('never lets a lone super-like match', () => {
+    expect(isMatch(1, 'unanimous', 2, null, 1)).toBe(false);
+  });
+});
+
+describe('parseRoomSettings', () => {
+  it('defaults to a unanimous pair room', () => {
+    expect(parseRoomSettings({})).toEqual({
+      maxParticipants: 2,
+      matchRule: 'unanimous',
+      matchThreshold: null,
+      matchMode: 'single',
+      shortlistSize: null,
+      swipeBudget: null,
+    });
+  });
+
+  it('drops the threshold for rules that do not use it', () => {
+    expect(parseRoomSettings({ maxParticipants: 5, matchRule: 'majority', matchThreshold: 3 })).toEqual({
+      maxParticipants: 5,
+      matchRule: 'majority',
+      matchThreshold: null,
+      matchMode: 'single',
+      shortlistSize: null,
+      swipeBudget: null,
+    });
+  });
+
+  it('rejects out-of-range group sizes and unknown rules', () => {
+    expect(parseRoomSettings({ maxParticipants: 1 })).toBeNull();
+    expect(parseRoomSettings({ maxParticipants: 9 })).toBeNull();
+    expect(parseRoomSettings({ maxParticipants: 3.5 })).toBeNull();
+    expect(parseRoomSettings({ matchRule: 'anyone' })).toBeNull();
+  });
+
+  it('requires a valid threshold for N-of-M rooms', () => {
+    expect(parseRoomSettings({ maxParticipants: 5, matchRule: 'n_of_m' })).toBeNull();
+    expect(parseRoomSettings({ maxParticipants: 5, matchRule: 'n_of_m', matchThreshold: 6 })).toBeNull();
+    expect(parseRoomSettings({ maxParticipants: 5, matchRule: 'n_of_m', matchThreshold: 3 })).toMatchObject({
+      maxParticipants: 5,
+      matchRule: 'n_of_m',
+      matchThreshold: 3,
+    });
+  });
+
+  it('fills shortlist defaults and validates shortlist options', () => {
+    expect(parseRoomSettings({ matchMode: 'shortlist' })).toMatchObject({
+      matchMode: 'shortlist',
+      shortlistSize: 3,
+      swipeBudget: null,
+    });
+    expect(parseRoomSettings({ matchMode: 'shortlist', shortlistSize: 5, swipeBudget: 50 })).toMatchObject({
+      shortlistSize: 5,
+      swipeBudget: 50,
+    });
+    expect(parseRoomSettings({ matchMode: 'shortlist', shortlistSize: 1 })).toBeNull();
+    expect(parseRoomSettings({ matchMode: 'shortlist', swipeBudget: 0 })).toBeNull();
+    expect(parseRoomSettings({ matchMode: 'bracket' })).toBeNull();
+  });
+
+  it('ignores shortlist options for single-match rooms', () => {
+    expect(parseRoomSettings({ shortlistSize: 5, swipeBudget: 50 })).toMatchObject({
+      matchMode: 'single',
+      shortlistSize: null,
+      swipeBudget: null,
+    });
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for rematch exclusions
+ *
+ * A rematch skips everything swiped in the earlier rounds. The previous
+ * match is offered again unless it was turned down for tonight.
+ */
+
+// The db client needs DATABASE_URL; these checks never touch it
+jest.mock('../../db', () => ({ db: {} }));
+
+import { buildCarriedExclusions, getCarriedExclusions } from '../rematch';
+
+describe('buildCarriedExclusions', () => {
+  it('carries the earlier rounds and this round without duplicates', () => {
+    expect(buildCarriedExclusions([1, 2], [2, 3], null, false)).toEqual([1, 2, 3]);
+  });
+
+  it('keeps the previous match in play', () => {
+    expect(buildCarriedExclusions([1], [1, 5], 5, false)).toEqual([1]);
+  });
+
+  it('excludes the previous match when it was turned down', () => {
+    expect(buildCarriedExclusions([1], [1], 5, true)).toEqual([1, 5]);
+  });
+});
+
+describe('getCarriedExclusions', () => {
+  it('reads the stored ids', () => {
+    expect(getCarriedExclusions({ carriedExclusions: '[3,4]' })).toEqual([3, 4]);
+  });
+
+  it('treats missing or broken values as nothing carried', () => {
+    expect(getCarriedExclusions({ carriedExclusions: null })).toEqual([]);
+    expect(getCarriedExclusions({ carriedExclusions: 'oops' })).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Tests for room tickets
+ *
+ * The socket handshake trusts only what a valid ticket says about the member.
+ */
+
+import jwt from 'jsonwebtoken';
+import { createRoomTicket, verifyRoomTicket, type RoomTicketPayload } from '../ticket';
+
+const payload: RoomTicketPayload = {
+  roomId: 'room-1',
+  roomCode: 'ABC123',
+  userSlot: 'B',
+  userId: null,
+};
+
+describe('room tickets', () => {
+  it('round-trips the member identity', () => {
+    expect(verifyRoomTicket(createRoomTicket(payload))).toEqual(payload);
+  });
+
+  it('rejects tampered tickets', () => {
+    const [header, , signature] = createRoomTicket(payload).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...payload, userSlot: 'A' })).toString('base64url');
+    expect(verifyRoomTicket(`${header}.${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects tokens issued for another audience', () => {
+    const authToken = jwt.sign(payload, process.env.JWT_SECRET || 'dev-secret-change-in-production');
+    expect(verifyRoomTicket(authToken)).toBeNull();
+  });
+
+  it('rejects missing tickets', () => {
+    expect(verifyRoomTicket(undefined)).toBeNull();
+    expect(verifyRoomTicket('')).toBeNull();
+  });
+});
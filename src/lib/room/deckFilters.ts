@@ -0,0 +1,205 @@
+import { db } from '../db';
+import { deckSettings, notificationSettings, type DeckSettings } from '../db/schema';
+import { inArray } from 'drizzle-orm';
+import { getParticipants } from './participants';
+import { isAvailableOn } from '../api/watchProviders';
+import type { PoolItem } from '../api/moviePool';
+import type { Movie, MediaTypeFilter, WatchRegion } from '@/types/movie';
+import {
+  DEFAULT_DECK_FILTERS,
+  type DeckFilters,
+  type DeckFilterKey,
+  type NegotiatedDeckFilters,
+  type WatchAvailability,
+} from '@/types/deck';
+
+/**
+ * Read a member's deck filters from their stored settings (defaults when none are saved).
+ * The availability filter needs the member's region to look offers up in.
+ */
+export function toDeckFilters(
+  settings: DeckSettings | null | undefined,
+  region: WatchRegion | null = null
+): DeckFilters {
+  if (!settings) return DEFAULT_DECK_FILTERS;
+
+  const providerIds = parseJsonArray<number>(settings.watchProviderIds);
+
+  return {
+    mediaTypeFilter: (settings.mediaTypeFilter as MediaTypeFilter | null) ?? 'all',
+    minRatingFilter: settings.minRatingFilter,
+    genreIds: parseJsonArray<number>(settings.genreIds),
+    minYear: settings.minYear,
+    maxYear: settings.maxYear,
+    maxRuntime: settings.maxRuntime,
+    languages: parseJsonArray<string>(settings.languages),
+    availableOn:
+      settings.availableOnly && region && providerIds.length > 0 ? { region, providerIds } : null,
+  };
+}
+
+/**
+ * Combine the members' filters into one set everybody agrees on.
+ * Each filter narrows to the intersection; when that is empty the filter is dropped
+ * and reported as a conflict instead of leaving the room with nothing to swipe.
+ */
+export function negotiateDeckFilters(members: DeckFilters[]): NegotiatedDeckFilters {
+  const conflicts: DeckFilterKey[] = [];
+
+  // Media type: 'all' defers to the other members, 'movie' vs 'tv' conflicts
+  const mediaTypes = new Set(members.map((m) => m.mediaTypeFilter).filter((t) => t !== 'all'));
+  let mediaTypeFilter: MediaTypeFilter = 'all';
+  if (mediaTypes.size === 1) {
+    [mediaTypeFilter] = mediaTypes;
+  } else if (mediaTypes.size > 1) {
+    conflicts.push('mediaTypeFilter');
+  }
+
+  const genreIds = intersect(members.map((m) => m.genreIds));
+  if (genreIds === null) conflicts.push('genreIds');
+
+  const languages = intersect(members.map((m) => m.languages));
+  if (languages === null) conflicts.push('languages');
+
+  // Year range: latest start and earliest end
+  let minYear = maxOf(members.map((m) => m.minYear));
+  let maxYear = minOf(members.map((m) => m.maxYear));
+  if (minYear !== null && maxYear !== null && minYear > maxYear) {
+    conflicts.push('minYear', 'maxYear');
+    minYear = null;
+    maxYear = null;
+  }
+
+  // Availability: the room can watch on any member's services, but offers differ by region
+  const availabilities = members
+    .map((m) => m.availableOn)
+    .filter((a): a is WatchAvailability => a !== null);
+  let availableOn: WatchAvailability | null = null;
+  if (new Set(availabilities.map((a) => a.region)).size > 1) {
+    conflicts.push('availableOn');
+  } else if (availabilities.length > 0) {
+    availableOn = {
+      region: availabilities[0].region,
+      providerIds: [...new Set(availabilities.flatMap((a) => a.providerIds))],
+    };
+  }
+
+  return {
+    mediaTypeFilter,
+    // Strictest rating and runtime limits always have something in common
+    minRatingFilter: maxOf(members.map((m) => m.minRatingFilter)),
+    genreIds: genreIds ?? [],
+    minYear,
+    maxYear,
+    maxRuntime: minOf(members.map((m) => m.maxRuntime)),
+    languages: languages ?? [],
+    availableOn,
+    conflicts,
+  };
+}
+
+/**
+ * Negotiated filters for a room, from the settings of its signed-in members.
+ */
+export async function getRoomDeckFilters(roomId: string): Promise<NegotiatedDeckFilters> {
+  const participants = await getParticipants(roomId);
+  const userIds = participants.filter((p) => p.userId).map((p) => p.userId!);
+
+  if (userIds.length === 0) return negotiateDeckFilters([]);
+
+  const [settings, regions] = await Promise.all([
+    db.select().from(deckSettings).where(inArray(deckSettings.userId, userIds)),
+    db
+      .select({
+        userId: notificationSettings.userId,
+        region: notificationSettings.preferredReleaseRegion,
+      })
+      .from(notificationSettings)
+      .where(inArray(notificationSettings.userId, userIds)),
+  ]);
+
+  const regionByUser = new Map(regions.map((r) => [r.userId, r.region as WatchRegion | null]));
+
+  return negotiateDeckFilters(
+    settings.map((s) => toDeckFilters(s, regionByUser.get(s.userId) ?? 'US'))
+  );
+}
+
+/**
+ * Check a pool item against the filters using its list metadata (before enhancement).
+ */
+export function matchesPoolItem(item: PoolItem, filters: DeckFilters): boolean {
+  if (filters.mediaTypeFilter !== 'all' && item.mediaType !== filters.mediaTypeFilter) return false;
+  // Unknown metadata passes, like unknown years
+  if (
+    filters.genreIds.length > 0 &&
+    item.genreIds &&
+    !item.genreIds.some((id) => filters.genreIds.includes(id))
+  ) {
+    return false;
+  }
+  if (filters.languages.length > 0 && item.language && !filters.languages.includes(item.language)) {
+    return false;
+  }
+  return isYearInRange(item.year, filters);
+}
+
+/**
+ * Check an enhanced movie against the filters it carries data for
+ * (media type, year, runtime, offers - genres and language are only known for pool items).
+ */
+export function matchesMovie(movie: Movie, filters: DeckFilters): boolean {
+  if (filters.mediaTypeFilter !== 'all' && movie.mediaType !== filters.mediaTypeFilter) return false;
+  if (filters.maxRuntime !== null && movie.runtime !== null && movie.runtime > filters.maxRuntime) {
+    return false;
+  }
+  // Titles whose offers couldn't be looked up pass
+  if (
+    filters.availableOn &&
+    movie.watchProviders &&
+    !isAvailableOn(movie.watchProviders, filters.availableOn)
+  ) {
+    return false;
+  }
+
+  const year = parseInt(movie.releaseDate?.slice(0, 4) ?? '', 10);
+  return isYearInRange(Number.isNaN(year) ? null : year, filters);
+}
+
+// The filter only rules out titles it knows are outside the range
+function isYearInRange(year: number | null, filters: DeckFilters): boolean {
+  if (year === null) return true;
+  if (filters.minYear !== null && year < filters.minYear) return false;
+  if (filters.maxYear !== null && year > filters.maxYear) return false;
+  return true;
+}
+
+// Intersection of the non-empty lists; [] when nobody set one, null when they have nothing in common
+function intersect<T>(lists: T[][]): T[] | null {
+  const chosen = lists.filter((list) => list.length > 0);
+  if (chosen.length === 0) return [];
+
+  const [first, ...rest] = chosen;
+  const common = first.filter((value) => rest.every((list) => list.includes(value)));
+  return common.length > 0 ? common : null;
+}
+
+function maxOf(values: (number | null)[]): number | null {
+  const set = values.filter((v): v is number => v !== null);
+  return set.length > 0 ? Math.max(...set) : null;
+}
+
+function minOf(values: (number | null)[]): number | null {
+  const set = values.filter((v): v is number => v !== null);
+  return set.length > 0 ? Math.min(...set) : null;
+}
+
+function parseJsonArray<T>(json: string | null): T[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { rooms, type Room } from '../db/schema';
+import { and, ne, lte, isNotNull } from 'drizzle-orm';
+
+// Matched rooms stay open this long so everyone sees the result
+export const MATCH_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Expiry timestamp for a room that just matched.
+ */
+export function getMatchExpiry(now = new Date()): Date {
+  return new Date(now.getTime() + MATCH_TTL_MS);
+}
+
+/**
+ * A room is expired once its status says so or its expiresAt has passed
+ * (the sweeper may not have caught up yet).
+ */
+export function isRoomExpired(
+  room: Pick<Room, 'status' | 'expiresAt'>,
+  now = new Date()
+): boolean {
+  if (room.status === 'expired') return true;
+  return !!room.expiresAt && room.expiresAt.getTime() <= now.getTime();
+}
+
+/**
+ * Mark every room past its expiresAt as expired.
+ * Returns the rooms that were expired by this call.
+ */
+export async function expireDueRooms(now = new Date()): Promise<Room[]> {
+  return db
+    .update(rooms)
+    .set({ status: 'expired' })
+    .where(
+      and(
+        ne(rooms.status, 'expired'),
+        isNotNull(rooms.expiresAt),
+        lte(rooms.expiresAt, now)
+      )
+    )
+    .returning();
+}
@@ -0,0 +1,169 @@
+import { db } from '../db';
+import {
+  roomMatches,
+  roomMatchMembers,
+  movies,
+  users,
+  userMovieLists,
+  MOVIE_STATUS,
+  MOVIE_SOURCE,
+  type Room,
+  type RoomMatch,
+  type RoomMatchMember,
+} from '../db/schema';
+import { and, desc, eq, inArray, isNotNull } from 'drizzle-orm';
+import { movieService } from '../services/movieService';
+import { getParticipants } from './participants';
+import type { MatchHistoryEntry, MatchPartner } from '@/types/matchHistory';
+
+/**
+ * Keep a matched room's result and members after the room itself is gone.
+ */
+export async function recordRoomMatch(room: Room, tmdbId: number): Promise<void> {
+  const [movie] = await db
+    .select({ id: movies.id })
+    .from(movies)
+    .where(eq(movies.tmdbId, tmdbId));
+
+  const [match] = await db
+    .insert(roomMatches)
+    .values({ roomId: room.id, roomCode: room.code, tmdbId, unifiedMovieId: movie?.id ?? null })
+    .onConflictDoNothing()
+    .returning();
+
+  // Already recorded by another process
+  if (!match) return;
+
+  const participants = await getParticipants(room.id);
+  if (participants.length === 0) return;
+
+  await db.insert(roomMatchMembers).values(
+    participants.map((p) => ({ matchId: match.id, userSlot: p.userSlot, userId: p.userId }))
+  );
+}
+
+/**
+ * A match and the user's membership row, if they were in the room.
+ */
+export async function getMatchMembership(
+  userId: string,
+  matchId: string
+): Promise<{ match: RoomMatch; member: RoomMatchMember } | null> {
+  const [row] = await db
+    .select({ match: roomMatches, member: roomMatchMembers })
+    .from(roomMatchMembers)
+    .innerJoin(roomMatches, eq(roomMatchMembers.matchId, roomMatches.id))
+    .where(and(eq(roomMatchMembers.matchId, matchId), eq(roomMatchMembers.userId, userId)));
+
+  return row ?? null;
+}
+
+/**
+ * Every match the user was part of, newest first.
+ */
+export async function getMatchHistory(userId: string): Promise<MatchHistoryEntry[]> {
+  const rows = await db
+    .select({ match: roomMatches, member: roomMatchMembers, movie: movies })
+    .from(roomMatchMembers)
+    .innerJoin(roomMatches, eq(roomMatchMembers.matchId, roomMatches.id))
+    .leftJoin(movies, eq(roomMatches.tmdbId, movies.tmdbId))
+    .where(eq(roomMatchMembers.userId, userId))
+    .orderBy(desc(roomMatches.matchedAt));
+
+  if (rows.length === 0) return [];
+
+  const matchIds = rows.map(({ match }) => match.id);
+  const tmdbIds = rows.map(({ match }) => match.tmdbId);
+
+  const [allMembers, listItems] = await Promise.all([
+    db
+      .select({
+        matchId: roomMatchMembers.matchId,
+        userId: roomMatchMembers.userId,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        photoUrl: users.photoUrl,
+      })
+      .from(roomMatchMembers)
+      .leftJoin(users, eq(roomMatchMembers.userId, users.id))
+      .where(inArray(roomMatchMembers.matchId, matchIds)),
+    db
+      .select({
+        tmdbId: userMovieLists.tmdbId,
+        status: userMovieLists.status,
+        watchStartedAt: userMovieLists.watchStartedAt,
+      })
+      .from(userMovieLists)
+      .where(and(eq(userMovieLists.userId, userId), inArray(userMovieLists.tmdbId, tmdbIds))),
+  ]);
+
+  const listByTmdbId = new Map(listItems.map((item) => [item.tmdbId, item]));
+
+  return rows.map(({ match, member, movie }) => {
+    const members = allMembers.filter((o) => o.matchId === match.id && o.userId !== userId);
+    const partners: MatchPartner[] = members.flatMap((m) =>
+      m.firstName
+        ? [{ name: [m.firstName, m.lastName].filter(Boolean).join(' '), photoUrl: m.photoUrl }]
+        : []
+    );
+    const listItem = listByTmdbId.get(match.tmdbId);
+
+    return {
+      id: match.id,
+      tmdbId: match.tmdbId,
+      mediaType: movie?.mediaType === 'tv' ? 'tv' : 'movie',
+      title: movie?.title ?? null,
+      titleRu: movie?.titleRu ?? null,
+      posterUrl: movie ? movieService.getPosterUrl(movie, 'w185') : null,
+      releaseDate: movie?.releaseDate ?? null,
+      roomCode: match.roomCode,
+      matchedAt: match.matchedAt.toISOString(),
+      partners,
+      guestCount: members.length - partners.length,
+      eveningRating: member.eveningRating,
+      listStatus: listItem?.status ?? null,
+      watchStartedAt: listItem?.watchStartedAt?.toISOString() ?? null,
+    };
+  });
+}
+
+/**
+ * Start the watch timer on the matched title for every signed-in member.
+ * Members who already watched it are left alone.
+ */
+export async function startMatchWatchTimer(match: RoomMatch): Promise<void> {
+  const members = await db
+    .select({ userId: roomMatchMembers.userId })
+    .from(roomMatchMembers)
+    .where(and(eq(roomMatchMembers.matchId, match.id), isNotNull(roomMatchMembers.userId)));
+
+  const movie =
+    (await movieService.findByExternalId({ tmdbId: match.tmdbId })) ??
+    (await movieService.findOrCreate({ tmdbId: match.tmdbId, source: 'tmdb' }));
+  const now = new Date();
+
+  for (const { userId } of members) {
+    const [existing] = await db
+      .select()
+      .from(userMovieLists)
+      .where(and(eq(userMovieLists.userId, userId!), eq(userMovieLists.tmdbId, match.tmdbId)));
+
+    if (existing?.status === MOVIE_STATUS.WATCHED) continue;
+
+    if (existing) {
+      await db
+        .update(userMovieLists)
+        .set({ status: MOVIE_STATUS.WATCHING, watchStartedAt: now, updatedAt: now })
+        .where(eq(userMovieLists.id, existing.id));
+    } else {
+      await db.insert(userMovieLists).values({
+        userId: userId!,
+        tmdbId: match.tmdbId,
+        unifiedMovieId: movie?.id ?? match.unifiedMovieId,
+        status: MOVIE_STATUS.WATCHING,
+        source: MOVIE_SOURCE.SWIPE,
+        watchStartedAt: now,
+      });
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import {
+  MIN_PARTICIPANTS,
+  MAX_PARTICIPANTS,
+  MIN_SHORTLIST_SIZE,
+  MAX_SHORTLIST_SIZE,
+  DEFAULT_SHORTLIST_SIZE,
+  LIKE_ACTIONS,
+  type MatchRule,
+  type MatchMode,
+  type RoomSettings,
+} from '@/types/room';
+import type { Room } from '../db/schema';
+
+export const MATCH_RULES: MatchRule[] = ['unanimous', 'majority', 'n_of_m'];
+export const MATCH_MODES: MatchMode[] = ['single', 'shortlist'];
+
+/**
+ * Number of likes a title needs before the room matches on it.
+ * Never less than 1 and never more than the number of participants.
+ */
+export function getRequiredLikes(
+  rule: MatchRule,
+  participantCount: number,
+  threshold: number | null
+): number {
+  const count = Math.max(1, participantCount);
+
+  switch (rule) {
+    case 'majority':
+      return Math.floor(count / 2) + 1;
+    case 'n_of_m':
+      return Math.min(Math.max(1, threshold ?? count), count);
+    case 'unanimous':
+    default:
+      return count;
+  }
+}
+
+/**
+ * Likes and super-likes both support a title.
+ */
+export function isLikeAction(action: string): boolean {
+  return (LIKE_ACTIONS as readonly string[]).includes(action);
+}
+
+/**
+ * Check whether the likes collected so far satisfy the room's match rule.
+ * Each super-like adds one more like on top of its supporter.
+ */
+export function isMatch(
+  likeCount: number,
+  rule: MatchRule,
+  participantCount: number,
+  threshold: number | null,
+  superLikeCount = 0
+): boolean {
+  // A single participant can never produce a match on their own
+  if (likeCount < 2) return false;
+  return likeCount + superLikeCount >= getRequiredLikes(rule, participantCount, threshold);
+}
+
+/**
+ * Validate and normalize room settings from a create-room request.
+ * Returns null when the combination is invalid.
+ */
+export function parseRoomSettings(input: {
+  maxParticipants?: unknown;
+  matchRule?: unknown;
+  matchThreshold?: unknown;
+  matchMode?: unknown;
+  shortlistSize?: unknown;
+  swipeBudget?: unknown;
+}): RoomSettings | null {
+  const maxParticipants = input.maxParticipants ?? MIN_PARTICIPANTS;
+  if (!isIntegerInRange(maxParticipants, MIN_PARTICIPANTS, MAX_PARTICIPANTS)) {
+    return null;
+  }
+
+  const matchRule = input.matchRule ?? 'unanimous';
+  if (!MATCH_RULES.includes(matchRule as MatchRule)) {
+    return null;
+  }
+
+  let matchThreshold: number | null = null;
+  if (matchRule === 'n_of_m') {
+    if (!isIntegerInRange(input.matchThreshold, MIN_PARTICIPANTS, maxParticipants)) {
+      return null;
+    }
+    matchThreshold = input.matchThreshold;
+  }
+
+  const matchMode = input.matchMode ?? 'single';
+  if (!MATCH_MODES.includes(matchMode as MatchMode)) {
+    return null;
+  }
+
+  let shortlistSize: number | null = null;
+  let swipeBudget: number | null = null;
+  if (matchMode === 'shortlist') {
+    shortlistSize = (input.shortlistSize ?? DEFAULT_SHORTLIST_SIZE) as number;
+    if (!isIntegerInRange(shortlistSize, MIN_SHORTLIST_SIZE, MAX_SHORTLIST_SIZE)) {
+      return null;
+    }
+
+    swipeBudget = (input.swipeBudget ?? null) as number | null;
+    if (swipeBudget !== null && !isIntegerInRange(swipeBudget, 1, Number.MAX_SAFE_INTEGER)) {
+      return null;
+    }
+  }
+
+  return {
+    maxParticipants,
+    matchRule: matchRule as MatchRule,
+    matchThreshold,
+    matchMode: matchMode as MatchMode,
+    shortlistSize,
+    swipeBudget,
+  };
+}
+
+/**
+ * Extract the client-facing settings from a room row.
+ */
+export function toRoomSettings(room: Room): RoomSettings {
+  return {
+    maxParticipants: room.maxParticipants,
+    matchRule: room.matchRule as MatchRule,
+    matchThreshold: room.matchThreshold,
+    matchMode: room.matchMode as MatchMode,
+    shortlistSize: room.shortlistSize,
+    swipeBudget: room.swipeBudget,
+  };
+}
+
+function isIntegerInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
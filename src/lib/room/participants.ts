@@ -0,0 +1,176 @@
+import { db } from '../db';
+import { roomParticipants, swipes, type Room, type RoomParticipant } from '../db/schema';
+import { eq, and, or, asc, count, lte, isNull, isNotNull, sql } from 'drizzle-orm';
+import { USER_SLOTS, type UserSlot, type MemberProgress } from '@/types/room';
+
+// How long a member whose socket dropped (or never arrived) keeps their slot
+export const RECONNECT_GRACE_MS = 15 * 1000;
+
+/**
+ * Get all participants of a room, ordered by slot.
+ */
+export async function getParticipants(roomId: string): Promise<RoomParticipant[]> {
+  return db
+    .select()
+    .from(roomParticipants)
+    .where(eq(roomParticipants.roomId, roomId))
+    .orderBy(asc(roomParticipants.userSlot));
+}
+
+/**
+ * Get a single participant by slot.
+ */
+export async function getParticipant(
+  roomId: string,
+  userSlot: UserSlot
+): Promise<RoomParticipant | null> {
+  const [participant] = await db
+    .select()
+    .from(roomParticipants)
+    .where(and(eq(roomParticipants.roomId, roomId), eq(roomParticipants.userSlot, userSlot)));
+
+  return participant ?? null;
+}
+
+/**
+ * Claim the first free slot in a room, or else a slot whose member has left.
+ * Authenticated users who already hold a slot get the same slot back.
+ * A new claim gets the reconnect grace period to connect its socket before
+ * the slot can be taken again. Returns null when the room is full.
+ */
+export async function claimSlot(
+  room: Room,
+  userId?: string | null,
+  now = new Date()
+): Promise<RoomParticipant | null> {
+  const participants = await getParticipants(room.id);
+
+  if (userId) {
+    const existing = participants.find((p) => p.userId === userId);
+    if (existing) return existing;
+  }
+
+  const available = USER_SLOTS.slice(0, room.maxParticipants);
+  const taken = new Set(participants.map((p) => p.userSlot));
+
+  for (const userSlot of available) {
+    if (taken.has(userSlot)) continue;
+
+    // Unique (roomId, userSlot) index resolves concurrent joins - on conflict try the next slot
+    const [participant] = await db
+      .insert(roomParticipants)
+      .values({ roomId: room.id, userSlot, userId: userId ?? null, disconnectedAt: now })
+      .onConflictDoNothing()
+      .returning();
+
+    if (participant) return participant;
+  }
+
+  // Reopening the room link (or the Mini App) joins again - hand out a slot nobody holds anymore
+  const graceCutoff = new Date(now.getTime() - RECONNECT_GRACE_MS);
+  for (const { userSlot } of participants) {
+    if (!available.includes(userSlot as UserSlot)) continue;
+
+    // Conditional update so concurrent joins can't take the same slot
+    const [participant] = await db
+      .update(roomParticipants)
+      .set({ userId: userId ?? null, disconnectedAt: now, joinedAt: now })
+      .where(
+        and(
+          eq(roomParticipants.roomId, room.id),
+          eq(roomParticipants.userSlot, userSlot),
+          eq(roomParticipants.isConnected, false),
+          or(
+            isNull(roomParticipants.disconnectedAt),
+            lte(roomParticipants.disconnectedAt, graceCutoff)
+          )
+        )
+      )
+      .returning();
+
+    if (participant) return participant;
+  }
+
+  return null;
+}
+
+/**
+ * Update a participant's connection flag (also ends any reconnect grace period).
+ */
+export async function setParticipantConnected(
+  roomId: string,
+  userSlot: UserSlot,
+  isConnected: boolean
+): Promise<void> {
+  await db
+    .update(roomParticipants)
+    .set({ isConnected, disconnectedAt: null })
+    .where(and(eq(roomParticipants.roomId, roomId), eq(roomParticipants.userSlot, userSlot)));
+}
+
+/**
+ * Start the reconnect grace period for a participant whose socket dropped.
+ */
+export async function markParticipantDisconnected(
+  roomId: string,
+  userSlot: UserSlot
+): Promise<void> {
+  await db
+    .update(roomParticipants)
+    .set({ disconnectedAt: new Date() })
+    .where(
+      and(
+        eq(roomParticipants.roomId, roomId),
+        eq(roomParticipants.userSlot, userSlot),
+        eq(roomParticipants.isConnected, true)
+      )
+    );
+}
+
+/**
+ * Mark participants whose grace period ended before the cutoff as left.
+ * Safe to run from several server processes - each participant is released once.
+ */
+export async function releaseDisconnectedParticipants(
+  cutoff: Date
+): Promise<Pick<RoomParticipant, 'roomId' | 'userSlot'>[]> {
+  return db
+    .update(roomParticipants)
+    .set({ isConnected: false, disconnectedAt: null })
+    .where(
+      and(
+        eq(roomParticipants.isConnected, true),
+        isNotNull(roomParticipants.disconnectedAt),
+        lte(roomParticipants.disconnectedAt, cutoff)
+      )
+    )
+    .returning({ roomId: roomParticipants.roomId, userSlot: roomParticipants.userSlot });
+}
+
+/**
+ * Build per-member progress (swipe counts + connection state) for a room.
+ */
+export async function getMemberProgress(roomId: string): Promise<MemberProgress[]> {
+  const [participants, swipeCounts] = await Promise.all([
+    getParticipants(roomId),
+    db
+      .select({
+        userSlot: swipes.userSlot,
+        total: count(),
+        vetoes: sql<number>`COUNT(*) FILTER (WHERE ${swipes.action} = 'veto')::int`,
+      })
+      .from(swipes)
+      .where(eq(swipes.roomId, roomId))
+      .groupBy(swipes.userSlot),
+  ]);
+
+  const countsBySlot = new Map(swipeCounts.map((s) => [s.userSlot, s]));
+
+  return participants.map((p) => ({
+    userSlot: p.userSlot as UserSlot,
+    totalSwiped: countsBySlot.get(p.userSlot)?.total ?? 0,
+    vetoesUsed: countsBySlot.get(p.userSlot)?.vetoes ?? 0,
+    isConnected: p.isConnected,
+    isAuthenticated: !!p.userId,
+  }));
+}
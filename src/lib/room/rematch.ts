@@ -0,0 +1,111 @@
+import { db } from '../db';
+import { rooms, roomParticipants, swipes, type Room } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { generateRoomCode } from '../utils/roomCode';
+import { generatePin } from '../utils/pin';
+import { getParticipants } from './participants';
+
+/**
+ * TMDB IDs a rematch room keeps out of every member's deck.
+ */
+export function getCarriedExclusions(room: Pick<Room, 'carriedExclusions'>): number[] {
+  if (!room.carriedExclusions) return [];
+
+  try {
+    return JSON.parse(room.carriedExclusions) as number[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Everything swiped in a matched room and the rounds before it.
+ * The match itself stays in play unless it was turned down for tonight.
+ */
+export function buildCarriedExclusions(
+  previous: number[],
+  swipedIds: number[],
+  matchedMovieId: number | null,
+  rejectMatch: boolean
+): number[] {
+  const ids = new Set([...previous, ...swipedIds]);
+
+  if (matchedMovieId !== null) {
+    if (rejectMatch) {
+      ids.add(matchedMovieId);
+    } else {
+      ids.delete(matchedMovieId);
+    }
+  }
+
+  return [...ids];
+}
+
+/**
+ * The room that continues a matched room, if anyone started a rematch.
+ */
+export async function getRematchRoom(roomId: string): Promise<Room | null> {
+  const [room] = await db.select().from(rooms).where(eq(rooms.previousRoomId, roomId));
+  return room ?? null;
+}
+
+/**
+ * Continue a matched room in a new round. Every member keeps their slot and
+ * identity, so nobody has to share a PIN again. The first request decides
+ * whether the previous match is turned down - later ones get the same room.
+ */
+export async function getOrCreateRematchRoom(room: Room, rejectMatch: boolean): Promise<Room> {
+  const existing = await getRematchRoom(room.id);
+  if (existing) return existing;
+
+  const [participants, swiped] = await Promise.all([
+    getParticipants(room.id),
+    db.selectDistinct({ movieId: swipes.movieId }).from(swipes).where(eq(swipes.roomId, room.id)),
+  ]);
+
+  const exclusions = buildCarriedExclusions(
+    getCarriedExclusions(room),
+    swiped.map((s) => s.movieId),
+    room.matchedMovieId,
+    rejectMatch
+  );
+
+  // Unique previousRoomId resolves concurrent requests - the loser reads the winner's room
+  const created = await db.transaction(async (tx) => {
+    const [rematch] = await tx
+      .insert(rooms)
+      .values({
+        code: generateRoomCode(),
+        pin: generatePin(),
+        moviePoolSeed: Math.floor(Math.random() * 1000000),
+        poolSources: room.poolSources,
+        maxParticipants: room.maxParticipants,
+        matchRule: room.matchRule,
+        matchThreshold: room.matchThreshold,
+        matchMode: room.matchMode,
+        shortlistSize: room.shortlistSize,
+        swipeBudget: room.swipeBudget,
+        previousRoomId: room.id,
+        carriedExclusions: JSON.stringify(exclusions),
+        previousMatchId: rejectMatch ? null : room.matchedMovieId,
+      })
+      .onConflictDoNothing({ target: rooms.previousRoomId })
+      .returning();
+
+    if (rematch && participants.length > 0) {
+      await tx.insert(roomParticipants).values(
+        // Held like a fresh /join claim until each member's socket arrives
+        participants.map((p) => ({
+          roomId: rematch.id,
+          userSlot: p.userSlot,
+          userId: p.userId,
+          disconnectedAt: new Date(),
+        }))
+      );
+    }
+
+    return rematch;
+  });
+
+  return created ?? (await getRematchRoom(room.id))!;
+}
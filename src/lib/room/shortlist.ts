@@ -0,0 +1,77 @@
+import { db } from '../db';
+import {
+  roomShortlist,
+  roomFinalVotes,
+  type RoomShortlistEntry,
+  type RoomFinalVote,
+} from '../db/schema';
+import { eq, and, asc } from 'drizzle-orm';
+import type { UserSlot } from '@/types/room';
+
+/**
+ * Get a room's shortlist in the order titles matched.
+ */
+export async function getShortlist(roomId: string): Promise<RoomShortlistEntry[]> {
+  return db
+    .select()
+    .from(roomShortlist)
+    .where(eq(roomShortlist.roomId, roomId))
+    .orderBy(asc(roomShortlist.addedAt));
+}
+
+/**
+ * Add a matched title to the shortlist.
+ * Returns false when the title was already shortlisted.
+ */
+export async function addToShortlist(
+  roomId: string,
+  movieId: number,
+  likeCount: number
+): Promise<boolean> {
+  const [entry] = await db
+    .insert(roomShortlist)
+    .values({ roomId, movieId, likeCount })
+    .onConflictDoNothing()
+    .returning();
+
+  return !!entry;
+}
+
+/**
+ * Record a member's vote for a final round. Later votes in the same round are ignored.
+ */
+export async function recordFinalVote(
+  roomId: string,
+  round: number,
+  userSlot: UserSlot,
+  movieId: number
+): Promise<void> {
+  await db
+    .insert(roomFinalVotes)
+    .values({ roomId, round, userSlot, movieId })
+    .onConflictDoNothing();
+}
+
+/**
+ * Get all votes cast in a final round.
+ */
+export async function getFinalVotes(roomId: string, round: number): Promise<RoomFinalVote[]> {
+  return db
+    .select()
+    .from(roomFinalVotes)
+    .where(and(eq(roomFinalVotes.roomId, roomId), eq(roomFinalVotes.round, round)));
+}
+
+/**
+ * Pick the winner of a head-to-head round. Ties keep the defending champion.
+ */
+export function pickRoundWinner(
+  votes: Pick<RoomFinalVote, 'movieId'>[],
+  championId: number,
+  challengerId: number
+): number {
+  const challengerVotes = votes.filter((v) => v.movieId === challengerId).length;
+  const championVotes = votes.filter((v) => v.movieId === championId).length;
+
+  return challengerVotes > championVotes ? challengerId : championId;
+}
@@ -0,0 +1,78 @@
+import { db } from '../db';
+import { swipes, type Swipe } from '../db/schema';
+import { eq, and, desc, count } from 'drizzle-orm';
+import { recordSwipeHistory, undoSwipeHistory } from '../history/swipeHistory';
+import type { UserSlot, SwipeAction } from '@/types/room';
+
+/**
+ * Record a member's swipe, and for signed-in members their swipe history.
+ * Returns false when the member already swiped this title in the room.
+ */
+export async function recordSwipe(
+  roomId: string,
+  userSlot: UserSlot,
+  userId: string | null,
+  movieId: number,
+  action: SwipeAction
+): Promise<boolean> {
+  const [inserted] = await db
+    .insert(swipes)
+    .values({ roomId, movieId, userSlot, action })
+    .onConflictDoNothing()
+    .returning({ id: swipes.id });
+
+  if (!inserted) return false;
+
+  if (userId) {
+    await recordSwipeHistory(userId, movieId, action, roomId);
+  }
+
+  return true;
+}
+
+/**
+ * Number of vetoes a member has used in a room.
+ */
+export async function countVetoes(roomId: string, userSlot: UserSlot): Promise<number> {
+  const [result] = await db
+    .select({ total: count() })
+    .from(swipes)
+    .where(
+      and(eq(swipes.roomId, roomId), eq(swipes.userSlot, userSlot), eq(swipes.action, 'veto'))
+    );
+
+  return result?.total ?? 0;
+}
+
+/**
+ * Get a member's most recent swipe in a room.
+ */
+export async function getLastSwipe(roomId: string, userSlot: UserSlot): Promise<Swipe | null> {
+  const [swipe] = await db
+    .select()
+    .from(swipes)
+    .where(and(eq(swipes.roomId, roomId), eq(swipes.userSlot, userSlot)))
+    .orderBy(desc(swipes.createdAt))
+    .limit(1);
+
+  return swipe ?? null;
+}
+
+/**
+ * Take back a swipe, including the member's history entry for it.
+ * Returns false when the swipe was already removed (e.g. a double undo).
+ */
+export async function deleteSwipe(swipe: Swipe, userId: string | null): Promise<boolean> {
+  const [deleted] = await db
+    .delete(swipes)
+    .where(eq(swipes.id, swipe.id))
+    .returning({ id: swipes.id });
+
+  if (!deleted) return false;
+
+  if (userId) {
+    await undoSwipeHistory(userId, swipe.movieId, swipe.roomId);
+  }
+
+  return true;
+}
@@ -0,0 +1,40 @@
+import jwt from 'jsonwebtoken';
+import type { UserSlot } from '@/types/room';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-change-in-production';
+const TICKET_AUDIENCE = 'room';
+const TICKET_EXPIRY_HOURS = 24;
+
+export interface RoomTicketPayload {
+  roomId: string;
+  roomCode: string;
+  userSlot: UserSlot;
+  userId: string | null;
+}
+
+/**
+ * Sign a room ticket for a participant who passed the /join checks (PIN, capacity).
+ * The socket handshake trusts only this ticket for the member's identity.
+ */
+export function createRoomTicket(payload: RoomTicketPayload): string {
+  return jwt.sign(payload, JWT_SECRET, {
+    audience: TICKET_AUDIENCE,
+    expiresIn: `${TICKET_EXPIRY_HOURS}h`,
+  });
+}
+
+/**
+ * Verify and decode a room ticket
+ */
+export function verifyRoomTicket(ticket: unknown): RoomTicketPayload | null {
+  if (typeof ticket !== 'string') return null;
+
+  try {
+    const { roomId, roomCode, userSlot, userId } = jwt.verify(ticket, JWT_SECRET, {
+      audience: TICKET_AUDIENCE,
+    }) as RoomTicketPayload;
+    return { roomId, roomCode, userSlot, userId };
+  } catch {
+    return null;
+  }
+}
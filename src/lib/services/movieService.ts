@@ -5,6 +5,7 @@ import { tmdb, TMDBClient } from '@/lib/api/tmdb';
 import { omdb, OMDBClient } from '@/lib/api/omdb';
 import { kinopoisk } from '@/lib/api/kinopoisk';
 import { posterService } from '@/lib/services/posterService';
+import { refreshCredits } from '@/lib/api/credits';
 import type { MovieSource, SearchResult, KinopoiskSearchResult } from '@/types/movie';
 
 // Cache duration: 30 days
@@ -141,6 +142,11 @@ class MovieService {
       }).catch(console.error);
     }
 
+    // Pull cast, crew and keywords so the title can be found by them (in background)
+    if (movie.tmdbId) {
+      refreshCredits(movie).catch(console.error);
+    }
+
     return movie;
   }
 
@@ -0,0 +1,35 @@
+import { Adapter } from 'socket.io-adapter';
+import type { ServerOptions } from 'socket.io';
+import { getNotifyClient } from '../../db';
+import { createPostgresAdapter } from './postgres';
+
+export type SocketAdapter = NonNullable<ServerOptions['adapter']>;
+export type SocketAdapterFactory = () => SocketAdapter;
+
+// Adapters decide how io.to(room).emit reaches sockets on other server processes
+const adapterFactories = new Map<string, SocketAdapterFactory>([
+  // Single process (default) - everything stays in memory
+  ['memory', () => Adapter],
+  // Several processes sharing the app database
+  ['postgres', () => createPostgresAdapter(getNotifyClient())],
+]);
+
+/**
+ * Register an additional adapter that can be selected via SOCKET_ADAPTER.
+ */
+export function registerSocketAdapter(name: string, factory: SocketAdapterFactory) {
+  adapterFactories.set(name, factory);
+}
+
+/**
+ * Create the adapter configured by SOCKET_ADAPTER (defaults to 'memory').
+ */
+export function createSocketAdapter(name = process.env.SOCKET_ADAPTER || 'memory'): SocketAdapter {
+  const factory = adapterFactories.get(name);
+  if (!factory) {
+    throw new Error(`Unknown SOCKET_ADAPTER "${name}"`);
+  }
+
+  console.log(`> Socket.io adapter: ${name}`);
+  return factory();
+}
@@ -0,0 +1,143 @@
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+  type ServerId,
+} from 'socket.io-adapter';
+import type { Namespace } from 'socket.io';
+import type { Sql } from 'postgres';
+import { db } from '../../db';
+import { socketAdapterAttachments } from '../../db/schema';
+import { eq, lt } from 'drizzle-orm';
+
+const CHANNEL = 'filmber_socket_io';
+
+// NOTIFY payloads are capped at 8000 bytes - larger messages are stored as attachments
+const MAX_NOTIFY_PAYLOAD_BYTES = 7500;
+const ATTACHMENT_TTL_MS = 30 * 1000;
+
+type Envelope =
+  | { kind: 'message'; message: ClusterMessage }
+  | { kind: 'response'; requesterUid: ServerId; response: ClusterResponse };
+
+type Notification = Envelope | { kind: 'attachment'; id: string };
+
+/**
+ * Cluster adapter that fans out broadcasts through Postgres LISTEN/NOTIFY,
+ * so several server processes can share rooms without an extra service.
+ * Packets are JSON-encoded - binary payloads are not supported.
+ */
+class PostgresAdapter extends ClusterAdapterWithHeartbeat {
+  constructor(
+    nsp: Namespace,
+    private readonly sql: Sql,
+    private readonly onClose: (adapter: PostgresAdapter) => void,
+    opts: ClusterAdapterOptions
+  ) {
+    super(nsp, opts);
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await publish(this.sql, { kind: 'message', message });
+    return '';
+  }
+
+  protected async doPublishResponse(
+    requesterUid: ServerId,
+    response: ClusterResponse
+  ): Promise<void> {
+    await publish(this.sql, { kind: 'response', requesterUid, response });
+  }
+
+  handleEnvelope(envelope: Envelope) {
+    if (envelope.kind === 'message') {
+      const { message } = envelope;
+      if (message.uid === this.uid || message.nsp !== this.nsp.name) return;
+      this.onMessage(message);
+      return;
+    }
+
+    const { requesterUid, response } = envelope;
+    if (requesterUid !== this.uid || response.nsp !== this.nsp.name) return;
+    this.onResponse(response);
+  }
+
+  close() {
+    super.close();
+    this.onClose(this);
+  }
+}
+
+async function publish(sql: Sql, envelope: Envelope) {
+  const payload = JSON.stringify(envelope);
+
+  if (Buffer.byteLength(payload) <= MAX_NOTIFY_PAYLOAD_BYTES) {
+    await sql.notify(CHANNEL, payload);
+    return;
+  }
+
+  const [attachment] = await db
+    .insert(socketAdapterAttachments)
+    .values({ payload })
+    .returning({ id: socketAdapterAttachments.id });
+
+  const notification: Notification = { kind: 'attachment', id: attachment.id };
+  await sql.notify(CHANNEL, JSON.stringify(notification));
+}
+
+async function decode(payload: string): Promise<Envelope | null> {
+  const notification = JSON.parse(payload) as Notification;
+  if (notification.kind !== 'attachment') return notification;
+
+  const [attachment] = await db
+    .select({ payload: socketAdapterAttachments.payload })
+    .from(socketAdapterAttachments)
+    .where(eq(socketAdapterAttachments.id, notification.id));
+
+  return attachment ? (JSON.parse(attachment.payload) as Envelope) : null;
+}
+
+async function deleteStaleAttachments() {
+  await db
+    .delete(socketAdapterAttachments)
+    .where(lt(socketAdapterAttachments.createdAt, new Date(Date.now() - ATTACHMENT_TTL_MS)));
+}
+
+/**
+ * Create a Socket.io adapter constructor backed by the given Postgres client.
+ * One LISTEN connection is shared by every namespace.
+ */
+export function createPostgresAdapter(sql: Sql, opts: ClusterAdapterOptions = {}) {
+  const adapters = new Set<PostgresAdapter>();
+  let isListening = false;
+
+  const listen = () => {
+    isListening = true;
+
+    sql
+      .listen(CHANNEL, (payload) => {
+        decode(payload)
+          .then((envelope) => {
+            if (envelope) adapters.forEach((adapter) => adapter.handleEnvelope(envelope));
+          })
+          .catch((error) => console.error('Failed to handle socket adapter message:', error));
+      })
+      .catch((error) => console.error('Failed to listen for socket adapter messages:', error));
+
+    setInterval(() => {
+      deleteStaleAttachments().catch((error) =>
+        console.error('Failed to delete socket adapter attachments:', error)
+      );
+    }, ATTACHMENT_TTL_MS).unref();
+  };
+
+  return function (nsp: Namespace) {
+    if (!isListening) listen();
+
+    const adapter = new PostgresAdapter(nsp, sql, (closed) => adapters.delete(closed), opts);
+    adapters.add(adapter);
+    return adapter;
+  };
+}
@@ -1,112 +1,187 @@
-import { Server, Socket } from 'socket.io';
+import { Server, Socket, type DefaultEventsMap } from 'socket.io';
 import { db } from '../db';
-import { rooms, swipes, movies, userMovieLists, MOVIE_STATUS } from '../db/schema';
-import { eq, and, inArray } from 'drizzle-orm';
+import {
+  rooms,
+  swipes,
+  movies,
+  userMovieLists,
+  MOVIE_STATUS,
+  type Room,
+  type RoomShortlistEntry,
+} from '../db/schema';
+import { eq, and, inArray, notInArray } from 'drizzle-orm';
 import { enhanceMovieData } from '../api/moviePool';
 import { TMDBClient } from '../api/tmdb';
+import {
+  getParticipant,
+  getParticipants,
+  getMemberProgress,
+  setParticipantConnected,
+  markParticipantDisconnected,
+  releaseDisconnectedParticipants,
+  RECONNECT_GRACE_MS,
+} from '../room/participants';
+import { isMatch, isLikeAction, toRoomSettings } from '../room/matchRule';
+import { getMatchExpiry, expireDueRooms } from '../room/lifecycle';
+import { createRoomTicket, verifyRoomTicket } from '../room/ticket';
+import { getOrCreateRematchRoom } from '../room/rematch';
+import { recordRoomMatch } from '../room/matchHistory';
+import { addMatchToPairWatchlists } from '../pairs/pairs';
+import { getRoomDeckFilters } from '../room/deckFilters';
+import {
+  getShortlist,
+  addToShortlist,
+  recordFinalVote,
+  getFinalVotes,
+  pickRoundWinner,
+} from '../room/shortlist';
+import { getLastSwipe, deleteSwipe, recordSwipe, countVetoes } from '../room/swipes';
 import type {
   ClientToServerEvents,
   ServerToClientEvents,
   JoinRoomPayload,
   SwipePayload,
+  UndoSwipePayload,
   LeaveRoomPayload,
+  StartRoomPayload,
+  FinalVotePayload,
+  RematchPayload,
+  ShortlistUpdatedPayload,
+  FinalRoundPayload,
+  SocketData,
 } from '@/types/socket';
+import {
+  SWIPE_ACTIONS,
+  VETOES_PER_ROOM,
+  type UserSlot,
+  type RoomStatus,
+  type MatchRule,
+  type MemberProgress,
+  type ShortlistItem,
+} from '@/types/room';
 import type { Movie } from '@/types/movie';
 
-type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
-type TypedServer = Server<ClientToServerEvents, ServerToClientEvents>;
+type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
+type TypedServer = Server<ClientToServerEvents, ServerToClientEvents, DefaultEventsMap, SocketData>;
 
-// Track user connections for disconnect handling
-const userConnections = new Map<string, { roomCode: string; userSlot: 'A' | 'B' }>();
+// Connection state lives in socket.data and room_participants (not process memory),
+// so any server process behind the adapter can handle a member's reconnect
+const ROOM_SWEEP_INTERVAL_MS = 5 * 1000;
 
 export function setupSocketHandlers(io: TypedServer) {
+  startRoomSweeper(io);
+
+  // Every socket must present the room ticket issued by /join - it is the only source of identity
+  io.use((socket, next) => {
+    const ticket = verifyRoomTicket(socket.handshake.auth?.ticket);
+    if (!ticket) {
+      next(new Error('Invalid room ticket'));
+      return;
+    }
+
+    socket.data = { ...ticket };
+    next();
+  });
+
   io.on('connection', (socket: TypedSocket) => {
     console.log('Client connected:', socket.id);
 
     // Join room
     socket.on('join_room', async (payload: JoinRoomPayload) => {
-      const { roomCode, userSlot } = payload;
+      const userSlot = getTicketSlot(socket, payload.roomCode);
+      if (!userSlot) return;
 
       try {
-        // Verify room exists first
-        const [room] = await db
-          .select()
-          .from(rooms)
-          .where(eq(rooms.code, roomCode));
+        await joinRoom(io, socket, payload.roomCode, userSlot);
+      } catch (error) {
+        console.error('Error joining room:', error);
+        socket.emit('error', { message: 'Failed to join room' });
+      }
+    });
 
+    // Rejoin after a dropped connection and send back the member's saved state
+    socket.on('resume_room', async (payload: JoinRoomPayload, callback) => {
+      const userSlot = getTicketSlot(socket, payload.roomCode);
+      if (!userSlot) {
+        callback(null);
+        return;
+      }
+
+      try {
+        const room = await joinRoom(io, socket, payload.roomCode, userSlot);
         if (!room) {
-          socket.emit('error', { message: 'Room not found' });
+          callback(null);
           return;
         }
 
-        // Join Socket.io room
-        socket.join(roomCode);
-
-        // Track connection for disconnect handling
-        userConnections.set(socket.id, { roomCode, userSlot });
+        const [members, swiped] = await Promise.all([
+          getMemberProgress(room.id),
+          db
+            .select({ movieId: swipes.movieId })
+            .from(swipes)
+            .where(and(eq(swipes.roomId, room.id), eq(swipes.userSlot, userSlot))),
+        ]);
+
+        callback({
+          status: room.status as RoomStatus,
+          matchedMovieId: room.matchedMovieId,
+          progress: members.find((m) => m.userSlot === userSlot) ?? null,
+          swipedMovieIds: swiped.map((s) => s.movieId),
+          queuePosition: swiped.length,
+        });
+      } catch (error) {
+        console.error('Error resuming room:', error);
+        socket.emit('error', { message: 'Failed to resume room' });
+        callback(null);
+      }
+    });
 
-        // Update database
-        const updateField =
-          userSlot === 'A'
-            ? { userAConnected: true }
-            : { userBConnected: true };
+    // Room creator starts a group room early (needs at least 2 connected members)
+    socket.on('start_room', async (payload: StartRoomPayload) => {
+      const { roomCode } = payload;
+      const userSlot = getTicketSlot(socket, roomCode);
+      if (!userSlot) return;
 
-        await db
-          .update(rooms)
-          .set(updateField)
+      try {
+        const [room] = await db
+          .select()
+          .from(rooms)
           .where(eq(rooms.code, roomCode));
 
-        // Notify room members
-        io.to(roomCode).emit('user_joined', { userSlot });
-
-        // Check if joining user is authenticated and notify partner
-        const joiningUserId = userSlot === 'A' ? room.userAId : room.userBId;
-        if (joiningUserId) {
-          // Check if user has items in their watchlist
-          const watchlistCount = await db
-            .select()
-            .from(userMovieLists)
-            .where(
-              and(
-                eq(userMovieLists.userId, joiningUserId),
-                inArray(userMovieLists.status, [
-                  MOVIE_STATUS.WANT_TO_WATCH,
-                  MOVIE_STATUS.WATCHING,
-                ])
-              )
-            );
-
-          // Notify partner that this user is authenticated (so they can refetch queue)
-          socket.to(roomCode).emit('partner_auth_changed', {
-            isAuthenticated: true,
-            hasWantToWatchList: watchlistCount.length > 0,
-          });
+        if (!room || room.id !== socket.data.roomId || room.status !== 'waiting') {
+          return;
         }
 
-        // Check if both users are connected
-        const [updatedRoom] = await db
-          .select()
-          .from(rooms)
-          .where(eq(rooms.code, roomCode));
+        if (userSlot !== 'A') {
+          socket.emit('error', { message: 'Only the room creator can start the room' });
+          return;
+        }
 
-        if (updatedRoom?.userAConnected && updatedRoom?.userBConnected) {
-          // Update room status to active
-          await db
-            .update(rooms)
-            .set({ status: 'active' })
-            .where(eq(rooms.code, roomCode));
+        const participants = await getParticipants(room.id);
+        const connectedCount = participants.filter((p) => p.isConnected).length;
 
-          io.to(roomCode).emit('room_ready', { roomCode });
+        if (connectedCount < 2) {
+          socket.emit('error', { message: 'Not enough participants' });
+          return;
         }
+
+        await activateRoom(io, room);
       } catch (error) {
-        console.error('Error joining room:', error);
-        socket.emit('error', { message: 'Failed to join room' });
+        console.error('Error starting room:', error);
+        socket.emit('error', { message: 'Failed to start room' });
       }
     });
 
     // Handle swipe action
     socket.on('swipe', async (payload: SwipePayload) => {
-      const { roomCode, movieId, action, userSlot } = payload;
+      const { roomCode, movieId, action } = payload;
+      const userSlot = getTicketSlot(socket, roomCode);
+      if (!userSlot) return;
+
+      if (!SWIPE_ACTIONS.includes(action)) {
+        socket.emit('error', { message: 'Unknown swipe action' });
+        return;
+      }
 
       try {
         // Get room
@@ -115,67 +190,74 @@ export function setupSocketHandlers(io: TypedServer) {
           .from(rooms)
           .where(eq(rooms.code, roomCode));
 
-        if (!room) {
+        // A room code can be reused after cleanup - the ticket is bound to the room id
+        if (!room || room.id !== socket.data.roomId) {
           socket.emit('error', { message: 'Room not found' });
           return;
         }
 
-        if (room.status === 'matched' || room.status === 'expired') {
+        if (room.status === 'final' || room.status === 'matched' || room.status === 'expired') {
           return;
         }
 
-        // Record swipe
-        await db
-          .insert(swipes)
-          .values({
-            roomId: room.id,
-            movieId,
-            userSlot,
-            action,
-          })
-          .onConflictDoNothing();
+        if (action === 'veto' && (await countVetoes(room.id, userSlot)) >= VETOES_PER_ROOM) {
+          socket.emit('error', { message: 'No vetoes left' });
+          return;
+        }
 
-        // Count user's total swipes for progress
-        const userSwipes = await db
-          .select()
-          .from(swipes)
-          .where(and(eq(swipes.roomId, room.id), eq(swipes.userSlot, userSlot)));
+        // Record swipe - a repeat (e.g. resent after a reconnect) was already broadcast and checked
+        if (!(await recordSwipe(room.id, userSlot, socket.data.userId ?? null, movieId, action))) {
+          return;
+        }
 
-        // Broadcast swipe progress
+        // Broadcast per-member swipe progress
+        const members = await getMemberProgress(room.id);
         io.to(roomCode).emit('swipe_progress', {
           userSlot,
-          totalSwiped: userSwipes.length,
+          totalSwiped: members.find((m) => m.userSlot === userSlot)?.totalSwiped ?? 0,
+          members,
         });
 
-        // Check for match if this is a "like"
-        if (action === 'like') {
-          const otherSlot = userSlot === 'A' ? 'B' : 'A';
-          const partnerId = userSlot === 'A' ? room.userBId : room.userAId;
+        // A veto hides the title from everyone else for the rest of the room
+        if (action === 'veto') {
+          socket.to(roomCode).emit('partner_vetoed', { movieId });
+        }
 
-          // Get movie data to send to partner
+        // Check for match if this is a like or super-like
+        if (action === 'like' || action === 'super_like') {
+          // Get movie data to send to the other members
           const movie = await getMovieById(movieId);
 
-          // Notify partner to inject this movie into their queue
+          // Notify other members to inject this movie into their queue
           if (movie) {
-            socket.to(roomCode).emit('partner_liked', { movieId, movie });
+            socket.to(roomCode).emit('partner_liked', {
+              movieId,
+              movie,
+              isSuperLike: action === 'super_like',
+            });
           }
 
-          // Check if other user also liked this movie (via swipe)
-          const [otherSwipe] = await db
-            .select()
+          const participants = await getParticipants(room.id);
+          // Members who left (or were released after the grace period) no longer hold up a match
+          const activeCount = participants.filter((p) => p.isConnected).length;
+
+          // Every member's verdict on this movie in this room
+          const verdicts = await db
+            .select({ userSlot: swipes.userSlot, action: swipes.action })
             .from(swipes)
-            .where(
-              and(
-                eq(swipes.roomId, room.id),
-                eq(swipes.movieId, movieId),
-                eq(swipes.userSlot, otherSlot),
-                eq(swipes.action, 'like')
-              )
-            );
-
-          // Check if movie is in partner's watchlist (for instant match)
-          let partnerHasInWatchlist = false;
-          if (!otherSwipe && partnerId) {
+            .where(and(eq(swipes.roomId, room.id), eq(swipes.movieId, movieId)));
+
+          const isVetoed = verdicts.some((v) => v.action === 'veto');
+          const likes = verdicts.filter((v) => isLikeAction(v.action));
+          const superLikeCount = likes.filter((v) => v.action === 'super_like').length;
+          const supporters = new Set(likes.map((l) => l.userSlot));
+
+          // Members who have the movie in their watchlist count as likes too (instant match)
+          const watchlistUserIds = participants
+            .filter((p) => p.userId && !supporters.has(p.userSlot))
+            .map((p) => p.userId!);
+
+          if (watchlistUserIds.length > 0) {
             // First look up the movie to get unifiedMovieId
             const [movieEntry] = await db
               .select({ id: movies.id })
@@ -183,12 +265,12 @@ export function setupSocketHandlers(io: TypedServer) {
               .where(eq(movies.tmdbId, movieId));
 
             if (movieEntry) {
-              const [watchlistEntry] = await db
-                .select()
+              const watchlistEntries = await db
+                .select({ userId: userMovieLists.userId })
                 .from(userMovieLists)
                 .where(
                   and(
-                    eq(userMovieLists.userId, partnerId),
+                    inArray(userMovieLists.userId, watchlistUserIds),
                     eq(userMovieLists.unifiedMovieId, movieEntry.id),
                     inArray(userMovieLists.status, [
                       MOVIE_STATUS.WANT_TO_WATCH,
@@ -196,82 +278,544 @@ export function setupSocketHandlers(io: TypedServer) {
                     ])
                   )
                 );
-              partnerHasInWatchlist = !!watchlistEntry;
+              const watchlistOwners = new Set(watchlistEntries.map((w) => w.userId));
+
+              participants
+                .filter((p) => p.userId && watchlistOwners.has(p.userId))
+                .forEach((p) => supporters.add(p.userSlot));
             }
           }
 
-          if (otherSwipe || partnerHasInWatchlist) {
-            // MATCH FOUND!
-            const expiresAt = new Date(Date.now() + 5 * 60 * 1000); // 5 minutes TTL
-
-            await db
-              .update(rooms)
-              .set({
-                status: 'matched',
-                matchedMovieId: movieId,
-                expiresAt,
-              })
-              .where(eq(rooms.id, room.id));
-
-            io.to(roomCode).emit('match_found', { movieId });
-
-            // Schedule room expiration
-            setTimeout(async () => {
-              await db
-                .update(rooms)
-                .set({ status: 'expired' })
-                .where(eq(rooms.id, room.id));
-
-              io.to(roomCode).emit('room_expired');
-            }, 5 * 60 * 1000);
+          if (
+            !isVetoed &&
+            isMatch(
+              supporters.size,
+              room.matchRule as MatchRule,
+              activeCount,
+              room.matchThreshold,
+              superLikeCount
+            )
+          ) {
+            if (room.matchMode === 'shortlist') {
+              // Collect the match instead of ending the room
+              const added = await addToShortlist(room.id, movieId, supporters.size);
+              if (added) {
+                const shortlist = await getShortlist(room.id);
+                io.to(roomCode).emit('shortlist_updated', await buildShortlistPayload(room, shortlist));
+              }
+            } else {
+              await completeMatch(io, room, movieId);
+            }
           }
         }
+
+        if (room.matchMode === 'shortlist') {
+          await maybeStartFinalRound(io, room, members);
+        }
       } catch (error) {
         console.error('Error processing swipe:', error);
         socket.emit('error', { message: 'Failed to process swipe' });
       }
     });
 
+    // Handle undo of the member's last swipe
+    socket.on('undo_swipe', async (payload: UndoSwipePayload, callback) => {
+      const { roomCode } = payload;
+      const userSlot = getTicketSlot(socket, roomCode);
+      if (!userSlot) {
+        callback(null);
+        return;
+      }
+
+      try {
+        const [room] = await db
+          .select()
+          .from(rooms)
+          .where(eq(rooms.code, roomCode));
+
+        if (
+          !room ||
+          room.id !== socket.data.roomId ||
+          room.status === 'final' ||
+          room.status === 'matched' ||
+          room.status === 'expired'
+        ) {
+          callback(null);
+          return;
+        }
+
+        const swipe = await getLastSwipe(room.id, userSlot);
+        if (!swipe) {
+          callback(null);
+          return;
+        }
+
+        // A like that already made the shortlist stays - the others have seen the match
+        if (isLikeAction(swipe.action) && room.matchMode === 'shortlist') {
+          const shortlist = await getShortlist(room.id);
+          if (shortlist.some((entry) => entry.movieId === swipe.movieId)) {
+            callback(null);
+            return;
+          }
+        }
+
+        if (!(await deleteSwipe(swipe, socket.data.userId ?? null))) {
+          callback(null);
+          return;
+        }
+
+        if (isLikeAction(swipe.action)) {
+          socket.to(roomCode).emit('partner_like_retracted', { movieId: swipe.movieId });
+        } else if (swipe.action === 'veto') {
+          socket.to(roomCode).emit('partner_veto_retracted', { movieId: swipe.movieId });
+        }
+
+        const members = await getMemberProgress(room.id);
+        io.to(roomCode).emit('swipe_progress', {
+          userSlot,
+          totalSwiped: members.find((m) => m.userSlot === userSlot)?.totalSwiped ?? 0,
+          members,
+        });
+
+        callback(swipe.movieId);
+      } catch (error) {
+        console.error('Error undoing swipe:', error);
+        socket.emit('error', { message: 'Failed to undo swipe' });
+        callback(null);
+      }
+    });
+
+    // Shortlist mode: vote in the current head-to-head round
+    socket.on('final_vote', async (payload: FinalVotePayload) => {
+      const { roomCode, movieId } = payload;
+      const userSlot = getTicketSlot(socket, roomCode);
+      if (!userSlot) return;
+
+      try {
+        const [room] = await db
+          .select()
+          .from(rooms)
+          .where(eq(rooms.code, roomCode));
+
+        if (!room || room.id !== socket.data.roomId || room.status !== 'final' || !room.finalRound) {
+          return;
+        }
+
+        const shortlist = await getShortlist(room.id);
+        const challenger = shortlist[room.finalRound];
+
+        if (movieId !== room.finalChampionId && movieId !== challenger?.movieId) {
+          socket.emit('error', { message: 'Title is not in this round' });
+          return;
+        }
+
+        await recordFinalVote(room.id, room.finalRound, userSlot, movieId);
+        await resolveFinalRound(io, room, shortlist);
+      } catch (error) {
+        console.error('Error processing final vote:', error);
+        socket.emit('error', { message: 'Failed to process vote' });
+      }
+    });
+
+    // Continue a matched room in a linked room with the same members
+    socket.on('request_rematch', async (payload: RematchPayload, callback) => {
+      const { roomCode, rejectMatch = false } = payload;
+      const userSlot = getTicketSlot(socket, roomCode);
+      if (!userSlot) {
+        callback(null);
+        return;
+      }
+
+      try {
+        const [room] = await db
+          .select()
+          .from(rooms)
+          .where(eq(rooms.code, roomCode));
+
+        if (!room || room.id !== socket.data.roomId || room.status !== 'matched') {
+          callback(null);
+          return;
+        }
+
+        const rematch = await getOrCreateRematchRoom(room, rejectMatch);
+        const participant = await getParticipant(rematch.id, userSlot);
+        if (!participant) {
+          callback(null);
+          return;
+        }
+
+        callback({
+          roomCode: rematch.code,
+          pin: rematch.pin,
+          userSlot,
+          moviePoolSeed: rematch.moviePoolSeed,
+          ticket: createRoomTicket({
+            roomId: rematch.id,
+            roomCode: rematch.code,
+            userSlot,
+            userId: participant.userId,
+          }),
+        });
+
+        socket.to(roomCode).emit('rematch_started', {
+          rejectedMatch: rematch.previousMatchId === null,
+        });
+      } catch (error) {
+        console.error('Error starting rematch:', error);
+        socket.emit('error', { message: 'Failed to start rematch' });
+        callback(null);
+      }
+    });
+
     // Handle leave room
     socket.on('leave_room', async (payload: LeaveRoomPayload) => {
-      const { roomCode, userSlot } = payload;
+      const { roomCode } = payload;
+      const userSlot = getTicketSlot(socket, roomCode);
+      if (!userSlot) return;
+
+      // Explicit leave skips the reconnect grace period
       await handleUserLeave(io, roomCode, userSlot);
       socket.leave(roomCode);
-      userConnections.delete(socket.id);
     });
 
     // Handle disconnect
     socket.on('disconnect', async () => {
       console.log('Client disconnected:', socket.id);
 
-      const connection = userConnections.get(socket.id);
-      if (connection) {
-        await handleUserLeave(io, connection.roomCode, connection.userSlot);
-        userConnections.delete(socket.id);
+      const { roomCode, userSlot } = socket.data;
+      if (!roomCode || !userSlot) return;
+
+      try {
+        // The member may already be back on a new socket, possibly on another server
+        const sockets = await io.in(roomCode).fetchSockets();
+        if (sockets.some((s) => s.data.userSlot === userSlot)) return;
+
+        const [room] = await db
+          .select()
+          .from(rooms)
+          .where(eq(rooms.code, roomCode));
+
+        // Flaky mobile connections drop briefly - the sweeper reports the leave after the grace period
+        if (room) {
+          await markParticipantDisconnected(room.id, userSlot);
+        }
+      } catch (error) {
+        console.error('Error handling disconnect:', error);
       }
     });
   });
 }
 
+// Runs in every server process; each update claims its rows, so work is never done twice.
+// Expiry comes from the persisted expiresAt, so a restart doesn't lose pending expiries.
+function startRoomSweeper(io: TypedServer) {
+  const sweep = async () => {
+    try {
+      const expired = await expireDueRooms();
+      expired.forEach((room) => io.to(room.code).emit('room_expired'));
+
+      const released = await releaseDisconnectedParticipants(
+        new Date(Date.now() - RECONNECT_GRACE_MS)
+      );
+      for (const { roomId, userSlot } of released) {
+        const [room] = await db.select().from(rooms).where(eq(rooms.id, roomId));
+        if (room) {
+          await notifyUserLeft(io, room, userSlot as UserSlot);
+        }
+      }
+    } catch (error) {
+      console.error('Error sweeping rooms:', error);
+    }
+  };
+
+  sweep();
+  setInterval(sweep, ROOM_SWEEP_INTERVAL_MS).unref();
+}
+
+// Slot of the member who owns this socket, or null when the ticket is for another room
+function getTicketSlot(socket: TypedSocket, roomCode: string): UserSlot | null {
+  const { roomCode: ticketRoomCode, userSlot } = socket.data;
+
+  if (!userSlot || ticketRoomCode !== roomCode) {
+    socket.emit('error', { message: 'Room ticket does not match this room' });
+    return null;
+  }
+
+  return userSlot;
+}
+
+// Shared by join_room and resume_room. Returns null when the socket could not join.
+async function joinRoom(
+  io: TypedServer,
+  socket: TypedSocket,
+  roomCode: string,
+  userSlot: UserSlot
+): Promise<Room | null> {
+  // Verify room exists first
+  const [room] = await db
+    .select()
+    .from(rooms)
+    .where(eq(rooms.code, roomCode));
+
+  // A room code can be reused after cleanup - the ticket is bound to the room id
+  if (!room || room.id !== socket.data.roomId) {
+    socket.emit('error', { message: 'Room not found' });
+    return null;
+  }
+
+  // Slot must have been claimed via the /join route
+  const participant = await getParticipant(room.id, userSlot);
+  if (!participant) {
+    socket.emit('error', { message: 'Not a room participant' });
+    return null;
+  }
+
+  // Join Socket.io room (socket.data from the ticket tracks it for disconnect handling)
+  socket.join(roomCode);
+
+  // Back within the grace period - the others never saw this member leave
+  const isReconnect = participant.isConnected && participant.disconnectedAt !== null;
+
+  // Update database
+  await setParticipantConnected(room.id, userSlot, true);
+
+  // Notify room members
+  if (!isReconnect) {
+    io.to(roomCode).emit('user_joined', { userSlot });
+  }
+  await emitRoomMembers(io, room);
+
+  // Check if joining user is authenticated and notify the others
+  if (socket.data.userId && !isReconnect) {
+    // Check if user has items in their watchlist
+    const watchlistCount = await db
+      .select()
+      .from(userMovieLists)
+      .where(
+        and(
+          eq(userMovieLists.userId, socket.data.userId),
+          inArray(userMovieLists.status, [
+            MOVIE_STATUS.WANT_TO_WATCH,
+            MOVIE_STATUS.WATCHING,
+          ])
+        )
+      );
+
+    // Notify others that this user is authenticated (so they can refetch queue)
+    socket.to(roomCode).emit('partner_auth_changed', {
+      isAuthenticated: true,
+      hasWantToWatchList: watchlistCount.length > 0,
+    });
+  }
+
+  // Late joiner of a group room that is already swiping (or in the final round)
+  if (room.status === 'active' || room.status === 'final') {
+    socket.emit('room_ready', { roomCode });
+
+    if (room.matchMode === 'shortlist') {
+      const shortlist = await getShortlist(room.id);
+      socket.emit('shortlist_updated', await buildShortlistPayload(room, shortlist));
+
+      if (room.status === 'final') {
+        socket.emit('final_round', await buildFinalRoundPayload(room, shortlist));
+      }
+    }
+    return room;
+  }
+
+  // Start automatically once every slot is connected
+  const participants = await getParticipants(room.id);
+  const connectedCount = participants.filter((p) => p.isConnected).length;
+
+  if (room.status === 'waiting' && connectedCount >= room.maxParticipants) {
+    await activateRoom(io, room);
+  }
+
+  return room;
+}
+
+async function activateRoom(io: TypedServer, room: Room) {
+  await db
+    .update(rooms)
+    .set({ status: 'active' })
+    .where(eq(rooms.id, room.id));
+
+  io.to(room.code).emit('room_ready', { roomCode: room.code });
+}
+
+async function completeMatch(io: TypedServer, room: Room, movieId: number) {
+  // MATCH FOUND! The sweeper expires the room once expiresAt passes
+  const expiresAt = getMatchExpiry();
+
+  const [matched] = await db
+    .update(rooms)
+    .set({
+      status: 'matched',
+      matchedMovieId: movieId,
+      expiresAt,
+    })
+    .where(and(eq(rooms.id, room.id), notInArray(rooms.status, ['matched', 'expired'])))
+    .returning();
+
+  // Another member's swipe or vote already finished the room
+  if (!matched) return;
+
+  io.to(room.code).emit('match_found', { movieId });
+
+  recordRoomMatch(matched, movieId).catch((error) =>
+    console.error('Failed to record room match:', error)
+  );
+
+  // Matches outlive the room on the shared watchlists of paired members
+  addMatchToPairWatchlists(room.id, movieId).catch((error) =>
+    console.error('Failed to add match to pair watchlists:', error)
+  );
+}
+
+// Final round starts once the shortlist is full or every connected member used up the swipe budget
+async function maybeStartFinalRound(io: TypedServer, room: Room, members: MemberProgress[]) {
+  const shortlist = await getShortlist(room.id);
+  if (shortlist.length === 0) return;
+
+  const isFull = shortlist.length >= (room.shortlistSize ?? shortlist.length);
+  const budget = room.swipeBudget;
+  const isBudgetSpent =
+    budget !== null &&
+    members.filter((m) => m.isConnected).every((m) => m.totalSwiped >= budget);
+
+  if (!isFull && !isBudgetSpent) return;
+
+  // Nothing to compare against - the only title wins
+  if (shortlist.length === 1) {
+    await completeMatch(io, room, shortlist[0].movieId);
+    return;
+  }
+
+  const [started] = await db
+    .update(rooms)
+    .set({
+      status: 'final',
+      finalRound: 1,
+      finalChampionId: shortlist[0].movieId,
+    })
+    .where(and(eq(rooms.id, room.id), eq(rooms.status, 'active')))
+    .returning();
+
+  if (!started) return;
+
+  io.to(room.code).emit('final_round', await buildFinalRoundPayload(started, shortlist));
+}
+
+// Each round pits the current champion against the next shortlisted title
+async function resolveFinalRound(io: TypedServer, room: Room, shortlist: RoomShortlistEntry[]) {
+  const round = room.finalRound;
+  const championId = room.finalChampionId;
+  const challenger = shortlist[round ?? 0];
+  if (!round || !championId || !challenger) return;
+
+  // Wait until every connected member has voted
+  const [votes, participants] = await Promise.all([
+    getFinalVotes(room.id, round),
+    getParticipants(room.id),
+  ]);
+  const connectedCount = participants.filter((p) => p.isConnected).length;
+  if (votes.length === 0 || votes.length < connectedCount) return;
+
+  const winnerId = pickRoundWinner(votes, championId, challenger.movieId);
+
+  if (round >= shortlist.length - 1) {
+    await completeMatch(io, room, winnerId);
+    return;
+  }
+
+  const [next] = await db
+    .update(rooms)
+    .set({ finalRound: round + 1, finalChampionId: winnerId })
+    .where(and(eq(rooms.id, room.id), eq(rooms.finalRound, round)))
+    .returning();
+
+  if (!next) return;
+
+  io.to(room.code).emit('final_round', await buildFinalRoundPayload(next, shortlist));
+}
+
+async function buildShortlistItems(entries: RoomShortlistEntry[]): Promise<ShortlistItem[]> {
+  return Promise.all(
+    entries.map(async (entry) => ({
+      movieId: entry.movieId,
+      movie: await getMovieById(entry.movieId),
+      likeCount: entry.likeCount,
+    }))
+  );
+}
+
+async function buildShortlistPayload(
+  room: Room,
+  shortlist: RoomShortlistEntry[]
+): Promise<ShortlistUpdatedPayload> {
+  return {
+    items: await buildShortlistItems(shortlist),
+    shortlistSize: room.shortlistSize,
+  };
+}
+
+async function buildFinalRoundPayload(
+  room: Room,
+  shortlist: RoomShortlistEntry[]
+): Promise<FinalRoundPayload> {
+  const round = room.finalRound ?? 1;
+  const champion = shortlist.find((entry) => entry.movieId === room.finalChampionId);
+  const challenger = shortlist[round];
+
+  return {
+    round,
+    totalRounds: shortlist.length - 1,
+    candidates: await buildShortlistItems(
+      [champion, challenger].filter((entry): entry is RoomShortlistEntry => !!entry)
+    ),
+  };
+}
+
+async function emitRoomMembers(io: TypedServer, room: Room) {
+  const members = await getMemberProgress(room.id);
+
+  io.to(room.code).emit('room_members', {
+    members,
+    deckFilters: await getRoomDeckFilters(room.id),
+    ...toRoomSettings(room),
+  });
+}
+
 async function handleUserLeave(
   io: TypedServer,
   roomCode: string,
-  userSlot: 'A' | 'B'
+  userSlot: UserSlot
 ) {
   try {
-    const updateField =
-      userSlot === 'A'
-        ? { userAConnected: false }
-        : { userBConnected: false };
+    const [room] = await db
+      .select()
+      .from(rooms)
+      .where(eq(rooms.code, roomCode));
 
-    await db.update(rooms).set(updateField).where(eq(rooms.code, roomCode));
+    if (!room) return;
 
-    io.to(roomCode).emit('user_left', { userSlot });
+    await setParticipantConnected(room.id, userSlot, false);
+    await notifyUserLeft(io, room, userSlot);
   } catch (error) {
     console.error('Error handling user leave:', error);
   }
 }
 
+async function notifyUserLeft(io: TypedServer, room: Room, userSlot: UserSlot) {
+  io.to(room.code).emit('user_left', { userSlot });
+  await emitRoomMembers(io, room);
+
+  // A member leaving mid-vote may have been the last one the round was waiting for
+  if (room.status === 'final') {
+    await resolveFinalRound(io, room, await getShortlist(room.id));
+  }
+}
+
 // Parse genres from JSON safely - handles both old format (strings) and new format ({id, name} objects)
 function parseGenres(genresJson: string | null): string[] {
   if (!genresJson) return [];
@@ -1,5 +1,5 @@
 // Seeded random number generator (Mulberry32)
-function mulberry32(seed: number) {
+export function mulberry32(seed: number) {
   return function () {
     let t = (seed += 0x6d2b79f5);
     t = Math.imul(t ^ (t >>> 15), t | 1);
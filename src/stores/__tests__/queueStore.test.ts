@@ -87,6 +87,62 @@ describe('queueStore', () => {
     });
   });
 
+  describe('skipSwiped', () => {
+    const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+    it('should move past leading cards the server already recorded', () => {
+      const items = [createQueueItem(1), createQueueItem(2), createQueueItem(3), createQueueItem(4)];
+
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', items, meta);
+        useQueueStore.getState().consumeNext();
+        useQueueStore.getState().skipSwiped([1, 2, 3]);
+      });
+
+      expect(useQueueStore.getState().currentIndex).toBe(3);
+    });
+
+    it('should stop at the first unswiped card', () => {
+      const items = [createQueueItem(1), createQueueItem(2), createQueueItem(3)];
+
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', items, meta);
+        useQueueStore.getState().skipSwiped([2, 3]);
+      });
+
+      expect(useQueueStore.getState().currentIndex).toBe(0);
+    });
+  });
+
+  describe('rewind', () => {
+    const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+    it('should bring back the previous card', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1), createQueueItem(2)], meta);
+        useQueueStore.getState().consumeNext();
+      });
+
+      let rewound = false;
+      act(() => {
+        rewound = useQueueStore.getState().rewind(1);
+      });
+
+      expect(rewound).toBe(true);
+      expect(useQueueStore.getState().currentIndex).toBe(0);
+    });
+
+    it('should not move when the previous card is a different movie', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1), createQueueItem(2)], meta);
+        useQueueStore.getState().consumeNext();
+        useQueueStore.getState().rewind(2);
+      });
+
+      expect(useQueueStore.getState().currentIndex).toBe(1);
+    });
+  });
+
   describe('getCurrentMovie', () => {
     it('should return current movie at currentIndex', () => {
       const items = [createQueueItem(100), createQueueItem(200), createQueueItem(300)];
@@ -196,6 +252,21 @@ describe('queueStore', () => {
       expect(useQueueStore.getState().queue).toHaveLength(2);
     });
 
+    it('should make a super-liked movie the next card', () => {
+      const items = [createQueueItem(1), createQueueItem(2), createQueueItem(3), createQueueItem(4), createQueueItem(5)];
+      const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', items, meta);
+        useQueueStore.getState().injectPartnerLike(createMockMovie(999), true);
+        // Already queued further back - moves up instead of duplicating
+        useQueueStore.getState().injectPartnerLike(createMockMovie(5), true);
+      });
+
+      const ids = useQueueStore.getState().queue.map((item) => item.movie.tmdbId);
+      expect(ids).toEqual([1, 5, 999, 2, 3, 4]);
+    });
+
     it('should defer injection during animation', () => {
       const items = [createQueueItem(1), createQueueItem(2)];
       const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
@@ -218,6 +289,96 @@ describe('queueStore', () => {
     });
   });
 
+  describe('retractPartnerLike', () => {
+    const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+    it('should remove an injected card that was not swiped yet', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1), createQueueItem(2)], meta);
+        useQueueStore.getState().injectPartnerLike(createMockMovie(999));
+        useQueueStore.getState().retractPartnerLike(999);
+      });
+
+      const state = useQueueStore.getState();
+      expect(state.queue.map((item) => item.movie.tmdbId)).toEqual([1, 2]);
+    });
+
+    it('should drop deferred likes', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1)], meta);
+        useQueueStore.getState().setAnimating(true);
+        useQueueStore.getState().injectPartnerLike(createMockMovie(999));
+        useQueueStore.getState().retractPartnerLike(999);
+      });
+
+      expect(useQueueStore.getState().pendingPartnerLikes).toHaveLength(0);
+    });
+
+    it('should keep cards the member already swiped', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(999, 'partner_like'), createQueueItem(1)], meta);
+        useQueueStore.getState().consumeNext();
+        useQueueStore.getState().retractPartnerLike(999);
+      });
+
+      expect(useQueueStore.getState().queue).toHaveLength(2);
+    });
+  });
+
+  describe('appendMovies', () => {
+    it('should skip movies that are already queued', () => {
+      const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1)], meta);
+        useQueueStore.getState().injectPartnerLike(createMockMovie(999));
+        useQueueStore.getState().appendMovies([createQueueItem(999, 'partner_like'), createQueueItem(2)], meta);
+      });
+
+      expect(useQueueStore.getState().queue.map((item) => item.movie.tmdbId)).toEqual([1, 999, 2]);
+    });
+  });
+
+  describe('removeMovie', () => {
+    it('should hide a vetoed movie that was not swiped yet', () => {
+      const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1), createQueueItem(2), createQueueItem(3)], meta);
+        useQueueStore.getState().removeMovie(3);
+      });
+
+      expect(useQueueStore.getState().queue.map((item) => item.movie.tmdbId)).toEqual([1, 2]);
+    });
+  });
+
+  describe('restoreVetoedMovie', () => {
+    const meta = { priorityQueueRemaining: 0, basePoolRemaining: 100, totalRemaining: 100, hasMore: true };
+
+    it('should bring back a card hidden by a veto that was undone', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1), createQueueItem(2), createQueueItem(3)], meta);
+        useQueueStore.getState().removeMovie(2);
+        useQueueStore.getState().restoreVetoedMovie(2);
+      });
+
+      const state = useQueueStore.getState();
+      expect(state.queue.map((item) => item.movie.tmdbId)).toEqual([1, 3, 2]);
+      expect(state.vetoedItems).toHaveLength(0);
+    });
+
+    it('should ignore titles the veto never hid', () => {
+      act(() => {
+        useQueueStore.getState().initializeQueue('ABC123', 'A', [createQueueItem(1), createQueueItem(2)], meta);
+        useQueueStore.getState().consumeNext();
+        useQueueStore.getState().removeMovie(1);
+        useQueueStore.getState().restoreVetoedMovie(1);
+      });
+
+      expect(useQueueStore.getState().queue.map((item) => item.movie.tmdbId)).toEqual([1, 2]);
+    });
+  });
+
   describe('processPendingLikes', () => {
     it('should process pending likes after animation ends', () => {
       const items = [createQueueItem(1), createQueueItem(2)];
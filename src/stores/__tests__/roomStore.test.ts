@@ -136,6 +136,93 @@ describe('roomStore', () => {
 
       expect(useRoomStore.getState().isSoloMode).toBe(false);
     });
+
+    it('should join with a new ticket and resume with one that already joined', () => {
+      act(() => {
+        useRoomStore.getState().setRoom('ROOM01', '111111', 'A', 100000, 'ticket-1');
+        useRoomStore.getState().setJoinedRoom();
+      });
+
+      expect(useRoomStore.getState().hasJoinedRoom).toBe(true);
+
+      act(() => {
+        useRoomStore.getState().setRoom('ROOM02', '222222', 'B', 200000, 'ticket-2');
+      });
+
+      expect(useRoomStore.getState().hasJoinedRoom).toBe(false);
+    });
+  });
+
+  describe('members', () => {
+    it('should add a member when an unknown slot connects', () => {
+      act(() => {
+        useRoomStore.getState().setRoom('GRP001', '123123', 'A', 100000);
+        useRoomStore.getState().setMemberConnected('C', true);
+      });
+
+      expect(useRoomStore.getState().members).toEqual([
+        { userSlot: 'C', totalSwiped: 0, vetoesUsed: 0, isConnected: true, isAuthenticated: false },
+      ]);
+    });
+
+    it('should keep progress when a known member disconnects', () => {
+      act(() => {
+        useRoomStore.getState().setMembers([
+          { userSlot: 'A', totalSwiped: 3, vetoesUsed: 0, isConnected: true, isAuthenticated: true },
+          { userSlot: 'B', totalSwiped: 5, vetoesUsed: 0, isConnected: true, isAuthenticated: false },
+        ]);
+        useRoomStore.getState().setMemberConnected('B', false);
+      });
+
+      const members = useRoomStore.getState().members;
+      expect(members[1]).toEqual({ userSlot: 'B', totalSwiped: 5, vetoesUsed: 0, isConnected: false, isAuthenticated: false });
+      expect(members[0].isConnected).toBe(true);
+    });
+
+    it('should clear members when joining a new room', () => {
+      act(() => {
+        useRoomStore.getState().setMemberConnected('B', true);
+        useRoomStore.getState().setRoom('NEW789', '456456', 'C', 200000);
+      });
+
+      expect(useRoomStore.getState().members).toEqual([]);
+    });
+  });
+
+  describe('shortlist', () => {
+    const candidates = [
+      { movieId: 101, movie: null, likeCount: 2 },
+      { movieId: 202, movie: null, likeCount: 3 },
+    ];
+
+    it('should clear the previous vote when a new final round starts', () => {
+      act(() => {
+        useRoomStore.getState().setFinalRound({ round: 1, totalRounds: 2, candidates });
+        useRoomStore.getState().setFinalVote(101);
+      });
+
+      expect(useRoomStore.getState().finalVote).toBe(101);
+
+      act(() => {
+        useRoomStore.getState().setFinalRound({ round: 2, totalRounds: 2, candidates });
+      });
+
+      expect(useRoomStore.getState().finalRound?.round).toBe(2);
+      expect(useRoomStore.getState().finalVote).toBe(null);
+    });
+
+    it('should clear shortlist state when joining a new room', () => {
+      act(() => {
+        useRoomStore.getState().setShortlist(candidates);
+        useRoomStore.getState().setFinalRound({ round: 1, totalRounds: 1, candidates });
+        useRoomStore.getState().setRoom('NEW789', '456456', 'B', 200000);
+      });
+
+      const state = useRoomStore.getState();
+      expect(state.shortlist).toEqual([]);
+      expect(state.finalRound).toBe(null);
+      expect(state.finalVote).toBe(null);
+    });
   });
 
   describe('reset', () => {
@@ -144,11 +231,13 @@ describe('roomStore', () => {
       act(() => {
         useRoomStore.getState().setRoom('TEST01', '444444', 'A', 400000);
         useRoomStore.getState().setConnected(true);
-        useRoomStore.getState().setPartnerConnected(true);
+        useRoomStore.getState().setMemberConnected('B', true);
         useRoomStore.getState().setRoomReady(true);
         useRoomStore.getState().setMatchFound(true);
         useRoomStore.getState().setMatchedMovieId(77777);
-        useRoomStore.getState().setPartnerSwipeCount(10);
+        useRoomStore.getState().setMembers([
+          { userSlot: 'B', totalSwiped: 10, vetoesUsed: 0, isConnected: true, isAuthenticated: false },
+        ]);
       });
 
       // Reset
@@ -163,11 +252,11 @@ describe('roomStore', () => {
       expect(state.moviePoolSeed).toBe(null);
       expect(state.isSoloMode).toBe(false);
       expect(state.isConnected).toBe(false);
-      expect(state.isPartnerConnected).toBe(false);
+      expect(state.members).toEqual([]);
       expect(state.isRoomReady).toBe(false);
       expect(state.isMatchFound).toBe(false);
       expect(state.matchedMovieId).toBe(null);
-      expect(state.partnerSwipeCount).toBe(0);
+      expect(state.roomSettings).toBe(null);
     });
   });
 
@@ -69,6 +69,35 @@ describe('swipeStore', () => {
       expect(swipes[0]).toMatchObject({ movieId: 111, action: 'like' });
       expect(swipes[1]).toMatchObject({ movieId: 222, action: 'skip' });
     });
+
+    it('should remember the exact action for resending after a reconnect', () => {
+      act(() => {
+        useSwipeStore.getState().addSwipe(111, true, 'super_like');
+        useSwipeStore.getState().addSwipe(222, false, 'veto');
+        useSwipeStore.getState().addSwipe(333, true);
+      });
+
+      const state = useSwipeStore.getState();
+      expect(state.getSwipeAction(111)).toBe('super_like');
+      expect(state.getSwipeAction(222)).toBe('veto');
+      expect(state.getSwipeAction(333)).toBe('like');
+    });
+  });
+
+  describe('removeSwipe', () => {
+    it('should forget an undone swipe, including its anonymous record', () => {
+      act(() => {
+        useSwipeStore.getState().addSwipe(111, false);
+        useSwipeStore.getState().addSwipe(222, true);
+        useSwipeStore.getState().removeSwipe(222);
+      });
+
+      const state = useSwipeStore.getState();
+      expect(state.swipedMovieIds).toEqual([111]);
+      expect(state.likedMovieIds).not.toContain(222);
+      expect(state.getAnonymousSwipes()).toHaveLength(1);
+      expect(state.getAnonymousSwipes()[0]).toMatchObject({ movieId: 111 });
+    });
   });
 
   describe('hasSwipedMovie', () => {
@@ -3,10 +3,17 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { MediaTypeFilter } from '@/types/movie';
+import { DEFAULT_EXPLORE_LEVEL, type DeckFilters } from '@/types/deck';
 
-export interface DeckSettings {
+export interface DeckSettings
+  extends Pick<DeckFilters, 'genreIds' | 'minYear' | 'maxYear' | 'maxRuntime' | 'languages'> {
   showWatchedMovies: boolean;
   mediaTypeFilter: MediaTypeFilter;
+  // Solo deck: % of cards picked outside the learned taste
+  exploreLevel: number;
+  // The user's streaming services (TMDB provider ids) and whether decks stick to them
+  watchProviderIds: number[];
+  availableOnly: boolean;
 }
 
 interface DeckSettingsState extends DeckSettings {
@@ -25,8 +32,32 @@ interface DeckSettingsState extends DeckSettings {
 const defaultSettings: DeckSettings = {
   showWatchedMovies: false,
   mediaTypeFilter: 'all',
+  genreIds: [],
+  minYear: null,
+  maxYear: null,
+  maxRuntime: null,
+  languages: [],
+  exploreLevel: DEFAULT_EXPLORE_LEVEL,
+  watchProviderIds: [],
+  availableOnly: false,
 };
 
+// Settings as returned by /api/settings/deck (or kept from a previous state)
+function pickSettings(data: Partial<DeckSettings>): DeckSettings {
+  return {
+    showWatchedMovies: data.showWatchedMovies ?? false,
+    mediaTypeFilter: data.mediaTypeFilter ?? 'all',
+    genreIds: data.genreIds ?? [],
+    minYear: data.minYear ?? null,
+    maxYear: data.maxYear ?? null,
+    maxRuntime: data.maxRuntime ?? null,
+    languages: data.languages ?? [],
+    exploreLevel: data.exploreLevel ?? DEFAULT_EXPLORE_LEVEL,
+    watchProviderIds: data.watchProviderIds ?? [],
+    availableOnly: data.availableOnly ?? false,
+  };
+}
+
 const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
 
 export const useDeckSettingsStore = create<DeckSettingsState>()(
@@ -65,8 +96,7 @@ export const useDeckSettingsStore = create<DeckSettingsState>()(
 
       const data = await response.json();
       set({
-        showWatchedMovies: data.showWatchedMovies ?? false,
-        mediaTypeFilter: data.mediaTypeFilter ?? 'all',
+        ...pickSettings(data),
         isLoaded: true,
         isLoading: false,
         lastFetched: Date.now(),
@@ -93,29 +123,20 @@ export const useDeckSettingsStore = create<DeckSettingsState>()(
 
       if (!response.ok) {
         // Revert on error
-        set({
-          showWatchedMovies: previousState.showWatchedMovies,
-          mediaTypeFilter: previousState.mediaTypeFilter,
-          isLoading: false,
-        });
+        set({ ...pickSettings(previousState), isLoading: false });
         throw new Error('Failed to update settings');
       }
 
       const data = await response.json();
       set({
-        showWatchedMovies: data.showWatchedMovies ?? false,
-        mediaTypeFilter: data.mediaTypeFilter ?? 'all',
+        ...pickSettings(data),
         isLoading: false,
         lastFetched: Date.now(),
       });
     } catch (error) {
       console.error('Failed to update deck settings:', error);
       // Revert on error
-      set({
-        showWatchedMovies: previousState.showWatchedMovies,
-        mediaTypeFilter: previousState.mediaTypeFilter,
-        isLoading: false,
-      });
+      set({ ...pickSettings(previousState), isLoading: false });
     }
   },
 
@@ -130,6 +151,14 @@ export const useDeckSettingsStore = create<DeckSettingsState>()(
       partialize: (state) => ({
         showWatchedMovies: state.showWatchedMovies,
         mediaTypeFilter: state.mediaTypeFilter,
+        genreIds: state.genreIds,
+        minYear: state.minYear,
+        maxYear: state.maxYear,
+        maxRuntime: state.maxRuntime,
+        languages: state.languages,
+        exploreLevel: state.exploreLevel,
+        watchProviderIds: state.watchProviderIds,
+        availableOnly: state.availableOnly,
         lastFetched: state.lastFetched,
         isLoaded: state.isLoaded,
       }),
@@ -145,6 +174,8 @@ export const useShowWatchedMovies = () =>
   useDeckSettingsStore((state) => state.showWatchedMovies);
 export const useMediaTypeFilter = () =>
   useDeckSettingsStore((state) => state.mediaTypeFilter);
+export const useWatchProviderIds = () =>
+  useDeckSettingsStore((state) => state.watchProviderIds);
 export const useDeckSettingsLoaded = () =>
   useDeckSettingsStore((state) => state.isLoaded);
 export const useDeckSettingsHydrated = () =>
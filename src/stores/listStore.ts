@@ -3,6 +3,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { MovieStatus } from '@/lib/db/schema';
+import type { EpisodeProgressSummary } from '@/types/episodeProgress';
 
 interface MovieData {
   title: string;
@@ -27,6 +28,7 @@ export interface ListItem {
   rating: number | null;
   movie: MovieData | null;
   watchStartedAt: string | null;
+  episodeProgress?: EpisodeProgressSummary | null;
 }
 
 interface FilterCounts {
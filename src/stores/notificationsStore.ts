@@ -4,6 +4,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
 export type ReleaseRegion = 'US' | 'RU';
+export type DeliveryMode = 'instant' | 'daily' | 'weekly';
 
 export interface NotificationSettings {
   watchReminders: boolean;
@@ -17,6 +18,13 @@ export interface NotificationSettings {
   // App updates / release notes
   appUpdates: boolean;
   preferredReleaseRegion: ReleaseRegion;
+  // Quiet hours in the user's time zone (null until detected)
+  timeZone: string | null;
+  quietHoursEnabled: boolean;
+  quietHoursStart: number;
+  quietHoursEnd: number;
+  // Release notifications one by one or as a digest
+  deliveryMode: DeliveryMode;
 }
 
 interface NotificationsState extends NotificationSettings {
@@ -41,6 +49,11 @@ const defaultSettings: NotificationSettings = {
   seriesEpisodeReleases: true,
   appUpdates: true,
   preferredReleaseRegion: 'US',
+  timeZone: null,
+  quietHoursEnabled: true,
+  quietHoursStart: 23,
+  quietHoursEnd: 8,
+  deliveryMode: 'instant',
 };
 
 const CACHE_TTL = 10 * 60 * 1000; // 10 minutes
@@ -90,6 +103,11 @@ export const useNotificationsStore = create<NotificationsState>()(
             seriesEpisodeReleases: data.seriesEpisodeReleases ?? true,
             appUpdates: data.appUpdates ?? true,
             preferredReleaseRegion: data.preferredReleaseRegion ?? 'US',
+            timeZone: data.timeZone ?? null,
+            quietHoursEnabled: data.quietHoursEnabled ?? true,
+            quietHoursStart: data.quietHoursStart ?? 23,
+            quietHoursEnd: data.quietHoursEnd ?? 8,
+            deliveryMode: data.deliveryMode ?? 'instant',
             isLoaded: true,
             isLoading: false,
             lastFetched: Date.now(),
@@ -127,6 +145,11 @@ export const useNotificationsStore = create<NotificationsState>()(
               seriesEpisodeReleases: previousState.seriesEpisodeReleases,
               appUpdates: previousState.appUpdates,
               preferredReleaseRegion: previousState.preferredReleaseRegion,
+              timeZone: previousState.timeZone,
+              quietHoursEnabled: previousState.quietHoursEnabled,
+              quietHoursStart: previousState.quietHoursStart,
+              quietHoursEnd: previousState.quietHoursEnd,
+              deliveryMode: previousState.deliveryMode,
               isLoading: false,
             });
             throw new Error('Failed to update settings');
@@ -147,6 +170,11 @@ export const useNotificationsStore = create<NotificationsState>()(
             seriesEpisodeReleases: previousState.seriesEpisodeReleases,
             appUpdates: previousState.appUpdates,
             preferredReleaseRegion: previousState.preferredReleaseRegion,
+            timeZone: previousState.timeZone,
+            quietHoursEnabled: previousState.quietHoursEnabled,
+            quietHoursStart: previousState.quietHoursStart,
+            quietHoursEnd: previousState.quietHoursEnd,
+            deliveryMode: previousState.deliveryMode,
             isLoading: false,
           });
         }
@@ -169,6 +197,11 @@ export const useNotificationsStore = create<NotificationsState>()(
         seriesEpisodeReleases: state.seriesEpisodeReleases,
         appUpdates: state.appUpdates,
         preferredReleaseRegion: state.preferredReleaseRegion,
+        timeZone: state.timeZone,
+        quietHoursEnabled: state.quietHoursEnabled,
+        quietHoursStart: state.quietHoursStart,
+        quietHoursEnd: state.quietHoursEnd,
+        deliveryMode: state.deliveryMode,
         lastFetched: state.lastFetched,
         isLoaded: state.isLoaded,
       }),
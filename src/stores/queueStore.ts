@@ -2,12 +2,15 @@
 
 import { create } from 'zustand';
 import type { Movie } from '@/types/movie';
+import type { UserSlot } from '@/types/room';
 
 export type QueueItemSource = 'priority' | 'base' | 'partner_like';
 
 export interface QueueItem {
   movie: Movie;
   source: QueueItemSource;
+  // Joint taste score from the server (jointly ranked rooms only)
+  score?: number;
 }
 
 interface QueueMeta {
@@ -25,7 +28,7 @@ interface QueueState {
 
   // Room context
   roomCode: string | null;
-  userSlot: 'A' | 'B' | null;
+  userSlot: UserSlot | null;
 
   // Loading state
   isLoading: boolean;
@@ -35,16 +38,25 @@ interface QueueState {
   // Animation lock - prevents queue mutations during card animations
   isAnimating: boolean;
   pendingPartnerLikes: Movie[];
+  pendingSuperLikes: Movie[];
+
+  // Cards hidden by a partner's veto, put back if the veto is undone
+  vetoedItems: QueueItem[];
 
   // Actions
   initializeQueue: (
     roomCode: string,
-    userSlot: 'A' | 'B',
+    userSlot: UserSlot,
     items: QueueItem[],
     meta: QueueMeta
   ) => void;
-  injectPartnerLike: (movie: Movie) => void;
+  injectPartnerLike: (movie: Movie, isSuperLike?: boolean) => void;
+  retractPartnerLike: (movieId: number) => void;
+  removeMovie: (movieId: number) => void;
+  restoreVetoedMovie: (movieId: number) => void;
   consumeNext: () => void;
+  rewind: (movieId: number) => boolean;
+  skipSwiped: (swipedMovieIds: number[]) => void;
   appendMovies: (items: QueueItem[], meta: QueueMeta) => void;
   setLoading: (loading: boolean) => void;
   setFetchingMore: (fetching: boolean) => void;
@@ -67,8 +79,21 @@ const initialState = {
   isFetchingMore: false,
   isAnimating: false,
   pendingPartnerLikes: [] as Movie[],
+  pendingSuperLikes: [] as Movie[],
+  vetoedItems: [] as QueueItem[],
 };
 
+// Super-liked movies become the next card, moving up if already queued further back
+function moveToNext(queue: QueueItem[], currentIndex: number, movie: Movie): QueueItem[] {
+  const existingIndex = queue.findIndex((item) => item.movie?.tmdbId === movie.tmdbId);
+  // Already on top or swiped
+  if (existingIndex !== -1 && existingIndex <= currentIndex + 1) return queue;
+
+  const newQueue = queue.filter((_, index) => index !== existingIndex);
+  newQueue.splice(Math.min(currentIndex + 1, newQueue.length), 0, { movie, source: 'partner_like' });
+  return newQueue;
+}
+
 // Threshold: fetch more when remaining items drops below this
 const FETCH_MORE_THRESHOLD = 5;
 
@@ -82,21 +107,23 @@ export const useQueueStore = create<QueueState>()((set, get) => ({
       queue: items,
       currentIndex: 0,
       meta,
+      vetoedItems: [],
       isInitialized: true,
       isLoading: false,
     });
   },
 
-      injectPartnerLike: (movie) => {
+      injectPartnerLike: (movie, isSuperLike = false) => {
         // Validate movie object
         if (!movie || typeof movie.tmdbId !== 'number') {
           console.error('[QUEUE] injectPartnerLike: invalid movie object', movie);
           return;
         }
 
-        const { queue, currentIndex, isAnimating, pendingPartnerLikes } = get();
+        const { queue, currentIndex, isAnimating, pendingPartnerLikes, pendingSuperLikes } = get();
         console.log('[QUEUE] injectPartnerLike called', {
           movieId: movie.tmdbId,
+          isSuperLike,
           isAnimating,
           currentIndex,
           queueLength: queue.length,
@@ -104,6 +131,15 @@ export const useQueueStore = create<QueueState>()((set, get) => ({
           timestamp: Date.now()
         });
 
+        if (isSuperLike) {
+          if (isAnimating) {
+            set({ pendingSuperLikes: [...pendingSuperLikes, movie] });
+            return;
+          }
+          set({ queue: moveToNext(queue, currentIndex, movie) });
+          return;
+        }
+
         // Check if movie is already in queue, pending, or already swiped
         const isInQueue = queue.some((item) => item.movie?.tmdbId === movie.tmdbId);
         const isPending = pendingPartnerLikes.some((m) => m.tmdbId === movie.tmdbId);
@@ -129,6 +165,53 @@ export const useQueueStore = create<QueueState>()((set, get) => ({
         set({ queue: newQueue });
       },
 
+      // Partner undid a like: drop the injected card unless it was already swiped
+      retractPartnerLike: (movieId) => {
+        const { queue, currentIndex, pendingPartnerLikes, pendingSuperLikes } = get();
+
+        const removeIndex = queue.findIndex(
+          (item, index) =>
+            index >= currentIndex && item.source === 'partner_like' && item.movie?.tmdbId === movieId
+        );
+
+        set({
+          queue: removeIndex === -1 ? queue : queue.filter((_, index) => index !== removeIndex),
+          pendingPartnerLikes: pendingPartnerLikes.filter((m) => m.tmdbId !== movieId),
+          pendingSuperLikes: pendingSuperLikes.filter((m) => m.tmdbId !== movieId),
+        });
+      },
+
+      // Partner vetoed a movie: hide it unless it was already swiped
+      removeMovie: (movieId) => {
+        const { queue, currentIndex, pendingPartnerLikes, pendingSuperLikes, vetoedItems } = get();
+        const isHidden = (item: QueueItem, index: number) =>
+          index >= currentIndex && item.movie?.tmdbId === movieId;
+
+        set({
+          queue: queue.filter((item, index) => !isHidden(item, index)),
+          vetoedItems: [...vetoedItems, ...queue.filter(isHidden)],
+          pendingPartnerLikes: pendingPartnerLikes.filter((m) => m.tmdbId !== movieId),
+          pendingSuperLikes: pendingSuperLikes.filter((m) => m.tmdbId !== movieId),
+        });
+      },
+
+      // Partner undid a veto: bring the hidden card back after the visible ones
+      restoreVetoedMovie: (movieId) => {
+        const { queue, currentIndex, vetoedItems } = get();
+        const item = vetoedItems.find((vetoed) => vetoed.movie.tmdbId === movieId);
+        if (!item) return;
+
+        const remaining = vetoedItems.filter((vetoed) => vetoed !== item);
+        if (queue.some((queued) => queued.movie?.tmdbId === movieId)) {
+          set({ vetoedItems: remaining });
+          return;
+        }
+
+        const newQueue = [...queue];
+        newQueue.splice(Math.min(currentIndex + 4, newQueue.length), 0, item);
+        set({ queue: newQueue, vetoedItems: remaining });
+      },
+
       consumeNext: () => {
         const { currentIndex, queue } = get();
         console.log('[QUEUE] consumeNext', {
@@ -143,11 +226,41 @@ export const useQueueStore = create<QueueState>()((set, get) => ({
         }));
       },
 
+      // Undo: bring back the previous card if it is the one being undone
+      rewind: (movieId) => {
+        const { queue, currentIndex } = get();
+        if (currentIndex === 0 || queue[currentIndex - 1]?.movie?.tmdbId !== movieId) {
+          return false;
+        }
+
+        set({ currentIndex: currentIndex - 1 });
+        return true;
+      },
+
+      // After a reconnect: move past cards the server already has swipes for
+      skipSwiped: (swipedMovieIds) => {
+        const swiped = new Set(swipedMovieIds);
+        const { queue, currentIndex } = get();
+
+        let nextIndex = currentIndex;
+        while (nextIndex < queue.length && swiped.has(queue[nextIndex].movie?.tmdbId)) {
+          nextIndex++;
+        }
+
+        if (nextIndex !== currentIndex) {
+          set({ currentIndex: nextIndex });
+        }
+      },
+
+      // Later pages can repeat partner likes that were already injected live
       appendMovies: (items, meta) => {
-        set((state) => ({
-          queue: [...state.queue, ...items],
-          meta,
-        }));
+        set((state) => {
+          const queuedIds = new Set(state.queue.map((item) => item.movie?.tmdbId));
+          return {
+            queue: [...state.queue, ...items.filter((item) => !queuedIds.has(item.movie?.tmdbId))],
+            meta,
+          };
+        });
       },
 
       setLoading: (loading) => {
@@ -163,10 +276,13 @@ export const useQueueStore = create<QueueState>()((set, get) => ({
       },
 
       processPendingLikes: () => {
-        const { queue, currentIndex, pendingPartnerLikes } = get();
-        if (pendingPartnerLikes.length === 0) return;
+        const { queue, currentIndex, pendingPartnerLikes, pendingSuperLikes } = get();
+        if (pendingPartnerLikes.length === 0 && pendingSuperLikes.length === 0) return;
 
-        const newQueue = [...queue];
+        let newQueue = [...queue];
+        pendingSuperLikes.forEach((movie) => {
+          newQueue = moveToNext(newQueue, currentIndex, movie);
+        });
         pendingPartnerLikes.forEach((movie) => {
           // Double-check movie isn't already in queue
           const isInQueue = newQueue.some((item) => item.movie?.tmdbId === movie.tmdbId);
@@ -176,7 +292,7 @@ export const useQueueStore = create<QueueState>()((set, get) => ({
           }
         });
 
-        set({ queue: newQueue, pendingPartnerLikes: [] });
+        set({ queue: newQueue, pendingPartnerLikes: [], pendingSuperLikes: [] });
       },
 
       getCurrentMovie: () => {
@@ -2,7 +2,9 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { UserSlot } from '@/types/room';
+import type { UserSlot, MemberProgress, RoomSettings, ShortlistItem } from '@/types/room';
+import type { FinalRoundPayload, RematchStartedPayload } from '@/types/socket';
+import type { NegotiatedDeckFilters } from '@/types/deck';
 
 interface RoomState {
   // Room info
@@ -10,21 +12,38 @@ interface RoomState {
   pin: string | null;
   userSlot: UserSlot | null;
   moviePoolSeed: number | null;
+  // Signed ticket from /join, presented on the socket handshake
+  roomTicket: string | null;
+  // The ticket has joined the room once - later connections (reloads, new tabs) resume it
+  hasJoinedRoom: boolean;
 
   // Solo mode
   isSoloMode: boolean;
 
+  // Group settings (max participants, match rule)
+  roomSettings: RoomSettings | null;
+
+  // Deck filters negotiated from the members' settings
+  deckFilters: NegotiatedDeckFilters | null;
+
   // Connection state
   isConnected: boolean;
-  isPartnerConnected: boolean;
   isRoomReady: boolean;
 
   // Match state
   isMatchFound: boolean;
   matchedMovieId: number | null;
 
-  // Partner progress
-  partnerSwipeCount: number;
+  // Per-member progress and connection state
+  members: MemberProgress[];
+
+  // Shortlist mode: matched titles and the current head-to-head round
+  shortlist: ShortlistItem[];
+  finalRound: FinalRoundPayload | null;
+  finalVote: number | null;
+
+  // Another member started a rematch of the matched room
+  rematchOffer: RematchStartedPayload | null;
 
   // Partner has watchlist (triggers queue refetch)
   partnerHasWatchlist: boolean;
@@ -33,14 +52,21 @@ interface RoomState {
   hasHydrated: boolean;
 
   // Actions
-  setRoom: (code: string, pin: string, slot: UserSlot, seed: number) => void;
+  setRoom: (code: string, pin: string, slot: UserSlot, seed: number, ticket?: string) => void;
   setSoloMode: (seed: number) => void;
+  setJoinedRoom: () => void;
   setConnected: (connected: boolean) => void;
-  setPartnerConnected: (connected: boolean) => void;
+  setRoomSettings: (settings: RoomSettings) => void;
+  setDeckFilters: (filters: NegotiatedDeckFilters) => void;
+  setMembers: (members: MemberProgress[]) => void;
+  setMemberConnected: (slot: UserSlot, connected: boolean) => void;
+  setShortlist: (items: ShortlistItem[]) => void;
+  setFinalRound: (round: FinalRoundPayload) => void;
+  setFinalVote: (movieId: number) => void;
   setRoomReady: (ready: boolean) => void;
   setMatchFound: (found: boolean) => void;
   setMatchedMovieId: (id: number | null) => void;
-  setPartnerSwipeCount: (count: number) => void;
+  setRematchOffer: (offer: RematchStartedPayload | null) => void;
   setPartnerHasWatchlist: (has: boolean) => void;
   setHasHydrated: (hydrated: boolean) => void;
   reset: () => void;
@@ -51,13 +77,20 @@ const initialState = {
   pin: null,
   userSlot: null,
   moviePoolSeed: null,
+  roomTicket: null,
+  hasJoinedRoom: false,
   isSoloMode: false,
+  roomSettings: null,
+  deckFilters: null,
   isConnected: false,
-  isPartnerConnected: false,
   isRoomReady: false,
   isMatchFound: false,
   matchedMovieId: null,
-  partnerSwipeCount: 0,
+  members: [] as MemberProgress[],
+  shortlist: [] as ShortlistItem[],
+  finalRound: null,
+  finalVote: null,
+  rematchOffer: null,
   partnerHasWatchlist: false,
   hasHydrated: false,
 };
@@ -67,16 +100,26 @@ export const useRoomStore = create<RoomState>()(
     (set) => ({
       ...initialState,
 
-      setRoom: (code, pin, slot, seed) =>
+      setRoom: (code, pin, slot, seed, ticket) =>
         set({
           roomCode: code,
           pin,
           userSlot: slot,
           moviePoolSeed: seed,
+          roomTicket: ticket ?? null,
+          hasJoinedRoom: false,
           isSoloMode: false,
-          // Reset match state for new session
+          // Reset match and member state for new session
+          isRoomReady: false,
           isMatchFound: false,
           matchedMovieId: null,
+          rematchOffer: null,
+          members: [],
+          roomSettings: null,
+          deckFilters: null,
+          shortlist: [],
+          finalRound: null,
+          finalVote: null,
         }),
 
       setSoloMode: (seed) =>
@@ -86,17 +129,35 @@ export const useRoomStore = create<RoomState>()(
           roomCode: null,
           pin: null,
           userSlot: null,
+          roomTicket: null,
+          hasJoinedRoom: false,
           // Reset match state for new session
           isMatchFound: false,
           matchedMovieId: null,
         }),
 
+      setJoinedRoom: () => set({ hasJoinedRoom: true }),
       setConnected: (connected) => set({ isConnected: connected }),
-      setPartnerConnected: (connected) => set({ isPartnerConnected: connected }),
+      setRoomSettings: (settings) => set({ roomSettings: settings }),
+      setDeckFilters: (filters) => set({ deckFilters: filters }),
+      setMembers: (members) => set({ members }),
+      setMemberConnected: (slot, connected) =>
+        set((state) => {
+          const exists = state.members.some((m) => m.userSlot === slot);
+          return {
+            members: exists
+              ? state.members.map((m) => (m.userSlot === slot ? { ...m, isConnected: connected } : m))
+              : [...state.members, { userSlot: slot, totalSwiped: 0, vetoesUsed: 0, isConnected: connected, isAuthenticated: false }],
+          };
+        }),
+      setShortlist: (items) => set({ shortlist: items }),
+      // Each new round clears the previous vote
+      setFinalRound: (round) => set({ finalRound: round, finalVote: null }),
+      setFinalVote: (movieId) => set({ finalVote: movieId }),
       setRoomReady: (ready) => set({ isRoomReady: ready }),
       setMatchFound: (found) => set({ isMatchFound: found }),
       setMatchedMovieId: (id) => set({ matchedMovieId: id }),
-      setPartnerSwipeCount: (count) => set({ partnerSwipeCount: count }),
+      setRematchOffer: (offer) => set({ rematchOffer: offer }),
       setPartnerHasWatchlist: (has) => set({ partnerHasWatchlist: has }),
       setHasHydrated: (hydrated) => set({ hasHydrated: hydrated }),
 
@@ -110,6 +171,8 @@ export const useRoomStore = create<RoomState>()(
         pin: state.pin,
         userSlot: state.userSlot,
         moviePoolSeed: state.moviePoolSeed,
+        roomTicket: state.roomTicket,
+        hasJoinedRoom: state.hasJoinedRoom,
         isSoloMode: state.isSoloMode,
         isMatchFound: state.isMatchFound,
         matchedMovieId: state.matchedMovieId,
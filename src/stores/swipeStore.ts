@@ -2,6 +2,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { SwipeAction } from '@/types/room';
 
 interface AnonymousSwipe {
   movieId: number;
@@ -29,6 +30,9 @@ interface SwipeState {
   swipedMovieIds: number[];
   likedMovieIds: number[];
 
+  // Exact action per swiped movie, so super-likes and vetoes survive a resume
+  swipeActions: Record<number, SwipeAction>;
+
   // Details of liked movies for displaying in auth prompt
   likedMoviesDetails: LikedMovieDetails[];
 
@@ -41,10 +45,12 @@ interface SwipeState {
   // Hydration state
   hasHydrated: boolean;
 
-  addSwipe: (movieId: number, liked: boolean) => void;
+  addSwipe: (movieId: number, liked: boolean, action?: SwipeAction) => void;
+  removeSwipe: (movieId: number) => void;
   addLikedMovieDetails: (movie: LikedMovieDetails) => void;
   hasSwipedMovie: (movieId: number) => boolean;
   hasLikedMovie: (movieId: number) => boolean;
+  getSwipeAction: (movieId: number) => SwipeAction | undefined;
   getLikedMoviesDetails: () => LikedMovieDetails[];
   reset: () => void;
   setHasHydrated: (hydrated: boolean) => void;
@@ -65,15 +71,17 @@ export const useSwipeStore = create<SwipeState>()(
     (set, get) => ({
       swipedMovieIds: [],
       likedMovieIds: [],
+      swipeActions: {},
       likedMoviesDetails: [],
       anonymousSwipes: [],
       pendingRating: null,
       hasHydrated: false,
 
-      addSwipe: (movieId, liked) =>
+      addSwipe: (movieId, liked, action) =>
         set((state) => ({
           swipedMovieIds: [...state.swipedMovieIds, movieId],
           likedMovieIds: liked ? [...state.likedMovieIds, movieId] : state.likedMovieIds,
+          swipeActions: { ...state.swipeActions, [movieId]: action ?? (liked ? 'like' : 'skip') },
           // Also track for anonymous import
           anonymousSwipes: [
             ...state.anonymousSwipes,
@@ -85,6 +93,21 @@ export const useSwipeStore = create<SwipeState>()(
           ],
         })),
 
+      // Undo: forget the swipe everywhere it was recorded
+      removeSwipe: (movieId) =>
+        set((state) => {
+          const lastAnonymousIndex = state.anonymousSwipes.map((s) => s.movieId).lastIndexOf(movieId);
+          const swipeActions = { ...state.swipeActions };
+          delete swipeActions[movieId];
+          return {
+            swipeActions,
+            swipedMovieIds: state.swipedMovieIds.filter((id) => id !== movieId),
+            likedMovieIds: state.likedMovieIds.filter((id) => id !== movieId),
+            likedMoviesDetails: state.likedMoviesDetails.filter((m) => m.tmdbId !== movieId),
+            anonymousSwipes: state.anonymousSwipes.filter((_, index) => index !== lastAnonymousIndex),
+          };
+        }),
+
       addLikedMovieDetails: (movie) =>
         set((state) => {
           // Avoid duplicates
@@ -100,12 +123,15 @@ export const useSwipeStore = create<SwipeState>()(
 
       hasLikedMovie: (movieId) => get().likedMovieIds.includes(movieId),
 
+      getSwipeAction: (movieId) => get().swipeActions[movieId],
+
       getLikedMoviesDetails: () => get().likedMoviesDetails,
 
       reset: () =>
         set({
           swipedMovieIds: [],
           likedMovieIds: [],
+          swipeActions: {},
           likedMoviesDetails: [],
           // Keep anonymousSwipes for potential import after auth
         }),
@@ -147,6 +173,7 @@ export const useSwipeStore = create<SwipeState>()(
       partialize: (state) => ({
         swipedMovieIds: state.swipedMovieIds,
         likedMovieIds: state.likedMovieIds,
+        swipeActions: state.swipeActions,
         likedMoviesDetails: state.likedMoviesDetails,
         anonymousSwipes: state.anonymousSwipes,
         pendingRating: state.pendingRating,
@@ -0,0 +1,28 @@
+// Limits for user-created lists
+export const MAX_CUSTOM_LISTS = 50;
+export const MAX_CUSTOM_LIST_NAME_LENGTH = 100;
+export const MAX_CUSTOM_LIST_ITEMS = 500;
+
+export interface CustomListSummary {
+  id: string;
+  name: string;
+  itemCount: number;
+  // Whether the title asked about (?tmdbId=) is on this list
+  hasMovie: boolean;
+}
+
+export interface CustomListEntry {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+  title: string | null;
+  titleRu: string | null;
+  posterUrl: string | null;
+  releaseDate: string | null;
+  addedAt: string;
+}
+
+export interface CustomListDetail {
+  id: string;
+  name: string;
+  items: CustomListEntry[];
+}
@@ -0,0 +1,59 @@
+import type { MediaTypeFilter, OriginalLanguage, WatchRegion } from './movie';
+
+// Swipe deck preferences a member brings into a room (stored in deck_settings)
+export interface DeckFilters {
+  mediaTypeFilter: MediaTypeFilter;
+  // Minimum personal rating (1-3) for titles taken from partners' lists
+  minRatingFilter: number | null;
+  // TMDB genre ids - empty means any genre
+  genreIds: number[];
+  minYear: number | null;
+  maxYear: number | null;
+  // Minutes
+  maxRuntime: number | null;
+  // ISO 639-1 original language codes - empty means any language
+  languages: string[];
+  // Only titles streaming on these services - null means anywhere
+  availableOn: WatchAvailability | null;
+}
+
+// Streaming services a member has, in the region from their release settings
+export interface WatchAvailability {
+  region: WatchRegion;
+  // TMDB provider ids
+  providerIds: number[];
+}
+
+export type DeckFilterKey = keyof DeckFilters;
+
+// Filters every member of a room agrees on
+export interface NegotiatedDeckFilters extends DeckFilters {
+  // Preferences dropped because the members had nothing in common
+  conflicts: DeckFilterKey[];
+}
+
+export const DEFAULT_DECK_FILTERS: DeckFilters = {
+  mediaTypeFilter: 'all',
+  minRatingFilter: null,
+  genreIds: [],
+  minYear: null,
+  maxYear: null,
+  maxRuntime: null,
+  languages: [],
+  availableOn: null,
+};
+
+// Year range accepted for deck filters
+export const MIN_DECK_YEAR = 1900;
+
+// Languages offered in the deck settings
+export const DECK_LANGUAGES: OriginalLanguage[] = ['en', 'ru', 'ko', 'ja', 'fr', 'de', 'es', 'it', 'zh', 'hi', 'tr'];
+
+// Solo deck: share of cards (%) picked at random instead of by taste
+export const DEFAULT_EXPLORE_LEVEL = 30;
+
+// Runtime caps offered in the deck settings (minutes)
+export const DECK_MAX_RUNTIMES = [90, 120, 150] as const;
+
+// Services a member can pick for the availability filter
+export const MAX_WATCH_PROVIDERS = 20;
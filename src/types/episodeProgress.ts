@@ -0,0 +1,24 @@
+// An episode's place in a series
+export interface EpisodeRef {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+// Aired episodes of a regular season (specials are left out)
+export interface AiredSeason {
+  seasonNumber: number;
+  episodeCount: number;
+}
+
+export interface SeriesProgress {
+  watched: EpisodeRef[];
+  // The episode to watch next, null once caught up or when TMDB is unreachable
+  nextUp: EpisodeRef | null;
+  airedCount: number;
+}
+
+// Progress shown on list items
+export interface EpisodeProgressSummary {
+  watched: number;
+  total: number;
+}
@@ -0,0 +1,41 @@
+// Formats a user's data can be exported in
+export type ExportFormat = 'json' | 'csv' | 'letterboxd';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'letterboxd'];
+
+export interface ExportTitle {
+  tmdbId: number;
+  imdbId: string | null;
+  mediaType: string;
+  title: string | null;
+  year: number | null;
+}
+
+export interface ExportListItem extends ExportTitle {
+  status: string;
+  rating: number | null;
+  notes: string | null;
+  watchedAt: string | null;
+  addedAt: string;
+}
+
+export interface ExportSwipe extends ExportTitle {
+  action: string;
+  context: string | null;
+  swipedAt: string;
+}
+
+export interface ExportMatch extends ExportTitle {
+  roomCode: string;
+  // The user's 1-3 rating of the evening
+  eveningRating: number | null;
+  matchedAt: string;
+}
+
+// Everything we store about a user's taste
+export interface UserExport {
+  exportedAt: string;
+  lists: ExportListItem[];
+  swipes: ExportSwipe[];
+  matches: ExportMatch[];
+}
@@ -0,0 +1,31 @@
+// Export files accepted by the list import
+export type ListImportFormat = 'letterboxd' | 'imdb' | 'kinopoisk';
+
+export const LIST_IMPORT_FORMATS: ListImportFormat[] = ['letterboxd', 'imdb', 'kinopoisk'];
+
+// Most rows accepted per import
+export const MAX_LIST_IMPORT_ROWS = 2000;
+
+// One title from an export file
+export interface ListImportRow {
+  // Line in the source file (1 = header), for pointing users at unmatched rows
+  line: number;
+  title: string;
+  originalTitle: string | null;
+  year: number | null;
+  imdbId: string | null;
+  kinopoiskId: number | null;
+  mediaType: 'movie' | 'tv';
+  status: 'want_to_watch' | 'watched';
+  // Already mapped onto our 1-3 stars
+  rating: number | null;
+}
+
+export interface ListImportResult {
+  format: ListImportFormat;
+  total: number;
+  imported: number;
+  alreadyInLists: number;
+  // Rows we couldn't resolve - the user can pick the title by hand
+  unmatched: ListImportRow[];
+}
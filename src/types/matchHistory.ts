@@ -0,0 +1,25 @@
+// Another member of the room a match came from
+export interface MatchPartner {
+  name: string;
+  photoUrl: string | null;
+}
+
+export interface MatchHistoryEntry {
+  id: string;
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+  title: string | null;
+  titleRu: string | null;
+  posterUrl: string | null;
+  releaseDate: string | null;
+  roomCode: string;
+  matchedAt: string;
+  partners: MatchPartner[];
+  // Members who swiped without an account
+  guestCount: number;
+  // The user's 1-3 rating of the evening
+  eveningRating: number | null;
+  // The title's status on the user's own lists
+  listStatus: string | null;
+  watchStartedAt: string | null;
+}
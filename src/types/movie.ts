@@ -106,6 +106,8 @@ export interface Movie {
   mediaType: MediaType;
   numberOfSeasons: number | null;
   numberOfEpisodes: number | null;
+  // Where to watch, by region - undefined until fetched from TMDB
+  watchProviders?: WatchProviders | null;
 }
 
 export interface TMDBMovie {
@@ -164,6 +166,97 @@ export interface ParsedReleaseDates {
   digitalRu: string | null;
 }
 
+// ============================================
+// TMDB WATCH PROVIDER TYPES
+// ============================================
+
+// How a provider offers the title - the first three come with a subscription (or for free)
+export type WatchProviderType = 'flatrate' | 'free' | 'ads' | 'rent' | 'buy';
+
+export const WATCH_PROVIDER_TYPES: WatchProviderType[] = ['flatrate', 'free', 'ads', 'rent', 'buy'];
+export const SUBSCRIPTION_PROVIDER_TYPES: WatchProviderType[] = ['flatrate', 'free', 'ads'];
+
+// Regions we keep provider data for (same as the release regions)
+export const WATCH_REGIONS = ['US', 'RU'] as const;
+export type WatchRegion = (typeof WATCH_REGIONS)[number];
+
+export interface TMDBWatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+  display_priority: number;
+}
+
+export type TMDBWatchProviderRegion = {
+  link?: string;
+} & Partial<Record<WatchProviderType, TMDBWatchProvider[]>>;
+
+export interface TMDBWatchProviders {
+  id: number;
+  results: Record<string, TMDBWatchProviderRegion>;
+}
+
+export interface WatchProvider {
+  id: number;
+  name: string;
+  logoPath: string | null;
+  // Every way this provider offers the title
+  types: WatchProviderType[];
+}
+
+export interface RegionWatchProviders {
+  // TMDB (JustWatch) page listing the offers
+  link: string | null;
+  providers: WatchProvider[];
+}
+
+export type WatchProviders = Partial<Record<WatchRegion, RegionWatchProviders>>;
+
+// ============================================
+// TMDB CREDITS TYPES
+// ============================================
+
+export interface TMDBCastMember {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  character: string | null;
+  order: number;
+}
+
+export interface TMDBCrewMember {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  department: string;
+  job: string;
+}
+
+export interface TMDBCredits {
+  id: number;
+  cast: TMDBCastMember[];
+  crew: TMDBCrewMember[];
+}
+
+export interface TMDBKeyword {
+  id: number;
+  name: string;
+}
+
+export interface CreditPerson {
+  id: number; // TMDB person ID
+  name: string;
+  profilePath: string | null;
+  character?: string | null; // Cast only
+}
+
+export interface MovieCredits {
+  directors: CreditPerson[];
+  writers: CreditPerson[];
+  cast: CreditPerson[];
+  keywords: string[];
+}
+
 // ============================================
 // TMDB TV SERIES TYPES
 // ============================================
@@ -193,11 +286,15 @@ export interface TMDBTVSeriesDetails extends TMDBTVSeries {
   genres: { id: number; name: string }[];
   status: string;
   type: string;
+  // Season summaries without episodes
+  seasons?: TMDBSeason[];
+  last_episode_to_air?: TMDBEpisode | null;
 }
 
 export interface TMDBEpisode {
   id: number;
   episode_number: number;
+  season_number?: number;
   name: string;
   overview: string;
   air_date: string | null;
@@ -307,4 +404,6 @@ export interface SearchFilters {
   originalLanguages: OriginalLanguage[];
   runtimeMin: number | null; // minutes (movies only)
   runtimeMax: number | null; // minutes (movies only)
+  // Only titles streaming on the user's services (from the swipe settings)
+  onMyServices: boolean;
 }
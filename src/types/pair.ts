@@ -0,0 +1,46 @@
+export type PairVia = 'room' | 'referral';
+
+export const MAX_PAIR_WATCHLIST_ITEMS = 500;
+
+// How many recent rooms to look through for partner candidates
+export const PAIR_CANDIDATE_ROOMS = 20;
+
+export interface PairPartner {
+  id: string;
+  firstName: string;
+  lastName: string | null;
+  username: string | null;
+  photoUrl: string | null;
+}
+
+export interface PairSummary {
+  id: string;
+  partner: PairPartner;
+  createdVia: PairVia;
+  createdAt: string;
+  watchlistCount: number;
+}
+
+// Someone the user can pair with - a referral link or a shared room
+export interface PairCandidate {
+  partner: PairPartner;
+  via: PairVia;
+}
+
+export interface PairWatchlistItem {
+  tmdbId: number;
+  mediaType: 'movie' | 'tv';
+  title: string | null;
+  titleRu: string | null;
+  posterUrl: string | null;
+  releaseDate: string | null;
+  source: 'match' | 'manual';
+  addedBy: 'me' | 'partner' | null;
+  addedAt: string;
+  watchedBy: 'me' | 'partner' | null;
+  watchedAt: string | null;
+}
+
+export interface PairDetail extends PairSummary {
+  watchlist: PairWatchlistItem[];
+}
@@ -0,0 +1,38 @@
+// Sources the swipe deck can draw from (see src/lib/pool/sources.ts)
+export const POOL_SOURCE_IDS = [
+  'top_rated',
+  'popular',
+  'trending',
+  'recent_releases',
+  'genre',
+  'kinopoisk_top',
+  'curated',
+] as const;
+
+export type PoolSourceId = (typeof POOL_SOURCE_IDS)[number];
+
+// A source picked for a room and its share of the deck
+export interface PoolSourceSelection {
+  source: string;
+  // Relative share of the deck (MIN_POOL_SOURCE_WEIGHT..MAX_POOL_SOURCE_WEIGHT)
+  weight: number;
+  // Genre id for 'genre', collection id for 'curated', null for the rest
+  option: string | null;
+}
+
+export const MIN_POOL_SOURCE_WEIGHT = 1;
+export const MAX_POOL_SOURCE_WEIGHT = 5;
+export const MAX_POOL_SOURCES = 5;
+
+// Used by solo mode and rooms created without a choice
+export const DEFAULT_POOL_SOURCES: PoolSourceSelection[] = [
+  { source: 'top_rated', weight: 2, option: null },
+  { source: 'popular', weight: 1, option: null },
+  { source: 'recent_releases', weight: 1, option: null },
+];
+
+// Response of GET /api/pool-sources
+export interface PoolSourcesResponse {
+  sources: { id: string; requiresOption: boolean }[];
+  collections: { id: string; name: string }[];
+}
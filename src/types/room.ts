@@ -1,6 +1,53 @@
-export type UserSlot = 'A' | 'B';
-export type RoomStatus = 'waiting' | 'active' | 'matched' | 'expired';
-export type SwipeAction = 'like' | 'skip';
+import type { Movie } from './movie';
+
+// Slots are assigned in join order: the room creator is always 'A'
+export const USER_SLOTS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'] as const;
+
+// Group size limits (a pair room is the minimum)
+export const MIN_PARTICIPANTS = 2;
+export const MAX_PARTICIPANTS = USER_SLOTS.length;
+
+// Shortlist mode limits
+export const MIN_SHORTLIST_SIZE = 2;
+export const MAX_SHORTLIST_SIZE = 10;
+export const DEFAULT_SHORTLIST_SIZE = 3;
+export const SWIPE_BUDGETS = [25, 50, 100] as const;
+
+// Super-likes count double towards the match rule; vetoes hide a title from the others
+export const SWIPE_ACTIONS = ['like', 'skip', 'super_like', 'veto'] as const;
+export const LIKE_ACTIONS = ['like', 'super_like'] as const;
+export const VETOES_PER_ROOM = 3;
+
+export type UserSlot = (typeof USER_SLOTS)[number];
+export type RoomStatus = 'waiting' | 'active' | 'final' | 'matched' | 'expired';
+export type SwipeAction = (typeof SWIPE_ACTIONS)[number];
+export type MatchRule = 'unanimous' | 'majority' | 'n_of_m';
+export type MatchMode = 'single' | 'shortlist';
+
+export interface RoomSettings {
+  maxParticipants: number;
+  matchRule: MatchRule;
+  // Required likes for 'n_of_m', null for other rules
+  matchThreshold: number | null;
+  matchMode: MatchMode;
+  // Shortlist mode only: titles needed for the final round, swipes per member before it
+  shortlistSize: number | null;
+  swipeBudget: number | null;
+}
+
+export interface MemberProgress {
+  userSlot: UserSlot;
+  totalSwiped: number;
+  vetoesUsed: number;
+  isConnected: boolean;
+  isAuthenticated: boolean;
+}
+
+export interface ShortlistItem {
+  movieId: number;
+  movie: Movie | null;
+  likeCount: number;
+}
 
 export interface RoomInfo {
   roomCode: string;
@@ -8,8 +55,9 @@ export interface RoomInfo {
   shareUrl: string;
 }
 
-export interface JoinRoomResponse {
+export interface JoinRoomResponse extends RoomSettings {
   roomCode: string;
   userSlot: UserSlot;
   moviePoolSeed: number;
+  ticket: string;
 }
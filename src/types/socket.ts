@@ -1,11 +1,35 @@
-import type { UserSlot, SwipeAction } from './room';
+import type {
+  UserSlot,
+  SwipeAction,
+  RoomStatus,
+  MemberProgress,
+  RoomSettings,
+  ShortlistItem,
+} from './room';
 import type { Movie } from './movie';
+import type { NegotiatedDeckFilters } from './deck';
 
 // Client → Server events
 export interface ClientToServerEvents {
   join_room: (payload: JoinRoomPayload) => void;
+  // Rejoin after a dropped connection - acknowledges with the member's saved state
+  resume_room: (
+    payload: JoinRoomPayload,
+    callback: (state: ResumeRoomResponse | null) => void
+  ) => void;
   swipe: (payload: SwipePayload) => void;
+  // Take back the member's last swipe - acknowledges with its movie id, or null if nothing was undone
+  undo_swipe: (payload: UndoSwipePayload, callback: (movieId: number | null) => void) => void;
   leave_room: (payload: LeaveRoomPayload) => void;
+  // Room creator starts a group room before every slot is filled
+  start_room: (payload: StartRoomPayload) => void;
+  // Shortlist mode: pick one of the two titles in the current head-to-head round
+  final_vote: (payload: FinalVotePayload) => void;
+  // Continue a matched room in a linked room - acknowledges with the member's place in it
+  request_rematch: (
+    payload: RematchPayload,
+    callback: (rematch: RematchResponse | null) => void
+  ) => void;
 }
 
 // Server → Client events
@@ -13,32 +37,95 @@ export interface ServerToClientEvents {
   user_joined: (payload: UserJoinedPayload) => void;
   user_left: (payload: UserLeftPayload) => void;
   room_ready: (payload: RoomReadyPayload) => void;
+  // Full member list - sent on every join/leave
+  room_members: (payload: RoomMembersPayload) => void;
   swipe_progress: (payload: SwipeProgressPayload) => void;
   match_found: (payload: MatchFoundPayload) => void;
+  // Shortlist mode: a new title matched
+  shortlist_updated: (payload: ShortlistUpdatedPayload) => void;
+  // Shortlist mode: next head-to-head round of the final
+  final_round: (payload: FinalRoundPayload) => void;
   room_expired: () => void;
   error: (payload: ErrorPayload) => void;
   // Partner liked a movie - inject into queue
   partner_liked: (payload: PartnerLikedPayload) => void;
+  // Partner undid a like - drop it from the queue if not swiped yet
+  partner_like_retracted: (payload: PartnerLikeRetractedPayload) => void;
+  // Partner vetoed a movie - hide it for the rest of the room
+  partner_vetoed: (payload: PartnerVetoedPayload) => void;
+  // Partner undid a veto - the title is back in play
+  partner_veto_retracted: (payload: PartnerVetoedPayload) => void;
   // Partner's auth status changed
   partner_auth_changed: (payload: PartnerAuthChangedPayload) => void;
+  // Another member started a rematch - join it with request_rematch
+  rematch_started: (payload: RematchStartedPayload) => void;
+}
+
+// Per-socket data - travels with the socket, visible to fetchSockets() on every server.
+// Set from the verified room ticket at handshake; payloads never carry the member's identity.
+export interface SocketData {
+  roomId?: string;
+  roomCode?: string;
+  userSlot?: UserSlot;
+  userId?: string | null;
+}
+
+// Handshake auth sent by the client
+export interface SocketAuth {
+  ticket: string;
 }
 
 // Payload types
 export interface JoinRoomPayload {
   roomCode: string;
-  userSlot: UserSlot;
+}
+
+export interface ResumeRoomResponse {
+  status: RoomStatus;
+  matchedMovieId: number | null;
+  progress: MemberProgress | null;
+  // Movies this member already swiped in the room (server-side record)
+  swipedMovieIds: number[];
+  // Each swipe consumes one queue item, so this is the member's position in their queue
+  queuePosition: number;
 }
 
 export interface SwipePayload {
   roomCode: string;
   movieId: number;
   action: SwipeAction;
-  userSlot: UserSlot;
+}
+
+export interface UndoSwipePayload {
+  roomCode: string;
 }
 
 export interface LeaveRoomPayload {
   roomCode: string;
+}
+
+export interface StartRoomPayload {
+  roomCode: string;
+}
+
+export interface FinalVotePayload {
+  roomCode: string;
+  movieId: number;
+}
+
+export interface RematchPayload {
+  roomCode: string;
+  // Keep the previous match out of the new round ("not tonight")
+  rejectMatch?: boolean;
+}
+
+// Same shape the /join route returns, for the member's slot in the rematch room
+export interface RematchResponse {
+  roomCode: string;
+  pin: string;
   userSlot: UserSlot;
+  moviePoolSeed: number;
+  ticket: string;
 }
 
 export interface UserJoinedPayload {
@@ -53,15 +140,35 @@ export interface RoomReadyPayload {
   roomCode: string;
 }
 
+export interface RoomMembersPayload extends RoomSettings {
+  members: MemberProgress[];
+  // Deck filters the members agreed on (changes as signed-in members join)
+  deckFilters: NegotiatedDeckFilters;
+}
+
 export interface SwipeProgressPayload {
   userSlot: UserSlot;
   totalSwiped: number;
+  // Progress of every member, including the one who just swiped
+  members: MemberProgress[];
 }
 
 export interface MatchFoundPayload {
   movieId: number;
 }
 
+export interface ShortlistUpdatedPayload {
+  items: ShortlistItem[];
+  shortlistSize: number | null;
+}
+
+export interface FinalRoundPayload {
+  round: number;
+  totalRounds: number;
+  // Current champion first, then the challenger
+  candidates: ShortlistItem[];
+}
+
 export interface ErrorPayload {
   message: string;
 }
@@ -69,9 +176,24 @@ export interface ErrorPayload {
 export interface PartnerLikedPayload {
   movieId: number;
   movie: Movie;
+  // Super-likes jump to the front of the queue
+  isSuperLike: boolean;
+}
+
+export interface PartnerLikeRetractedPayload {
+  movieId: number;
+}
+
+export interface PartnerVetoedPayload {
+  movieId: number;
 }
 
 export interface PartnerAuthChangedPayload {
   isAuthenticated: boolean;
   hasWantToWatchList: boolean;
 }
+
+export interface RematchStartedPayload {
+  // The previous match was turned down for tonight
+  rejectedMatch: boolean;
+}
@@ -0,0 +1,10 @@
+import type { NotificationType, TitleSubscriptionState } from '@/lib/db/schema';
+
+// One notification type of a title as shown in its details
+export interface TitleNotificationSetting {
+  type: NotificationType;
+  // The user's global setting for this type
+  defaultEnabled: boolean;
+  // Per-title override, null when the global setting applies
+  state: TitleSubscriptionState | null;
+}